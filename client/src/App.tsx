@@ -6,11 +6,15 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import Header from "@/components/Header";
 import WheelMenu from "@/components/WheelMenu";
 import MineralSearchPage from "@/pages/mineral-search";
+import PropertySearchPage from "@/pages/property-search";
+import IdentifyPage from "@/pages/identify";
 import GroupsSeriesSearchPage from "@/pages/groups-series-search";
 import LocalitySearchPage from "@/pages/locality-search";
 import StrunzPage from "@/pages/strunz";
 import SettingsPage from "@/pages/settings";
 import MineralDetailPage from "@/pages/mineral-detail";
+import ConflictReviewPage from "@/pages/conflict-review";
+import EnrichmentReviewPage from "@/pages/enrichment-review";
 import NotFound from "@/pages/not-found";
 
 function HomePage() {
@@ -22,10 +26,14 @@ function Router() {
     <Switch>
       <Route path="/" component={HomePage} />
       <Route path="/search" component={MineralSearchPage} />
+      <Route path="/properties" component={PropertySearchPage} />
+      <Route path="/identify" component={IdentifyPage} />
       <Route path="/groups-series" component={GroupsSeriesSearchPage} />
       <Route path="/locality" component={LocalitySearchPage} />
       <Route path="/strunz" component={StrunzPage} />
       <Route path="/settings" component={SettingsPage} />
+      <Route path="/conflicts" component={ConflictReviewPage} />
+      <Route path="/enrichment-review" component={EnrichmentReviewPage} />
       <Route path="/mineral/:id" component={MineralDetailPage} />
       <Route component={NotFound} />
     </Switch>
@@ -0,0 +1,122 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Link } from 'wouter';
+import { History } from 'lucide-react';
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import type { MineralHistoryEntry } from '@shared/mineral-history';
+
+const PAGE_SIZE = 20;
+
+// imaFormula -> "Ima formula"
+function fieldLabel(field: string): string {
+  const words = field.replace(/([a-z0-9])([A-Z])/g, '$1 $2').toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return '—';
+  if (typeof value === 'string') return value;
+  return JSON.stringify(value);
+}
+
+function HistoryPage({ mindatId, before, onMore }: {
+  mindatId: number;
+  before?: string;
+  onMore?: (before: string) => void; // Only the last page offers more
+}) {
+  const { data, isLoading } = useQuery<{ results: MineralHistoryEntry[] }>({
+    queryKey: [`/api/mindat/minerals/${mindatId}/history?limit=${PAGE_SIZE}${before ? `&before=${encodeURIComponent(before)}` : ''}`],
+  });
+
+  if (isLoading) {
+    return <li className="pl-6 text-sm text-muted-foreground">Loading history…</li>;
+  }
+
+  const entries = data?.results ?? [];
+  if (entries.length === 0 && !before) {
+    return <li className="pl-6 text-sm text-muted-foreground">No changes recorded since this mineral was first synced.</li>;
+  }
+
+  return (
+    <>
+      {entries.map(entry => (
+        <li key={entry.detectedAt} className="relative pl-6" data-testid={`history-entry-${entry.detectedAt}`}>
+          <span className="absolute -left-[5px] top-1.5 h-2.5 w-2.5 rounded-full bg-primary" />
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <span className="font-medium">{new Date(entry.detectedAt).toLocaleString()}</span>
+            <Badge variant={entry.changeType === 'modified' ? 'secondary' : 'destructive'}>{entry.changeType}</Badge>
+            {entry.jobId && (
+              <span className="text-xs text-muted-foreground">
+                job #{entry.jobId}{entry.jobType ? ` · ${entry.jobType}` : ''}
+              </span>
+            )}
+          </div>
+          {entry.updtTime && (
+            <p className="text-xs text-muted-foreground">Edited on Mindat {new Date(entry.updtTime).toLocaleString()}</p>
+          )}
+          {entry.mergedIntoId !== null && (
+            <p className="text-sm">
+              Merged into{' '}
+              <Link href={`/mineral/${entry.mergedIntoId}`} className="text-primary underline">#{entry.mergedIntoId}</Link>
+            </p>
+          )}
+          {entry.notes && <p className="text-xs text-muted-foreground">{entry.notes}</p>}
+          {entry.fields.length > 0 && (
+            <table className="mt-2 w-full text-xs">
+              <tbody>
+                {entry.fields.map(change => (
+                  <tr key={change.field} className="align-top border-t">
+                    <td className="py-1 pr-2 text-muted-foreground whitespace-nowrap">{fieldLabel(change.field)}</td>
+                    <td className="py-1 pr-2 font-mono line-through text-destructive/80 break-all">{formatValue(change.oldValue)}</td>
+                    <td className="py-1 font-mono text-primary break-all">{formatValue(change.newValue)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </li>
+      ))}
+      {onMore && entries.length === PAGE_SIZE && (
+        <li className="pl-6">
+          <Button variant="ghost" size="sm" onClick={() => onMore(entries[entries.length - 1].detectedAt)}>
+            Show older changes
+          </Button>
+        </li>
+      )}
+    </>
+  );
+}
+
+/**
+ * Timeline of what Mindat changed on a mineral, one entry per sync, with the
+ * old and new value of each field.
+ */
+export default function MineralHistory({ mindatId }: { mindatId: number }) {
+  // Each "Show older" click appends a page starting before the last entry shown
+  const [pages, setPages] = useState<(string | undefined)[]>([undefined]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="h-5 w-5" />
+          Change History
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <ol className="space-y-4 border-l ml-1 pl-0" data-testid="list-mineral-history">
+          {pages.map((before, index) => (
+            <HistoryPage
+              key={before ?? 'latest'}
+              mindatId={mindatId}
+              before={before}
+              onMore={index === pages.length - 1 ? (next) => setPages([...pages, next]) : undefined}
+            />
+          ))}
+        </ol>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,354 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { CalendarClock, ChevronDown, ChevronRight, Play, Plus, Trash2 } from 'lucide-react';
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import type { SyncSchedule } from '@shared/schema';
+import type { JobSummary } from '@shared/sync-events';
+
+const SCHEDULES_KEY = ['/api/sync/schedules'];
+
+export const JOB_STATUS_VARIANTS: Record<string, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  pending: 'outline',
+  running: 'default',
+  completed: 'secondary',
+  failed: 'destructive',
+  cancelled: 'outline',
+  skipped: 'outline',
+};
+
+interface ScheduleSummary extends SyncSchedule {
+  nextRunAt: string | null;
+  lastRun: JobSummary | null;
+  running: boolean;
+}
+
+interface SchedulesResponse {
+  results: ScheduleSummary[];
+  jobTypes: string[];
+}
+
+// apiRequest errors read "409: {json}"; show the server's message
+function describeError(error: unknown): string {
+  const message = error instanceof Error ? error.message : String(error);
+  const body = message.replace(/^\d+:\s*/, '');
+  try {
+    return JSON.parse(body).error ?? body;
+  } catch {
+    return body;
+  }
+}
+
+function formatTime(value: string | Date | null | undefined): string {
+  return value ? new Date(value).toLocaleString() : '—';
+}
+
+function parseParams(text: string): Record<string, unknown> {
+  const parsed = text.trim() ? JSON.parse(text) : {};
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    throw new Error('Parameters must be a JSON object');
+  }
+  return parsed;
+}
+
+function RunHistory({ scheduleId }: { scheduleId: number }) {
+  const { data, isLoading } = useQuery<{ results: JobSummary[] }>({
+    queryKey: [`/api/sync/schedules/${scheduleId}/runs?limit=10`],
+    refetchInterval: 10000,
+    staleTime: 0,
+  });
+
+  if (isLoading) {
+    return <p className="text-xs text-muted-foreground">Loading runs…</p>;
+  }
+  if (!data?.results.length) {
+    return <p className="text-xs text-muted-foreground">No runs yet</p>;
+  }
+
+  return (
+    <ul className="text-xs space-y-1" data-testid={`list-schedule-runs-${scheduleId}`}>
+      {data.results.map(run => (
+        <li key={run.id} className="flex items-center gap-2">
+          <Badge variant={JOB_STATUS_VARIANTS[run.status] ?? 'outline'} className="w-20 justify-center">
+            {run.status}
+          </Badge>
+          <span className="text-muted-foreground">#{run.id}</span>
+          <span>{formatTime(run.createdAt)}</span>
+          <span className="text-muted-foreground">
+            {run.recordsProcessed ?? 0} processed{run.recordsFailed ? `, ${run.recordsFailed} failed` : ''}
+          </span>
+          {run.errorMessage && <span className="text-destructive truncate">{run.errorMessage}</span>}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+function ScheduleRow({ schedule }: { schedule: ScheduleSummary }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [cronExpression, setCronExpression] = useState(schedule.cronExpression);
+  const [paramsText, setParamsText] = useState(JSON.stringify(schedule.params ?? {}, null, 2));
+  const [showRuns, setShowRuns] = useState(false);
+
+  const dirty = cronExpression !== schedule.cronExpression
+    || paramsText !== JSON.stringify(schedule.params ?? {}, null, 2);
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: SCHEDULES_KEY });
+    queryClient.invalidateQueries({ queryKey: [`/api/sync/schedules/${schedule.id}/runs?limit=10`] });
+  };
+
+  const update = useMutation({
+    mutationFn: async (changes: Record<string, unknown>) => {
+      const response = await apiRequest('PATCH', `/api/sync/schedules/${schedule.id}`, changes);
+      return response.json();
+    },
+    onSuccess: refresh,
+    onError: (error) => {
+      toast({ title: "Schedule not saved", description: describeError(error), variant: "destructive" });
+    },
+  });
+
+  const runNow = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', `/api/sync/schedules/${schedule.id}/run`);
+      return response.json();
+    },
+    onSuccess: (data) => {
+      toast({ title: "Run queued", description: `${schedule.name} queued as job #${data.jobId}` });
+      refresh();
+    },
+    onError: (error) => {
+      toast({ title: "Run not started", description: describeError(error), variant: "destructive" });
+    },
+  });
+
+  const remove = useMutation({
+    mutationFn: async () => {
+      await apiRequest('DELETE', `/api/sync/schedules/${schedule.id}`);
+    },
+    onSuccess: refresh,
+    onError: (error) => {
+      toast({ title: "Schedule not deleted", description: describeError(error), variant: "destructive" });
+    },
+  });
+
+  const handleSave = () => {
+    try {
+      update.mutate({ cronExpression, params: parseParams(paramsText) });
+    } catch (error) {
+      toast({ title: "Invalid parameters", description: describeError(error), variant: "destructive" });
+    }
+  };
+
+  return (
+    <div className="rounded border p-4 space-y-3" data-testid={`schedule-${schedule.id}`}>
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <div className="font-medium flex items-center gap-2">
+            {schedule.name}
+            <span className="font-mono text-xs text-muted-foreground">{schedule.jobType}</span>
+          </div>
+          {schedule.description && (
+            <p className="text-xs text-muted-foreground">{schedule.description}</p>
+          )}
+        </div>
+        <div className="flex items-center gap-2">
+          <Label htmlFor={`schedule-enabled-${schedule.id}`} className="text-xs">Enabled</Label>
+          <Switch
+            id={`schedule-enabled-${schedule.id}`}
+            checked={schedule.enabled}
+            onCheckedChange={(enabled) => update.mutate({ enabled })}
+            data-testid={`switch-schedule-enabled-${schedule.id}`}
+          />
+        </div>
+      </div>
+
+      <div className="grid gap-3 sm:grid-cols-2">
+        <div className="space-y-1">
+          <Label className="text-xs">Cron expression</Label>
+          <Input
+            value={cronExpression}
+            onChange={(e) => setCronExpression(e.target.value)}
+            className="font-mono"
+            data-testid={`input-schedule-cron-${schedule.id}`}
+          />
+          <p className="text-xs text-muted-foreground">
+            Next run: {schedule.enabled ? formatTime(schedule.nextRunAt) : 'disabled'}
+          </p>
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">Job parameters (JSON)</Label>
+          <Textarea
+            value={paramsText}
+            onChange={(e) => setParamsText(e.target.value)}
+            className="font-mono text-xs"
+            rows={3}
+            data-testid={`input-schedule-params-${schedule.id}`}
+          />
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <Button size="sm" onClick={handleSave} disabled={!dirty || update.isPending}>
+          Save
+        </Button>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => runNow.mutate()}
+          disabled={schedule.running || runNow.isPending}
+          data-testid={`button-schedule-run-${schedule.id}`}
+        >
+          <Play className="h-3 w-3 mr-1" />
+          {schedule.running ? 'Running…' : 'Run now'}
+        </Button>
+        <Button
+          size="sm"
+          variant="ghost"
+          onClick={() => window.confirm(`Delete schedule "${schedule.name}"?`) && remove.mutate()}
+          disabled={remove.isPending}
+        >
+          <Trash2 className="h-3 w-3 mr-1" />
+          Delete
+        </Button>
+        <span className="ml-auto text-xs text-muted-foreground flex items-center gap-2">
+          Last run:
+          {schedule.lastRun ? (
+            <>
+              <Badge variant={JOB_STATUS_VARIANTS[schedule.lastRun.status] ?? 'outline'}>{schedule.lastRun.status}</Badge>
+              {formatTime(schedule.lastRun.createdAt)}
+            </>
+          ) : ' never'}
+        </span>
+      </div>
+
+      <button
+        type="button"
+        className="text-xs text-muted-foreground flex items-center gap-1"
+        onClick={() => setShowRuns(!showRuns)}
+      >
+        {showRuns ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+        Run history
+      </button>
+      {showRuns && <RunHistory scheduleId={schedule.id} />}
+    </div>
+  );
+}
+
+function NewScheduleForm({ jobTypes }: { jobTypes: string[] }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [name, setName] = useState('');
+  const [jobType, setJobType] = useState('');
+  const [cronExpression, setCronExpression] = useState('0 2 * * *');
+  const [paramsText, setParamsText] = useState('{}');
+
+  const create = useMutation({
+    mutationFn: async (schedule: Record<string, unknown>) => {
+      const response = await apiRequest('POST', '/api/sync/schedules', schedule);
+      return response.json();
+    },
+    onSuccess: () => {
+      setName('');
+      setParamsText('{}');
+      queryClient.invalidateQueries({ queryKey: SCHEDULES_KEY });
+    },
+    onError: (error) => {
+      toast({ title: "Schedule not created", description: describeError(error), variant: "destructive" });
+    },
+  });
+
+  const handleCreate = () => {
+    try {
+      create.mutate({ name, jobType, cronExpression, params: parseParams(paramsText) });
+    } catch (error) {
+      toast({ title: "Invalid parameters", description: describeError(error), variant: "destructive" });
+    }
+  };
+
+  return (
+    <div className="rounded border border-dashed p-4 space-y-3">
+      <div className="grid gap-3 sm:grid-cols-3">
+        <Input placeholder="Name" value={name} onChange={(e) => setName(e.target.value)} data-testid="input-new-schedule-name" />
+        <Select value={jobType} onValueChange={setJobType}>
+          <SelectTrigger data-testid="select-new-schedule-job-type">
+            <SelectValue placeholder="Job type" />
+          </SelectTrigger>
+          <SelectContent>
+            {jobTypes.map(type => (
+              <SelectItem key={type} value={type}>{type}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Input
+          placeholder="Cron expression"
+          value={cronExpression}
+          onChange={(e) => setCronExpression(e.target.value)}
+          className="font-mono"
+        />
+      </div>
+      <Textarea
+        value={paramsText}
+        onChange={(e) => setParamsText(e.target.value)}
+        className="font-mono text-xs"
+        rows={2}
+        placeholder='{"sampleSize": 1000}'
+      />
+      <Button size="sm" onClick={handleCreate} disabled={!name || !jobType || create.isPending} data-testid="button-create-schedule">
+        <Plus className="h-3 w-3 mr-1" />
+        Add schedule
+      </Button>
+    </div>
+  );
+}
+
+export default function SyncSchedules() {
+  const [adding, setAdding] = useState(false);
+  const { data, isLoading } = useQuery<SchedulesResponse>({
+    queryKey: SCHEDULES_KEY,
+    refetchInterval: 15000,
+    staleTime: 0,
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarClock className="h-5 w-5" />
+          Schedules
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          Scheduled syncs run in server time. A run that comes due while the previous one is still going is skipped.
+        </p>
+
+        {isLoading && <p className="text-sm text-muted-foreground">Loading schedules…</p>}
+
+        {data?.results.map(schedule => (
+          // Remount after a save so the inputs pick up the stored values
+          <ScheduleRow key={`${schedule.id}-${schedule.updatedAt}`} schedule={schedule} />
+        ))}
+
+        {adding ? (
+          <NewScheduleForm jobTypes={data?.jobTypes ?? []} />
+        ) : (
+          <Button variant="outline" size="sm" onClick={() => setAdding(true)} data-testid="button-add-schedule">
+            <Plus className="h-3 w-3 mr-1" />
+            New schedule
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,5 +1,5 @@
 import { useState } from 'react';
-import { Search, Grid3x3, MapPin, Settings, Moon, Sun, Layers } from 'lucide-react';
+import { Search, Grid3x3, MapPin, Settings, Moon, Sun, Layers, SlidersHorizontal, Microscope, Scale, ClipboardCheck } from 'lucide-react';
 import { useLocation } from 'wouter';
 
 interface WheelMenuItem {
@@ -11,9 +11,13 @@ interface WheelMenuItem {
 
 const menuItems: WheelMenuItem[] = [
   { id: 'search', icon: Search, label: 'Mineral Search', route: '/search' },
+  { id: 'properties', icon: SlidersHorizontal, label: 'Property Search', route: '/properties' },
+  { id: 'identify', icon: Microscope, label: 'Identify', route: '/identify' },
   { id: 'groups-series', icon: Layers, label: 'Groups & Series', route: '/groups-series' },
   { id: 'strunz', icon: Grid3x3, label: 'Strunz', route: '/strunz' },
   { id: 'locality', icon: MapPin, label: 'Locality', route: '/locality' },
+  { id: 'conflicts', icon: Scale, label: 'Conflict Review', route: '/conflicts' },
+  { id: 'enrichment-review', icon: ClipboardCheck, label: 'Enrichment Review', route: '/enrichment-review' },
   { id: 'settings', icon: Settings, label: 'Settings', route: '/settings' },
 ];
 
@@ -0,0 +1,77 @@
+import { useEffect, useRef, useState } from 'react';
+
+export type ReviewQueueActions = Record<string, () => void>;
+
+/**
+ * Cursor, selection and keyboard handling shared by the review pages.
+ * j/k (or the arrow keys) move the cursor, x ticks the highlighted row and
+ * Escape clears the ticks; any other key is looked up in `actions`.
+ */
+export function useReviewQueue<T extends { id: number }>(rows: T[], resetKeys: unknown[], actions: ReviewQueueActions) {
+  const [cursor, setCursor] = useState(0);
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const rowRefs = useRef<Map<number, HTMLTableRowElement>>(new Map());
+
+  const current: T | undefined = rows[Math.min(cursor, rows.length - 1)];
+
+  // A new filter or page starts from the top with nothing ticked
+  useEffect(() => {
+    setCursor(0);
+    setSelected(new Set());
+  }, resetKeys);
+
+  useEffect(() => {
+    if (current) rowRefs.current.get(current.id)?.scrollIntoView({ block: 'nearest' });
+  }, [current?.id]);
+
+  // Actions act on the ticked rows, or on the highlighted one when none are ticked
+  const targetIds = () => selected.size > 0 ? Array.from(selected) : current ? [current.id] : [];
+
+  const toggle = (id: number) => {
+    const next = new Set(selected);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    setSelected(next);
+  };
+
+  const rowRef = (id: number) => (element: HTMLTableRowElement | null) => {
+    if (element) rowRefs.current.set(id, element);
+    else rowRefs.current.delete(id);
+  };
+
+  useEffect(() => {
+    const handleKey = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement;
+      if (event.metaKey || event.ctrlKey || event.altKey) return;
+      if (target.closest('input, textarea, select, [role="combobox"]')) return;
+
+      switch (event.key) {
+        case 'j':
+        case 'ArrowDown':
+          setCursor(index => Math.min(index + 1, rows.length - 1));
+          break;
+        case 'k':
+        case 'ArrowUp':
+          setCursor(index => Math.max(index - 1, 0));
+          break;
+        case 'x':
+          if (current) toggle(current.id);
+          break;
+        case 'Escape':
+          setSelected(new Set());
+          break;
+        default: {
+          const action = actions[event.key];
+          if (!action) return;
+          action();
+        }
+      }
+      event.preventDefault();
+    };
+
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  });
+
+  return { cursor, setCursor, current, selected, setSelected, toggle, targetIds, rowRef };
+}
@@ -0,0 +1,227 @@
+import { useCallback, useEffect, useReducer, useRef } from 'react';
+import type { SyncJobLog } from '@shared/schema';
+import type { JobSummary, SyncRecordChange, SyncStreamMessage } from '@shared/sync-events';
+
+const MAX_FEED_ENTRIES = 50;
+
+export type LiveSyncJob = Pick<
+  JobSummary,
+  'id' | 'jobType' | 'status' | 'recordsProcessed' | 'recordsFailed' | 'recordsTotal' | 'percentComplete' | 'etaSeconds' | 'errorMessage'
+>;
+
+export interface SyncErrorEntry {
+  key: string;
+  at: string;
+  message: string;
+}
+
+export interface SyncRecordEntry extends SyncRecordChange {
+  key: string;
+  at: string;
+}
+
+interface SyncFeedState {
+  job: LiveSyncJob | null;
+  errors: SyncErrorEntry[];
+  records: SyncRecordEntry[];
+}
+
+type SyncFeedAction =
+  | { type: 'message'; message: SyncStreamMessage }
+  | { type: 'follow'; job: LiveSyncJob }
+  | { type: 'refresh'; job: LiveSyncJob }
+  | { type: 'errorsLoaded'; jobId: number; errors: SyncErrorEntry[] };
+
+let entryCounter = 0;
+const nextKey = () => String(++entryCounter);
+
+export function isActiveJob(job: LiveSyncJob | null): boolean {
+  return job?.status === 'pending' || job?.status === 'running';
+}
+
+function toLiveJob(job: JobSummary): LiveSyncJob {
+  return {
+    id: job.id,
+    jobType: job.jobType,
+    status: job.status,
+    recordsProcessed: job.recordsProcessed,
+    recordsFailed: job.recordsFailed,
+    recordsTotal: job.recordsTotal,
+    percentComplete: job.percentComplete,
+    etaSeconds: job.etaSeconds,
+    errorMessage: job.errorMessage,
+  };
+}
+
+function newJob(id: number, jobType: string, status: string): LiveSyncJob {
+  return {
+    id,
+    jobType,
+    status,
+    recordsProcessed: 0,
+    recordsFailed: 0,
+    recordsTotal: null,
+    percentComplete: null,
+    etaSeconds: null,
+    errorMessage: null,
+  };
+}
+
+// Same job: refresh its figures. Different job: start with empty feeds.
+function adopt(state: SyncFeedState, job: LiveSyncJob): SyncFeedState {
+  if (state.job?.id === job.id) {
+    return { ...state, job: { ...state.job, ...job } };
+  }
+  return { job, errors: [], records: [] };
+}
+
+function pushError(state: SyncFeedState, at: string, message: string): SyncFeedState {
+  return {
+    ...state,
+    errors: [{ key: nextKey(), at, message }, ...state.errors].slice(0, MAX_FEED_ENTRIES),
+  };
+}
+
+function reducer(state: SyncFeedState, action: SyncFeedAction): SyncFeedState {
+  if (action.type === 'follow') {
+    // The stream may already have delivered this job's queued/started events
+    return state.job?.id === action.job.id ? state : adopt(state, action.job);
+  }
+
+  if (action.type === 'refresh') {
+    return adopt(state, action.job);
+  }
+
+  if (action.type === 'errorsLoaded') {
+    if (state.job?.id !== action.jobId) return state;
+    // Keep anything streamed after the log snapshot was taken
+    const newest = action.errors[0]?.at ?? '';
+    const live = state.errors.filter(entry => entry.at > newest);
+    return { ...state, errors: [...live, ...action.errors].slice(0, MAX_FEED_ENTRIES) };
+  }
+
+  const message = action.message;
+
+  if (message.type === 'snapshot') {
+    const current = state.job && message.jobs.find(job => job.id === state.job!.id);
+    if (current) return adopt(state, toLiveJob(current));
+    if (isActiveJob(state.job)) return state;
+
+    const next = message.jobs.find(job => job.status === 'running') ?? message.jobs[0];
+    return next ? adopt(state, toLiveJob(next)) : state;
+  }
+
+  // Follow a new job once the one on screen has finished
+  if (message.jobId !== state.job?.id) {
+    if ((message.type === 'queued' || message.type === 'started') && !isActiveJob(state.job)) {
+      return adopt(state, newJob(message.jobId, message.jobType, message.type === 'queued' ? 'pending' : 'running'));
+    }
+    return state;
+  }
+
+  const job = state.job!;
+
+  switch (message.type) {
+    case 'queued':
+      return { ...state, job: { ...job, status: 'pending' } };
+    case 'started':
+      return { ...state, job: { ...job, status: 'running', errorMessage: null } };
+    case 'progress':
+      return {
+        ...state,
+        job: {
+          ...job,
+          recordsProcessed: message.processed,
+          recordsFailed: message.failed,
+          recordsTotal: message.total,
+          percentComplete: message.percentComplete,
+          etaSeconds: message.etaSeconds,
+        },
+      };
+    case 'record': {
+      const { type, jobId, jobType, at, ...change } = message;
+      return {
+        ...state,
+        records: [{ ...change, key: nextKey(), at }, ...state.records].slice(0, MAX_FEED_ENTRIES),
+      };
+    }
+    case 'error':
+      return pushError(state, message.at, message.message);
+    case 'log':
+      return message.level === 'error' ? pushError(state, message.at, message.message) : state;
+    case 'finished':
+      return {
+        ...state,
+        job: {
+          ...job,
+          status: message.status,
+          errorMessage: message.errorMessage,
+          percentComplete: message.status === 'completed' ? 100 : job.percentComplete,
+          etaSeconds: null,
+        },
+      };
+  }
+}
+
+/**
+ * Follows sync jobs over /api/sync/events. Shows the running job (or the
+ * one passed to follow()) with its progress, recent record changes and an
+ * error feed that is seeded from the job's stored log.
+ */
+export function useSyncEvents() {
+  const [state, dispatch] = useReducer(reducer, { job: null, errors: [], records: [] });
+  const stateRef = useRef(state);
+  stateRef.current = state;
+
+  useEffect(() => {
+    const source = new EventSource('/api/sync/events');
+
+    source.onmessage = async (event) => {
+      const message = JSON.parse(event.data) as SyncStreamMessage;
+
+      // Reconnected after the job we were showing finished: fetch how it ended
+      const current = stateRef.current.job;
+      if (message.type === 'snapshot' && current && isActiveJob(current)
+          && !message.jobs.some(job => job.id === current.id)) {
+        const res = await fetch(`/api/sync/jobs/${current.id}`, { credentials: 'include' });
+        if (res.ok) {
+          const job = await res.json() as JobSummary;
+          dispatch({ type: 'refresh', job: toLiveJob(job) });
+        }
+      }
+
+      dispatch({ type: 'message', message });
+    };
+
+    return () => source.close();
+  }, []);
+
+  const jobId = state.job?.id;
+
+  useEffect(() => {
+    if (jobId === undefined) return;
+    let cancelled = false;
+
+    fetch(`/api/sync/jobs/${jobId}/logs?limit=1000`, { credentials: 'include' })
+      .then(res => res.ok ? res.json() : { results: [] })
+      .then(({ results }: { results: SyncJobLog[] }) => {
+        if (cancelled) return;
+        const errors = results
+          .filter(log => log.level === 'error')
+          .reverse()
+          .map(log => ({ key: nextKey(), at: new Date(log.createdAt).toISOString(), message: log.message }));
+        dispatch({ type: 'errorsLoaded', jobId, errors });
+      })
+      .catch(() => {});
+
+    return () => {
+      cancelled = true;
+    };
+  }, [jobId]);
+
+  const follow = useCallback((id: number, jobType: string) => {
+    dispatch({ type: 'follow', job: newJob(id, jobType, 'pending') });
+  }, []);
+
+  return { ...state, follow };
+}
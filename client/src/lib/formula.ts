@@ -0,0 +1,54 @@
+/**
+ * Mindat and RRUFF formulas arrive as HTML (SiO<sub>2</sub>); this turns
+ * them into plain text with Unicode sub- and superscripts (SiO₂).
+ */
+export function convertToUTF8Formula(html: string): string {
+  if (!html) return '';
+  
+  const subscriptMap: { [key: string]: string } = {
+    '0': '₀', '1': '₁', '2': '₂', '3': '₃', '4': '₄',
+    '5': '₅', '6': '₆', '7': '₇', '8': '₈', '9': '₉',
+    'a': 'ₐ', 'e': 'ₑ', 'h': 'ₕ', 'i': 'ᵢ', 'j': 'ⱼ',
+    'k': 'ₖ', 'l': 'ₗ', 'm': 'ₘ', 'n': 'ₙ', 'o': 'ₒ',
+    'p': 'ₚ', 'r': 'ᵣ', 's': 'ₛ', 't': 'ₜ', 'u': 'ᵤ',
+    'v': 'ᵥ', 'x': 'ₓ'
+  };
+  
+  const superscriptMap: { [key: string]: string } = {
+    '0': '⁰', '1': '¹', '2': '²', '3': '³', '4': '⁴',
+    '5': '⁵', '6': '⁶', '7': '⁷', '8': '⁸', '9': '⁹',
+    '+': '⁺', '-': '⁻', '=': '⁼', '(': '⁽', ')': '⁾',
+    'n': 'ⁿ'
+  };
+  
+  const htmlEntities: { [key: string]: string } = {
+    '&middot;': '·',
+    '&nbsp;': ' ',
+    '&times;': '×',
+    '&deg;': '°',
+    '&plusmn;': '±',
+    '&lt;': '<',
+    '&gt;': '>',
+    '&amp;': '&'
+  };
+  
+  let result = html;
+  
+  result = result.replace(/<sub>(.*?)<\/sub>/g, (match, content) => {
+    return content.split('').map((char: string) => subscriptMap[char] || char).join('');
+  });
+  
+  result = result.replace(/<sup>(.*?)<\/sup>/g, (match, content) => {
+    return content.split('').map((char: string) => superscriptMap[char] || char).join('');
+  });
+  
+  result = result.replace(/<mi>/g, '').replace(/<\/mi>/g, '');
+  result = result.replace(/\{10_11\}/g, '{10̄11}');
+  result = result.replace(/\{([0-9]+)_([0-9]+)\}/g, '{$1̄$2}');
+  
+  Object.entries(htmlEntities).forEach(([entity, char]) => {
+    result = result.replace(new RegExp(entity, 'g'), char);
+  });
+  
+  return result;
+}
@@ -0,0 +1,303 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Link } from 'wouter';
+import { Scale, Keyboard } from 'lucide-react';
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { apiRequest } from '@/lib/queryClient';
+import { convertToUTF8Formula } from '@/lib/formula';
+import { useToast } from '@/hooks/use-toast';
+import { useReviewQueue } from '@/hooks/use-review-queue';
+import type { DataConflict } from '@shared/schema';
+
+const PAGE_SIZE = 50;
+
+type ConflictAction = 'accept_a' | 'accept_b' | 'override' | 'ignore' | 'reopen';
+
+interface ConflictRow extends DataConflict {
+  sourceA: string | null;
+  sourceB: string | null;
+}
+
+interface SummaryRow {
+  status: string;
+  severity: string;
+  fieldName: string;
+  count: number;
+}
+
+const STATUSES = ['pending', 'auto_resolved', 'accepted', 'overridden', 'ignored'];
+const SEVERITIES = ['high', 'medium', 'low'];
+const FIELDS: Record<string, string> = {
+  formula: 'Formula',
+  crystalSystem: 'Crystal system',
+  imaStatus: 'IMA status',
+  year: 'Year',
+  imaSymbol: 'IMA symbol',
+  strunz: 'Strunz',
+};
+
+const SEVERITY_VARIANTS: Record<string, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  high: 'destructive',
+  medium: 'default',
+  low: 'secondary',
+};
+
+const SHORTCUTS = 'j/k move · x select · a accept A · b accept B · o override · i ignore · u reopen · Esc clear';
+
+function ConflictValue({ field, value }: { field: string; value: string | null }) {
+  if (value === null) return <span className="text-muted-foreground">—</span>;
+  return <span className="font-mono break-all">{field === 'formula' ? convertToUTF8Formula(value) : value}</span>;
+}
+
+/**
+ * Review queue for cross-source conflicts. Actions apply to the ticked rows,
+ * or to the highlighted row when nothing is ticked, so a pass through the
+ * queue can be done from the keyboard.
+ */
+export default function ConflictReviewPage() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [status, setStatus] = useState('pending');
+  const [severity, setSeverity] = useState('all');
+  const [field, setField] = useState('all');
+  const [mineral, setMineral] = useState('');
+  const [offset, setOffset] = useState(0);
+  const [overrideId, setOverrideId] = useState<number | null>(null);
+  const [overrideValue, setOverrideValue] = useState('');
+
+  const params = new URLSearchParams({ limit: String(PAGE_SIZE), offset: String(offset) });
+  if (status !== 'all') params.set('status', status);
+  if (severity !== 'all') params.set('severity', severity);
+  if (field !== 'all') params.set('field', field);
+  if (mineral.trim()) params.set('mineral', mineral.trim());
+
+  const { data, isLoading } = useQuery<{ results: ConflictRow[] }>({
+    queryKey: [`/api/conflicts?${params.toString()}`],
+    staleTime: 0,
+  });
+  const { data: summary } = useQuery<{ results: SummaryRow[] }>({
+    queryKey: ['/api/conflicts/summary'],
+    staleTime: 0,
+  });
+
+  const conflicts = data?.results ?? [];
+  const { setCursor, current, selected, setSelected, toggle, targetIds, rowRef } = useReviewQueue(
+    conflicts,
+    [status, severity, field, mineral, offset],
+    {
+      a: () => act('accept_a'),
+      b: () => act('accept_b'),
+      i: () => act('ignore'),
+      u: () => act('reopen'),
+      o: () => { if (current) startOverride(current); },
+    },
+  );
+
+  const pendingBySeverity = (summary?.results ?? [])
+    .filter(row => row.status === 'pending')
+    .reduce<Record<string, number>>((counts, row) => ({ ...counts, [row.severity]: (counts[row.severity] ?? 0) + row.count }), {});
+
+  const resolve = useMutation({
+    mutationFn: async ({ ids, action, value }: { ids: number[]; action: ConflictAction; value?: string }) => {
+      const response = await apiRequest('POST', '/api/conflicts/resolve', { ids, action, value });
+      return response.json() as Promise<{ count: number }>;
+    },
+    onSuccess: () => {
+      setSelected(new Set());
+      setOverrideId(null);
+      queryClient.invalidateQueries({ predicate: query => String(query.queryKey[0]).startsWith('/api/conflicts') });
+    },
+    onError: (error) => {
+      toast({ title: "Conflicts not updated", description: error instanceof Error ? error.message : String(error), variant: "destructive" });
+    },
+  });
+
+  const act = (action: ConflictAction) => {
+    const ids = targetIds();
+    if (ids.length > 0) resolve.mutate({ ids, action });
+  };
+
+  const startOverride = (conflict: ConflictRow) => {
+    setOverrideId(conflict.id);
+    setOverrideValue(conflict.resolution ?? conflict.valueA ?? '');
+  };
+
+  const allSelected = conflicts.length > 0 && conflicts.every(conflict => selected.has(conflict.id));
+
+  return (
+    <div className="min-h-screen pb-40 pt-20 px-4">
+      <div className="max-w-6xl mx-auto">
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold mb-2 flex items-center gap-2" data-testid="text-page-title">
+            <Scale className="text-primary" />
+            Conflict Review
+          </h1>
+          <p className="text-muted-foreground">Where Mindat, RRUFF and e-Rocks disagree</p>
+          <div className="flex gap-2 mt-3" data-testid="conflict-pending-counts">
+            {SEVERITIES.map(level => (
+              <Badge key={level} variant={SEVERITY_VARIANTS[level]}>
+                {pendingBySeverity[level] ?? 0} {level} pending
+              </Badge>
+            ))}
+          </div>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex flex-wrap items-center gap-2">
+              <Select value={status} onValueChange={(value) => { setStatus(value); setOffset(0); }}>
+                <SelectTrigger className="w-40" data-testid="select-conflict-status"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All statuses</SelectItem>
+                  {STATUSES.map(value => <SelectItem key={value} value={value}>{value.replace('_', ' ')}</SelectItem>)}
+                </SelectContent>
+              </Select>
+              <Select value={severity} onValueChange={(value) => { setSeverity(value); setOffset(0); }}>
+                <SelectTrigger className="w-36" data-testid="select-conflict-severity"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All severities</SelectItem>
+                  {SEVERITIES.map(value => <SelectItem key={value} value={value}>{value}</SelectItem>)}
+                </SelectContent>
+              </Select>
+              <Select value={field} onValueChange={(value) => { setField(value); setOffset(0); }}>
+                <SelectTrigger className="w-40" data-testid="select-conflict-field"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All fields</SelectItem>
+                  {Object.entries(FIELDS).map(([value, label]) => <SelectItem key={value} value={value}>{label}</SelectItem>)}
+                </SelectContent>
+              </Select>
+              <Input
+                value={mineral}
+                onChange={(e) => { setMineral(e.target.value); setOffset(0); }}
+                placeholder="Mineral name"
+                className="w-48"
+                data-testid="input-conflict-mineral"
+              />
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="flex flex-wrap items-center gap-2 mb-3 min-h-9" data-testid="conflict-bulk-actions">
+              <span className="text-sm text-muted-foreground mr-2">
+                {selected.size > 0 ? `${selected.size} selected` : 'Highlighted row'}
+              </span>
+              <Button size="sm" variant="outline" disabled={resolve.isPending} onClick={() => act('accept_a')}>Accept A</Button>
+              <Button size="sm" variant="outline" disabled={resolve.isPending} onClick={() => act('accept_b')}>Accept B</Button>
+              <Button size="sm" variant="outline" disabled={resolve.isPending} onClick={() => act('ignore')}>Ignore</Button>
+              <Button size="sm" variant="ghost" disabled={resolve.isPending} onClick={() => act('reopen')}>Reopen</Button>
+              <span className="ml-auto flex items-center gap-1 text-xs text-muted-foreground">
+                <Keyboard className="h-4 w-4" />
+                {SHORTCUTS}
+              </span>
+            </div>
+
+            {isLoading ? (
+              <p className="text-sm text-muted-foreground">Loading conflicts…</p>
+            ) : conflicts.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No conflicts match these filters.</p>
+            ) : (
+              <table className="w-full text-sm" data-testid="table-conflicts">
+                <thead>
+                  <tr className="text-left text-xs text-muted-foreground border-b">
+                    <th className="py-2 pr-2 w-8">
+                      <Checkbox
+                        checked={allSelected}
+                        onCheckedChange={(checked) => setSelected(checked ? new Set(conflicts.map(conflict => conflict.id)) : new Set())}
+                        data-testid="checkbox-select-all"
+                      />
+                    </th>
+                    <th className="py-2 pr-2">Mineral</th>
+                    <th className="py-2 pr-2">Field</th>
+                    <th className="py-2 pr-2">Source A</th>
+                    <th className="py-2 pr-2">Source B</th>
+                    <th className="py-2 pr-2">Severity</th>
+                    <th className="py-2">Resolution</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {conflicts.map((conflict, index) => (
+                    <tr
+                      key={conflict.id}
+                      ref={rowRef(conflict.id)}
+                      className={`align-top border-b cursor-pointer ${conflict.id === current?.id ? 'bg-muted' : ''}`}
+                      onClick={() => setCursor(index)}
+                      data-testid={`row-conflict-${conflict.id}`}
+                    >
+                      <td className="py-2 pr-2" onClick={(e) => e.stopPropagation()}>
+                        <Checkbox checked={selected.has(conflict.id)} onCheckedChange={() => toggle(conflict.id)} />
+                      </td>
+                      <td className="py-2 pr-2 font-medium">
+                        {conflict.mindatId ? (
+                          <Link href={`/mineral/${conflict.mindatId}`} className="text-primary underline">{conflict.mineralName}</Link>
+                        ) : conflict.mineralName}
+                      </td>
+                      <td className="py-2 pr-2 whitespace-nowrap">{FIELDS[conflict.fieldName] ?? conflict.fieldName}</td>
+                      <td className="py-2 pr-2">
+                        <div className="text-xs text-muted-foreground">{conflict.sourceA}</div>
+                        <ConflictValue field={conflict.fieldName} value={conflict.valueA} />
+                      </td>
+                      <td className="py-2 pr-2">
+                        <div className="text-xs text-muted-foreground">{conflict.sourceB}</div>
+                        <ConflictValue field={conflict.fieldName} value={conflict.valueB} />
+                      </td>
+                      <td className="py-2 pr-2">
+                        <Badge variant={SEVERITY_VARIANTS[conflict.severity] ?? 'outline'}>{conflict.severity}</Badge>
+                      </td>
+                      <td className="py-2 min-w-48">
+                        {overrideId === conflict.id ? (
+                          <form
+                            className="flex gap-1"
+                            onSubmit={(e) => {
+                              e.preventDefault();
+                              resolve.mutate({ ids: [conflict.id], action: 'override', value: overrideValue });
+                            }}
+                          >
+                            <Input
+                              autoFocus
+                              value={overrideValue}
+                              onChange={(e) => setOverrideValue(e.target.value)}
+                              onKeyDown={(e) => { if (e.key === 'Escape') setOverrideId(null); }}
+                              className="h-8 font-mono"
+                              data-testid={`input-conflict-override-${conflict.id}`}
+                            />
+                            <Button type="submit" size="sm" disabled={!overrideValue.trim() || resolve.isPending}>Save</Button>
+                          </form>
+                        ) : (
+                          <div className="space-y-1">
+                            <Badge variant="outline">{conflict.status.replace('_', ' ')}</Badge>
+                            {conflict.resolution !== null && (
+                              <div><ConflictValue field={conflict.fieldName} value={conflict.resolution} /></div>
+                            )}
+                            <Button size="sm" variant="ghost" className="h-6 px-2 text-xs" onClick={() => startOverride(conflict)}>
+                              Override…
+                            </Button>
+                          </div>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+
+            <div className="flex justify-between items-center mt-4">
+              <Button variant="outline" size="sm" disabled={offset === 0} onClick={() => setOffset(Math.max(0, offset - PAGE_SIZE))}>
+                Previous
+              </Button>
+              <span className="text-xs text-muted-foreground">
+                {conflicts.length > 0 ? `${offset + 1}–${offset + conflicts.length}` : ''}
+              </span>
+              <Button variant="outline" size="sm" disabled={conflicts.length < PAGE_SIZE} onClick={() => setOffset(offset + PAGE_SIZE)}>
+                Next
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
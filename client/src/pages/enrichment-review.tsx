@@ -0,0 +1,471 @@
+import { useEffect, useRef, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Link } from 'wouter';
+import { ClipboardCheck, Keyboard } from 'lucide-react';
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { apiRequest } from '@/lib/queryClient';
+import { convertToUTF8Formula } from '@/lib/formula';
+import { useToast } from '@/hooks/use-toast';
+import { useReviewQueue } from '@/hooks/use-review-queue';
+import type { ERocksEnrichmentRun, ERocksMatchResult } from '@shared/schema';
+
+const PAGE_SIZE = 50;
+
+type ReviewDecision = 'approve' | 'reject' | 'correct' | 'reopen';
+
+interface MindatRecord {
+  mindatId: number;
+  name: string;
+  formula: string | null;
+  crystalSystem: string | null;
+  strunz: string | null;
+  imaStatus: string | null;
+  hardnessMin: number | null;
+  hardnessMax: number | null;
+  colour: string | null;
+  streak: string | null;
+  varietyOf: number | null;
+  synId: number | null;
+}
+
+interface MatchCandidate {
+  mindatId: number;
+  name: string;
+  formula: string | null;
+  confidence?: number;
+  strategies?: string[];
+}
+
+interface ReviewRow extends ERocksMatchResult {
+  candidate: MindatRecord | null;
+  reviewed: MindatRecord | null;
+}
+
+const STATUSES = ['pending', 'approved', 'rejected', 'corrected'];
+const MATCH_TYPES: Record<string, string> = {
+  exact_id: 'Mindat ID',
+  exact_name: 'Exact name',
+  fuzzy_name: 'Fuzzy name',
+  formula: 'Formula',
+  rruff: 'RRUFF link',
+  override: 'Override',
+  no_match: 'No match',
+};
+
+const STATUS_VARIANTS: Record<string, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  pending: 'default',
+  approved: 'secondary',
+  rejected: 'destructive',
+  corrected: 'outline',
+};
+
+const SHORTCUTS = 'j/k move · x select · a approve · r reject · c pick Mindat ID · u reopen · Esc clear';
+
+// e-Rocks column and Mindat value shown side by side
+const COMPARED: [string, string, (mindat: MindatRecord) => string | null][] = [
+  ['Name', 'Title', mindat => mindat.name],
+  ['Mindat ID', 'Mindat ID', mindat => String(mindat.mindatId)],
+  ['Formula', 'Formula', mindat => mindat.formula],
+  ['Crystal system', 'Crystal System', mindat => mindat.crystalSystem],
+  ['Strunz', 'Strunz', mindat => mindat.strunz],
+  ['Status', 'Mindat Status', mindat => mindat.imaStatus],
+  ['Hardness', 'Hardness', mindat => hardness(mindat.hardnessMin, mindat.hardnessMax)],
+  ['Colour', 'Colour', mindat => mindat.colour],
+  ['Streak', 'Streak', mindat => mindat.streak],
+];
+
+function hardness(min: string | number | null | undefined, max: string | number | null | undefined): string | null {
+  if (!min && !max) return null;
+  return min && max && min !== max ? `${min} - ${max}` : String(min || max);
+}
+
+function erocksValue(record: Record<string, string>, column: string): string | null {
+  if (column === 'Hardness') return hardness(record['Hardness Min'], record['Hardness Max']);
+  return record[column]?.trim() || null;
+}
+
+function Value({ label, value }: { label: string; value: string | null }) {
+  if (!value) return <span className="text-muted-foreground">—</span>;
+  return label === 'Formula' ? <span className="font-mono break-all">{convertToUTF8Formula(value)}</span> : <span>{value}</span>;
+}
+
+/**
+ * Works through the matches an e-Rocks enrichment run was unsure of. Each
+ * decision is stored against the run's result and applied by the next
+ * export of that run, and carried over to later runs of the same Nid.
+ */
+export default function EnrichmentReviewPage() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [runId, setRunId] = useState('latest');
+  const [status, setStatus] = useState('pending');
+  const [matchType, setMatchType] = useState('all');
+  const [search, setSearch] = useState('');
+  const [offset, setOffset] = useState(0);
+  const [pickedId, setPickedId] = useState('');
+  const [note, setNote] = useState('');
+  const [author, setAuthor] = useState('');
+  const pickRef = useRef<HTMLInputElement>(null);
+
+  const params = new URLSearchParams({ limit: String(PAGE_SIZE), offset: String(offset) });
+  if (runId !== 'latest') params.set('run_id', runId);
+  if (status !== 'all') params.set('status', status);
+  if (matchType !== 'all') params.set('match_type', matchType);
+  if (search.trim()) params.set('search', search.trim());
+
+  const { data: runs } = useQuery<{ results: ERocksEnrichmentRun[] }>({
+    queryKey: ['/api/erocks/runs'],
+  });
+  const { data, isLoading, error } = useQuery<{ run: ERocksEnrichmentRun; results: ReviewRow[] }>({
+    queryKey: [`/api/erocks/review?${params.toString()}`],
+    staleTime: 0,
+  });
+  const { data: summary } = useQuery<{ results: { reviewStatus: string; count: number }[] }>({
+    queryKey: [`/api/erocks/review/summary${runId !== 'latest' ? `?run_id=${runId}` : ''}`],
+    staleTime: 0,
+  });
+
+  const rows = data?.results ?? [];
+  const { setCursor, current, selected, setSelected, toggle, targetIds, rowRef } = useReviewQueue(
+    rows,
+    [runId, status, matchType, search, offset],
+    {
+      a: () => act('approve'),
+      r: () => act('reject'),
+      u: () => act('reopen'),
+      c: () => pickRef.current?.focus(),
+    },
+  );
+  const counts = Object.fromEntries((summary?.results ?? []).map(row => [row.reviewStatus, row.count]));
+
+  useEffect(() => {
+    setPickedId('');
+    setNote(current?.reviewNote ?? '');
+  }, [current?.id]);
+
+  const decide = useMutation({
+    mutationFn: async (body: { ids: number[]; decision: ReviewDecision; mindatId?: number; note?: string }) => {
+      const response = await apiRequest('POST', '/api/erocks/review/decide', body);
+      return response.json() as Promise<{ count: number }>;
+    },
+    onSuccess: () => {
+      setSelected(new Set());
+      queryClient.invalidateQueries({ predicate: query => String(query.queryKey[0]).startsWith('/api/erocks/review') });
+    },
+    onError: (error) => {
+      toast({ title: "Decision not saved", description: error instanceof Error ? error.message : String(error), variant: "destructive" });
+    },
+  });
+
+  const promote = useMutation({
+    mutationFn: async ({ id, reason }: { id: number; reason: string }) => {
+      const response = await apiRequest('POST', `/api/erocks/review/${id}/override`, { reason, author: author.trim() });
+      return response.json() as Promise<{ id: number; action: string }>;
+    },
+    onSuccess: (override) => {
+      toast({ title: "Override saved", description: `Override #${override.id} (${override.action}) applies from the next run` });
+    },
+    onError: (error) => {
+      toast({ title: "Override not saved", description: error instanceof Error ? error.message : String(error), variant: "destructive" });
+    },
+  });
+
+  const act = (decision: Exclude<ReviewDecision, 'correct'>) => {
+    const ids = targetIds();
+    if (ids.length > 0) decide.mutate({ ids, decision, note: note.trim() || undefined });
+  };
+
+  // A different Mindat record only ever applies to the highlighted row
+  const pick = (mindatId: number) => {
+    if (current) decide.mutate({ ids: [current.id], decision: 'correct', mindatId, note: note.trim() || undefined });
+  };
+
+  const allSelected = rows.length > 0 && rows.every(row => selected.has(row.id));
+  const record = (current?.erocksRecord ?? {}) as Record<string, string>;
+  const alternatives = (current?.alternatives as MatchCandidate[] | null) ?? [];
+
+  return (
+    <div className="min-h-screen pb-40 pt-20 px-4">
+      <div className="max-w-6xl mx-auto">
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold mb-2 flex items-center gap-2" data-testid="text-page-title">
+            <ClipboardCheck className="text-primary" />
+            Enrichment Review
+          </h1>
+          <p className="text-muted-foreground">
+            e-Rocks matches the enrichment run was unsure of
+            {data?.run && ` · run #${data.run.id} (${data.run.inputFile})`}
+          </p>
+          <div className="flex gap-2 mt-3" data-testid="review-status-counts">
+            {STATUSES.map(value => (
+              <Badge key={value} variant={STATUS_VARIANTS[value]}>{counts[value] ?? 0} {value}</Badge>
+            ))}
+          </div>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex flex-wrap items-center gap-2">
+              <Select value={runId} onValueChange={(value) => { setRunId(value); setOffset(0); }}>
+                <SelectTrigger className="w-44" data-testid="select-review-run"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="latest">Latest run</SelectItem>
+                  {(runs?.results ?? []).filter(run => run.status === 'completed').map(run => (
+                    <SelectItem key={run.id} value={String(run.id)}>
+                      Run #{run.id} · {new Date(run.startedAt).toLocaleDateString()}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={status} onValueChange={(value) => { setStatus(value); setOffset(0); }}>
+                <SelectTrigger className="w-36" data-testid="select-review-status"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {STATUSES.map(value => <SelectItem key={value} value={value}>{value}</SelectItem>)}
+                </SelectContent>
+              </Select>
+              <Select value={matchType} onValueChange={(value) => { setMatchType(value); setOffset(0); }}>
+                <SelectTrigger className="w-40" data-testid="select-review-match-type"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All match types</SelectItem>
+                  {Object.entries(MATCH_TYPES).map(([value, label]) => <SelectItem key={value} value={value}>{label}</SelectItem>)}
+                </SelectContent>
+              </Select>
+              <Input
+                value={search}
+                onChange={(e) => { setSearch(e.target.value); setOffset(0); }}
+                placeholder="Title or Nid"
+                className="w-48"
+                data-testid="input-review-search"
+              />
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="flex flex-wrap items-center gap-2 mb-3 min-h-9" data-testid="review-bulk-actions">
+              <span className="text-sm text-muted-foreground mr-2">
+                {selected.size > 0 ? `${selected.size} selected` : 'Highlighted row'}
+              </span>
+              <Button size="sm" variant="outline" disabled={decide.isPending} onClick={() => act('approve')}>Approve</Button>
+              <Button size="sm" variant="outline" disabled={decide.isPending} onClick={() => act('reject')}>Reject</Button>
+              <Button size="sm" variant="ghost" disabled={decide.isPending} onClick={() => act('reopen')}>Reopen</Button>
+              <span className="ml-auto flex items-center gap-1 text-xs text-muted-foreground">
+                <Keyboard className="h-4 w-4" />
+                {SHORTCUTS}
+              </span>
+            </div>
+
+            {isLoading ? (
+              <p className="text-sm text-muted-foreground">Loading matches…</p>
+            ) : error ? (
+              <p className="text-sm text-muted-foreground">No completed enrichment run yet.</p>
+            ) : rows.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No matches with these filters.</p>
+            ) : (
+              <div className="max-h-96 overflow-y-auto">
+                <table className="w-full text-sm" data-testid="table-review">
+                  <thead>
+                    <tr className="text-left text-xs text-muted-foreground border-b">
+                      <th className="py-2 pr-2 w-8">
+                        <Checkbox
+                          checked={allSelected}
+                          onCheckedChange={(checked) => setSelected(checked ? new Set(rows.map(row => row.id)) : new Set())}
+                          data-testid="checkbox-select-all"
+                        />
+                      </th>
+                      <th className="py-2 pr-2">e-Rocks title</th>
+                      <th className="py-2 pr-2">Matched to</th>
+                      <th className="py-2 pr-2">Match</th>
+                      <th className="py-2 pr-2">Confidence</th>
+                      <th className="py-2">Review</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {rows.map((row, index) => (
+                      <tr
+                        key={row.id}
+                        ref={rowRef(row.id)}
+                        className={`align-top border-b cursor-pointer ${row.id === current?.id ? 'bg-muted' : ''}`}
+                        onClick={() => setCursor(index)}
+                        data-testid={`row-review-${row.id}`}
+                      >
+                        <td className="py-2 pr-2" onClick={(e) => e.stopPropagation()}>
+                          <Checkbox checked={selected.has(row.id)} onCheckedChange={() => toggle(row.id)} />
+                        </td>
+                        <td className="py-2 pr-2 font-medium">{row.title}</td>
+                        <td className="py-2 pr-2">{row.candidate?.name ?? <span className="text-muted-foreground">—</span>}</td>
+                        <td className="py-2 pr-2 whitespace-nowrap">{MATCH_TYPES[row.matchType] ?? row.matchType}</td>
+                        <td className="py-2 pr-2">{row.confidence}%</td>
+                        <td className="py-2">
+                          <Badge variant={STATUS_VARIANTS[row.reviewStatus ?? ''] ?? 'outline'}>{row.reviewStatus}</Badge>
+                          {row.reviewed && <div className="text-xs text-muted-foreground mt-1">→ {row.reviewed.name}</div>}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
+            <div className="flex justify-between items-center mt-4">
+              <Button variant="outline" size="sm" disabled={offset === 0} onClick={() => setOffset(Math.max(0, offset - PAGE_SIZE))}>
+                Previous
+              </Button>
+              <span className="text-xs text-muted-foreground">
+                {rows.length > 0 ? `${offset + 1}–${offset + rows.length}` : ''}
+              </span>
+              <Button variant="outline" size="sm" disabled={rows.length < PAGE_SIZE} onClick={() => setOffset(offset + PAGE_SIZE)}>
+                Next
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        {current && (
+          <Card className="mt-6" data-testid="card-review-detail">
+            <CardHeader>
+              <CardTitle className="flex flex-wrap items-center gap-2">
+                {current.title}
+                {current.nid && <span className="text-sm font-normal text-muted-foreground">Nid {current.nid}</span>}
+                {current.parentMineral && (
+                  <Badge variant="outline">{current.isVariety ? 'variety' : 'synonym'} of {current.parentMineral}</Badge>
+                )}
+                {current.overrideId !== null && <Badge variant="secondary">override #{current.overrideId}</Badge>}
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <table className="w-full text-sm" data-testid="table-review-compare">
+                <thead>
+                  <tr className="text-left text-xs text-muted-foreground border-b">
+                    <th className="py-2 pr-2 w-32"></th>
+                    <th className="py-2 pr-2">e-Rocks</th>
+                    <th className="py-2 pr-2">
+                      {current.candidate ? (
+                        <Link href={`/mineral/${current.candidate.mindatId}`} className="text-primary underline">Mindat candidate</Link>
+                      ) : 'Mindat candidate'}
+                    </th>
+                    {current.reviewed && <th className="py-2">Picked in review</th>}
+                  </tr>
+                </thead>
+                <tbody>
+                  {COMPARED.map(([label, column, mindatValue]) => (
+                    <tr key={label} className="align-top border-b">
+                      <td className="py-2 pr-2 text-muted-foreground">{label}</td>
+                      <td className="py-2 pr-2"><Value label={label} value={erocksValue(record, column)} /></td>
+                      <td className="py-2 pr-2"><Value label={label} value={current.candidate ? mindatValue(current.candidate) : null} /></td>
+                      {current.reviewed && <td className="py-2"><Value label={label} value={mindatValue(current.reviewed)} /></td>}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+
+              <div className="grid md:grid-cols-2 gap-6">
+                <div>
+                  <h3 className="text-sm font-medium mb-2">Match notes</h3>
+                  <ul className="text-sm space-y-1 text-muted-foreground">
+                    {(current.notes ?? []).map((line, index) => <li key={index}>{line}</li>)}
+                  </ul>
+                  {(current.conflicts ?? []).length > 0 && (
+                    <>
+                      <h3 className="text-sm font-medium mt-4 mb-2">Conflicts</h3>
+                      <ul className="text-sm space-y-1 text-destructive">
+                        {current.conflicts!.map((line, index) => <li key={index}>{line}</li>)}
+                      </ul>
+                    </>
+                  )}
+                </div>
+
+                <div className="space-y-4">
+                  <div>
+                    <h3 className="text-sm font-medium mb-2">Alternative candidates</h3>
+                    {alternatives.length === 0 ? (
+                      <p className="text-sm text-muted-foreground">No other strategy found a record.</p>
+                    ) : (
+                      <ul className="space-y-1" data-testid="list-review-alternatives">
+                        {alternatives.map(alternative => (
+                          <li key={alternative.mindatId} className="flex items-center gap-2 text-sm">
+                            <Button size="sm" variant="outline" className="h-7" disabled={decide.isPending} onClick={() => pick(alternative.mindatId)}>
+                              Pick
+                            </Button>
+                            <Link href={`/mineral/${alternative.mindatId}`} className="text-primary underline">{alternative.name}</Link>
+                            {alternative.formula && (
+                              <span className="font-mono text-muted-foreground">{convertToUTF8Formula(alternative.formula)}</span>
+                            )}
+                            {alternative.confidence !== undefined && (
+                              <span className="text-xs text-muted-foreground">
+                                {alternative.confidence}% · {alternative.strategies?.join(', ')}
+                              </span>
+                            )}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+
+                  <form
+                    className="flex gap-2"
+                    onSubmit={(e) => {
+                      e.preventDefault();
+                      if (/^\d+$/.test(pickedId.trim())) pick(parseInt(pickedId.trim()));
+                    }}
+                  >
+                    <Input
+                      ref={pickRef}
+                      value={pickedId}
+                      onChange={(e) => setPickedId(e.target.value)}
+                      onKeyDown={(e) => { if (e.key === 'Escape') e.currentTarget.blur(); }}
+                      placeholder="Different Mindat ID"
+                      className="w-44 font-mono"
+                      data-testid="input-review-mindat-id"
+                    />
+                    <Button type="submit" size="sm" disabled={!/^\d+$/.test(pickedId.trim()) || decide.isPending}>Use this ID</Button>
+                  </form>
+
+                  <Input
+                    value={note}
+                    onChange={(e) => setNote(e.target.value)}
+                    onKeyDown={(e) => { if (e.key === 'Escape') e.currentTarget.blur(); }}
+                    placeholder="Note for this decision (optional)"
+                    data-testid="input-review-note"
+                  />
+
+                  {current.reviewStatus !== 'pending' && current.nid && (
+                    <form
+                      className="flex gap-2"
+                      onSubmit={(e) => {
+                        e.preventDefault();
+                        promote.mutate({ id: current.id, reason: note.trim() });
+                      }}
+                    >
+                      <Input
+                        value={author}
+                        onChange={(e) => setAuthor(e.target.value)}
+                        onKeyDown={(e) => { if (e.key === 'Escape') e.currentTarget.blur(); }}
+                        placeholder="Your name"
+                        className="w-40"
+                        data-testid="input-review-author"
+                      />
+                      <Button
+                        type="submit"
+                        size="sm"
+                        variant="outline"
+                        disabled={!author.trim() || !note.trim() || promote.isPending}
+                        title="Uses the note as the override's reason"
+                        data-testid="button-review-promote"
+                      >
+                        Make permanent
+                      </Button>
+                    </form>
+                  )}
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
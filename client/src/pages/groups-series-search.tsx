@@ -5,6 +5,7 @@ import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '@/components/ui/card';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { convertToUTF8Formula } from '@/lib/formula';
 
 export default function GroupsSeriesSearchPage() {
   const [searchQuery, setSearchQuery] = useState('');
@@ -49,57 +50,6 @@ export default function GroupsSeriesSearchPage() {
     enabled: expandedItems.size > 0,
   });
 
-  const convertToUTF8Formula = (html: string) => {
-    if (!html) return '';
-    
-    const subscriptMap: { [key: string]: string } = {
-      '0': '₀', '1': '₁', '2': '₂', '3': '₃', '4': '₄',
-      '5': '₅', '6': '₆', '7': '₇', '8': '₈', '9': '₉',
-      'a': 'ₐ', 'e': 'ₑ', 'h': 'ₕ', 'i': 'ᵢ', 'j': 'ⱼ',
-      'k': 'ₖ', 'l': 'ₗ', 'm': 'ₘ', 'n': 'ₙ', 'o': 'ₒ',
-      'p': 'ₚ', 'r': 'ᵣ', 's': 'ₛ', 't': 'ₜ', 'u': 'ᵤ',
-      'v': 'ᵥ', 'x': 'ₓ'
-    };
-    
-    const superscriptMap: { [key: string]: string } = {
-      '0': '⁰', '1': '¹', '2': '²', '3': '³', '4': '⁴',
-      '5': '⁵', '6': '⁶', '7': '⁷', '8': '⁸', '9': '⁹',
-      '+': '⁺', '-': '⁻', '=': '⁼', '(': '⁽', ')': '⁾',
-      'n': 'ⁿ'
-    };
-    
-    const htmlEntities: { [key: string]: string } = {
-      '&middot;': '·',
-      '&nbsp;': ' ',
-      '&times;': '×',
-      '&deg;': '°',
-      '&plusmn;': '±',
-      '&lt;': '<',
-      '&gt;': '>',
-      '&amp;': '&'
-    };
-    
-    let result = html;
-    
-    result = result.replace(/<sub>(.*?)<\/sub>/g, (match, content) => {
-      return content.split('').map((char: string) => subscriptMap[char] || char).join('');
-    });
-    
-    result = result.replace(/<sup>(.*?)<\/sup>/g, (match, content) => {
-      return content.split('').map((char: string) => superscriptMap[char] || char).join('');
-    });
-    
-    result = result.replace(/<mi>/g, '').replace(/<\/mi>/g, '');
-    result = result.replace(/\{10_11\}/g, '{10̄11}');
-    result = result.replace(/\{([0-9]+)_([0-9]+)\}/g, '{$1̄$2}');
-    
-    Object.entries(htmlEntities).forEach(([entity, char]) => {
-      result = result.replace(new RegExp(entity, 'g'), char);
-    });
-    
-    return result;
-  };
-
   const getStrunzCode = (mineral: any) => {
     const { strunz10ed1, strunz10ed2, strunz10ed3, strunz10ed4 } = mineral;
     if (!strunz10ed1 || strunz10ed1 === '0') return null;
@@ -127,9 +77,9 @@ export default function GroupsSeriesSearchPage() {
     return allResults.filter((m: any) => 
       m.id !== item.id && 
       m.name?.toLowerCase().includes(baseName) &&
-      m.entrytype_text?.toLowerCase() !== 'group' &&
-      m.entrytype_text?.toLowerCase() !== 'series' &&
-      m.entrytype_text?.toLowerCase() !== 'supergroup'
+      m.entryTypeText?.toLowerCase() !== 'group' &&
+      m.entryTypeText?.toLowerCase() !== 'series' &&
+      m.entryTypeText?.toLowerCase() !== 'supergroup'
     );
   };
 
@@ -142,7 +92,7 @@ export default function GroupsSeriesSearchPage() {
     return allResults.filter((m: any) => 
       m.id !== supergroup.id && 
       m.name?.toLowerCase().includes(baseName) &&
-      (m.entrytype_text?.toLowerCase() === 'group' || m.entrytype_text?.toLowerCase() === 'series')
+      (m.entryTypeText?.toLowerCase() === 'group' || m.entryTypeText?.toLowerCase() === 'series')
     );
   };
 
@@ -199,7 +149,7 @@ export default function GroupsSeriesSearchPage() {
         {!isLoading && results.length > 0 && (
           <div className="grid gap-4" data-testid="list-groups-series">
             {results.map((item) => {
-              const isSupergroup = item.entrytype_text?.toLowerCase() === 'supergroup';
+              const isSupergroup = item.entryTypeText?.toLowerCase() === 'supergroup';
               const isExpanded = expandedItems.has(item.id);
               const members = isExpanded ? getMembersForItem(item) : [];
               const subgroups = isSupergroup && isExpanded ? getSubgroupsForSupergroup(item) : [];
@@ -224,7 +174,7 @@ export default function GroupsSeriesSearchPage() {
                         <div className="flex-1">
                           <CardTitle data-testid={`text-item-name-${item.id}`}>{item.name}</CardTitle>
                           <CardDescription className="text-xs mt-1">
-                            {item.entrytype_text}
+                            {item.entryTypeText}
                           </CardDescription>
                         </div>
                       </div>
@@ -276,7 +226,7 @@ export default function GroupsSeriesSearchPage() {
                                     {subgroupMembers.map((member: any) => (
                                       <TableRow key={member.id} data-testid={`row-member-${member.id}`}>
                                         <TableCell className="font-medium">{member.name}</TableCell>
-                                        <TableCell>{convertToUTF8Formula(member.mindat_formula || member.ima_formula || '')}</TableCell>
+                                        <TableCell>{convertToUTF8Formula(member.mindatFormula || member.imaFormula || '')}</TableCell>
                                         <TableCell>{getStrunzCode(member) || '-'}</TableCell>
                                       </TableRow>
                                     ))}
@@ -304,7 +254,7 @@ export default function GroupsSeriesSearchPage() {
                           {members.map((member: any) => (
                             <TableRow key={member.id} data-testid={`row-member-${member.id}`}>
                               <TableCell className="font-medium">{member.name}</TableCell>
-                              <TableCell>{convertToUTF8Formula(member.mindat_formula || member.ima_formula || '')}</TableCell>
+                              <TableCell>{convertToUTF8Formula(member.mindatFormula || member.imaFormula || '')}</TableCell>
                               <TableCell>{getStrunzCode(member) || '-'}</TableCell>
                             </TableRow>
                           ))}
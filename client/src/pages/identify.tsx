@@ -0,0 +1,301 @@
+import { useState } from 'react';
+import { Microscope } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+
+type MatchVerdict = 'match' | 'partial' | 'mismatch' | 'unknown';
+
+interface PropertyMatch {
+  property: string;
+  observed: string;
+  recorded: string | null;
+  score: number;
+  verdict: MatchVerdict;
+  note: string;
+}
+
+interface IdentificationCandidate {
+  mineral: {
+    id: number;
+    mindatId: number;
+    name: string;
+    mindatFormula: string | null;
+    imaFormula: string | null;
+  };
+  score: number;
+  matches: PropertyMatch[];
+}
+
+const CRYSTAL_SYSTEMS = ['Cubic', 'Tetragonal', 'Hexagonal', 'Trigonal', 'Orthorhombic', 'Monoclinic', 'Triclinic', 'Amorphous'];
+const LUSTRES = ['Metallic', 'Sub-Metallic', 'Adamantine', 'Vitreous', 'Resinous', 'Waxy', 'Greasy', 'Pearly', 'Silky', 'Dull', 'Earthy'];
+const CLEAVAGES = ['Perfect', 'Good', 'Distinct', 'Poor', 'None'];
+const ANY = 'any';
+
+const PROPERTY_LABELS: Record<string, string> = {
+  streak: 'Streak',
+  lustre: 'Lustre',
+  colour: 'Colour',
+  hardness: 'Hardness',
+  specificGravity: 'Specific gravity',
+  crystalSystem: 'Crystal system',
+  cleavage: 'Cleavage',
+  fluorescence: 'Fluorescence',
+};
+
+const VERDICT_VARIANTS: Record<MatchVerdict, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  match: 'default',
+  partial: 'secondary',
+  mismatch: 'destructive',
+  unknown: 'outline',
+};
+
+export default function IdentifyPage() {
+  const [streak, setStreak] = useState('');
+  const [colour, setColour] = useState('');
+  const [lustre, setLustre] = useState(ANY);
+  const [hardnessMin, setHardnessMin] = useState('');
+  const [hardnessMax, setHardnessMax] = useState('');
+  const [sgMin, setSgMin] = useState('');
+  const [sgMax, setSgMax] = useState('');
+  const [crystalSystem, setCrystalSystem] = useState(ANY);
+  const [cleavage, setCleavage] = useState(ANY);
+  const [fluorescence, setFluorescence] = useState('');
+  const [identifying, setIdentifying] = useState(false);
+  const [candidates, setCandidates] = useState<IdentificationCandidate[] | null>(null);
+  const [considered, setConsidered] = useState(0);
+  const { toast } = useToast();
+
+  const handleIdentify = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIdentifying(true);
+    try {
+      const response = await apiRequest('POST', '/api/minerals/identify', {
+        streak: streak.trim() || undefined,
+        colour: colour.trim() || undefined,
+        lustre: lustre !== ANY ? lustre : undefined,
+        hardness: hardnessMin || hardnessMax ? { min: hardnessMin, max: hardnessMax } : undefined,
+        specificGravity: sgMin || sgMax ? { min: sgMin, max: sgMax } : undefined,
+        crystalSystem: crystalSystem !== ANY ? crystalSystem : undefined,
+        cleavage: cleavage !== ANY ? cleavage : undefined,
+        fluorescence: fluorescence.trim() || undefined,
+      });
+      const data = await response.json();
+
+      setCandidates(data.candidates);
+      setConsidered(data.considered);
+    } catch (error) {
+      toast({
+        title: "Identification Failed",
+        description: error instanceof Error ? error.message : "Unable to rank candidates",
+        variant: "destructive",
+      });
+    } finally {
+      setIdentifying(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen pb-40 pt-20 px-4">
+      <div className="max-w-4xl mx-auto">
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold mb-2 flex items-center gap-2" data-testid="text-page-title">
+            <Microscope className="text-primary" />
+            Identify
+          </h1>
+          <p className="text-muted-foreground">Enter what you observe and get a ranked list of likely minerals</p>
+        </div>
+
+        <form onSubmit={handleIdentify} className="mb-6">
+          <Card>
+            <CardContent className="pt-6 grid gap-4 sm:grid-cols-2">
+              <div>
+                <label className="text-sm font-medium">Streak</label>
+                <Input
+                  data-testid="input-streak"
+                  placeholder="e.g. greyish-black"
+                  value={streak}
+                  onChange={(e) => setStreak(e.target.value)}
+                />
+              </div>
+              <div>
+                <label className="text-sm font-medium">Colour</label>
+                <Input
+                  data-testid="input-colour"
+                  placeholder="e.g. brassy yellow"
+                  value={colour}
+                  onChange={(e) => setColour(e.target.value)}
+                />
+              </div>
+              <div>
+                <label className="text-sm font-medium">Lustre</label>
+                <Select value={lustre} onValueChange={setLustre}>
+                  <SelectTrigger data-testid="select-lustre">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY}>Not observed</SelectItem>
+                    {LUSTRES.map(value => (
+                      <SelectItem key={value} value={value}>{value}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <label className="text-sm font-medium">Crystal system</label>
+                <Select value={crystalSystem} onValueChange={setCrystalSystem}>
+                  <SelectTrigger data-testid="select-crystal-system">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY}>Not observed</SelectItem>
+                    {CRYSTAL_SYSTEMS.map(system => (
+                      <SelectItem key={system} value={system}>{system}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <label className="text-sm font-medium">Hardness (Mohs)</label>
+                <div className="flex items-center gap-2">
+                  <Input
+                    data-testid="input-hardness-min"
+                    type="number"
+                    step="0.5"
+                    placeholder="min"
+                    value={hardnessMin}
+                    onChange={(e) => setHardnessMin(e.target.value)}
+                  />
+                  <span className="text-muted-foreground">–</span>
+                  <Input
+                    data-testid="input-hardness-max"
+                    type="number"
+                    step="0.5"
+                    placeholder="max"
+                    value={hardnessMax}
+                    onChange={(e) => setHardnessMax(e.target.value)}
+                  />
+                </div>
+              </div>
+              <div>
+                <label className="text-sm font-medium">Specific gravity</label>
+                <div className="flex items-center gap-2">
+                  <Input
+                    data-testid="input-sg-min"
+                    type="number"
+                    step="0.1"
+                    placeholder="min"
+                    value={sgMin}
+                    onChange={(e) => setSgMin(e.target.value)}
+                  />
+                  <span className="text-muted-foreground">–</span>
+                  <Input
+                    data-testid="input-sg-max"
+                    type="number"
+                    step="0.1"
+                    placeholder="max"
+                    value={sgMax}
+                    onChange={(e) => setSgMax(e.target.value)}
+                  />
+                </div>
+              </div>
+              <div>
+                <label className="text-sm font-medium">Cleavage</label>
+                <Select value={cleavage} onValueChange={setCleavage}>
+                  <SelectTrigger data-testid="select-cleavage">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY}>Not observed</SelectItem>
+                    {CLEAVAGES.map(value => (
+                      <SelectItem key={value} value={value}>{value}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <label className="text-sm font-medium">Fluorescence</label>
+                <Input
+                  data-testid="input-fluorescence"
+                  placeholder="e.g. green under SW UV, or none"
+                  value={fluorescence}
+                  onChange={(e) => setFluorescence(e.target.value)}
+                />
+              </div>
+              <div className="sm:col-span-2 flex justify-end">
+                <Button type="submit" disabled={identifying} data-testid="button-identify">
+                  {identifying ? 'Identifying...' : 'Identify'}
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        </form>
+
+        {candidates && candidates.length === 0 && (
+          <Card data-testid="card-no-results">
+            <CardContent className="pt-6 text-center">
+              <p className="text-muted-foreground">No candidates fit these observations</p>
+            </CardContent>
+          </Card>
+        )}
+
+        {candidates && candidates.length > 0 && (
+          <div className="grid gap-4" data-testid="list-candidates">
+            <p className="text-sm text-muted-foreground">
+              Top {candidates.length} of {considered} minerals considered
+            </p>
+            {candidates.map((candidate, index) => (
+              <Card key={candidate.mineral.id} data-testid={`card-candidate-${candidate.mineral.id}`}>
+                <CardHeader>
+                  <div className="flex items-start justify-between gap-2">
+                    <div>
+                      <CardTitle>{index + 1}. {candidate.mineral.name}</CardTitle>
+                      {(candidate.mineral.mindatFormula || candidate.mineral.imaFormula) && (
+                        <CardDescription>
+                          {(candidate.mineral.mindatFormula || candidate.mineral.imaFormula || '').replace(/<[^>]+>/g, '')}
+                        </CardDescription>
+                      )}
+                    </div>
+                    <span className="text-2xl font-bold text-primary" data-testid={`text-score-${candidate.mineral.id}`}>
+                      {Math.round(candidate.score * 100)}%
+                    </span>
+                  </div>
+                </CardHeader>
+                <CardContent>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Property</TableHead>
+                        <TableHead>Observed</TableHead>
+                        <TableHead>Recorded</TableHead>
+                        <TableHead>Match</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {candidate.matches.map(match => (
+                        <TableRow key={match.property}>
+                          <TableCell className="font-medium">{PROPERTY_LABELS[match.property] || match.property}</TableCell>
+                          <TableCell>{match.observed}</TableCell>
+                          <TableCell className="max-w-xs truncate" title={match.recorded || undefined}>{match.recorded || '-'}</TableCell>
+                          <TableCell>
+                            <Badge variant={VERDICT_VARIANTS[match.verdict]}>{match.verdict}</Badge>
+                            <div className="text-xs text-muted-foreground mt-1">{match.note}</div>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
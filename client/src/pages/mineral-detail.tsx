@@ -2,15 +2,78 @@ import { useQuery } from '@tanstack/react-query';
 import { useRoute, Link } from 'wouter';
 import { ArrowLeft } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
 import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card';
-import type { Mineral } from '@shared/schema';
+import MineralHistory from '@/components/MineralHistory';
+import { convertToUTF8Formula } from '@/lib/formula';
+import type { CanonicalField, CanonicalMineral, CanonicalValue } from '@shared/canonical-mineral';
+
+const SOURCE_LABELS: Record<string, string> = {
+  mindat: 'Mindat',
+  rruff: 'RRUFF',
+  erocks: 'e-Rocks',
+  review: 'Reviewed',
+};
+
+const PHYSICAL_FIELDS: [CanonicalField, string][] = [
+  ['crystalSystem', 'Crystal System'],
+  ['spaceGroup', 'Space Group'],
+  ['colour', 'Colour'],
+  ['lustre', 'Lustre'],
+  ['streak', 'Streak'],
+  ['diaphaneity', 'Diaphaneity'],
+  ['cleavage', 'Cleavage'],
+  ['fracture', 'Fracture'],
+  ['tenacity', 'Tenacity'],
+];
+
+const CLASSIFICATION_FIELDS: [CanonicalField, string][] = [
+  ['imaSymbol', 'IMA Symbol'],
+  ['imaStatus', 'IMA Status'],
+  ['year', 'Year'],
+  ['strunz', 'Strunz Classification'],
+  ['elements', 'Elements'],
+];
+
+function formatValue(field: CanonicalField, value: CanonicalValue): string {
+  if (Array.isArray(value)) return value.join(', ');
+  return field === 'formula' ? convertToUTF8Formula(String(value)) : String(value);
+}
+
+function sourceLabel(source: string): string {
+  return SOURCE_LABELS[source] ?? source;
+}
+
+// Where a value came from, and what lower-ranked sources said instead
+function Provenance({ mineral, field }: { mineral: CanonicalMineral; field: CanonicalField }) {
+  const provenance = mineral.provenance[field];
+  if (!provenance) return null;
+
+  return (
+    <div className="mt-1 flex flex-wrap items-center gap-1 text-xs text-muted-foreground">
+      <Badge variant="outline" className="text-xs" data-testid={`badge-source-${field}`}>
+        {provenance.inheritedFrom ? `${sourceLabel(provenance.source)} (parent)` : sourceLabel(provenance.source)}
+      </Badge>
+      {provenance.alternatives.map(alternative => (
+        <span key={alternative.source}>
+          {sourceLabel(alternative.source)}: {formatValue(field, alternative.value)}
+        </span>
+      ))}
+    </div>
+  );
+}
+
+function Range({ min, max }: { min?: CanonicalValue; max?: CanonicalValue }) {
+  if (min !== undefined && max !== undefined && min !== max) return <>{`${min} - ${max}`}</>;
+  return <>{min ?? max}</>;
+}
 
 export default function MineralDetailPage() {
   const [, params] = useRoute('/mineral/:id');
   const mineralId = params?.id;
 
-  const { data: mineral, isLoading, error } = useQuery<Mineral>({
-    queryKey: [`/api/minerals/${mineralId}`],
+  const { data: mineral, isLoading, error } = useQuery<CanonicalMineral>({
+    queryKey: [`/api/minerals/${mineralId}/canonical`],
     enabled: !!mineralId,
   });
 
@@ -39,6 +102,9 @@ export default function MineralDetailPage() {
     );
   }
 
+  const { values } = mineral;
+  const classification = CLASSIFICATION_FIELDS.filter(([field]) => values[field] !== undefined);
+
   return (
     <div className="min-h-screen pb-40 pt-20 px-4">
       <div className="max-w-4xl mx-auto">
@@ -50,12 +116,27 @@ export default function MineralDetailPage() {
         </Link>
 
         <div className="mb-6">
-          <h1 className="text-4xl font-bold mb-2" data-testid="text-mineral-name">{mineral.name}</h1>
-          {mineral.formula && (
-            <p className="text-xl font-mono text-muted-foreground" data-testid="text-mineral-formula">
-              {mineral.formula}
-            </p>
+          <h1 className="text-4xl font-bold mb-2" data-testid="text-mineral-name">{values.name}</h1>
+          {values.formula !== undefined && (
+            <>
+              <p className="text-xl font-mono text-muted-foreground" data-testid="text-mineral-formula">
+                {formatValue('formula', values.formula)}
+              </p>
+              <Provenance mineral={mineral} field="formula" />
+            </>
           )}
+          <div className="mt-3 flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
+            <span data-testid="text-sources">
+              Sources: {mineral.sources.map(source => sourceLabel(source.name)).join(', ')}
+            </span>
+            {mineral.pendingConflicts > 0 && (
+              <Link href="/conflicts">
+                <Badge variant="destructive" className="cursor-pointer" data-testid="badge-pending-conflicts">
+                  {mineral.pendingConflicts} pending conflict{mineral.pendingConflicts === 1 ? '' : 's'}
+                </Badge>
+              </Link>
+            )}
+          </div>
         </div>
 
         <div className="grid gap-6">
@@ -65,118 +146,67 @@ export default function MineralDetailPage() {
             </CardHeader>
             <CardContent>
               <dl className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                {mineral.crystalSystem && (
-                  <div>
-                    <dt className="text-sm text-muted-foreground">Crystal System</dt>
-                    <dd className="font-medium" data-testid="text-crystal-system">{mineral.crystalSystem}</dd>
-                  </div>
-                )}
-                {(mineral.hardnessMin !== null || mineral.hardnessMax !== null) && (
+                {(values.hardnessMin !== undefined || values.hardnessMax !== undefined) && (
                   <div>
                     <dt className="text-sm text-muted-foreground">Mohs Hardness</dt>
                     <dd className="font-medium" data-testid="text-hardness">
-                      {mineral.hardnessMin && mineral.hardnessMax 
-                        ? `${mineral.hardnessMin} - ${mineral.hardnessMax}`
-                        : mineral.hardnessMin || mineral.hardnessMax}
+                      <Range min={values.hardnessMin} max={values.hardnessMax} />
                     </dd>
+                    <Provenance mineral={mineral} field={values.hardnessMin !== undefined ? 'hardnessMin' : 'hardnessMax'} />
                   </div>
                 )}
-                {(mineral.specificGravityMin !== null || mineral.specificGravityMax !== null) && (
+                {(values.specificGravityMin !== undefined || values.specificGravityMax !== undefined) && (
                   <div>
                     <dt className="text-sm text-muted-foreground">Specific Gravity</dt>
                     <dd className="font-medium">
-                      {mineral.specificGravityMin && mineral.specificGravityMax
-                        ? `${mineral.specificGravityMin} - ${mineral.specificGravityMax}`
-                        : mineral.specificGravityMin || mineral.specificGravityMax}
+                      <Range min={values.specificGravityMin} max={values.specificGravityMax} />
                     </dd>
+                    <Provenance mineral={mineral} field={values.specificGravityMin !== undefined ? 'specificGravityMin' : 'specificGravityMax'} />
                   </div>
                 )}
-                {mineral.colour && (
-                  <div>
-                    <dt className="text-sm text-muted-foreground">Colour</dt>
-                    <dd className="font-medium">{mineral.colour}</dd>
-                  </div>
-                )}
-                {mineral.lustre && (
-                  <div>
-                    <dt className="text-sm text-muted-foreground">Lustre</dt>
-                    <dd className="font-medium">{mineral.lustre}</dd>
-                  </div>
-                )}
-                {mineral.streak && (
-                  <div>
-                    <dt className="text-sm text-muted-foreground">Streak</dt>
-                    <dd className="font-medium">{mineral.streak}</dd>
-                  </div>
-                )}
-                {mineral.diaphaneity && (
-                  <div>
-                    <dt className="text-sm text-muted-foreground">Diaphaneity</dt>
-                    <dd className="font-medium">{mineral.diaphaneity}</dd>
-                  </div>
-                )}
-                {mineral.cleavage && (
-                  <div>
-                    <dt className="text-sm text-muted-foreground">Cleavage</dt>
-                    <dd className="font-medium">{mineral.cleavage}</dd>
+                {PHYSICAL_FIELDS.filter(([field]) => values[field] !== undefined).map(([field, label]) => (
+                  <div key={field}>
+                    <dt className="text-sm text-muted-foreground">{label}</dt>
+                    <dd className="font-medium" data-testid={`text-${field}`}>{formatValue(field, values[field]!)}</dd>
+                    <Provenance mineral={mineral} field={field} />
                   </div>
-                )}
-                {mineral.fracture && (
-                  <div>
-                    <dt className="text-sm text-muted-foreground">Fracture</dt>
-                    <dd className="font-medium">{mineral.fracture}</dd>
-                  </div>
-                )}
-                {mineral.tenacity && (
-                  <div>
-                    <dt className="text-sm text-muted-foreground">Tenacity</dt>
-                    <dd className="font-medium">{mineral.tenacity}</dd>
-                  </div>
-                )}
+                ))}
               </dl>
             </CardContent>
           </Card>
 
-          {(mineral.imaFormula || mineral.imaStatus || mineral.strunzClass) && (
+          {classification.length > 0 && (
             <Card>
               <CardHeader>
                 <CardTitle>Classification</CardTitle>
               </CardHeader>
               <CardContent>
                 <dl className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                  {mineral.imaFormula && (
-                    <div>
-                      <dt className="text-sm text-muted-foreground">IMA Formula</dt>
-                      <dd className="font-mono font-medium">{mineral.imaFormula}</dd>
-                    </div>
-                  )}
-                  {mineral.imaStatus && (
-                    <div>
-                      <dt className="text-sm text-muted-foreground">IMA Status</dt>
-                      <dd className="font-medium">{mineral.imaStatus}</dd>
+                  {classification.map(([field, label]) => (
+                    <div key={field}>
+                      <dt className="text-sm text-muted-foreground">{label}</dt>
+                      <dd className="font-medium" data-testid={`text-${field}`}>{formatValue(field, values[field]!)}</dd>
+                      <Provenance mineral={mineral} field={field} />
                     </div>
-                  )}
-                  {mineral.strunzClass && (
-                    <div>
-                      <dt className="text-sm text-muted-foreground">Strunz Classification</dt>
-                      <dd className="font-medium">{mineral.strunzClass}</dd>
-                    </div>
-                  )}
+                  ))}
                 </dl>
               </CardContent>
             </Card>
           )}
 
-          {mineral.description && (
+          {values.description !== undefined && (
             <Card>
               <CardHeader>
                 <CardTitle>Description</CardTitle>
               </CardHeader>
               <CardContent>
-                <p className="text-sm">{mineral.description}</p>
+                <p className="text-sm">{values.description}</p>
+                <Provenance mineral={mineral} field="description" />
               </CardContent>
             </Card>
           )}
+
+          <MineralHistory mindatId={Number(mineralId)} />
         </div>
       </div>
     </div>
@@ -4,27 +4,52 @@ import { Search } from 'lucide-react';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '@/components/ui/card';
-import type { Mineral } from '@shared/schema';
+import type { MindatMineral } from '@shared/schema';
+import { parseChemistryQuery, ChemistryQueryError } from '@shared/chemistry-query';
+import { convertToUTF8Formula } from '@/lib/formula';
 
 export default function MineralSearchPage() {
   const [searchQuery, setSearchQuery] = useState('');
   const [activeSearch, setActiveSearch] = useState('');
   const [exactMatchMode, setExactMatchMode] = useState(true);
+  const [chemistryQuery, setChemistryQuery] = useState('');
+  const [activeChemistry, setActiveChemistry] = useState('');
+  const [chemistryError, setChemistryError] = useState<string | null>(null);
+
+  const searchParams = new URLSearchParams();
+  if (activeSearch) searchParams.set('q', activeSearch);
+  if (activeChemistry) searchParams.set('chem', activeChemistry);
 
   const { data, isLoading, error } = useQuery({
-    queryKey: [`/api/minerals/search?q=${encodeURIComponent(activeSearch)}`],
-    enabled: activeSearch.length > 0,
+    queryKey: [`/api/minerals/search?${searchParams.toString()}`],
+    enabled: activeSearch.length > 0 || activeChemistry.length > 0,
   });
 
   const handleSearch = (e: React.FormEvent) => {
     e.preventDefault();
+    const chemistry = chemistryQuery.trim();
+
+    if (chemistry) {
+      try {
+        parseChemistryQuery(chemistry);
+      } catch (err) {
+        if (err instanceof ChemistryQueryError) {
+          setChemistryError(err.message);
+          return;
+        }
+        throw err;
+      }
+    }
+
+    setChemistryError(null);
     setActiveSearch(searchQuery.trim());
+    setActiveChemistry(chemistry);
   };
 
-  const rawMinerals = (data as { results: any[] })?.results || [];
+  const rawMinerals = (data as { results: MindatMineral[] })?.results || [];
   
   const mineralsWithoutGroups = rawMinerals.filter((m: any) => {
-    const entryType = m.entrytype_text?.toLowerCase() || '';
+    const entryType = m.entryTypeText?.toLowerCase() || '';
     return !entryType.includes('group') && !entryType.includes('series') && !entryType.includes('supergroup');
   });
   
@@ -34,7 +59,7 @@ export default function MineralSearchPage() {
   if (exactMatchMode && activeSearch) {
     const exactMatch = mineralsWithoutGroups.find(m => {
       const nameMatches = m.name?.toLowerCase() === activeSearch.toLowerCase();
-      const statusLower = (m.ima_status || '').toLowerCase();
+      const statusLower = (m.imaStatus || '').toLowerCase();
       const isApprovedOrGrandfathered = statusLower.includes('approved') || statusLower.includes('grandfathered');
       return nameMatches && isApprovedOrGrandfathered;
     });
@@ -59,8 +84,8 @@ export default function MineralSearchPage() {
   const relatedMineralIds = useMemo(() => {
     const ids = new Set<number>();
     minerals.forEach(m => {
-      if (m.varietyof && m.varietyof > 0) ids.add(m.varietyof);
-      if (m.synid && m.synid > 0) ids.add(m.synid);
+      if (m.varietyOf && m.varietyOf > 0) ids.add(m.varietyOf);
+      if (m.synId && m.synId > 0) ids.add(m.synId);
     });
     return Array.from(ids);
   }, [minerals]);
@@ -90,58 +115,17 @@ export default function MineralSearchPage() {
     return map;
   }, [relatedMineralsData]);
 
-  const convertToUTF8Formula = (html: string) => {
-    if (!html) return '';
-    
-    const subscriptMap: { [key: string]: string } = {
-      '0': '₀', '1': '₁', '2': '₂', '3': '₃', '4': '₄',
-      '5': '₅', '6': '₆', '7': '₇', '8': '₈', '9': '₉',
-      'a': 'ₐ', 'e': 'ₑ', 'h': 'ₕ', 'i': 'ᵢ', 'j': 'ⱼ',
-      'k': 'ₖ', 'l': 'ₗ', 'm': 'ₘ', 'n': 'ₙ', 'o': 'ₒ',
-      'p': 'ₚ', 'r': 'ᵣ', 's': 'ₛ', 't': 'ₜ', 'u': 'ᵤ',
-      'v': 'ᵥ', 'x': 'ₓ'
-    };
-    
-    const superscriptMap: { [key: string]: string } = {
-      '0': '⁰', '1': '¹', '2': '²', '3': '³', '4': '⁴',
-      '5': '⁵', '6': '⁶', '7': '⁷', '8': '⁸', '9': '⁹',
-      '+': '⁺', '-': '⁻', '=': '⁼', '(': '⁽', ')': '⁾',
-      'n': 'ⁿ'
-    };
-    
-    const htmlEntities: { [key: string]: string } = {
-      '&middot;': '·',
-      '&nbsp;': ' ',
-      '&times;': '×',
-      '&deg;': '°',
-      '&plusmn;': '±',
-      '&lt;': '<',
-      '&gt;': '>',
-      '&amp;': '&'
-    };
-    
-    let result = html;
-    
-    result = result.replace(/<sub>(.*?)<\/sub>/g, (match, content) => {
-      return content.split('').map((char: string) => subscriptMap[char] || char).join('');
-    });
-    
-    result = result.replace(/<sup>(.*?)<\/sup>/g, (match, content) => {
-      return content.split('').map((char: string) => superscriptMap[char] || char).join('');
-    });
-    
-    result = result.replace(/<mi>/g, '').replace(/<\/mi>/g, '');
-    result = result.replace(/\{10_11\}/g, '{10̄11}');
-    result = result.replace(/\{([0-9]+)_([0-9]+)\}/g, '{$1̄$2}');
-    
-    Object.entries(htmlEntities).forEach(([entity, char]) => {
-      result = result.replace(new RegExp(entity, 'g'), char);
-    });
-    
-    return result;
+  // ima_status is stored as text, either plain or as a Postgres array literal
+  const parseImaStatus = (status: string | null) => {
+    if (!status) return [];
+    return status
+      .replace(/^\{|\}$/g, '')
+      .split(',')
+      .map(s => s.replace(/"/g, '').trim())
+      .filter(Boolean);
   };
 
-  const getStrunzCode = (mineral: any) => {
+  const getStrunzCode = (mineral: MindatMineral) => {
     const { strunz10ed1, strunz10ed2, strunz10ed3, strunz10ed4 } = mineral;
     if (!strunz10ed1 || strunz10ed1 === '0') return null;
     
@@ -164,7 +148,7 @@ export default function MineralSearchPage() {
       <div className="max-w-4xl mx-auto">
         <div className="mb-8">
           <h1 className="text-3xl font-bold mb-2" data-testid="text-page-title">Mineral Search</h1>
-          <p className="text-muted-foreground">Search minerals by name</p>
+          <p className="text-muted-foreground">Search minerals by name or chemistry</p>
         </div>
 
         <form onSubmit={handleSearch} className="mb-6">
@@ -184,6 +168,22 @@ export default function MineralSearchPage() {
               Search
             </Button>
           </div>
+
+          <div className="mt-3">
+            <Input
+              data-testid="input-chemistry-query"
+              type="text"
+              placeholder="Chemistry, e.g. +Cu +S -Fe only(Cu,S,O,H)"
+              value={chemistryQuery}
+              onChange={(e) => setChemistryQuery(e.target.value)}
+              className="font-mono"
+            />
+            {chemistryError && (
+              <p className="text-sm text-destructive mt-1" data-testid="text-chemistry-error">
+                {chemistryError}
+              </p>
+            )}
+          </div>
           
           <div className="flex items-center gap-3 mt-4">
             <label className="flex items-center gap-3 cursor-pointer" data-testid="toggle-exact-match">
@@ -215,7 +215,7 @@ export default function MineralSearchPage() {
           </Card>
         )}
 
-        {!isLoading && !error && activeSearch && minerals.length === 0 && (
+        {!isLoading && !error && (activeSearch || activeChemistry) && minerals.length === 0 && (
           <Card data-testid="card-no-results">
             <CardContent className="pt-6 text-center">
               {exactMatchMode && hasNonIMAMatch ? (
@@ -223,7 +223,7 @@ export default function MineralSearchPage() {
                   "{activeSearch}" is not an IMA approved mineral type, try removing the IMA search for all results.
                 </p>
               ) : (
-                <p className="text-muted-foreground">No minerals found matching "{activeSearch}"</p>
+                <p className="text-muted-foreground">No minerals found matching "{activeSearch || activeChemistry}"</p>
               )}
             </CardContent>
           </Card>
@@ -232,7 +232,8 @@ export default function MineralSearchPage() {
         {!isLoading && minerals.length > 0 && (
           <div className="grid gap-4" data-testid="list-minerals">
             {minerals.map((mineral) => {
-              const formula = convertToUTF8Formula(mineral.mindat_formula || mineral.ima_formula || '');
+              const formula = convertToUTF8Formula(mineral.mindatFormula || mineral.imaFormula || '');
+              const imaStatuses = parseImaStatus(mineral.imaStatus);
               const strunzCode = getStrunzCode(mineral);
               
               return (
@@ -261,25 +262,25 @@ export default function MineralSearchPage() {
                           )}
                         </div>
                         <div className="text-right">
-                          {mineral.varietyof > 0 ? (
+                          {mineral.varietyOf && mineral.varietyOf > 0 ? (
                             <div className="text-xs text-muted-foreground" data-testid={`text-mineral-variety-${mineral.id}`}>
-                              {relatedMineralsMap.get(mineral.varietyof) 
-                                ? `Variety of ${relatedMineralsMap.get(mineral.varietyof)}`
+                              {relatedMineralsMap.get(mineral.varietyOf) 
+                                ? `Variety of ${relatedMineralsMap.get(mineral.varietyOf)}`
                                 : 'Variety'}
                             </div>
-                          ) : mineral.synid > 0 ? (
+                          ) : mineral.synId && mineral.synId > 0 ? (
                             <div className="text-xs text-muted-foreground" data-testid={`text-mineral-synonym-${mineral.id}`}>
-                              {relatedMineralsMap.get(mineral.synid)
-                                ? `Synonym of ${relatedMineralsMap.get(mineral.synid)}`
+                              {relatedMineralsMap.get(mineral.synId)
+                                ? `Synonym of ${relatedMineralsMap.get(mineral.synId)}`
                                 : 'Synonym'}
                             </div>
-                          ) : mineral.ima_status && mineral.ima_status.length === 0 && mineral.entrytype_text?.toLowerCase().includes('discredited') ? (
+                          ) : imaStatuses.length === 0 && mineral.entryTypeText?.toLowerCase().includes('discredited') ? (
                             <div className="text-xs text-muted-foreground" data-testid={`text-mineral-discredited-${mineral.id}`}>
                               Discredited
                             </div>
-                          ) : mineral.ima_status && mineral.ima_status.length > 0 ? (
+                          ) : imaStatuses.length > 0 ? (
                             <div className="text-xs text-muted-foreground" data-testid={`text-mineral-ima-status-${mineral.id}`}>
-                              {mineral.ima_status.join(', ')}
+                              {imaStatuses.join(', ')}
                             </div>
                           ) : null}
                         </div>
@@ -0,0 +1,300 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Plus, SlidersHorizontal, X } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import type { MindatMineral } from '@shared/schema';
+import { NUMERIC_PROPERTIES, getNumericProperty, propertySpan } from '@shared/mineral-properties';
+
+interface RangeFilter {
+  property: string;
+  min: string;
+  max: string;
+}
+
+const CRYSTAL_SYSTEMS = ['Cubic', 'Tetragonal', 'Hexagonal', 'Trigonal', 'Orthorhombic', 'Monoclinic', 'Triclinic', 'Amorphous'];
+const OPTICAL_TYPES = ['Isotropic', 'Uniaxial', 'Biaxial'];
+const ANY = 'any';
+const PAGE_SIZE = 25;
+
+export default function PropertySearchPage() {
+  const [filters, setFilters] = useState<RangeFilter[]>([
+    { property: 'hardness', min: '', max: '' },
+    { property: 'density_meas', min: '', max: '' },
+  ]);
+  const [crystalSystem, setCrystalSystem] = useState(ANY);
+  const [opticalType, setOpticalType] = useState(ANY);
+  const [includeUnknown, setIncludeUnknown] = useState(false);
+  const [sortProperty, setSortProperty] = useState('hardness');
+  const [sortDescending, setSortDescending] = useState(false);
+  const [activeQuery, setActiveQuery] = useState<string | null>(null);
+  const [page, setPage] = useState(1);
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: [`/api/minerals/search/properties?${activeQuery}&page=${page}&page_size=${PAGE_SIZE}`],
+    enabled: activeQuery !== null,
+  });
+
+  const unusedProperties = NUMERIC_PROPERTIES.filter(spec => !filters.some(f => f.property === spec.key));
+
+  const updateFilter = (index: number, update: Partial<RangeFilter>) => {
+    setFilters(filters.map((filter, i) => (i === index ? { ...filter, ...update } : filter)));
+  };
+
+  const addFilter = (property: string) => {
+    setFilters([...filters, { property, min: '', max: '' }]);
+  };
+
+  const removeFilter = (index: number) => {
+    setFilters(filters.filter((_, i) => i !== index));
+  };
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    const params = new URLSearchParams();
+
+    for (const filter of filters) {
+      const min = filter.min.trim();
+      const max = filter.max.trim();
+      if (min || max) params.set(filter.property, `${min}..${max}`);
+    }
+
+    if (crystalSystem !== ANY) params.set('crystal_system', crystalSystem);
+    if (opticalType !== ANY) params.set('optical_type', opticalType);
+    if (includeUnknown) params.set('include_unknown', 'true');
+    params.set('sort', `${sortDescending ? '-' : ''}${sortProperty}`);
+
+    setPage(1);
+    setActiveQuery(params.toString());
+  };
+
+  const formatSpan = (mineral: MindatMineral, key: string) => {
+    const spec = getNumericProperty(key);
+    const span = spec ? propertySpan(mineral, spec) : null;
+    if (!span) return '-';
+    const [low, high] = span;
+    return low === high ? `${low}` : `${low}–${high}`;
+  };
+
+  const results = (data as { results: MindatMineral[]; count: number })?.results || [];
+  const count = (data as { results: MindatMineral[]; count: number })?.count || 0;
+  const totalPages = Math.max(1, Math.ceil(count / PAGE_SIZE));
+  const shownProperties = Array.from(new Set([...filters.map(f => f.property), sortProperty]));
+
+  return (
+    <div className="min-h-screen pb-40 pt-20 px-4">
+      <div className="max-w-5xl mx-auto">
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold mb-2" data-testid="text-page-title">Property Search</h1>
+          <p className="text-muted-foreground">Find minerals by hardness, density, optics and unit cell</p>
+        </div>
+
+        <form onSubmit={handleSearch} className="mb-6">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <SlidersHorizontal size={20} />
+                Filters
+              </CardTitle>
+              <CardDescription>Ranges are inclusive; leave either end blank for an open range</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {filters.map((filter, index) => (
+                <div key={filter.property} className="flex items-center gap-2" data-testid={`row-filter-${filter.property}`}>
+                  <span className="flex-1 text-sm font-medium">{getNumericProperty(filter.property)?.label}</span>
+                  <Input
+                    data-testid={`input-min-${filter.property}`}
+                    type="number"
+                    step="any"
+                    placeholder="min"
+                    value={filter.min}
+                    onChange={(e) => updateFilter(index, { min: e.target.value })}
+                    className="w-28"
+                  />
+                  <span className="text-muted-foreground">–</span>
+                  <Input
+                    data-testid={`input-max-${filter.property}`}
+                    type="number"
+                    step="any"
+                    placeholder="max"
+                    value={filter.max}
+                    onChange={(e) => updateFilter(index, { max: e.target.value })}
+                    className="w-28"
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => removeFilter(index)}
+                    data-testid={`button-remove-filter-${filter.property}`}
+                  >
+                    <X size={16} />
+                  </Button>
+                </div>
+              ))}
+
+              {unusedProperties.length > 0 && (
+                <Select value="" onValueChange={addFilter}>
+                  <SelectTrigger className="w-64" data-testid="select-add-filter">
+                    <Plus size={16} />
+                    <SelectValue placeholder="Add property filter" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {unusedProperties.map(spec => (
+                      <SelectItem key={spec.key} value={spec.key}>{spec.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+
+              <div className="flex flex-wrap items-center gap-3 pt-2">
+                <Select value={crystalSystem} onValueChange={setCrystalSystem}>
+                  <SelectTrigger className="w-44" data-testid="select-crystal-system">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY}>Any crystal system</SelectItem>
+                    {CRYSTAL_SYSTEMS.map(system => (
+                      <SelectItem key={system} value={system}>{system}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+
+                <Select value={opticalType} onValueChange={setOpticalType}>
+                  <SelectTrigger className="w-40" data-testid="select-optical-type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY}>Any optics</SelectItem>
+                    {OPTICAL_TYPES.map(type => (
+                      <SelectItem key={type} value={type}>{type}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+
+                <Select value={sortProperty} onValueChange={setSortProperty}>
+                  <SelectTrigger className="w-56" data-testid="select-sort-property">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {NUMERIC_PROPERTIES.map(spec => (
+                      <SelectItem key={spec.key} value={spec.key}>Sort by {spec.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+
+                <label className="flex items-center gap-2 text-sm cursor-pointer" data-testid="toggle-sort-direction">
+                  <input
+                    type="checkbox"
+                    checked={sortDescending}
+                    onChange={(e) => setSortDescending(e.target.checked)}
+                  />
+                  Descending
+                </label>
+              </div>
+
+              <div className="flex items-center justify-between pt-2">
+                <label className="flex items-center gap-3 cursor-pointer" data-testid="toggle-include-unknown">
+                  <input
+                    type="checkbox"
+                    className="erocks-toggle"
+                    checked={includeUnknown}
+                    onChange={(e) => setIncludeUnknown(e.target.checked)}
+                  />
+                  <span className="text-sm font-medium">
+                    {includeUnknown ? 'Unknown values match' : 'Unknown values excluded'}
+                  </span>
+                </label>
+                <Button type="submit" data-testid="button-search">
+                  Search
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        </form>
+
+        {isLoading && (
+          <div className="text-center py-12" data-testid="text-loading">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto"></div>
+            <p className="mt-4 text-muted-foreground">Searching minerals...</p>
+          </div>
+        )}
+
+        {error && (
+          <Card className="border-destructive" data-testid="card-error">
+            <CardContent className="pt-6">
+              <p className="text-destructive">{(error as Error).message || 'Error loading minerals. Please try again.'}</p>
+            </CardContent>
+          </Card>
+        )}
+
+        {!isLoading && !error && activeQuery !== null && results.length === 0 && (
+          <Card data-testid="card-no-results">
+            <CardContent className="pt-6 text-center">
+              <p className="text-muted-foreground">No minerals match these properties</p>
+            </CardContent>
+          </Card>
+        )}
+
+        {!isLoading && results.length > 0 && (
+          <Card data-testid="card-results">
+            <CardHeader>
+              <CardDescription data-testid="text-result-count">{count} minerals</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Mineral Name</TableHead>
+                    <TableHead>Crystal System</TableHead>
+                    <TableHead>Optics</TableHead>
+                    {shownProperties.map(key => (
+                      <TableHead key={key}>{getNumericProperty(key)?.label}</TableHead>
+                    ))}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {results.map(mineral => (
+                    <TableRow key={mineral.id} data-testid={`row-mineral-${mineral.id}`}>
+                      <TableCell className="font-medium">{mineral.name}</TableCell>
+                      <TableCell>{mineral.crystalSystem || '-'}</TableCell>
+                      <TableCell>{mineral.opticalType || '-'}</TableCell>
+                      {shownProperties.map(key => (
+                        <TableCell key={key}>{formatSpan(mineral, key)}</TableCell>
+                      ))}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+
+              {totalPages > 1 && (
+                <div className="flex items-center justify-between mt-4">
+                  <Button
+                    variant="outline"
+                    disabled={page <= 1}
+                    onClick={() => setPage(page - 1)}
+                    data-testid="button-prev-page"
+                  >
+                    Previous
+                  </Button>
+                  <span className="text-sm text-muted-foreground">Page {page} of {totalPages}</span>
+                  <Button
+                    variant="outline"
+                    disabled={page >= totalPages}
+                    onClick={() => setPage(page + 1)}
+                    data-testid="button-next-page"
+                  >
+                    Next
+                  </Button>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
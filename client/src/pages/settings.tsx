@@ -1,16 +1,60 @@
-import { Settings as SettingsIcon } from 'lucide-react';
+import { Settings as SettingsIcon, AlertTriangle } from 'lucide-react';
 import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { ScrollArea } from '@/components/ui/scroll-area';
 import { apiRequest } from '@/lib/queryClient';
-import { useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { useToast } from '@/hooks/use-toast';
+import { useSyncEvents, isActiveJob } from '@/hooks/use-sync-events';
+import SyncSchedules, { JOB_STATUS_VARIANTS } from '@/components/SyncSchedules';
+
+const RECORD_LABELS = {
+  created: 'New',
+  updated: 'Updated',
+  deleted: 'Removed',
+  merged: 'Merged',
+};
+
+function formatEta(seconds: number): string {
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.round(seconds / 60);
+  if (minutes < 60) return `${minutes} min`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
 
 export default function SettingsPage() {
-  const [syncing, setSyncing] = useState(false);
+  const [starting, setStarting] = useState(false);
   const { toast } = useToast();
+  const { job, errors, records, follow } = useSyncEvents();
+  const active = isActiveJob(job);
+
+  // Toast when the job on screen finishes, not for jobs that were already done
+  const lastStatus = useRef<{ id: number; status: string } | null>(null);
+  useEffect(() => {
+    if (!job) return;
+    const previous = lastStatus.current;
+    lastStatus.current = { id: job.id, status: job.status };
+    const wasActive = previous?.id === job.id && (previous.status === 'pending' || previous.status === 'running');
+    if (!wasActive || active) return;
+
+    if (job.status === 'completed') {
+      toast({
+        title: "Sync Complete",
+        description: `Processed ${job.recordsProcessed ?? 0} minerals, ${job.recordsFailed ?? 0} failed`,
+      });
+    } else if (job.status === 'failed') {
+      toast({
+        title: "Sync Failed",
+        description: job.errorMessage || "Unable to sync minerals from Mindat API",
+        variant: "destructive",
+      });
+    }
+  }, [job, active, toast]);
 
   const handleSync = async () => {
-    setSyncing(true);
+    setStarting(true);
     try {
       const response = await apiRequest('POST', '/api/minerals/sync', {
         query: 'a',
@@ -18,11 +62,7 @@ export default function SettingsPage() {
         maxPages: 2,
       });
       const data = await response.json();
-      
-      toast({
-        title: "Sync Complete",
-        description: `Processed ${data.processed} minerals, ${data.failed} failed`,
-      });
+      follow(data.jobId, data.jobType);
     } catch (error) {
       toast({
         title: "Sync Failed",
@@ -30,7 +70,20 @@ export default function SettingsPage() {
         variant: "destructive",
       });
     } finally {
-      setSyncing(false);
+      setStarting(false);
+    }
+  };
+
+  const handleCancel = async () => {
+    if (!job) return;
+    try {
+      await apiRequest('POST', `/api/sync/jobs/${job.id}/cancel`);
+    } catch (error) {
+      toast({
+        title: "Cancel Failed",
+        description: error instanceof Error ? error.message : "Unable to cancel the job",
+        variant: "destructive",
+      });
     }
   };
 
@@ -54,16 +107,92 @@ export default function SettingsPage() {
               <p className="text-sm text-muted-foreground mb-4">
                 Sync mineral data from Mindat API to local database for faster searches.
               </p>
-              <Button 
-                onClick={handleSync} 
-                disabled={syncing}
-                data-testid="button-sync-minerals"
-              >
-                {syncing ? 'Syncing...' : 'Sync Minerals'}
-              </Button>
+              <div className="flex gap-2">
+                <Button
+                  onClick={handleSync}
+                  disabled={starting || active}
+                  data-testid="button-sync-minerals"
+                >
+                  {starting || active ? 'Syncing...' : 'Sync Minerals'}
+                </Button>
+                {active && (
+                  <Button variant="outline" onClick={handleCancel} data-testid="button-cancel-sync">
+                    Cancel
+                  </Button>
+                )}
+              </div>
+
+              {job && (
+                <div className="mt-6 space-y-3" data-testid="sync-job-progress">
+                  <div className="flex items-center justify-between text-sm">
+                    <span className="font-medium">
+                      Job #{job.id} · <span className="font-mono">{job.jobType}</span>
+                    </span>
+                    <Badge variant={JOB_STATUS_VARIANTS[job.status] ?? 'outline'}>{job.status}</Badge>
+                  </div>
+
+                  <Progress value={job.percentComplete ?? 0} />
+
+                  <div className="flex justify-between text-xs text-muted-foreground">
+                    <span data-testid="text-sync-counts">
+                      {job.recordsProcessed ?? 0}
+                      {job.recordsTotal ? ` / ${job.recordsTotal}` : ''} processed
+                      {job.recordsFailed ? ` · ${job.recordsFailed} failed` : ''}
+                    </span>
+                    <span>
+                      {job.percentComplete !== null && `${job.percentComplete}%`}
+                      {job.etaSeconds !== null && active && ` · ~${formatEta(job.etaSeconds)} left`}
+                    </span>
+                  </div>
+
+                  {job.errorMessage && (
+                    <p className="text-sm text-destructive">{job.errorMessage}</p>
+                  )}
+
+                  {records.length > 0 && (
+                    <div>
+                      <h3 className="text-sm font-medium mb-1">Recent changes</h3>
+                      <ScrollArea className="h-32 rounded border">
+                        <ul className="p-2 text-xs space-y-1" data-testid="list-sync-records">
+                          {records.map(record => (
+                            <li key={record.key} className="flex gap-2">
+                              <span className="w-16 text-muted-foreground">{RECORD_LABELS[record.action]}</span>
+                              <span>
+                                {record.name || `#${record.mindatId}`}
+                                {record.mergedIntoId !== undefined && ` → #${record.mergedIntoId}`}
+                              </span>
+                            </li>
+                          ))}
+                        </ul>
+                      </ScrollArea>
+                    </div>
+                  )}
+
+                  {errors.length > 0 && (
+                    <div>
+                      <h3 className="text-sm font-medium mb-1 flex items-center gap-1 text-destructive">
+                        <AlertTriangle className="h-4 w-4" />
+                        Errors ({errors.length})
+                      </h3>
+                      <ScrollArea className="h-32 rounded border border-destructive/40">
+                        <ul className="p-2 text-xs space-y-1 font-mono" data-testid="list-sync-errors">
+                          {errors.map(entry => (
+                            <li key={entry.key}>
+                              <span className="text-muted-foreground">{new Date(entry.at).toLocaleTimeString()}</span>{' '}
+                              {entry.message}
+                            </li>
+                          ))}
+                        </ul>
+                      </ScrollArea>
+                    </div>
+                  )}
+                </div>
+              )}
             </CardContent>
           </Card>
 
+          <SyncSchedules />
+
           <Card>
             <CardHeader>
               <CardTitle>About</CardTitle>
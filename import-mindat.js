@@ -17,10 +17,10 @@ fetch('http://localhost:5000/api/mindat-csv/import', {
 })
 .then(res => res.json())
 .then(data => {
-  console.log('Import result:', JSON.stringify(data, null, 2));
+  console.log(`Import queued as job ${data.jobId}`);
+  console.log(`Progress: curl http://localhost:5000${data.statusUrl}`);
 })
 .catch(err => {
   console.error('Error:', err.message);
 });
 
-console.log('Import request sent. Check server logs for progress...');
@@ -8,19 +8,17 @@
  * 3. Export results to CSV
  */
 
+import 'dotenv/config';
 import { neon } from '@neondatabase/serverless';
 import { stringify } from 'csv-stringify/sync';
 import * as fs from 'fs';
 import * as path from 'path';
-import dotenv from 'dotenv';
-
-// Load environment variables
-dotenv.config();
+import { MindatHttpClient, MindatApiError } from '../server/services/mindat-http-client';
 
 const sql = neon(process.env.DATABASE_URL!);
 
 const MINDAT_API_KEY = process.env.MINDAT_API_KEY;
-const RATE_LIMIT_DELAY = 1000; // 1 second between API calls
+const mindatHttp = MindatHttpClient.getInstance();
 
 interface CleanResult {
   mindat_id: number;
@@ -191,14 +189,12 @@ async function fixIncompleteStrunz(dryRun: boolean = false): Promise<FixResult[]
 
     // Fetch from Mindat API
     try {
-      const response = await fetch(`https://api.mindat.org/v1/geomaterials/${mineral.mindat_id}/`, {
-        headers: {
-          'Authorization': `Token ${MINDAT_API_KEY}`
-        }
-      });
-
-      if (!response.ok) {
-        console.log(`  API error: ${response.status}`);
+      let data: any;
+      try {
+        data = await mindatHttp.get(`geomaterials/${mineral.mindat_id}/`, { cache: true });
+      } catch (error) {
+        if (!(error instanceof MindatApiError)) throw error;
+        console.log(`  API error: ${error.status}`);
         results.push({
           mindat_id: mineral.mindat_id,
           name: mineral.name,
@@ -209,13 +205,11 @@ async function fixIncompleteStrunz(dryRun: boolean = false): Promise<FixResult[]
           strunz10ed3: mineral.strunz10ed3 || '',
           strunz10ed4: mineral.strunz10ed4 || '',
           status: 'api_error',
-          error: `HTTP ${response.status}`
+          error: `HTTP ${error.status}`
         });
         continue;
       }
 
-      const data = await response.json();
-
       // Check if Mindat has strunz10ed4
       if (!data.strunz10ed4 || data.strunz10ed4.trim() === '') {
         console.log(`  No strunz10ed4 in Mindat`);
@@ -279,11 +273,6 @@ async function fixIncompleteStrunz(dryRun: boolean = false): Promise<FixResult[]
         error: String(error)
       });
     }
-
-    // Rate limiting
-    if (i < incomplete.length - 1) {
-      await new Promise(resolve => setTimeout(resolve, RATE_LIMIT_DELAY));
-    }
   }
 
   return results;
@@ -17,9 +17,10 @@ import fs from 'fs';
 import { parse } from 'csv-parse/sync';
 import { stringify } from 'csv-stringify/sync';
 import { neon } from '@neondatabase/serverless';
+import { MindatHttpClient } from '../server/services/mindat-http-client';
 
 const sql = neon(process.env.DATABASE_URL!);
-const MINDAT_API_KEY = process.env.MINDAT_API_KEY!;
+const mindatHttp = MindatHttpClient.getInstance();
 
 // Unicode conversion
 function convertFormulaToUnicode(html: string): string {
@@ -151,14 +152,7 @@ function normalizeChars(text: string): string {
 // Search Mindat API
 async function searchMindatAPI(name: string): Promise<any> {
   try {
-    const searchUrl = `https://api.mindat.org/search_dyn/?format=json&name=${encodeURIComponent(name)}`;
-    const response = await fetch(searchUrl, {
-      headers: { 'Authorization': `Token ${MINDAT_API_KEY}` }
-    });
-
-    if (!response.ok) return null;
-
-    const data = await response.json();
+    const data = await mindatHttp.get(`geomaterials/?name=${encodeURIComponent(name)}`);
     if (data.results && data.results.length > 0) {
       // Get first exact match or closest match
       const exactMatch = data.results.find((r: any) => r.name?.toLowerCase() === name.toLowerCase());
@@ -173,15 +167,8 @@ async function searchMindatAPI(name: string): Promise<any> {
 // Fetch full mineral details
 async function fetchMineralDetails(mindatId: number): Promise<any> {
   try {
-    await new Promise(resolve => setTimeout(resolve, 1000)); // Rate limit
-
-    const url = `https://api.mindat.org/minerals/${mindatId}/?format=json&fields=id,name,ima_formula,mindat_formula,crystal_system,hardness_min,hardness_max,streak,colour,ima_status,strunz10ed1,strunz10ed2,strunz10ed3,strunz10ed4`;
-    const response = await fetch(url, {
-      headers: { 'Authorization': `Token ${MINDAT_API_KEY}` }
-    });
-
-    if (!response.ok) return null;
-    return await response.json();
+    const url = `geomaterials/${mindatId}/?fields=id,name,ima_formula,mindat_formula,crystal_system,hardness_min,hardness_max,streak,colour,ima_status,strunz10ed1,strunz10ed2,strunz10ed3,strunz10ed4`;
+    return await mindatHttp.get(url, { cache: true });
   } catch (error) {
     return null;
   }
@@ -7,17 +7,17 @@
  *
  * Usage:
  *   npm run enrich-erocks <input-csv-path> [output-directory]
+ *   npm run enrich-erocks -- --runs                          List stored runs
+ *   npm run enrich-erocks -- --export-run=<id> [output-directory]
  *
  * Example:
  *   npm run enrich-erocks "/mnt/c/Users/halwh/Downloads/minerals (1).csv" ./output
  */
 
-import dotenv from 'dotenv';
-import path from 'path';
+// Loaded before the services, which connect when imported
+import 'dotenv/config';
 import { ERocksDataEnrichment } from '../server/services/erocks-data-enrichment';
-
-// Load environment variables
-dotenv.config();
+import { ERocksEnrichmentRuns } from '../server/services/erocks-enrichment-runs';
 
 // Validate DATABASE_URL
 if (!process.env.DATABASE_URL) {
@@ -26,8 +26,40 @@ if (!process.env.DATABASE_URL) {
   process.exit(1);
 }
 
+function option(name: string): string | undefined {
+  const arg = process.argv.find(a => a.startsWith(`--${name}=`));
+  return arg?.slice(name.length + 3);
+}
+
+async function listRuns() {
+  const runs = await ERocksEnrichmentRuns.getInstance().listRuns();
+  if (runs.length === 0) {
+    console.log('No enrichment runs stored yet');
+    return;
+  }
+  for (const run of runs) {
+    console.log(`#${run.id}  ${run.startedAt.toISOString()}  ${run.status.padEnd(9)}  ${run.matchedRecords}/${run.mineralRecords} matched, ${run.needsReviewCount} to review  ${run.inputHash.slice(0, 12)}  ${run.inputFile}`);
+  }
+}
+
 async function main() {
-  const args = process.argv.slice(2);
+  const args = process.argv.slice(2).filter(a => !a.startsWith('--'));
+
+  if (process.argv.includes('--runs')) {
+    await listRuns();
+    process.exit(0);
+  }
+
+  const exportRunId = option('export-run');
+  if (exportRunId) {
+    try {
+      await new ERocksDataEnrichment().exportRun(parseInt(exportRunId, 10), args[0] || './erocks-output');
+      process.exit(0);
+    } catch (error) {
+      console.error(`\n❌ Error exporting run ${exportRunId}:`, error);
+      process.exit(1);
+    }
+  }
 
   if (args.length === 0) {
     console.log(`
@@ -37,10 +69,14 @@ async function main() {
 
 Usage:
   npm run enrich-erocks <input-csv-path> [output-directory]
+  npm run enrich-erocks -- --runs
+  npm run enrich-erocks -- --export-run=<id> [output-directory]
 
 Arguments:
   input-csv-path     Path to e-Rocks CSV export (required)
   output-directory   Directory for output files (default: ./erocks-output)
+  --runs             List stored enrichment runs
+  --export-run=<id>  Write a stored run's files again without re-matching
 
 Example:
   npm run enrich-erocks "/mnt/c/Users/halwh/Downloads/minerals (1).csv"
@@ -77,11 +113,11 @@ Features:
 
   try {
     const enrichment = new ERocksDataEnrichment();
-    await enrichment.processCSV(inputPath, outputDir);
+    const runId = await enrichment.processCSV(inputPath, outputDir);
 
     const duration = ((Date.now() - startTime) / 1000).toFixed(1);
     console.log(`⏱️  Total processing time: ${duration} seconds\n`);
-    console.log(`✅ Data enrichment completed successfully!\n`);
+    console.log(`✅ Data enrichment completed successfully! (run #${runId})\n`);
 
   } catch (error) {
     console.error(`\n❌ Error during enrichment:`, error);
@@ -1,12 +1,12 @@
 #!/usr/bin/env tsx
 
+import 'dotenv/config';
 import { neon } from '@neondatabase/serverless';
-import * as dotenv from 'dotenv';
-
-dotenv.config();
+import { MindatHttpClient } from '../server/services/mindat-http-client';
 
 const sql = neon(process.env.DATABASE_URL!);
 const MINDAT_API_KEY = process.env.MINDAT_API_KEY;
+const mindatHttp = MindatHttpClient.getInstance();
 
 interface MindatApiResponse {
   id: number;
@@ -29,18 +29,7 @@ async function fetchMineralFromApi(mindatId: number) {
 
   const url = `https://api.geomaterials.org/item/${mindatId}/?format=json`;
 
-  const response = await fetch(url, {
-    headers: {
-      'Authorization': `Token ${MINDAT_API_KEY}`,
-      'Accept': 'application/json'
-    }
-  });
-
-  if (!response.ok) {
-    throw new Error(`API request failed: ${response.status} ${response.statusText}`);
-  }
-
-  const data: MindatApiResponse = await response.json();
+  const data = await mindatHttp.get<MindatApiResponse>(url, { cache: true });
 
   console.log('✅ Received data from API:');
   console.log(`   Name: ${data.name}`);
@@ -9,14 +9,12 @@
  * 4. Export results to CSV
  */
 
+import 'dotenv/config';
 import { neon } from '@neondatabase/serverless';
 import { stringify } from 'csv-stringify/sync';
 import * as fs from 'fs';
 import * as path from 'path';
-import dotenv from 'dotenv';
-
-// Load environment variables
-dotenv.config();
+import { MindatHttpClient, MindatApiError } from '../server/services/mindat-http-client';
 
 const sql = neon(process.env.DATABASE_URL!);
 
@@ -53,7 +51,7 @@ interface FixResult {
 }
 
 const MINDAT_API_KEY = process.env.MINDAT_API_KEY;
-const RATE_LIMIT_DELAY = 1000; // 1 second between API calls
+const mindatHttp = MindatHttpClient.getInstance();
 
 /**
  * Concatenate Strunz parts into full classification
@@ -72,21 +70,13 @@ function concatenateStrunz(p1?: string | null, p2?: string | null, p3?: string |
  */
 async function fetchMindatStrunz(mindatId: number): Promise<MindatStrunzResponse | null> {
   try {
-    const response = await fetch(`https://api.mindat.org/minerals/${mindatId}`, {
-      headers: {
-        'Authorization': `Token ${MINDAT_API_KEY}`
-      }
-    });
-
-    if (!response.ok) {
-      console.error(`API error for ${mindatId}: ${response.status} ${response.statusText}`);
-      return null;
-    }
-
-    const data = await response.json();
-    return data;
+    return await mindatHttp.get<MindatStrunzResponse>(`geomaterials/${mindatId}/`, { cache: true });
   } catch (error) {
-    console.error(`Fetch error for ${mindatId}:`, error);
+    if (error instanceof MindatApiError) {
+      console.error(`API error for ${mindatId}: ${error.message}`);
+    } else {
+      console.error(`Fetch error for ${mindatId}:`, error);
+    }
     return null;
   }
 }
@@ -258,11 +248,6 @@ async function fixIncompleteStrunz(dryRun: boolean = false): Promise<FixResult[]
         error: updateSuccess ? undefined : 'Database update failed'
       });
     }
-
-    // Rate limiting
-    if (i < incomplete.length - 1) {
-      await new Promise(resolve => setTimeout(resolve, RATE_LIMIT_DELAY));
-    }
   }
 
   return results;
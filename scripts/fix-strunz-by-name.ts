@@ -4,16 +4,14 @@
  * Fix Strunz for minerals that got 500 errors by searching by name
  */
 
+import 'dotenv/config';
 import { neon } from '@neondatabase/serverless';
 import { stringify } from 'csv-stringify/sync';
 import * as fs from 'fs';
-import dotenv from 'dotenv';
-
-dotenv.config();
+import { MindatHttpClient, MindatApiError } from '../server/services/mindat-http-client';
 
 const sql = neon(process.env.DATABASE_URL!);
-const MINDAT_API_KEY = process.env.MINDAT_API_KEY;
-const RATE_LIMIT_DELAY = 1000;
+const mindatHttp = MindatHttpClient.getInstance();
 
 // List of minerals that got 500 errors
 const errorMinerals = [
@@ -41,18 +39,7 @@ function concatenateStrunz(p1?: string | null, p2?: string | null, p3?: string |
 
 async function searchByName(name: string) {
   try {
-    const response = await fetch(`https://api.mindat.org/v1/geomaterials/?name=${encodeURIComponent(name)}`, {
-      headers: {
-        'Authorization': `Token ${MINDAT_API_KEY}`
-      }
-    });
-
-    if (!response.ok) {
-      console.log(`  API error: ${response.status}`);
-      return null;
-    }
-
-    const data = await response.json();
+    const data = await mindatHttp.get(`geomaterials/?name=${encodeURIComponent(name)}`);
 
     if (data.results && data.results.length > 0) {
       // Find exact match
@@ -62,7 +49,11 @@ async function searchByName(name: string) {
 
     return null;
   } catch (error) {
-    console.log(`  Error: ${error}`);
+    if (error instanceof MindatApiError) {
+      console.log(`  API error: ${error.status}`);
+    } else {
+      console.log(`  Error: ${error}`);
+    }
     return null;
   }
 }
@@ -152,11 +143,6 @@ async function main() {
         });
       }
     }
-
-    // Rate limit
-    if (i < errorMinerals.length - 1) {
-      await new Promise(resolve => setTimeout(resolve, RATE_LIMIT_DELAY));
-    }
   }
 
   // Export to CSV
@@ -0,0 +1,94 @@
+#!/usr/bin/env tsx
+
+/**
+ * Import the Mindat dump or the RRUFF export from the command line, or check
+ * one first with --dry-run:
+ *
+ *   npm run import-csv -- mindat attached_assets/mindatdump.csv --dry-run
+ *   npm run import-csv -- rruff --update
+ *
+ * Options:
+ *   --dry-run          Validate and count inserts/updates without writing
+ *   --skip-existing    Mindat: leave rows already in the database alone
+ *   --update           RRUFF: update rows whose export values changed
+ *   --batch-size=N     Rows per batch (Mindat 100, RRUFF 250)
+ *   --errors=N         Row errors to print (default 50)
+ */
+
+import 'dotenv/config';
+import { MindatCSVImportV2 } from '../server/services/mindat-csv-import-v2';
+import { RruffImportService } from '../server/services/rruff-import-service';
+import { RRUFF_CSV_PATH } from '../server/services/job-handlers';
+import { MAX_ROW_ERRORS, type ImportReport } from '../server/services/csv-batch-reader';
+
+const DEFAULT_MINDAT_CSV = 'attached_assets/mindatdump.csv';
+
+function option(name: string): string | undefined {
+  const arg = process.argv.find(a => a.startsWith(`--${name}=`));
+  return arg?.slice(name.length + 3);
+}
+
+function printReport(report: ImportReport, errorLimit: number) {
+  const lines: [string, number][] = [
+    ['Rows read', report.totalProcessed],
+    [report.dryRun ? 'Would insert' : 'Inserted', report.totalCreated],
+    [report.dryRun ? 'Would update' : 'Updated', report.totalUpdated],
+    ['Unchanged', report.totalUnchanged],
+    ['Skipped existing', report.totalSkipped],
+    ['Invalid', report.totalInvalid],
+  ];
+  if (!report.dryRun) lines.push(['Failed writes', report.totalFailed]);
+
+  console.log(`\n=== ${report.dryRun ? 'Dry run' : 'Import'} report ===`);
+  for (const [label, count] of lines) {
+    console.log(`${`${label}:`.padEnd(18)}${count}`);
+  }
+
+  if (report.rowErrors.length > 0) {
+    console.log(`\nRow errors (${Math.min(errorLimit, report.rowErrors.length)} of ${report.rowErrors.length}${report.rowErrors.length >= MAX_ROW_ERRORS ? '+' : ''}):`);
+    for (const error of report.rowErrors.slice(0, errorLimit)) {
+      console.log(`  row ${error.row}${error.key ? ` [${error.key}]` : ''} ${error.level}: ${error.message}`);
+    }
+  }
+}
+
+async function main() {
+  const [source, file] = process.argv.slice(2).filter(a => !a.startsWith('--'));
+  const dryRun = process.argv.includes('--dry-run');
+  const batchSize = option('batch-size') ? parseInt(option('batch-size')!, 10) : undefined;
+  const errorLimit = parseInt(option('errors') ?? '50', 10);
+
+  if (source !== 'mindat' && source !== 'rruff') {
+    console.error('Usage: import-csv <mindat|rruff> [file] [--dry-run] [--skip-existing] [--update] [--batch-size=N]');
+    process.exit(1);
+  }
+
+  if (dryRun) {
+    console.log('*** DRY RUN - No database changes will be made ***\n');
+  }
+
+  const report = source === 'mindat'
+    ? await MindatCSVImportV2.getInstance().importFromCSV(file ?? DEFAULT_MINDAT_CSV, {
+        batchSize,
+        dryRun,
+        skipExisting: process.argv.includes('--skip-existing'),
+      })
+    : await RruffImportService.getInstance().importFromCSV(file ?? RRUFF_CSV_PATH, {
+        batchSize,
+        dryRun,
+        skipExisting: !process.argv.includes('--update'),
+      });
+
+  printReport(report, errorLimit);
+
+  if (dryRun) {
+    console.log('\nDRY RUN complete. Run without --dry-run to write these changes.');
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error('❌ Import failed:', error.message);
+    process.exit(1);
+  });
@@ -17,14 +17,13 @@
  *   npm run match-exceptions
  */
 
-import dotenv from 'dotenv';
+import 'dotenv/config';
 import { neon } from '@neondatabase/serverless';
 import fs from 'fs/promises';
 import csv from 'csv-parser';
 import { createReadStream } from 'fs';
 import { stringify } from 'csv-stringify/sync';
-
-dotenv.config();
+import { MindatHttpClient, MindatApiError } from '../server/services/mindat-http-client';
 
 interface ExceptionRecord {
   'Published status': string;
@@ -78,7 +77,7 @@ interface MatchedMineral {
 
 class ExceptionsMatchingService {
   private sql: ReturnType<typeof neon>;
-  private apiKey: string;
+  private mindatHttp = MindatHttpClient.getInstance();
   private matched: MatchedMineral[] = [];
   private stillUnmatched: ExceptionRecord[] = [];
   private invalidRecords: ExceptionRecord[] = [];
@@ -91,7 +90,6 @@ class ExceptionsMatchingService {
       throw new Error('MINDAT_API_KEY not set');
     }
     this.sql = neon(process.env.DATABASE_URL);
-    this.apiKey = process.env.MINDAT_API_KEY;
   }
 
   /**
@@ -192,17 +190,7 @@ class ExceptionsMatchingService {
    */
   private async matchViaAPIById(mindatId: string): Promise<MindatMineral | null> {
     try {
-      const response = await fetch(`https://api.mindat.org/minerals/${mindatId}`, {
-        headers: {
-          'Authorization': `Token ${this.apiKey}`
-        }
-      });
-
-      if (!response.ok) {
-        return null;
-      }
-
-      const data = await response.json();
+      const data = await this.mindatHttp.get(`geomaterials/${mindatId}/`, { cache: true });
 
       // Transform API response to match our MindatMineral interface
       return {
@@ -211,10 +199,10 @@ class ExceptionsMatchingService {
         ima_formula: data.ima_formula || null,
         crystal_system: data.crystal_system || null,
         mindat_longid: data.mindat_longid || null,
-        strunz10ed1: data.strunz10ed_class_1 || null,
-        strunz10ed2: data.strunz10ed_class_2 || null,
-        strunz10ed3: data.strunz10ed_class_3 || null,
-        strunz10ed4: data.strunz10ed_class_4 || null,
+        strunz10ed1: data.strunz10ed1 || null,
+        strunz10ed2: data.strunz10ed2 || null,
+        strunz10ed3: data.strunz10ed3 || null,
+        strunz10ed4: data.strunz10ed4 || null,
         hardness_min: data.hardness_min || null,
         hardness_max: data.hardness_max || null,
         colour: data.colour || null,
@@ -230,7 +218,9 @@ class ExceptionsMatchingService {
         synonym_of_id: data.synonym_of_id || null
       };
     } catch (error) {
-      console.log(`  API ID search error: ${error}`);
+      if (!(error instanceof MindatApiError)) {
+        console.log(`  API ID search error: ${error}`);
+      }
       return null;
     }
   }
@@ -240,31 +230,18 @@ class ExceptionsMatchingService {
    */
   private async matchViaAPISearch(title: string): Promise<MindatMineral | null> {
     try {
-      const response = await fetch(`https://api.mindat.org/search/?q=${encodeURIComponent(title)}`, {
-        headers: {
-          'Authorization': `Token ${this.apiKey}`
-        }
-      });
-
-      if (!response.ok) {
-        return null;
-      }
-
-      const data = await response.json();
+      const data = await this.mindatHttp.get(`geomaterials/?name=${encodeURIComponent(title)}`);
 
       if (data.results && data.results.length > 0) {
-        const firstResult = data.results[0];
-
-        // Check if it's a mineral (not locality, etc.)
-        if (firstResult._source?.name) {
-          // Fetch full mineral details
-          return await this.matchViaAPIById(firstResult._source.id.toString());
-        }
+        // Fetch full mineral details
+        return await this.matchViaAPIById(data.results[0].id.toString());
       }
 
       return null;
     } catch (error) {
-      console.log(`  API search error: ${error}`);
+      if (!(error instanceof MindatApiError)) {
+        console.log(`  API search error: ${error}`);
+      }
       return null;
     }
   }
@@ -293,9 +270,6 @@ class ExceptionsMatchingService {
         matchType = 'api_id';
         console.log(`  ✅ Matched via API ID: ${mindatData.name}`);
       }
-
-      // Rate limit: 1 request per second
-      await new Promise(resolve => setTimeout(resolve, 1000));
     }
 
     // Strategy 2: Try database with normalized name
@@ -316,9 +290,6 @@ class ExceptionsMatchingService {
         matchType = 'api_search';
         console.log(`  ✅ Matched via API search: ${mindatData.name}`);
       }
-
-      // Rate limit
-      await new Promise(resolve => setTimeout(resolve, 1000));
     }
 
     if (mindatData && matchType) {
@@ -0,0 +1,466 @@
+#!/usr/bin/env tsx
+/**
+ * Mindat API stand-in for offline development and tests
+ *
+ * Serves recorded JSON fixtures (scripts/fixtures/mindat) with the same URL
+ * layout, pagination and conditional-request behaviour as api.mindat.org/v1,
+ * so MindatHttpClient and everything built on it can run without a key or a
+ * network. A scenarios file layers on the awkward cases: IDs that 404, IDs
+ * merged into another record, records edited mid-run and periodic 429s.
+ *
+ * Endpoints:
+ *   GET /v1/geomaterials/           search + pagination (q, name, updated_at, fields, ordering, ...)
+ *   GET /v1/geomaterials/:id/       single record, ETag/Last-Modified aware
+ *   GET /v1/minerals_ima/[:id/]     IMA-approved minerals only
+ *   GET /v1/localities/[:id/]       localities (txt search)
+ *
+ * Scenarios can also be changed while running through /__stand-in (see below).
+ *
+ * Usage:
+ *   npm run mindat:stand-in
+ *   npm run mindat:stand-in -- --port 5055 --fixtures ./my-fixtures --scenarios ./scenarios.json
+ *
+ * Then point the app at it:
+ *   MINDAT_API_BASE_URL=http://localhost:5055/v1
+ */
+
+import 'dotenv/config';
+import express, { type Request, type Response, type NextFunction } from 'express';
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+
+type MindatRecord = Record<string, any> & { id: number };
+
+interface ScenarioEdit {
+  id: number;
+  // Apply once this many API requests have been served (0 = immediately)
+  afterRequests: number;
+  changes: Record<string, any>;
+}
+
+interface Scenarios {
+  missing: number[];
+  merged: Record<string, number>;
+  edits: ScenarioEdit[];
+  // Every Nth API request answers 429 (0 disables)
+  rateLimit: { every: number; retryAfter: number };
+}
+
+interface RequestLogEntry {
+  method: string;
+  url: string;
+  status: number;
+  at: string;
+}
+
+const DEFAULT_PAGE_SIZE = 10;
+const MAX_PAGE_SIZE = 1500;
+const REQUEST_LOG_SIZE = 500;
+
+function argValue(name: string): string | undefined {
+  const args = process.argv.slice(2);
+  const inline = args.find(arg => arg.startsWith(`--${name}=`));
+  if (inline) return inline.slice(name.length + 3);
+
+  const index = args.indexOf(`--${name}`);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+const PORT = parseInt(argValue('port') || process.env.MINDAT_STAND_IN_PORT || '5055', 10);
+const FIXTURES_DIR = path.resolve(argValue('fixtures') || path.join(import.meta.dirname, 'fixtures', 'mindat'));
+const SCENARIOS_FILE = path.resolve(argValue('scenarios') || path.join(FIXTURES_DIR, 'scenarios.json'));
+
+function readJson<T>(file: string, fallback: T): T {
+  if (!fs.existsSync(file)) return fallback;
+  return JSON.parse(fs.readFileSync(file, 'utf-8'));
+}
+
+function timestamp(date = new Date()): string {
+  return date.toISOString().replace(/\.\d+Z$/, 'Z');
+}
+
+/**
+ * All mutable stand-in state. reset() reloads it from disk so a test run can
+ * start from a known baseline without restarting the process.
+ */
+class StandInState {
+  geomaterials = new Map<number, MindatRecord>();
+  localities = new Map<number, MindatRecord>();
+  missing = new Set<number>();
+  merged = new Map<number, number>();
+  pendingEdits: ScenarioEdit[] = [];
+  rateLimit = { every: 0, retryAfter: 1 };
+  requestCount = 0;
+  requestLog: RequestLogEntry[] = [];
+
+  reset() {
+    const geomaterials = readJson<MindatRecord[]>(path.join(FIXTURES_DIR, 'geomaterials.json'), []);
+    const localities = readJson<MindatRecord[]>(path.join(FIXTURES_DIR, 'localities.json'), []);
+    const scenarios = readJson<Partial<Scenarios>>(SCENARIOS_FILE, {});
+
+    this.geomaterials = new Map(geomaterials.map(record => [record.id, record]));
+    this.localities = new Map(localities.map(record => [record.id, record]));
+    this.missing = new Set(scenarios.missing ?? []);
+    this.merged = new Map(Object.entries(scenarios.merged ?? {}).map(([from, into]) => [Number(from), into]));
+    this.pendingEdits = [...(scenarios.edits ?? [])];
+    this.rateLimit = { every: 0, retryAfter: 1, ...scenarios.rateLimit };
+    this.requestCount = 0;
+    this.requestLog = [];
+  }
+
+  // Edits bump updttime so they look like a genuine change on Mindat's side
+  edit(id: number, changes: Record<string, any>): MindatRecord | undefined {
+    const record = this.geomaterials.get(id);
+    if (!record) return undefined;
+
+    const edited = { ...record, ...changes, id, updttime: timestamp() };
+    this.geomaterials.set(id, edited);
+    return edited;
+  }
+
+  applyDueEdits() {
+    const due = this.pendingEdits.filter(edit => edit.afterRequests <= this.requestCount);
+    if (due.length === 0) return;
+
+    this.pendingEdits = this.pendingEdits.filter(edit => !due.includes(edit));
+    for (const edit of due) {
+      if (this.edit(edit.id, edit.changes)) {
+        console.log(`✏️  Applied scripted edit to geomaterial ${edit.id}: ${Object.keys(edit.changes).join(', ')}`);
+      }
+    }
+  }
+
+  logRequest(entry: RequestLogEntry) {
+    this.requestLog.push(entry);
+    if (this.requestLog.length > REQUEST_LOG_SIZE) this.requestLog.shift();
+  }
+}
+
+const state = new StandInState();
+
+function lower(value: unknown): string {
+  return String(value ?? '').toLowerCase();
+}
+
+function listParam(value: unknown): string[] {
+  if (typeof value !== 'string' || value.trim() === '') return [];
+  return value.split(',').map(item => item.trim()).filter(Boolean);
+}
+
+function compareValues(a: unknown, b: unknown): number {
+  if (a === b) return 0;
+  if (a === null || a === undefined) return 1;
+  if (b === null || b === undefined) return -1;
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  return String(a).localeCompare(String(b));
+}
+
+/**
+ * Django-style lookups: `field__gt`, `field__gte`, `field__lt`, `field__lte`.
+ * Values compare numerically when both sides are numbers, otherwise as
+ * strings, which is correct for the ISO timestamps in updttime.
+ */
+function matchesLookups(record: MindatRecord, query: Request['query']): boolean {
+  for (const [key, raw] of Object.entries(query)) {
+    const lookup = key.match(/^(\w+)__(gt|gte|lt|lte)$/);
+    if (!lookup || typeof raw !== 'string') continue;
+
+    const value = record[lookup[1]];
+    if (value === null || value === undefined) return false;
+
+    const target = typeof value === 'number' ? Number(raw) : raw;
+    const cmp = compareValues(value, target);
+    const ok = { gt: cmp > 0, gte: cmp >= 0, lt: cmp < 0, lte: cmp <= 0 }[lookup[2] as 'gt' | 'gte' | 'lt' | 'lte'];
+    if (!ok) return false;
+  }
+  return true;
+}
+
+function matchesGeomaterialQuery(record: MindatRecord, query: Request['query']): boolean {
+  if (query.q && !lower(record.name).includes(lower(query.q))) return false;
+  if (query.name && lower(record.name) !== lower(query.name)) return false;
+  if (query.ima_formula && record.ima_formula !== query.ima_formula) return false;
+  if (query.crystal_system && lower(record.csystem) !== lower(query.crystal_system)) return false;
+
+  const entryTypes = listParam(query.entrytype);
+  if (entryTypes.length > 0 && !entryTypes.includes(String(record.entrytype))) return false;
+
+  const statuses = listParam(query.ima_status).map(status => status.toUpperCase());
+  const recordStatuses: string[] = Array.isArray(record.ima_status) ? record.ima_status : [];
+  if (statuses.length > 0 && !statuses.some(status => recordStatuses.includes(status))) return false;
+
+  const elements: string[] = Array.isArray(record.elements) ? record.elements : [];
+  if (!listParam(query.elements_inc).every(element => elements.includes(element))) return false;
+  if (listParam(query.elements_exc).some(element => elements.includes(element))) return false;
+
+  // updated_at is "YYYY-MM-DD HH:MM:SS" (UTC) and matches records modified at or after it
+  if (typeof query.updated_at === 'string') {
+    const since = Date.parse(`${query.updated_at.replace(' ', 'T')}Z`);
+    if (!record.updttime || isNaN(since) || Date.parse(record.updttime) < since) return false;
+  }
+
+  const ids = listParam(query.id__in).map(Number);
+  if (ids.length > 0 && !ids.includes(record.id)) return false;
+
+  return matchesLookups(record, query);
+}
+
+function matchesLocalityQuery(record: MindatRecord, query: Request['query']): boolean {
+  if (query.txt && !lower(record.txt).includes(lower(query.txt))) return false;
+  if (query.country && lower(record.country) !== lower(query.country)) return false;
+  return matchesLookups(record, query);
+}
+
+function isImaMineral(record: MindatRecord): boolean {
+  return record.entrytype === 0 && Array.isArray(record.ima_status) && record.ima_status.includes('APPROVED');
+}
+
+// `fields=a,b` keeps only those keys (`*` keeps all); `omit=a,b` drops keys
+function project(record: MindatRecord, query: Request['query']): MindatRecord {
+  const fields = listParam(query.fields);
+  const omit = new Set(listParam(query.omit));
+  const keep = fields.length > 0 && !fields.includes('*') ? new Set(fields) : undefined;
+
+  const projected: Record<string, any> = {};
+  for (const [key, value] of Object.entries(record)) {
+    if (keep && !keep.has(key)) continue;
+    if (omit.has(key)) continue;
+    projected[key] = value;
+  }
+  return projected as MindatRecord;
+}
+
+function sortRecords(records: MindatRecord[], ordering: unknown): MindatRecord[] {
+  const keys = listParam(ordering);
+  if (keys.length === 0) keys.push('id');
+
+  return [...records].sort((a, b) => {
+    for (const key of keys) {
+      const descending = key.startsWith('-');
+      const field = descending ? key.slice(1) : key;
+      const cmp = compareValues(a[field], b[field]);
+      if (cmp !== 0) return descending ? -cmp : cmp;
+    }
+    return 0;
+  });
+}
+
+function requestUrl(req: Request, page?: number): string {
+  const url = new URL(`${req.protocol}://${req.get('host')}${req.originalUrl}`);
+  if (page !== undefined) url.searchParams.set('page', String(page));
+  return url.toString();
+}
+
+/**
+ * Paginated list response in Mindat's shape: { count, next, previous, results }.
+ * Like the real API, a page past the end is a 404 rather than an empty page.
+ */
+function sendPage(req: Request, res: Response, records: MindatRecord[]) {
+  const page = parseInt(String(req.query.page ?? '1'), 10);
+  const pageSize = Math.min(MAX_PAGE_SIZE, Math.max(1, parseInt(String(req.query.page_size ?? DEFAULT_PAGE_SIZE), 10) || DEFAULT_PAGE_SIZE));
+  const pageCount = Math.max(1, Math.ceil(records.length / pageSize));
+
+  if (isNaN(page) || page < 1 || page > pageCount) {
+    return res.status(404).json({ detail: 'Invalid page.' });
+  }
+
+  const sorted = sortRecords(records, req.query.ordering);
+  const results = sorted.slice((page - 1) * pageSize, page * pageSize).map(record => project(record, req.query));
+
+  res.json({
+    count: records.length,
+    next: page < pageCount ? requestUrl(req, page + 1) : null,
+    previous: page > 1 ? requestUrl(req, page - 1) : null,
+    results,
+  });
+}
+
+// Answers 304 when the client's validators still match the record
+function sendRecord(req: Request, res: Response, record: MindatRecord) {
+  const body = project(record, req.query);
+  const etag = `"${crypto.createHash('sha1').update(JSON.stringify(body)).digest('hex')}"`;
+  const updated = record.updttime ? new Date(record.updttime) : undefined;
+
+  res.setHeader('ETag', etag);
+  if (updated && !isNaN(updated.getTime())) {
+    res.setHeader('Last-Modified', updated.toUTCString());
+  }
+
+  const ifNoneMatch = req.get('if-none-match');
+  const ifModifiedSince = req.get('if-modified-since');
+  const notModified = ifNoneMatch
+    ? ifNoneMatch === etag
+    : !!(ifModifiedSince && updated && Math.floor(updated.getTime() / 1000) <= Math.floor(Date.parse(ifModifiedSince) / 1000));
+
+  if (notModified) {
+    return res.status(304).end();
+  }
+
+  res.json(body);
+}
+
+function parseId(req: Request): number | undefined {
+  const id = Number(req.params.id);
+  return Number.isInteger(id) ? id : undefined;
+}
+
+/**
+ * Detail handler shared by /geomaterials and /minerals_ima. Missing IDs 404
+ * and merged IDs redirect to the surviving record, so a client following the
+ * redirect receives a body whose id differs from the one it asked for.
+ */
+function sendGeomaterial(req: Request, res: Response, collection: string, visible: (record: MindatRecord) => boolean) {
+  const id = parseId(req);
+  if (id === undefined || state.missing.has(id)) {
+    return res.status(404).json({ detail: 'Not found.' });
+  }
+
+  const mergedInto = state.merged.get(id);
+  if (mergedInto !== undefined) {
+    const target = new URL(requestUrl(req));
+    target.pathname = `${req.baseUrl}/${collection}/${mergedInto}/`;
+    return res.redirect(301, target.toString());
+  }
+
+  const record = state.geomaterials.get(id);
+  if (!record || !visible(record)) {
+    return res.status(404).json({ detail: 'Not found.' });
+  }
+
+  sendRecord(req, res, record);
+}
+
+const api = express.Router();
+
+api.use((req: Request, res: Response, next: NextFunction) => {
+  state.requestCount++;
+  const requestNumber = state.requestCount;
+  res.on('finish', () => {
+    state.logRequest({ method: req.method, url: req.originalUrl, status: res.statusCode, at: timestamp() });
+  });
+
+  state.applyDueEdits();
+
+  const { every, retryAfter } = state.rateLimit;
+  if (every > 0 && requestNumber % every === 0) {
+    res.setHeader('Retry-After', String(retryAfter));
+    return res.status(429).json({ detail: `Request was throttled. Expected available in ${retryAfter} seconds.` });
+  }
+
+  next();
+});
+
+api.get('/geomaterials/', (req, res) => {
+  const records = Array.from(state.geomaterials.values())
+    .filter(record => !state.missing.has(record.id) && !state.merged.has(record.id))
+    .filter(record => matchesGeomaterialQuery(record, req.query));
+  sendPage(req, res, records);
+});
+
+api.get('/geomaterials/:id/', (req, res) => sendGeomaterial(req, res, 'geomaterials', () => true));
+
+api.get('/minerals_ima/', (req, res) => {
+  const records = Array.from(state.geomaterials.values())
+    .filter(record => isImaMineral(record) && !state.missing.has(record.id) && !state.merged.has(record.id))
+    .filter(record => matchesGeomaterialQuery(record, req.query));
+  sendPage(req, res, records);
+});
+
+api.get('/minerals_ima/:id/', (req, res) => sendGeomaterial(req, res, 'minerals_ima', isImaMineral));
+
+api.get('/localities/', (req, res) => {
+  const records = Array.from(state.localities.values()).filter(record => matchesLocalityQuery(record, req.query));
+  sendPage(req, res, records);
+});
+
+api.get('/localities/:id/', (req, res) => {
+  const id = parseId(req);
+  const record = id !== undefined ? state.localities.get(id) : undefined;
+  if (!record) {
+    return res.status(404).json({ detail: 'Not found.' });
+  }
+  sendRecord(req, res, record);
+});
+
+api.use((req, res) => {
+  res.status(404).json({ detail: 'Not found.' });
+});
+
+/**
+ * Control endpoints for tests. None of these count towards the request
+ * total used by scripted edits and rate limiting.
+ */
+const control = express.Router();
+control.use(express.json());
+
+control.get('/state', (req, res) => {
+  res.json({
+    geomaterials: state.geomaterials.size,
+    localities: state.localities.size,
+    missing: Array.from(state.missing),
+    merged: Object.fromEntries(state.merged),
+    pendingEdits: state.pendingEdits,
+    rateLimit: state.rateLimit,
+    requestCount: state.requestCount,
+    requests: state.requestLog,
+  });
+});
+
+control.post('/reset', (req, res) => {
+  state.reset();
+  console.log('🔄 Stand-in reset from fixtures');
+  res.json({ success: true });
+});
+
+control.patch('/geomaterials/:id', (req, res) => {
+  const id = parseId(req);
+  const edited = id !== undefined ? state.edit(id, req.body ?? {}) : undefined;
+  if (!edited) {
+    return res.status(404).json({ error: 'Unknown geomaterial' });
+  }
+  res.json(edited);
+});
+
+control.delete('/geomaterials/:id', (req, res) => {
+  const id = parseId(req);
+  if (id === undefined) {
+    return res.status(400).json({ error: 'Invalid id' });
+  }
+  state.missing.add(id);
+  res.json({ success: true });
+});
+
+control.post('/merge', (req, res) => {
+  const from = Number(req.body?.from);
+  const into = Number(req.body?.into);
+  if (!Number.isInteger(from) || !Number.isInteger(into) || from === into) {
+    return res.status(400).json({ error: 'Body must be { from, into } with two different ids' });
+  }
+  state.merged.set(from, into);
+  res.json({ success: true });
+});
+
+control.put('/rate-limit', (req, res) => {
+  const every = Number(req.body?.every ?? 0);
+  const retryAfter = Number(req.body?.retryAfter ?? 1);
+  if (!Number.isInteger(every) || every < 0 || isNaN(retryAfter) || retryAfter < 0) {
+    return res.status(400).json({ error: 'Body must be { every, retryAfter } with non-negative numbers' });
+  }
+  state.rateLimit = { every, retryAfter };
+  res.json(state.rateLimit);
+});
+
+state.reset();
+
+const app = express();
+app.use('/v1', api);
+app.use('/__stand-in', control);
+
+app.listen(PORT, () => {
+  console.log('=== Mindat Stand-in ===');
+  console.log(`📂 Fixtures: ${FIXTURES_DIR} (${state.geomaterials.size} geomaterials, ${state.localities.size} localities)`);
+  console.log(`🎬 Scenarios: ${fs.existsSync(SCENARIOS_FILE) ? SCENARIOS_FILE : 'none'}`);
+  console.log(`✅ Listening on http://localhost:${PORT}/v1`);
+  console.log(`   Set MINDAT_API_BASE_URL=http://localhost:${PORT}/v1 to use it`);
+});
@@ -0,0 +1,108 @@
+#!/usr/bin/env tsx
+/**
+ * Record live Mindat responses into the stand-in fixtures
+ *
+ * Fetches the requested geomaterials and localities through MindatHttpClient
+ * and merges them (by id) into scripts/fixtures/mindat, replacing any earlier
+ * recording of the same record.
+ *
+ * Usage:
+ *   npm run mindat:record-fixtures -- --geomaterials 3337,1641 --localities 2637
+ *   npm run mindat:record-fixtures -- --search pyrite --fixtures ./my-fixtures
+ */
+
+import 'dotenv/config';
+import fs from 'fs';
+import path from 'path';
+import { MindatHttpClient } from '../server/services/mindat-http-client';
+
+type MindatRecord = Record<string, any> & { id: number };
+
+const mindatHttp = MindatHttpClient.getInstance();
+
+function argValue(name: string): string | undefined {
+  const args = process.argv.slice(2);
+  const index = args.indexOf(`--${name}`);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+function idList(value: string | undefined): number[] {
+  return (value || '').split(',').map(id => parseInt(id.trim(), 10)).filter(id => !isNaN(id));
+}
+
+function mergeFixtures(file: string, recorded: MindatRecord[]): number {
+  const existing: MindatRecord[] = fs.existsSync(file) ? JSON.parse(fs.readFileSync(file, 'utf-8')) : [];
+  const byId = new Map(existing.map(record => [record.id, record]));
+
+  for (const record of recorded) {
+    byId.set(record.id, record);
+  }
+
+  fs.writeFileSync(file, JSON.stringify(Array.from(byId.values()), null, 2) + '\n');
+  return byId.size;
+}
+
+async function main() {
+  const fixturesDir = path.resolve(argValue('fixtures') || path.join(import.meta.dirname, 'fixtures', 'mindat'));
+  const geomaterialIds = idList(argValue('geomaterials'));
+  const localityIds = idList(argValue('localities'));
+  const search = argValue('search');
+
+  if (geomaterialIds.length === 0 && localityIds.length === 0 && !search) {
+    console.error('Usage: npm run mindat:record-fixtures -- [--geomaterials ids] [--localities ids] [--search name] [--fixtures dir]');
+    process.exit(1);
+  }
+
+  if (!mindatHttp.hasCredentials()) {
+    console.error('❌ ERROR: MINDAT_API_KEY (or MINDAT_USERNAME/MINDAT_PASS) is not set');
+    process.exit(1);
+  }
+
+  console.log('=== Record Mindat Fixtures ===');
+  console.log(`🌐 Source: ${mindatHttp.baseUrl}`);
+  console.log(`📂 Fixtures: ${fixturesDir}\n`);
+
+  fs.mkdirSync(fixturesDir, { recursive: true });
+
+  const geomaterials: MindatRecord[] = [];
+  const localities: MindatRecord[] = [];
+
+  try {
+    if (search) {
+      const response = await mindatHttp.get(`geomaterials/?q=${encodeURIComponent(search)}&page_size=50`);
+      const ids = (response.results || []).map((record: MindatRecord) => record.id);
+      console.log(`🔍 "${search}" matched ${response.count ?? ids.length} records, recording ${ids.length}`);
+      geomaterialIds.push(...ids);
+    }
+
+    for (const id of Array.from(new Set(geomaterialIds))) {
+      const record = await mindatHttp.get<MindatRecord>(`geomaterials/${id}/`);
+      geomaterials.push(record);
+      console.log(`  ✓ Geomaterial ${id}: ${record.name}`);
+    }
+
+    for (const id of Array.from(new Set(localityIds))) {
+      const record = await mindatHttp.get<MindatRecord>(`localities/${id}/`);
+      localities.push(record);
+      console.log(`  ✓ Locality ${id}: ${record.txt}`);
+    }
+  } catch (error) {
+    console.error('\n❌ Error:', error);
+    process.exit(1);
+  }
+
+  if (geomaterials.length > 0) {
+    const total = mergeFixtures(path.join(fixturesDir, 'geomaterials.json'), geomaterials);
+    console.log(`\n💾 geomaterials.json: ${geomaterials.length} recorded, ${total} total`);
+  }
+
+  if (localities.length > 0) {
+    const total = mergeFixtures(path.join(fixturesDir, 'localities.json'), localities);
+    console.log(`💾 localities.json: ${localities.length} recorded, ${total} total`);
+  }
+
+  console.log('\n✅ Done!');
+  process.exit(0);
+}
+
+main();
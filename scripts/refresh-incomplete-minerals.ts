@@ -1,13 +1,12 @@
 #!/usr/bin/env tsx
 
+import 'dotenv/config';
 import { MindatAPIService } from '../server/services/mindat-api-service';
+import { MindatApiError } from '../server/services/mindat-http-client';
 import { neon } from '@neondatabase/serverless';
 import { parse } from 'csv-parse/sync';
 import { stringify } from 'csv-stringify/sync';
 import * as fs from 'fs';
-import * as dotenv from 'dotenv';
-
-dotenv.config();
 
 const sql = neon(process.env.DATABASE_URL!);
 const apiService = MindatAPIService.getInstance();
@@ -89,12 +88,8 @@ async function refreshIncompleteMinerals() {
         console.log(`  ⚠️  No formula or strunz data available`);
         notFound++;
       }
-
-      // Rate limit - wait 1 second between requests
-      await new Promise(resolve => setTimeout(resolve, 1000));
-
     } catch (error: any) {
-      if (error.message?.includes('404')) {
+      if (error instanceof MindatApiError && error.status === 404) {
         console.log(`  ❌ Not found in API`);
         notFound++;
       } else {
@@ -0,0 +1,69 @@
+#!/usr/bin/env tsx
+/**
+ * Install the Postgres extensions, functions and indexes used by ranked mineral search
+ *
+ * pg_trgm and mineral_aliases_text() must exist before `npm run db:push` can
+ * create the trigram indexes declared in shared/schema.ts, so run this first on
+ * a fresh database. Safe to re-run: every statement is IF NOT EXISTS or OR REPLACE.
+ *
+ * Usage:
+ *   npm run db:search-setup
+ */
+
+import 'dotenv/config';
+import { neon } from '@neondatabase/serverless';
+
+if (!process.env.DATABASE_URL) {
+  console.error('❌ ERROR: DATABASE_URL environment variable is not set');
+  process.exit(1);
+}
+
+const sql = neon(process.env.DATABASE_URL);
+
+// Must stay in step with mindatSearchDocument() in shared/schema.ts
+const SEARCH_DOCUMENT = `(setweight(to_tsvector('english'::regconfig, coalesce(name, '')), 'A') || setweight(to_tsvector('english'::regconfig, coalesce(about_name, '')), 'B') || setweight(to_tsvector('english'::regconfig, coalesce(description_short, '')), 'C') || setweight(to_tsvector('english'::regconfig, coalesce(occurrence, '')), 'D'))`;
+
+const statements: Array<{ label: string; query: string }> = [
+  {
+    label: 'pg_trgm extension',
+    query: 'CREATE EXTENSION IF NOT EXISTS pg_trgm',
+  },
+  {
+    // array_to_string() is only STABLE, so it can't be indexed directly
+    label: 'mineral_aliases_text()',
+    query: `CREATE OR REPLACE FUNCTION mineral_aliases_text(text[]) RETURNS text LANGUAGE sql IMMUTABLE PARALLEL SAFE AS $$ SELECT array_to_string($1, ' ') $$`,
+  },
+  {
+    label: 'mindat_mineral_name_trgm_idx',
+    query: 'CREATE INDEX IF NOT EXISTS mindat_mineral_name_trgm_idx ON mindat_minerals USING gin (name gin_trgm_ops)',
+  },
+  {
+    label: 'mindat_mineral_search_document_idx',
+    query: `CREATE INDEX IF NOT EXISTS mindat_mineral_search_document_idx ON mindat_minerals USING gin (${SEARCH_DOCUMENT})`,
+  },
+  {
+    label: 'mineral_name_aliases_trgm_idx',
+    query: 'CREATE INDEX IF NOT EXISTS mineral_name_aliases_trgm_idx ON mineral_name_index USING gin (mineral_aliases_text(aliases) gin_trgm_ops)',
+  },
+  {
+    // Replaced by mineral_name_aliases_trgm_idx; ranked search never read canonical_name
+    label: 'drop mineral_name_canonical_trgm_idx',
+    query: 'DROP INDEX IF EXISTS mineral_name_canonical_trgm_idx',
+  },
+];
+
+async function setupSearchIndexes() {
+  console.log('=== Ranked Search Setup ===\n');
+
+  for (const { label, query } of statements) {
+    console.log(`🔧 ${label}...`);
+    await sql(query);
+  }
+
+  console.log('\n✅ Search extensions and indexes installed\n');
+}
+
+setupSearchIndexes().catch((error) => {
+  console.error('❌ Search setup failed:', error);
+  process.exit(1);
+});
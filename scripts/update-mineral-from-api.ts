@@ -1,10 +1,8 @@
 #!/usr/bin/env tsx
 
+import 'dotenv/config';
 import { MindatAPIService } from '../server/services/mindat-api-service';
 import { neon } from '@neondatabase/serverless';
-import * as dotenv from 'dotenv';
-
-dotenv.config();
 
 const sql = neon(process.env.DATABASE_URL!);
 
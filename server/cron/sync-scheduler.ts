@@ -1,74 +1,281 @@
-import cron from 'node-cron';
-import { MindatIncrementalSync } from '../services/mindat-incremental-sync';
+import cron, { type ScheduledTask } from 'node-cron';
+import { db } from '../db';
+import { syncSchedules, type InsertSyncSchedule, type SyncJob, type SyncSchedule } from '@shared/schema';
+import { asc, eq } from 'drizzle-orm';
+import { JobParamsError, JobRunner, type JobSummary } from '../services/job-runner';
+import { JOB_TYPES } from '../services/job-handlers';
 
-const sync = MindatIncrementalSync.getInstance();
+// Seeded when the table is empty; after that the database is the source of truth
+const DEFAULT_SCHEDULES: InsertSyncSchedule[] = [
+  {
+    name: 'daily-sync',
+    description: 'Fetches minerals created or edited on Mindat since the last run',
+    jobType: JOB_TYPES.mindatChangeFeed,
+    cronExpression: '0 3 * * *',
+    params: { pageSize: 200 },
+    enabled: true,
+  },
+  {
+    name: 'weekly-validation',
+    description: 'Re-checks the least recently synced minerals for changes',
+    jobType: JOB_TYPES.mindatValidation,
+    cronExpression: '0 4 * * 0',
+    params: { sampleSize: 5000 },
+    enabled: true,
+  },
+];
 
-export function initializeSyncScheduler() {
-  console.log('🕐 Initializing sync scheduler...');
+export interface ScheduleInput {
+  name?: string;
+  description?: string | null;
+  jobType?: string;
+  cronExpression?: string;
+  params?: unknown;
+  enabled?: boolean;
+}
 
-  // Daily incremental sync at 3 AM
-  // Fetches new minerals from Mindat
-  cron.schedule('0 3 * * *', async () => {
-    console.log('\n🔄 [SCHEDULED] Running daily incremental sync...');
-    try {
-      const progress = await sync.syncNewMinerals({
-        batchSize: 100,
-      });
-
-      console.log('✅ [SCHEDULED] Daily sync completed:');
-      console.log(`  - New minerals: ${progress.newMinerals}`);
-      console.log(`  - Updated: ${progress.updatedMinerals}`);
-      console.log(`  - Deleted: ${progress.deletedMinerals}`);
-      console.log(`  - Errors: ${progress.errors.length}`);
-    } catch (error: any) {
-      console.error('❌ [SCHEDULED] Daily sync failed:', error.message);
+export interface ScheduleSummary extends SyncSchedule {
+  nextRunAt: Date | null;
+  lastRun: JobSummary | null;
+  running: boolean;
+}
+
+export class ScheduleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ScheduleError';
+  }
+}
+
+export class ScheduleOverlapError extends Error {
+  constructor(public schedule: SyncSchedule, public activeJob: SyncJob) {
+    super(`Schedule "${schedule.name}" overlaps job ${activeJob.id} (${activeJob.jobType}), which is still ${activeJob.status}`);
+    this.name = 'ScheduleOverlapError';
+  }
+}
+
+/**
+ * Runs the cron schedules stored in sync_schedules. Each firing enqueues a
+ * job linked back to its schedule; if the schedule's previous job, or any
+ * other job of the same type, is still pending or running, the firing is
+ * recorded as a skipped job instead.
+ */
+export class SyncScheduler {
+  private static instance: SyncScheduler;
+  private runner = JobRunner.getInstance();
+  private tasks = new Map<number, ScheduledTask>();
+
+  private constructor() {}
+
+  static getInstance(): SyncScheduler {
+    if (!SyncScheduler.instance) {
+      SyncScheduler.instance = new SyncScheduler();
+    }
+    return SyncScheduler.instance;
+  }
+
+  async initialize() {
+    console.log('🕐 Initializing sync scheduler...');
+
+    let schedules = await db.select().from(syncSchedules).orderBy(asc(syncSchedules.id));
+    if (schedules.length === 0) {
+      schedules = await db.insert(syncSchedules).values(DEFAULT_SCHEDULES).returning();
+      console.log(`🌱 Seeded ${schedules.length} default schedules`);
+    }
+
+    for (const schedule of schedules) {
+      this.apply(schedule);
+    }
+
+    console.log('✅ Sync scheduler initialized:');
+    for (const schedule of schedules) {
+      console.log(`  - ${schedule.name}: ${schedule.cronExpression} (${schedule.jobType})${schedule.enabled ? '' : ' [disabled]'}`);
+    }
+  }
+
+  async listSchedules(): Promise<ScheduleSummary[]> {
+    const schedules = await db.select().from(syncSchedules).orderBy(asc(syncSchedules.id));
+    return Promise.all(schedules.map(schedule => this.summarize(schedule)));
+  }
+
+  async getSchedule(id: number): Promise<ScheduleSummary | undefined> {
+    const schedule = await this.findSchedule(id);
+    return schedule ? this.summarize(schedule) : undefined;
+  }
+
+  async createSchedule(input: ScheduleInput): Promise<ScheduleSummary> {
+    const values = await this.validate(input);
+    const [schedule] = await db.insert(syncSchedules).values(values).returning();
+    this.apply(schedule);
+    console.log(`🕐 Created schedule ${schedule.name}: ${schedule.cronExpression}`);
+    return this.summarize(schedule);
+  }
+
+  async updateSchedule(id: number, changes: ScheduleInput): Promise<ScheduleSummary | undefined> {
+    const existing = await this.findSchedule(id);
+    if (!existing) return undefined;
+
+    const values = await this.validate({ ...existing, ...changes }, id);
+    const [schedule] = await db.update(syncSchedules)
+      .set({ ...values, updatedAt: new Date() })
+      .where(eq(syncSchedules.id, id))
+      .returning();
+    this.apply(schedule);
+    console.log(`🕐 Updated schedule ${schedule.name}: ${schedule.cronExpression}${schedule.enabled ? '' : ' [disabled]'}`);
+    return this.summarize(schedule);
+  }
+
+  // Past runs stay in sync_jobs with schedule_id cleared
+  async deleteSchedule(id: number): Promise<boolean> {
+    const [deleted] = await db.delete(syncSchedules).where(eq(syncSchedules.id, id)).returning();
+    if (!deleted) return false;
+
+    this.unschedule(id);
+    console.log(`🕐 Deleted schedule ${deleted.name}`);
+    return true;
+  }
+
+  /**
+   * Enqueue the schedule's job now, whether or not it is enabled. Throws
+   * ScheduleOverlapError rather than recording a skip, since a person is
+   * waiting on the answer.
+   */
+  async runNow(id: number): Promise<SyncJob | undefined> {
+    const schedule = await this.findSchedule(id);
+    if (!schedule) return undefined;
+
+    const active = await this.runner.findActiveForSchedule(schedule);
+    if (active) {
+      throw new ScheduleOverlapError(schedule, active);
+    }
+
+    console.log(`📣 Manual run: ${schedule.name}`);
+    return this.runner.enqueue(schedule.jobType, schedule.params, { scheduleId: schedule.id });
+  }
+
+  async runNamed(name: string): Promise<SyncJob | undefined> {
+    const [schedule] = await db.select().from(syncSchedules).where(eq(syncSchedules.name, name)).limit(1);
+    return schedule ? this.runNow(schedule.id) : undefined;
+  }
+
+  async getRuns(id: number, limit = 20): Promise<JobSummary[]> {
+    return this.runner.listJobs({ scheduleId: id, limit });
+  }
+
+  private async findSchedule(id: number): Promise<SyncSchedule | undefined> {
+    const [schedule] = await db.select().from(syncSchedules).where(eq(syncSchedules.id, id)).limit(1);
+    return schedule;
+  }
+
+  private async summarize(schedule: SyncSchedule): Promise<ScheduleSummary> {
+    const [lastRun] = await this.runner.listJobs({ scheduleId: schedule.id, limit: 1 });
+    const task = this.tasks.get(schedule.id);
+    return {
+      ...schedule,
+      nextRunAt: task?.getNextRun() ?? null,
+      lastRun: lastRun ?? null,
+      running: lastRun?.status === 'pending' || lastRun?.status === 'running',
+    };
+  }
+
+  private async validate(input: ScheduleInput, id?: number): Promise<InsertSyncSchedule> {
+    const name = typeof input.name === 'string' ? input.name.trim() : '';
+    if (!name) {
+      throw new ScheduleError('name is required');
+    }
+    if (name.length > 100) {
+      throw new ScheduleError('name must be at most 100 characters');
+    }
+
+    const [sameName] = await db.select({ id: syncSchedules.id })
+      .from(syncSchedules)
+      .where(eq(syncSchedules.name, name))
+      .limit(1);
+    if (sameName && sameName.id !== id) {
+      throw new ScheduleError(`A schedule named "${name}" already exists`);
+    }
+
+    if (typeof input.jobType !== 'string' || !this.runner.hasHandler(input.jobType)) {
+      throw new ScheduleError(`jobType must be one of: ${this.runner.getJobTypes().join(', ')}`);
+    }
+
+    const cronExpression = typeof input.cronExpression === 'string' ? input.cronExpression.trim() : '';
+    if (!cronExpression || !cron.validate(cronExpression)) {
+      throw new ScheduleError(`Invalid cron expression "${input.cronExpression ?? ''}"`);
+    }
+
+    const params = input.params ?? {};
+    if (typeof params !== 'object' || params === null || Array.isArray(params)) {
+      throw new ScheduleError('params must be a JSON object');
     }
-  });
 
-  // Weekly validation on Sundays at 4 AM
-  // Re-checks 5000 existing minerals for changes
-  cron.schedule('0 4 * * 0', async () => {
-    console.log('\n🔍 [SCHEDULED] Running weekly validation...');
+    // The same schema the job handler runs with, so a schedule can't store params that fail at 3am
+    let parsedParams: Record<string, unknown>;
     try {
-      const progress = await sync.validateExistingMinerals({
-        sampleSize: 5000,
-      });
-
-      console.log('✅ [SCHEDULED] Weekly validation completed:');
-      console.log(`  - Checked: ${progress.totalChecked}`);
-      console.log(`  - Updated: ${progress.updatedMinerals}`);
-      console.log(`  - Deleted: ${progress.deletedMinerals}`);
-    } catch (error: any) {
-      console.error('❌ [SCHEDULED] Weekly validation failed:', error.message);
+      parsedParams = this.runner.parseParams(input.jobType, params);
+    } catch (error) {
+      if (error instanceof JobParamsError) throw new ScheduleError(error.message);
+      throw error;
     }
-  });
 
-  console.log('✅ Sync scheduler initialized:');
-  console.log('  - Daily sync: 3:00 AM (new minerals)');
-  console.log('  - Weekly validation: Sunday 4:00 AM (existing minerals)');
-}
+    if (input.enabled !== undefined && typeof input.enabled !== 'boolean') {
+      throw new ScheduleError('enabled must be true or false');
+    }
 
-// Manual trigger functions for testing
-export async function triggerDailySync() {
-  console.log('🔄 Manually triggering daily sync...');
-  try {
-    const progress = await sync.syncNewMinerals({ batchSize: 100 });
-    console.log('✅ Manual sync completed:', progress);
-    return progress;
-  } catch (error: any) {
-    console.error('❌ Manual sync failed:', error.message);
-    throw error;
+    return {
+      name,
+      description: typeof input.description === 'string' ? input.description : null,
+      jobType: input.jobType,
+      cronExpression,
+      params: parsedParams,
+      enabled: input.enabled ?? true,
+    };
   }
-}
 
-export async function triggerWeeklyValidation() {
-  console.log('🔍 Manually triggering weekly validation...');
-  try {
-    const progress = await sync.validateExistingMinerals({ sampleSize: 5000 });
-    console.log('✅ Manual validation completed:', progress);
-    return progress;
-  } catch (error: any) {
-    console.error('❌ Manual validation failed:', error.message);
-    throw error;
+  private apply(schedule: SyncSchedule) {
+    this.unschedule(schedule.id);
+    if (!schedule.enabled) return;
+
+    const task = cron.schedule(schedule.cronExpression, () => this.fire(schedule.id), {
+      name: `schedule-${schedule.id}`,
+    });
+    this.tasks.set(schedule.id, task);
+  }
+
+  private unschedule(id: number) {
+    const task = this.tasks.get(id);
+    if (task) {
+      task.destroy();
+      this.tasks.delete(id);
+    }
+  }
+
+  // Reloads the row so a firing always uses the latest params
+  private async fire(id: number) {
+    try {
+      const schedule = await this.findSchedule(id);
+      if (!schedule || !schedule.enabled) return;
+
+      const active = await this.runner.findActiveForSchedule(schedule);
+      if (active) {
+        console.log(`⏭️  [SCHEDULED] ${schedule.name}: job ${active.id} (${active.jobType}) still ${active.status}; skipping`);
+        await this.runner.recordSkipped(schedule.jobType, schedule.params, {
+          scheduleId: schedule.id,
+          reason: `Job ${active.id} (${active.jobType}) was still ${active.status}`,
+        });
+        return;
+      }
+
+      const job = await this.runner.enqueue(schedule.jobType, schedule.params, { scheduleId: schedule.id });
+      console.log(`✅ [SCHEDULED] ${schedule.name} queued as job ${job.id}`);
+    } catch (error: any) {
+      console.error(`❌ [SCHEDULED] Schedule ${id} failed to queue:`, error.message);
+    }
   }
 }
+
+export function initializeSyncScheduler() {
+  SyncScheduler.getInstance().initialize().catch((error) => {
+    console.error('❌ Sync scheduler failed to initialize:', error.message);
+  });
+}
@@ -3,6 +3,8 @@ import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 import { initializeSyncScheduler } from "./cron/sync-scheduler";
+import { JobRunner } from "./services/job-runner";
+import { registerJobHandlers } from "./services/job-handlers";
 
 const app = express();
 app.use(express.json());
@@ -70,6 +72,10 @@ app.use((req, res, next) => {
   }, () => {
     log(`serving on port ${port}`);
 
+    // Start the durable job queue; picks up jobs interrupted by a restart
+    registerJobHandlers();
+    JobRunner.getInstance().start();
+
     // Initialize automatic sync scheduler
     initializeSyncScheduler();
   });
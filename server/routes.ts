@@ -1,52 +1,362 @@
 import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
+import { stringify } from "csv-stringify/sync";
+import { z } from "zod";
+import { fromZodError } from "zod-validation-error";
 import { storage } from "./storage";
 import { MindatAPIService } from "./services/mindat-api-service";
 import { MindatSyncService } from "./services/mindat-sync-service";
 import { RruffImportService } from "./services/rruff-import-service";
 import { MindatCSVImportV2 } from "./services/mindat-csv-import-v2";
 import { MindatIncrementalSync } from "./services/mindat-incremental-sync";
-import { triggerDailySync, triggerWeeklyValidation } from "./cron/sync-scheduler";
+import { MineralChangeHistory } from "./services/mineral-change-history";
+import { MindatMergeResolver } from "./services/mindat-merge-resolver";
+import { MindatFieldMapper } from "./services/mindat-field-mapping";
+import {
+  ReconciliationService,
+  ConflictResolutionError,
+  type ConflictAction,
+} from "./services/reconciliation-service";
+import { CanonicalMineralService } from "./services/canonical-mineral-service";
+import { RruffMindatLinker, RruffLinkError } from "./services/rruff-mindat-linker";
+import { ERocksEnrichmentRuns, ERocksReviewError, type ReviewDecision } from "./services/erocks-enrichment-runs";
+import { ERocksOverrides, ERocksOverrideError, type OverrideInput } from "./services/erocks-overrides";
+import { JobRunner, JobQueueError, JobParamsError } from "./services/job-runner";
+import { JobEventBus } from "./services/job-events";
+import { ERocksExportError, resolveERocksExport } from "./services/erocks-exports";
+import { ImportFileError, resolveImportFile } from "./services/import-files";
+import {
+  JOB_TYPES,
+  RRUFF_CSV_PATH,
+  type CsvImportParams,
+  type MindatChangeFeedParams,
+  type MindatFullSyncParams,
+  type MindatIdScanParams,
+  type MindatValidationParams,
+  type MindatMergeResolutionParams,
+  type MindatStaleRefreshParams,
+  type MineralSyncParams,
+  type ReconciliationParams,
+  type RruffMindatLinkParams,
+} from "./services/job-handlers";
+import { MineralSearchService } from "./services/mineral-search-service";
+import {
+  MineralIdentificationService,
+  IdentificationError,
+  type ObservedRange,
+} from "./services/mineral-identification-service";
+import {
+  SyncScheduler,
+  ScheduleError,
+  ScheduleOverlapError,
+  type ScheduleInput,
+} from "./cron/sync-scheduler";
+import { parseChemistryQuery, ChemistryQueryError } from "@shared/chemistry-query";
+import type { SyncStreamMessage } from "@shared/sync-events";
+import {
+  NUMERIC_PROPERTIES,
+  NUMERIC_PROPERTY_KEYS,
+  parseRangeValue,
+  type PropertyRange,
+  type PropertySort,
+} from "@shared/mineral-properties";
 
 const mindatAPI = MindatAPIService.getInstance();
 const mindatSync = MindatSyncService.getInstance();
 const rruffImport = RruffImportService.getInstance();
 const mindatCSVImport = MindatCSVImportV2.getInstance();
 const incrementalSync = MindatIncrementalSync.getInstance();
+const changeHistory = MineralChangeHistory.getInstance();
+const mergeResolver = MindatMergeResolver.getInstance();
+const fieldMapper = MindatFieldMapper.getInstance();
+const reconciliation = ReconciliationService.getInstance();
+const canonicalMinerals = CanonicalMineralService.getInstance();
+const rruffLinker = RruffMindatLinker.getInstance();
+const erocksRuns = ERocksEnrichmentRuns.getInstance();
+const erocksOverrides = ERocksOverrides.getInstance();
+const mineralSearch = MineralSearchService.getInstance();
+const mineralIdentification = MineralIdentificationService.getInstance();
+const jobRunner = JobRunner.getInstance();
+const jobEvents = JobEventBus.getInstance();
+const syncScheduler = SyncScheduler.getInstance();
+
+const SSE_KEEP_ALIVE_MS = 25000;
+
+const SCHEDULE_FIELDS = ['name', 'description', 'jobType', 'cronExpression', 'params', 'enabled'] as const;
+
+const OVERRIDE_FIELDS = ['nid', 'action', 'mindatId', 'reason', 'author', 'expiresAt'] as const;
+
+// page_size also bounds what a search asks Mindat for
+const MAX_PAGE_SIZE = 100;
+
+const paginationSchema = z.object({
+  page: z.coerce.number().int().positive().default(1),
+  page_size: z.coerce.number().int().positive().max(MAX_PAGE_SIZE).default(20),
+});
+
+// Only the editable schedule fields that were actually sent
+function scheduleInput(body: Record<string, unknown>): ScheduleInput {
+  const input: Record<string, unknown> = {};
+  for (const field of SCHEDULE_FIELDS) {
+    if (body[field] !== undefined) input[field] = body[field];
+  }
+  return input as ScheduleInput;
+}
+
+// Only the editable override fields that were actually sent
+function overrideInput(body: Record<string, unknown>): OverrideInput {
+  const input: Record<string, unknown> = {};
+  for (const field of OVERRIDE_FIELDS) {
+    if (body[field] !== undefined) input[field] = body[field];
+  }
+  return input as OverrideInput;
+}
+
+function overrideErrorResponse(res: Response, error: any, fallback: string) {
+  if (error instanceof ERocksOverrideError) {
+    return res.status(400).json({ error: error.message });
+  }
+  console.error(`${fallback}:`, error);
+  return res.status(500).json({ error: fallback, message: error.message });
+}
+
+function scheduleErrorResponse(res: Response, error: any, fallback: string) {
+  if (error instanceof ScheduleError || error instanceof JobParamsError) {
+    return res.status(400).json({ error: error.message });
+  }
+  if (error instanceof ScheduleOverlapError) {
+    return res.status(409).json({ error: error.message, jobId: error.activeJob.id });
+  }
+  console.error(`${fallback}:`, error);
+  return res.status(500).json({ error: fallback, message: error.message });
+}
+
+// Long-running syncs and imports are queued rather than run in the request;
+// clients poll the status URL for progress
+function jobAccepted(res: Response, job: { id: number; jobType: string }) {
+  return res.status(202).json({
+    success: true,
+    jobId: job.id,
+    jobType: job.jobType,
+    statusUrl: `/api/sync/jobs/${job.id}`,
+  });
+}
 
 export async function registerRoutes(app: Express): Promise<Server> {
   
-  // Mineral Search Routes (Mindat API -> Database)
+  // Mineral Search Routes (local mindat_minerals first, Mindat API for missing/stale)
   app.get('/api/minerals/search', async (req: Request, res: Response) => {
     try {
       const { 
         q, 
         name, 
-        page = '1',
-        page_size = '20'
+        formula,
+        elements,
+        crystal_system,
+        ima_status,
+        entry_type,
+        chem,
       } = req.query;
 
-      const searchName = (name || q) as string;
+      const pagination = paginationSchema.safeParse(req.query);
+      if (!pagination.success) {
+        return res.status(400).json({ error: 'Invalid pagination', message: fromZodError(pagination.error).message });
+      }
+      const { page: pageNumber, page_size: pageSize } = pagination.data;
+
+      const searchName = (name || q) as string | undefined;
+      const chemistry = chem ? parseChemistryQuery(chem as string) : undefined;
+      const elementList = elements
+        ? (elements as string).split(',').map(el => el.trim()).filter(Boolean)
+        : undefined;
       
-      if (!searchName) {
+      if (!searchName && !formula && !elementList?.length && !crystal_system && !ima_status && entry_type === undefined && !chemistry) {
         return res.json({ 
           results: [],
           count: 0,
         });
       }
 
-      const results = await mindatSync.searchAndSync(searchName, {
-        page: parseInt(page as string),
-        pageSize: parseInt(page_size as string),
+      const entryType = entry_type !== undefined ? parseInt(entry_type as string) : undefined;
+      if (entryType !== undefined && isNaN(entryType)) {
+        return res.status(400).json({ error: 'entry_type must be a number' });
+      }
+
+      const results = await mindatSync.searchLocalFirst({
+        name: searchName,
+        formula: formula as string | undefined,
+        elements: elementList,
+        crystalSystem: crystal_system as string | undefined,
+        imaStatus: ima_status as string | undefined,
+        entryType,
+        chemistry,
+        page: pageNumber,
+        pageSize,
+      }, {
+        onStale: mindatIds => jobRunner.enqueue<MindatStaleRefreshParams>(JOB_TYPES.mindatStaleRefresh, { mindatIds }),
       });
 
-      return res.json(results);
+      return res.json({
+        ...results,
+        page: pageNumber,
+        pageSize,
+      });
     } catch (error) {
+      if (error instanceof ChemistryQueryError) {
+        return res.status(400).json({ error: 'Invalid chemistry query', message: error.message });
+      }
       console.error('Error searching minerals:', error);
       return res.status(500).json({ error: 'Failed to search minerals' });
     }
   });
 
+  // Ranked full-text + trigram search over names, aliases and descriptions
+  app.get('/api/minerals/search/ranked', async (req: Request, res: Response) => {
+    try {
+      const { q } = req.query;
+
+      const pagination = paginationSchema.safeParse(req.query);
+      if (!pagination.success) {
+        return res.status(400).json({ error: 'Invalid pagination', message: fromZodError(pagination.error).message });
+      }
+
+      if (!q) {
+        return res.json({ 
+          results: [],
+          count: 0,
+        });
+      }
+
+      const results = await mineralSearch.rankedSearch(q as string, {
+        page: pagination.data.page,
+        pageSize: pagination.data.page_size,
+      });
+
+      return res.json(results);
+    } catch (error) {
+      console.error('Error running ranked mineral search:', error);
+      return res.status(500).json({ error: 'Failed to search minerals' });
+    }
+  });
+
+  // Structured search over physical properties (local mindat_minerals only).
+  // Ranges use the property keys from shared/mineral-properties.ts, e.g.
+  // ?hardness=6..7&density_meas=3.5..4.2&optical_type=uniaxial&sort=-hardness
+  app.get('/api/minerals/search/properties', async (req: Request, res: Response) => {
+    try {
+      const {
+        q,
+        crystal_system,
+        optical_type,
+        chem,
+        include_unknown,
+        sort,
+      } = req.query;
+
+      const pagination = paginationSchema.safeParse(req.query);
+      if (!pagination.success) {
+        return res.status(400).json({ error: 'Invalid pagination', message: fromZodError(pagination.error).message });
+      }
+      const { page: pageNumber, page_size: pageSize } = pagination.data;
+
+      const ranges: PropertyRange[] = [];
+      for (const spec of NUMERIC_PROPERTIES) {
+        const value = req.query[spec.key];
+        if (value === undefined || value === '') continue;
+
+        const range = parseRangeValue(value as string);
+        if (!range) {
+          return res.status(400).json({ error: 'Invalid property range', message: `${spec.key}=${value} is not a range like 6..7` });
+        }
+        ranges.push({ property: spec.key, ...range });
+      }
+
+      let propertySort: PropertySort | undefined;
+      if (sort) {
+        const sortKey = (sort as string).replace(/^-/, '');
+        if (!NUMERIC_PROPERTY_KEYS.has(sortKey)) {
+          return res.status(400).json({ error: 'Invalid sort property', message: `Unknown property "${sortKey}"` });
+        }
+        propertySort = { property: sortKey, direction: (sort as string).startsWith('-') ? 'desc' : 'asc' };
+      }
+
+      const results = await storage.searchMindatMinerals({
+        name: q as string | undefined,
+        crystalSystem: crystal_system as string | undefined,
+        opticalType: optical_type as string | undefined,
+        chemistry: chem ? parseChemistryQuery(chem as string) : undefined,
+        ranges,
+        includeUnknown: include_unknown === 'true',
+        sort: propertySort,
+        page: pageNumber,
+        pageSize,
+      });
+
+      return res.json({
+        ...results,
+        page: pageNumber,
+        pageSize,
+      });
+    } catch (error) {
+      if (error instanceof ChemistryQueryError) {
+        return res.status(400).json({ error: 'Invalid chemistry query', message: error.message });
+      }
+      console.error('Error searching minerals by property:', error);
+      return res.status(500).json({ error: 'Failed to search minerals' });
+    }
+  });
+
+  // Identification assistant: rank minerals against observed properties
+  app.post('/api/minerals/identify', async (req: Request, res: Response) => {
+    try {
+      const {
+        streak,
+        lustre,
+        colour,
+        hardness,
+        specificGravity,
+        crystalSystem,
+        cleavage,
+        fluorescence,
+        limit = 25
+      } = req.body;
+
+      const toRange = (value: any): ObservedRange | undefined => {
+        if (value === undefined || value === null) return undefined;
+        const min = value.min == null || value.min === '' ? undefined : Number(value.min);
+        const max = value.max == null || value.max === '' ? undefined : Number(value.max);
+        if ((min !== undefined && isNaN(min)) || (max !== undefined && isNaN(max))) {
+          throw new IdentificationError('Ranges must be numbers, e.g. { "min": 6, "max": 7 }');
+        }
+        return { min, max };
+      };
+
+      const maxCandidates = parseInt(limit as string);
+      if (isNaN(maxCandidates) || maxCandidates < 1) {
+        return res.status(400).json({ error: 'Invalid observations', message: 'limit must be a positive number' });
+      }
+
+      const results = await mineralIdentification.identify({
+        streak,
+        lustre,
+        colour,
+        hardness: toRange(hardness),
+        specificGravity: toRange(specificGravity),
+        crystalSystem,
+        cleavage,
+        fluorescence,
+      }, { limit: Math.min(maxCandidates, 100) });
+
+      return res.json(results);
+    } catch (error) {
+      if (error instanceof IdentificationError) {
+        return res.status(400).json({ error: 'Invalid observations', message: error.message });
+      }
+      console.error('Error identifying mineral:', error);
+      return res.status(500).json({ error: 'Failed to identify mineral' });
+    }
+  });
+
   // Groups/Series Search Routes (RRUFF Database)
   app.get('/api/groups-series/search', async (req: Request, res: Response) => {
     try {
@@ -95,7 +405,30 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Sync minerals from Mindat API
+  // Golden record: each field from the highest priority source, with provenance
+  app.get('/api/minerals/:id/canonical', async (req: Request, res: Response) => {
+    try {
+      const mindatId = parseInt(req.params.id);
+      if (isNaN(mindatId)) {
+        return res.status(400).json({ error: 'Invalid mineral ID' });
+      }
+
+      const mineral = await canonicalMinerals.getCanonical(mindatId);
+      if (!mineral) {
+        return res.status(404).json({ error: 'Mineral not found' });
+      }
+
+      return res.json(mineral);
+    } catch (error) {
+      console.error('Error building canonical mineral:', error);
+      return res.status(500).json({
+        error: 'Failed to build canonical mineral',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+
+  // Sync minerals from Mindat API (Settings page); progress streams over /api/sync/events
   app.post('/api/minerals/sync', async (req: Request, res: Response) => {
     try {
       const { 
@@ -104,95 +437,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
         maxPages = 5
       } = req.body;
 
-      const job = await storage.createSyncJob({
-        jobType: 'mineral_sync',
-        status: 'running',
-      });
-
-      await storage.updateSyncJob(job.id, {
-        startedAt: new Date(),
-      });
-
-      let totalProcessed = 0;
-      let totalFailed = 0;
-
-      try {
-        for (let page = 1; page <= maxPages; page++) {
-          const response = await mindatAPI.searchMinerals({
-            name: query,
-            page,
-            page_size: pageSize,
-            fields: 'id,name,ima_formula,formula,crystal_system,hardness_min,hardness_max,specific_gravity_min,specific_gravity_max,colour,diaphaneity,lustre,streak,fracture,cleavage,tenacity,ima_symbol,ima_status'
-          });
-
-          const minerals = response.results || [];
-          
-          for (const mineralData of minerals) {
-            try {
-              const existing = await storage.getMineralByMindatId(mineralData.id);
-              
-              if (!existing) {
-                await storage.createMineral({
-                  mindatId: mineralData.id,
-                  name: mineralData.name,
-                  formula: mineralData.formula || null,
-                  imaFormula: mineralData.ima_formula || null,
-                  imaSymbol: mineralData.ima_symbol || null,
-                  imaStatus: mineralData.ima_status || null,
-                  crystalSystem: mineralData.crystal_system || null,
-                  hardnessMin: mineralData.hardness_min || null,
-                  hardnessMax: mineralData.hardness_max || null,
-                  specificGravityMin: mineralData.specific_gravity_min || null,
-                  specificGravityMax: mineralData.specific_gravity_max || null,
-                  colour: mineralData.colour || null,
-                  diaphaneity: mineralData.diaphaneity || null,
-                  lustre: mineralData.lustre || null,
-                  streak: mineralData.streak || null,
-                  fracture: mineralData.fracture || null,
-                  cleavage: mineralData.cleavage || null,
-                  tenacity: mineralData.tenacity || null,
-                  rawData: mineralData,
-                });
-                totalProcessed++;
-              }
-            } catch (error) {
-              console.error(`Error syncing mineral ${mineralData.id}:`, error);
-              totalFailed++;
-            }
-          }
-
-          // If we got fewer results than requested, we're done
-          if (minerals.length < pageSize) {
-            break;
-          }
-        }
-
-        await storage.updateSyncJob(job.id, {
-          status: 'completed',
-          recordsProcessed: totalProcessed,
-          recordsFailed: totalFailed,
-          completedAt: new Date(),
-        });
-
-        return res.json({
-          success: true,
-          jobId: job.id,
-          processed: totalProcessed,
-          failed: totalFailed,
-        });
-
-      } catch (error: any) {
-        await storage.updateSyncJob(job.id, {
-          status: 'failed',
-          errorMessage: error.message,
-          recordsProcessed: totalProcessed,
-          recordsFailed: totalFailed,
-          completedAt: new Date(),
-        });
-        throw error;
-      }
+      const job = await jobRunner.enqueue<MineralSyncParams>(JOB_TYPES.mineralSync, {
+        query,
+        pageSize,
+        maxPages,
+      });
 
+      return jobAccepted(res, job);
     } catch (error) {
+      if (error instanceof JobParamsError) {
+        return res.status(400).json({ error: 'Invalid job parameters', message: error.message });
+      }
       console.error('Error syncing minerals:', error);
       return res.status(500).json({ error: 'Failed to sync minerals' });
     }
@@ -271,8 +526,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Sync job status
   app.get('/api/sync/jobs', async (req: Request, res: Response) => {
     try {
-      const { limit = '10' } = req.query;
-      const jobs = await storage.getRecentSyncJobs(parseInt(limit as string));
+      const { limit = '10', status, job_type, schedule_id } = req.query;
+      const jobs = await jobRunner.listJobs({
+        limit: parseInt(limit as string),
+        status: status as string | undefined,
+        jobType: job_type as string | undefined,
+        scheduleId: schedule_id ? parseInt(schedule_id as string) : undefined,
+      });
       return res.json({ results: jobs });
     } catch (error) {
       console.error('Error getting sync jobs:', error);
@@ -280,6 +540,125 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Single job with percent complete and ETA
+  app.get('/api/sync/jobs/:id', async (req: Request, res: Response) => {
+    try {
+      const job = await jobRunner.getJob(parseInt(req.params.id));
+      if (!job) {
+        return res.status(404).json({ error: 'Job not found' });
+      }
+      return res.json(job);
+    } catch (error) {
+      console.error('Error getting sync job:', error);
+      return res.status(500).json({ error: 'Failed to get sync job' });
+    }
+  });
+
+  // Job log lines, oldest first; pass after_id to fetch only new lines
+  app.get('/api/sync/jobs/:id/logs', async (req: Request, res: Response) => {
+    try {
+      const jobId = parseInt(req.params.id);
+      const { after_id, limit = '200' } = req.query;
+
+      const job = await jobRunner.getJob(jobId);
+      if (!job) {
+        return res.status(404).json({ error: 'Job not found' });
+      }
+
+      const logs = await jobRunner.getLogs(jobId, {
+        afterId: after_id ? parseInt(after_id as string) : undefined,
+        limit: parseInt(limit as string),
+      });
+      return res.json({ results: logs });
+    } catch (error) {
+      console.error('Error getting sync job logs:', error);
+      return res.status(500).json({ error: 'Failed to get sync job logs' });
+    }
+  });
+
+  // Cancel a pending job, or ask a running one to stop at its next checkpoint
+  app.post('/api/sync/jobs/:id/cancel', async (req: Request, res: Response) => {
+    try {
+      const job = await jobRunner.cancel(parseInt(req.params.id));
+      if (!job) {
+        return res.status(404).json({ error: 'Job not found' });
+      }
+      return res.json(jobRunner.summarize(job));
+    } catch (error: any) {
+      if (error instanceof JobQueueError) {
+        return res.status(409).json({ error: error.message });
+      }
+      console.error('Error cancelling sync job:', error);
+      return res.status(500).json({ error: 'Failed to cancel sync job', message: error.message });
+    }
+  });
+
+  // Re-queue a failed or cancelled job from its last checkpoint
+  app.post('/api/sync/jobs/:id/resume', async (req: Request, res: Response) => {
+    try {
+      const job = await jobRunner.resume(parseInt(req.params.id));
+      if (!job) {
+        return res.status(404).json({ error: 'Job not found' });
+      }
+      return res.json(jobRunner.summarize(job));
+    } catch (error: any) {
+      if (error instanceof JobQueueError) {
+        return res.status(409).json({ error: error.message });
+      }
+      console.error('Error resuming sync job:', error);
+      return res.status(500).json({ error: 'Failed to resume sync job', message: error.message });
+    }
+  });
+
+  // Live job events as Server-Sent Events. Opens with a snapshot of the
+  // running and pending jobs (or just job_id), then streams as they change.
+  app.get('/api/sync/events', async (req: Request, res: Response) => {
+    try {
+      const jobId = req.query.job_id ? parseInt(req.query.job_id as string) : undefined;
+
+      let snapshot;
+      if (jobId !== undefined) {
+        const job = await jobRunner.getJob(jobId);
+        if (!job) {
+          return res.status(404).json({ error: 'Job not found' });
+        }
+        snapshot = [job];
+      } else {
+        const [running, pending] = await Promise.all([
+          jobRunner.listJobs({ status: 'running' }),
+          jobRunner.listJobs({ status: 'pending' }),
+        ]);
+        snapshot = [...running, ...pending];
+      }
+
+      res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive',
+      });
+
+      const send = (message: SyncStreamMessage) => {
+        res.write(`data: ${JSON.stringify(message)}\n\n`);
+      };
+
+      send({ type: 'snapshot', jobs: snapshot });
+      const unsubscribe = jobEvents.subscribe(send, jobId);
+      // Comment lines keep proxies from closing an idle stream
+      const keepAlive = setInterval(() => res.write(': keep-alive\n\n'), SSE_KEEP_ALIVE_MS);
+
+      req.on('close', () => {
+        clearInterval(keepAlive);
+        unsubscribe();
+      });
+    } catch (error) {
+      console.error('Error opening sync event stream:', error);
+      if (!res.headersSent) {
+        return res.status(500).json({ error: 'Failed to open sync event stream' });
+      }
+      res.end();
+    }
+  });
+
   // Validate Mindat credentials
   app.get('/api/mindat/validate', async (req: Request, res: Response) => {
     try {
@@ -301,25 +680,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
         imaOnly = false,
       } = req.body;
 
-      console.log(`Starting production Mindat sync: pages ${startPage}-${maxPages}, pageSize: ${pageSize}, IMA only: ${imaOnly}`);
-
-      const progress = await mindatSync.syncMinerals({
+      const job = await jobRunner.enqueue<MindatFullSyncParams>(JOB_TYPES.mindatFullSync, {
         startPage,
         maxPages,
         pageSize,
         imaOnly,
       });
 
-      return res.json({
-        success: true,
-        totalProcessed: progress.totalProcessed,
-        totalCreated: progress.totalCreated,
-        totalUpdated: progress.totalUpdated,
-        totalFailed: progress.totalFailed,
-        errors: progress.errors.slice(0, 10),
-      });
+      return jobAccepted(res, job);
     } catch (error: any) {
-      console.error('Error in production sync:', error);
+      if (error instanceof JobParamsError) {
+        return res.status(400).json({ error: 'Invalid job parameters', message: error.message });
+      }
+      console.error('Error queueing production sync:', error);
       return res.status(500).json({
         error: 'Production sync failed',
         message: error.message,
@@ -345,20 +718,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Import RRUFF minerals from CSV
   app.post('/api/rruff/import', async (req: Request, res: Response) => {
     try {
-      const csvPath = 'attached_assets/RRUFF_Export_20250908_091618_1759745369897.csv';
-      console.log('Starting RRUFF CSV import...');
-      
-      const progress = await rruffImport.importFromCSV(csvPath);
-      
-      return res.json({
-        success: true,
-        totalProcessed: progress.totalProcessed,
-        totalCreated: progress.totalCreated,
-        totalFailed: progress.totalFailed,
-        errors: progress.errors.slice(0, 10),
+      // skipExisting: false updates rows whose export values changed
+      const { skipExisting = true, dryRun = false } = req.body;
+
+      const job = await jobRunner.enqueue<CsvImportParams>(JOB_TYPES.rruffImport, {
+        filePath: RRUFF_CSV_PATH,
+        skipExisting,
+        dryRun,
       });
+
+      return jobAccepted(res, job);
     } catch (error: any) {
-      console.error('Error importing RRUFF data:', error);
+      if (error instanceof JobParamsError) {
+        return res.status(400).json({ error: 'Invalid job parameters', message: error.message });
+      }
+      console.error('Error queueing RRUFF import:', error);
       return res.status(500).json({
         error: 'RRUFF import failed',
         message: error.message,
@@ -394,33 +768,111 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Link RRUFF rows to mindat_minerals by IMA symbol, name, then formula
+  app.post('/api/rruff/link', async (req: Request, res: Response) => {
+    try {
+      const { relinkAll = false } = req.body;
+
+      const job = await jobRunner.enqueue<RruffMindatLinkParams>(JOB_TYPES.rruffMindatLink, { relinkAll });
+
+      return jobAccepted(res, job);
+    } catch (error: any) {
+      if (error instanceof JobParamsError) {
+        return res.status(400).json({ error: 'Invalid job parameters', message: error.message });
+      }
+      console.error('Error queueing RRUFF linking:', error);
+      return res.status(500).json({
+        error: 'Failed to queue RRUFF linking',
+        message: error.message,
+      });
+    }
+  });
+
+  // Review list; ambiguous rows by default, ?status=linked&max_confidence=0.7 for weak links
+  app.get('/api/rruff/links', async (req: Request, res: Response) => {
+    try {
+      const { status = 'ambiguous', method, max_confidence, mineral, limit = '100', offset = '0' } = req.query;
+
+      const results = await rruffLinker.listLinks({
+        status: status as string,
+        method: method as string | undefined,
+        maxConfidence: max_confidence ? parseFloat(max_confidence as string) : undefined,
+        mineral: mineral as string | undefined,
+        limit: Math.min(parseInt(limit as string) || 100, 500),
+        offset: parseInt(offset as string) || 0,
+      });
+      return res.json({ results, count: results.length });
+    } catch (error: any) {
+      console.error('Error listing RRUFF links:', error);
+      return res.status(500).json({
+        error: 'Failed to list RRUFF links',
+        message: error.message,
+      });
+    }
+  });
+
+  app.get('/api/rruff/links/summary', async (req: Request, res: Response) => {
+    try {
+      const results = await rruffLinker.getSummary();
+      return res.json({ results });
+    } catch (error: any) {
+      console.error('Error summarising RRUFF links:', error);
+      return res.status(500).json({
+        error: 'Failed to summarise RRUFF links',
+        message: error.message,
+      });
+    }
+  });
+
+  // Reviewer's pick: { mindatId }, or { mindatId: null } when Mindat has no match
+  app.post('/api/rruff/links/:id', async (req: Request, res: Response) => {
+    try {
+      const rruffId = parseInt(req.params.id);
+      const { mindatId = null } = req.body;
+
+      const result = await rruffLinker.setLink(rruffId, mindatId);
+      if (!result) {
+        return res.status(404).json({ error: 'RRUFF mineral not found' });
+      }
+      return res.json(result);
+    } catch (error: any) {
+      if (error instanceof RruffLinkError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error('Error linking RRUFF mineral:', error);
+      return res.status(500).json({
+        error: 'Failed to link RRUFF mineral',
+        message: error.message,
+      });
+    }
+  });
+
   // Import Mindat minerals from CSV dump
   app.post('/api/mindat-csv/import', async (req: Request, res: Response) => {
     try {
       const {
-        filePath = 'attached_assets/mindatdump.csv',
+        file = 'mindatdump.csv',
         batchSize = 100,
-        skipExisting = false
+        skipExisting = false,
+        dryRun = false,
       } = req.body;
 
-      console.log(`Starting Mindat CSV import from: ${filePath}`);
-      console.log(`Batch size: ${batchSize}, Skip existing: ${skipExisting}`);
-
-      const progress = await mindatCSVImport.importFromCSV(filePath, {
+      const job = await jobRunner.enqueue<CsvImportParams>(JOB_TYPES.mindatCsvImport, {
+        filePath: resolveImportFile(String(file)),
         batchSize,
         skipExisting,
+        dryRun,
       });
 
-      return res.json({
-        success: true,
-        totalProcessed: progress.totalProcessed,
-        totalCreated: progress.totalCreated,
-        totalUpdated: progress.totalUpdated,
-        totalFailed: progress.totalFailed,
-        errors: progress.errors.slice(0, 20),
-      });
+      return jobAccepted(res, job);
     } catch (error: any) {
-      console.error('Error importing Mindat CSV:', error);
+      if (error instanceof ImportFileError) {
+        return res.status(400).json({ error: error.message });
+      }
+      if (error instanceof JobParamsError) {
+        return res.status(400).json({ error: 'Invalid job parameters', message: error.message });
+      }
+      console.error('Error queueing Mindat CSV import:', error);
       return res.status(500).json({
         error: 'Mindat CSV import failed',
         message: error.message,
@@ -467,24 +919,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
         batchSize = 100,
       } = req.body;
 
-      console.log(`Starting incremental sync: ${startId || 'auto'} to ${endId || 'auto'}`);
-
-      const progress = await incrementalSync.syncNewMinerals({
+      const job = await jobRunner.enqueue<MindatIdScanParams>(JOB_TYPES.mindatIdScan, {
         startId,
         endId,
         batchSize,
       });
 
-      return res.json({
-        success: true,
-        totalChecked: progress.totalChecked,
-        newMinerals: progress.newMinerals,
-        updatedMinerals: progress.updatedMinerals,
-        deletedMinerals: progress.deletedMinerals,
-        errors: progress.errors.slice(0, 20),
-      });
+      return jobAccepted(res, job);
     } catch (error: any) {
-      console.error('Error in incremental sync:', error);
+      if (error instanceof JobParamsError) {
+        return res.status(400).json({ error: 'Invalid job parameters', message: error.message });
+      }
+      console.error('Error queueing incremental sync:', error);
       return res.status(500).json({
         error: 'Incremental sync failed',
         message: error.message,
@@ -492,6 +938,39 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Sync minerals modified on Mindat since the stored high-water mark
+  app.post('/api/mindat/sync/changes', async (req: Request, res: Response) => {
+    try {
+      const {
+        since,
+        pageSize = 200,
+        maxPages,
+      } = req.body;
+
+      const sinceDate = since ? new Date(since) : undefined;
+      if (sinceDate && isNaN(sinceDate.getTime())) {
+        return res.status(400).json({ error: 'since must be an ISO date' });
+      }
+
+      const job = await jobRunner.enqueue<MindatChangeFeedParams>(JOB_TYPES.mindatChangeFeed, {
+        since: sinceDate?.toISOString(),
+        pageSize,
+        maxPages,
+      });
+
+      return jobAccepted(res, job);
+    } catch (error: any) {
+      if (error instanceof JobParamsError) {
+        return res.status(400).json({ error: 'Invalid job parameters', message: error.message });
+      }
+      console.error('Error queueing change-feed sync:', error);
+      return res.status(500).json({
+        error: 'Change-feed sync failed',
+        message: error.message,
+      });
+    }
+  });
+
   // Validate existing minerals for changes
   app.post('/api/mindat/sync/validate', async (req: Request, res: Response) => {
     try {
@@ -500,22 +979,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
         olderThan,
       } = req.body;
 
-      console.log(`Validating ${sampleSize} existing minerals for changes...`);
-
-      const progress = await incrementalSync.validateExistingMinerals({
+      const job = await jobRunner.enqueue<MindatValidationParams>(JOB_TYPES.mindatValidation, {
         sampleSize,
-        olderThan: olderThan ? new Date(olderThan) : undefined,
+        olderThan,
       });
 
-      return res.json({
-        success: true,
-        totalChecked: progress.totalChecked,
-        updatedMinerals: progress.updatedMinerals,
-        deletedMinerals: progress.deletedMinerals,
-        errors: progress.errors.slice(0, 20),
-      });
+      return jobAccepted(res, job);
     } catch (error: any) {
-      console.error('Error validating minerals:', error);
+      if (error instanceof JobParamsError) {
+        return res.status(400).json({ error: 'Invalid job parameters', message: error.message });
+      }
+      console.error('Error queueing validation:', error);
       return res.status(500).json({
         error: 'Validation failed',
         message: error.message,
@@ -537,56 +1011,582 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Manual trigger endpoints for testing scheduled jobs
+  // Field-level change history for one mineral, newest first; page with ?before=<detectedAt>
+  app.get('/api/mindat/minerals/:id/history', async (req: Request, res: Response) => {
+    try {
+      const mindatId = parseInt(req.params.id);
+      const { before, limit = '50' } = req.query;
 
-  // Manually trigger daily sync
-  app.post('/api/mindat/sync/trigger/daily', async (req: Request, res: Response) => {
+      const beforeDate = before ? new Date(before as string) : undefined;
+      if (beforeDate && isNaN(beforeDate.getTime())) {
+        return res.status(400).json({ error: 'before must be an ISO date' });
+      }
+
+      const results = await changeHistory.getHistory(mindatId, {
+        before: beforeDate,
+        limit: Math.min(parseInt(limit as string) || 50, 200),
+      });
+      return res.json({ results, count: results.length });
+    } catch (error: any) {
+      console.error(`Error getting history for mineral ${req.params.id}:`, error);
+      return res.status(500).json({
+        error: 'Failed to get mineral history',
+        message: error.message,
+      });
+    }
+  });
+
+  // Changes across all minerals, e.g. ?since=2025-10-01&field=imaFormula for pushing downstream
+  app.get('/api/mindat/changes', async (req: Request, res: Response) => {
     try {
-      console.log('📣 Manual trigger: daily sync');
+      const { since, before, field, limit = '100' } = req.query;
+
+      const sinceDate = since ? new Date(since as string) : undefined;
+      const beforeDate = before ? new Date(before as string) : undefined;
+      if ((sinceDate && isNaN(sinceDate.getTime())) || (beforeDate && isNaN(beforeDate.getTime()))) {
+        return res.status(400).json({ error: 'since and before must be ISO dates' });
+      }
+
+      const results = await changeHistory.listChanges({
+        since: sinceDate,
+        before: beforeDate,
+        field: field as string | undefined,
+        limit: Math.min(parseInt(limit as string) || 100, 500),
+      });
+      return res.json({ results, count: results.length });
+    } catch (error: any) {
+      console.error('Error listing mineral changes:', error);
+      return res.status(500).json({
+        error: 'Failed to list mineral changes',
+        message: error.message,
+      });
+    }
+  });
+
+  // Re-check IDs recorded as deleted for a redirect, synonym, IMA history or name match
+  app.post('/api/mindat/merges/resolve', async (req: Request, res: Response) => {
+    try {
+      const { limit = 500 } = req.body;
+
+      const job = await jobRunner.enqueue<MindatMergeResolutionParams>(JOB_TYPES.mindatMergeResolution, { limit });
 
-      // Return immediately and run in background
-      res.json({
-        success: true,
-        message: 'Daily sync triggered. Check server logs for progress.',
+      return jobAccepted(res, job);
+    } catch (error: any) {
+      if (error instanceof JobParamsError) {
+        return res.status(400).json({ error: 'Invalid job parameters', message: error.message });
+      }
+      console.error('Error queueing merge resolution:', error);
+      return res.status(500).json({
+        error: 'Failed to queue merge resolution',
+        message: error.message,
       });
+    }
+  });
 
-      // Run sync in background
-      triggerDailySync().catch(err => {
-        console.error('Background daily sync error:', err);
+  // Everything still pointing at a merged Mindat ID; ?erocks_csv=<export file name> adds e-Rocks rows, ?format=csv downloads
+  app.get('/api/mindat/merges/report', async (req: Request, res: Response) => {
+    try {
+      const { erocks_csv, format } = req.query;
+      const erocksCsvPath = erocks_csv ? resolveERocksExport(String(erocks_csv)) : undefined;
+
+      const results = await mergeResolver.getRepointReport({ erocksCsvPath });
+
+      if (format === 'csv') {
+        const rows = results.flatMap(entry => entry.references.map(reference => ({
+          from_id: entry.fromId,
+          from_name: entry.fromName ?? '',
+          to_id: entry.toId,
+          to_name: entry.toName ?? '',
+          method: entry.method ?? '',
+          source: reference.source,
+          column: reference.column,
+          record_id: reference.recordId,
+          label: reference.label ?? '',
+          value: reference.value,
+        })));
+        res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+        res.setHeader('Content-Disposition', 'attachment; filename="mindat-repoint-report.csv"');
+        return res.send(stringify(rows, { header: true }));
+      }
+
+      return res.json({
+        results,
+        count: results.length,
+        references: results.reduce((total, entry) => total + entry.references.length, 0),
       });
     } catch (error: any) {
-      console.error('Error triggering daily sync:', error);
+      if (error instanceof ERocksExportError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error('Error building repoint report:', error);
       return res.status(500).json({
-        error: 'Failed to trigger daily sync',
+        error: 'Failed to build repoint report',
         message: error.message,
       });
     }
   });
 
-  // Manually trigger weekly validation
-  app.post('/api/mindat/sync/trigger/weekly', async (req: Request, res: Response) => {
+  // Source fields Mindat sent that the field mapping drops, most recently seen first
+  app.get('/api/mindat/unmapped-fields', async (req: Request, res: Response) => {
     try {
-      console.log('📣 Manual trigger: weekly validation');
+      const { source } = req.query;
+      if (source !== undefined && source !== 'api' && source !== 'csv') {
+        return res.status(400).json({ error: 'source must be api or csv' });
+      }
 
-      // Return immediately and run in background
-      res.json({
-        success: true,
-        message: 'Weekly validation triggered. Check server logs for progress.',
+      const results = await fieldMapper.getUnmappedFields(source);
+      return res.json({ results, count: results.length });
+    } catch (error: any) {
+      console.error('Error listing unmapped Mindat fields:', error);
+      return res.status(500).json({
+        error: 'Failed to list unmapped Mindat fields',
+        message: error.message,
       });
+    }
+  });
+
+  // Dismiss a field once it has been mapped (or deliberately ignored)
+  app.delete('/api/mindat/unmapped-fields/:source/:field', async (req: Request, res: Response) => {
+    try {
+      const { source, field } = req.params;
+      if (source !== 'api' && source !== 'csv') {
+        return res.status(400).json({ error: 'source must be api or csv' });
+      }
 
-      // Run validation in background
-      triggerWeeklyValidation().catch(err => {
-        console.error('Background validation error:', err);
+      const deleted = await fieldMapper.clearUnmappedField(source, field);
+      if (!deleted) {
+        return res.status(404).json({ error: 'Unmapped field not found' });
+      }
+      return res.json({ success: true });
+    } catch (error: any) {
+      console.error('Error clearing unmapped Mindat field:', error);
+      return res.status(500).json({
+        error: 'Failed to clear unmapped Mindat field',
+        message: error.message,
       });
+    }
+  });
+
+  // e-Rocks enrichment runs (npm run enrich-erocks), newest first
+  app.get('/api/erocks/runs', async (req: Request, res: Response) => {
+    try {
+      const { limit = '50' } = req.query;
+      const results = await erocksRuns.listRuns(Math.min(parseInt(limit as string) || 50, 200));
+      return res.json({ results, count: results.length });
     } catch (error: any) {
-      console.error('Error triggering weekly validation:', error);
+      console.error('Error listing e-Rocks runs:', error);
       return res.status(500).json({
-        error: 'Failed to trigger weekly validation',
+        error: 'Failed to list e-Rocks runs',
         message: error.message,
       });
     }
   });
 
+  app.get('/api/erocks/runs/:id', async (req: Request, res: Response) => {
+    try {
+      const run = await erocksRuns.getRun(parseInt(req.params.id));
+      if (!run) {
+        return res.status(404).json({ error: 'Enrichment run not found' });
+      }
+      return res.json(run);
+    } catch (error: any) {
+      console.error('Error getting e-Rocks run:', error);
+      return res.status(500).json({
+        error: 'Failed to get e-Rocks run',
+        message: error.message,
+      });
+    }
+  });
+
+  // Per-record matches; filter with ?match_type=&needs_review=true&review_status=&search=
+  app.get('/api/erocks/runs/:id/results', async (req: Request, res: Response) => {
+    try {
+      const { match_type, needs_review, review_status, search, limit = '100', offset = '0' } = req.query;
+
+      const results = await erocksRuns.listResults(parseInt(req.params.id), {
+        matchType: match_type as string | undefined,
+        needsReview: needs_review === undefined ? undefined : needs_review === 'true',
+        reviewStatus: review_status as string | undefined,
+        search: search as string | undefined,
+        limit: Math.min(parseInt(limit as string) || 100, 500),
+        offset: parseInt(offset as string) || 0,
+      });
+      return res.json({ results, count: results.length });
+    } catch (error: any) {
+      console.error('Error listing e-Rocks matches:', error);
+      return res.status(500).json({
+        error: 'Failed to list e-Rocks matches',
+        message: error.message,
+      });
+    }
+  });
+
+  // Records whose match differs between two runs
+  app.get('/api/erocks/runs/:id/compare/:otherId', async (req: Request, res: Response) => {
+    try {
+      const comparison = await erocksRuns.compareRuns(parseInt(req.params.id), parseInt(req.params.otherId));
+      if (!comparison) {
+        return res.status(404).json({ error: 'Enrichment run not found' });
+      }
+      return res.json(comparison);
+    } catch (error: any) {
+      console.error('Error comparing e-Rocks runs:', error);
+      return res.status(500).json({
+        error: 'Failed to compare e-Rocks runs',
+        message: error.message,
+      });
+    }
+  });
+
+  // Matches awaiting review (?status=pending by default) with their Mindat records; ?run_id= defaults to the latest completed run
+  app.get('/api/erocks/review', async (req: Request, res: Response) => {
+    try {
+      const { run_id, status, match_type, search, limit = '50', offset = '0' } = req.query;
+
+      const run = run_id ? await erocksRuns.getRun(parseInt(run_id as string)) : await erocksRuns.getLatestCompletedRun();
+      if (!run) {
+        return res.status(404).json({ error: 'Enrichment run not found' });
+      }
+
+      const results = await erocksRuns.listReviewQueue(run.id, {
+        status: status as string | undefined,
+        matchType: match_type as string | undefined,
+        search: search as string | undefined,
+        limit: Math.min(parseInt(limit as string) || 50, 200),
+        offset: parseInt(offset as string) || 0,
+      });
+      return res.json({ run, results, count: results.length });
+    } catch (error: any) {
+      console.error('Error listing e-Rocks review queue:', error);
+      return res.status(500).json({
+        error: 'Failed to list e-Rocks review queue',
+        message: error.message,
+      });
+    }
+  });
+
+  app.get('/api/erocks/review/summary', async (req: Request, res: Response) => {
+    try {
+      const { run_id } = req.query;
+
+      const run = run_id ? await erocksRuns.getRun(parseInt(run_id as string)) : await erocksRuns.getLatestCompletedRun();
+      if (!run) {
+        return res.status(404).json({ error: 'Enrichment run not found' });
+      }
+
+      const results = await erocksRuns.getReviewSummary(run.id);
+      return res.json({ run, results });
+    } catch (error: any) {
+      console.error('Error getting e-Rocks review summary:', error);
+      return res.status(500).json({
+        error: 'Failed to get e-Rocks review summary',
+        message: error.message,
+      });
+    }
+  });
+
+  // Review decisions, applied by the next export: { ids, decision: approve|reject|correct|reopen, mindatId, note }
+  app.post('/api/erocks/review/decide', async (req: Request, res: Response) => {
+    try {
+      const { ids, decision, mindatId, note } = req.body;
+
+      const results = await erocksRuns.decide(Array.isArray(ids) ? ids : [], decision as ReviewDecision, {
+        mindatId: mindatId === undefined || mindatId === null ? undefined : Number(mindatId),
+        note: typeof note === 'string' ? note : undefined,
+      });
+      return res.json({ results, count: results.length });
+    } catch (error: any) {
+      if (error instanceof ERocksReviewError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error('Error recording e-Rocks review decision:', error);
+      return res.status(500).json({
+        error: 'Failed to record e-Rocks review decision',
+        message: error.message,
+      });
+    }
+  });
+
+  // Make a review decision permanent as an override for the record's Nid: { reason, author, expiresAt }
+  app.post('/api/erocks/review/:id/override', async (req: Request, res: Response) => {
+    try {
+      const { reason, author, expiresAt } = overrideInput(req.body);
+      const override = await erocksOverrides.promoteReview(parseInt(req.params.id), { reason, author, expiresAt });
+      if (!override) {
+        return res.status(404).json({ error: 'Match result not found' });
+      }
+      return res.status(201).json(override);
+    } catch (error: any) {
+      return overrideErrorResponse(res, error, 'Failed to create override from review');
+    }
+  });
+
+  // Manual e-Rocks overrides by Nid; expired ones only with ?include_expired=true
+  app.get('/api/erocks/overrides', async (req: Request, res: Response) => {
+    try {
+      const { action, search, include_expired, limit = '100', offset = '0' } = req.query;
+
+      const results = await erocksOverrides.listOverrides({
+        action: action as string | undefined,
+        search: search as string | undefined,
+        includeExpired: include_expired === 'true',
+        limit: Math.min(parseInt(limit as string) || 100, 500),
+        offset: parseInt(offset as string) || 0,
+      });
+      return res.json({ results, count: results.length });
+    } catch (error: any) {
+      return overrideErrorResponse(res, error, 'Failed to list overrides');
+    }
+  });
+
+  // { nid, action: skip|match|no_match, mindatId, reason, author, expiresAt }
+  app.post('/api/erocks/overrides', async (req: Request, res: Response) => {
+    try {
+      const override = await erocksOverrides.createOverride(overrideInput(req.body));
+      return res.status(201).json(override);
+    } catch (error: any) {
+      return overrideErrorResponse(res, error, 'Failed to create override');
+    }
+  });
+
+  // Re-read config/erocks-exceptions.json (every enrichment run does this too)
+  app.post('/api/erocks/overrides/import', async (req: Request, res: Response) => {
+    try {
+      const result = await erocksOverrides.importFile();
+      return res.json(result);
+    } catch (error: any) {
+      return overrideErrorResponse(res, error, 'Failed to import overrides');
+    }
+  });
+
+  app.get('/api/erocks/overrides/:id', async (req: Request, res: Response) => {
+    try {
+      const override = await erocksOverrides.getOverride(parseInt(req.params.id));
+      if (!override) {
+        return res.status(404).json({ error: 'Override not found' });
+      }
+      return res.json(override);
+    } catch (error: any) {
+      return overrideErrorResponse(res, error, 'Failed to get override');
+    }
+  });
+
+  app.patch('/api/erocks/overrides/:id', async (req: Request, res: Response) => {
+    try {
+      const override = await erocksOverrides.updateOverride(parseInt(req.params.id), overrideInput(req.body));
+      if (!override) {
+        return res.status(404).json({ error: 'Override not found' });
+      }
+      return res.json(override);
+    } catch (error: any) {
+      return overrideErrorResponse(res, error, 'Failed to update override');
+    }
+  });
+
+  app.delete('/api/erocks/overrides/:id', async (req: Request, res: Response) => {
+    try {
+      const deleted = await erocksOverrides.deleteOverride(parseInt(req.params.id));
+      if (!deleted) {
+        return res.status(404).json({ error: 'Override not found' });
+      }
+      return res.json({ success: true });
+    } catch (error: any) {
+      return overrideErrorResponse(res, error, 'Failed to delete override');
+    }
+  });
+
+  // Compare Mindat, RRUFF and (given an export file name) e-Rocks values and record conflicts
+  app.post('/api/conflicts/reconcile', async (req: Request, res: Response) => {
+    try {
+      const { erocksCsv, autoResolve = true } = req.body;
+      const erocksCsvPath = erocksCsv ? resolveERocksExport(String(erocksCsv)) : undefined;
+
+      const job = await jobRunner.enqueue<ReconciliationParams>(JOB_TYPES.reconciliation, { erocksCsvPath, autoResolve });
+
+      return jobAccepted(res, job);
+    } catch (error: any) {
+      if (error instanceof ERocksExportError) {
+        return res.status(400).json({ error: error.message });
+      }
+      if (error instanceof JobParamsError) {
+        return res.status(400).json({ error: 'Invalid job parameters', message: error.message });
+      }
+      console.error('Error queueing reconciliation:', error);
+      return res.status(500).json({
+        error: 'Failed to queue reconciliation',
+        message: error.message,
+      });
+    }
+  });
+
+  // Cross-source conflicts, highest severity first; filter with ?status=&severity=&field=&mineral=&mindat_id=
+  app.get('/api/conflicts', async (req: Request, res: Response) => {
+    try {
+      const { status, severity, field, mineral, mindat_id, limit = '100', offset = '0' } = req.query;
+
+      const results = await reconciliation.listConflicts({
+        status: status as string | undefined,
+        severity: severity as string | undefined,
+        field: field as string | undefined,
+        mineral: mineral as string | undefined,
+        mindatId: mindat_id ? parseInt(mindat_id as string) : undefined,
+        limit: Math.min(parseInt(limit as string) || 100, 500),
+        offset: parseInt(offset as string) || 0,
+      });
+      return res.json({ results, count: results.length });
+    } catch (error: any) {
+      console.error('Error listing conflicts:', error);
+      return res.status(500).json({
+        error: 'Failed to list conflicts',
+        message: error.message,
+      });
+    }
+  });
+
+  // Review decisions, one or many at a time: { ids, action: accept_a|accept_b|override|ignore|reopen, value }
+  app.post('/api/conflicts/resolve', async (req: Request, res: Response) => {
+    try {
+      const { ids, action, value } = req.body;
+
+      const results = await reconciliation.resolveConflicts(Array.isArray(ids) ? ids : [], action as ConflictAction, value);
+      return res.json({ results, count: results.length });
+    } catch (error: any) {
+      if (error instanceof ConflictResolutionError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error('Error resolving conflicts:', error);
+      return res.status(500).json({
+        error: 'Failed to resolve conflicts',
+        message: error.message,
+      });
+    }
+  });
+
+  app.get('/api/conflicts/summary', async (req: Request, res: Response) => {
+    try {
+      const results = await reconciliation.getSummary();
+      return res.json({ results });
+    } catch (error: any) {
+      console.error('Error summarising conflicts:', error);
+      return res.status(500).json({
+        error: 'Failed to summarise conflicts',
+        message: error.message,
+      });
+    }
+  });
+
+  // Manual trigger endpoints for testing scheduled jobs
+
+  // Manually trigger daily sync
+  app.post('/api/mindat/sync/trigger/daily', async (req: Request, res: Response) => {
+    try {
+      console.log('📣 Manual trigger: daily sync');
+      const job = await syncScheduler.runNamed('daily-sync');
+      if (!job) {
+        return res.status(404).json({ error: 'No schedule named daily-sync' });
+      }
+      return jobAccepted(res, job);
+    } catch (error: any) {
+      return scheduleErrorResponse(res, error, 'Failed to trigger daily sync');
+    }
+  });
+
+  // Manually trigger weekly validation
+  app.post('/api/mindat/sync/trigger/weekly', async (req: Request, res: Response) => {
+    try {
+      console.log('📣 Manual trigger: weekly validation');
+      const job = await syncScheduler.runNamed('weekly-validation');
+      if (!job) {
+        return res.status(404).json({ error: 'No schedule named weekly-validation' });
+      }
+      return jobAccepted(res, job);
+    } catch (error: any) {
+      return scheduleErrorResponse(res, error, 'Failed to trigger weekly validation');
+    }
+  });
+
+  // Sync schedules (admin)
+
+  // All schedules with next run time and latest run
+  app.get('/api/sync/schedules', async (req: Request, res: Response) => {
+    try {
+      const schedules = await syncScheduler.listSchedules();
+      return res.json({ results: schedules, jobTypes: jobRunner.getJobTypes() });
+    } catch (error: any) {
+      return scheduleErrorResponse(res, error, 'Failed to get schedules');
+    }
+  });
+
+  app.post('/api/sync/schedules', async (req: Request, res: Response) => {
+    try {
+      const schedule = await syncScheduler.createSchedule(scheduleInput(req.body));
+      return res.status(201).json(schedule);
+    } catch (error: any) {
+      return scheduleErrorResponse(res, error, 'Failed to create schedule');
+    }
+  });
+
+  app.get('/api/sync/schedules/:id', async (req: Request, res: Response) => {
+    try {
+      const schedule = await syncScheduler.getSchedule(parseInt(req.params.id));
+      if (!schedule) {
+        return res.status(404).json({ error: 'Schedule not found' });
+      }
+      return res.json(schedule);
+    } catch (error: any) {
+      return scheduleErrorResponse(res, error, 'Failed to get schedule');
+    }
+  });
+
+  // Partial update; takes effect immediately (the cron task is rebuilt)
+  app.patch('/api/sync/schedules/:id', async (req: Request, res: Response) => {
+    try {
+      const schedule = await syncScheduler.updateSchedule(parseInt(req.params.id), scheduleInput(req.body));
+      if (!schedule) {
+        return res.status(404).json({ error: 'Schedule not found' });
+      }
+      return res.json(schedule);
+    } catch (error: any) {
+      return scheduleErrorResponse(res, error, 'Failed to update schedule');
+    }
+  });
+
+  app.delete('/api/sync/schedules/:id', async (req: Request, res: Response) => {
+    try {
+      const deleted = await syncScheduler.deleteSchedule(parseInt(req.params.id));
+      if (!deleted) {
+        return res.status(404).json({ error: 'Schedule not found' });
+      }
+      return res.json({ success: true });
+    } catch (error: any) {
+      return scheduleErrorResponse(res, error, 'Failed to delete schedule');
+    }
+  });
+
+  // Run now, even if disabled; 409 while the previous run is unfinished
+  app.post('/api/sync/schedules/:id/run', async (req: Request, res: Response) => {
+    try {
+      const job = await syncScheduler.runNow(parseInt(req.params.id));
+      if (!job) {
+        return res.status(404).json({ error: 'Schedule not found' });
+      }
+      return jobAccepted(res, job);
+    } catch (error: any) {
+      return scheduleErrorResponse(res, error, 'Failed to run schedule');
+    }
+  });
+
+  // Run history from sync_jobs, newest first
+  app.get('/api/sync/schedules/:id/runs', async (req: Request, res: Response) => {
+    try {
+      const { limit = '20' } = req.query;
+      const runs = await syncScheduler.getRuns(parseInt(req.params.id), parseInt(limit as string));
+      return res.json({ results: runs });
+    } catch (error: any) {
+      return scheduleErrorResponse(res, error, 'Failed to get schedule runs');
+    }
+  });
+
   const httpServer = createServer(app);
   return httpServer;
 }
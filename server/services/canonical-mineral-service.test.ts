@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { erocksExportCandidates, mergeCanonical, type CanonicalCandidate } from './canonical-mineral-service';
+
+function candidate(source: string, priority: number, values: CanonicalCandidate['values']): CanonicalCandidate {
+  return { source, priority, recordId: source, values };
+}
+
+describe('mergeCanonical', () => {
+  const mindat = (priority: number) => candidate('mindat', priority, { formula: 'SiO<sub>2</sub>', crystalSystem: 'Trigonal' });
+  const rruff = (priority: number) => candidate('rruff', priority, { formula: 'SiO₂', crystalSystem: 'Hexagonal', year: 1505 });
+
+  it('takes each field from the highest priority source that has it', () => {
+    const { values, provenance, sources } = mergeCanonical([rruff(80), mindat(100)]);
+
+    expect(values).toEqual({ formula: 'SiO<sub>2</sub>', crystalSystem: 'Trigonal', year: 1505 });
+    expect(provenance.crystalSystem).toEqual({
+      source: 'mindat', priority: 100, alternatives: [{ source: 'rruff', value: 'Hexagonal' }],
+    });
+    // Formatting differences aren't alternatives
+    expect(provenance.formula?.alternatives).toEqual([]);
+    expect(provenance.year?.source).toBe('rruff');
+    expect(sources.map(source => source.name)).toEqual(['mindat', 'rruff']);
+  });
+
+  it('follows a change to the data_sources priorities', () => {
+    const { values, provenance } = mergeCanonical([rruff(120), mindat(100)]);
+
+    expect(values.crystalSystem).toBe('Hexagonal');
+    expect(provenance.crystalSystem).toMatchObject({ source: 'rruff', priority: 120 });
+  });
+
+  it('puts a reviewed value above every source', () => {
+    const { values, provenance } = mergeCanonical([rruff(80), mindat(100)], {
+      reviewed: { crystalSystem: { conflictId: 7, value: 'Hexagonal' }, year: { conflictId: 8, value: '1530' } },
+    });
+
+    expect(values).toMatchObject({ crystalSystem: 'Hexagonal', year: 1530 });
+    expect(provenance.crystalSystem).toEqual({
+      source: 'review', priority: null, conflictId: 7, alternatives: [{ source: 'mindat', value: 'Trigonal' }],
+    });
+  });
+
+  it('lets a variety inherit only the fields no source has', () => {
+    const { values, provenance } = mergeCanonical([candidate('mindat', 100, { name: 'Amethyst', colour: 'Purple' })], {
+      inherited: { mindatId: 3337, values: { name: 'Quartz', colour: 'Colourless', formula: 'SiO2' } },
+    });
+
+    expect(values).toEqual({ name: 'Amethyst', colour: 'Purple', formula: 'SiO2' });
+    expect(provenance.formula).toEqual({ source: 'mindat', priority: null, inheritedFrom: 3337, alternatives: [] });
+  });
+});
+
+describe('erocksExportCandidates', () => {
+  const priorities = new Map([['mindat', 100], ['erocks', 60]]);
+  const mindat = { mindatId: 3337, name: 'Quartz', imaFormula: 'SiO2' };
+  const row = { Nid: '42', Title: 'Amethyst', Formula: 'SiO2', Colour: 'Purple' };
+
+  it('ranks Mindat over the e-Rocks row by their priorities', () => {
+    const candidates = erocksExportCandidates(mindat, row, false, priorities);
+
+    expect(candidates.map(({ source, priority, recordId }) => ({ source, priority, recordId }))).toEqual([
+      { source: 'erocks', priority: 60, recordId: '42' },
+      { source: 'mindat', priority: 100, recordId: '3337' },
+    ]);
+    expect(mergeCanonical(candidates).values.name).toBe('Quartz');
+  });
+
+  it('drops Mindat when the match went through the parent', () => {
+    const candidates = erocksExportCandidates(mindat, row, true, priorities);
+
+    expect(candidates.map(candidate => candidate.source)).toEqual(['erocks']);
+    expect(mergeCanonical(candidates).values).toMatchObject({ name: 'Amethyst', colour: 'Purple' });
+  });
+
+  it('keeps the e-Rocks row below every active source when e-Rocks is inactive', () => {
+    const candidates = erocksExportCandidates(mindat, row, false, new Map([['mindat', 100]]));
+
+    expect(mergeCanonical(candidates).values).toMatchObject({ name: 'Quartz', colour: 'Purple' });
+  });
+});
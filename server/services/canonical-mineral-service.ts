@@ -0,0 +1,368 @@
+import { db } from '../db';
+import { dataConflicts, dataSources, mindatMinerals, rruffMinerals, type MindatMineral, type RruffMineral } from '@shared/schema';
+import {
+  CANONICAL_FIELDS,
+  type CanonicalField,
+  type CanonicalMineral,
+  type CanonicalSource,
+  type CanonicalValue,
+  type CanonicalValues,
+  type FieldProvenance,
+} from '@shared/canonical-mineral';
+import { desc, eq, inArray, sql } from 'drizzle-orm';
+import {
+  RECONCILED_FIELDS,
+  compareFieldValues,
+  erocksFieldValues,
+  mindatFieldValues,
+  rruffFieldValues,
+  type MindatFieldSource,
+  type ReconciledField,
+} from './conflict-rules';
+import { SOURCE_DEFAULTS, type ReconciliationSource } from './reconciliation-service';
+import { MindatAPIService } from './mindat-api-service';
+import { MindatFieldMapper } from './mindat-field-mapping';
+import { MindatApiError } from './mindat-http-client';
+
+export type MindatCanonicalSource = MindatFieldSource & Partial<Pick<MindatMineral,
+  'name' | 'spaceGroup' | 'elements' | 'hardnessMin' | 'hardnessMax' | 'specificGravityMin' | 'specificGravityMax' |
+  'colour' | 'color' | 'lustre' | 'streak' | 'diaphaneity' | 'cleavage' | 'fracture' | 'tenacity' |
+  'descriptionShort' | 'description'>>;
+
+export type RruffCanonicalSource = Pick<RruffMineral,
+  'mineralName' | 'imaChemistry' | 'chemistryElements' | 'crystalSystems' | 'imaStatus' | 'yearFirstPublished' | 'imaSymbol'>;
+
+// What one source says about a mineral, ranked by its data_sources priority
+export interface CanonicalCandidate {
+  source: string;
+  priority: number;
+  recordId: string;
+  values: CanonicalValues;
+}
+
+// A conflict a reviewer settled; its resolution beats any source
+export interface ReviewedValue {
+  conflictId: number;
+  value: string;
+}
+
+function text(value: string | null | undefined): string | undefined {
+  const trimmed = value?.trim();
+  return trimmed ? trimmed : undefined;
+}
+
+// Mindat and e-Rocks both use 0 for "not measured"
+function measurement(value: number | string | null | undefined): number | undefined {
+  if (value === null || value === undefined || value === '') return undefined;
+  const number = typeof value === 'number' ? value : parseFloat(value);
+  return isNaN(number) || number === 0 ? undefined : number;
+}
+
+function year(value: string | undefined): number | undefined {
+  const parsed = value ? parseInt(value, 10) : NaN;
+  return isNaN(parsed) ? undefined : parsed;
+}
+
+function withoutEmpty(values: Record<string, CanonicalValue | undefined>): CanonicalValues {
+  const result: CanonicalValues = {};
+  for (const field of CANONICAL_FIELDS) {
+    const value = values[field];
+    if (value === undefined || (Array.isArray(value) && value.length === 0)) continue;
+    result[field] = value;
+  }
+  return result;
+}
+
+export function mindatCanonicalValues(mineral: MindatCanonicalSource): CanonicalValues {
+  const reconciled = mindatFieldValues(mineral);
+  return withoutEmpty({
+    ...reconciled,
+    name: text(mineral.name),
+    year: year(reconciled.year),
+    spaceGroup: text(mineral.spaceGroup),
+    elements: mineral.elements?.filter(Boolean) ?? undefined,
+    hardnessMin: measurement(mineral.hardnessMin),
+    hardnessMax: measurement(mineral.hardnessMax),
+    specificGravityMin: measurement(mineral.specificGravityMin),
+    specificGravityMax: measurement(mineral.specificGravityMax),
+    colour: text(mineral.colour) ?? text(mineral.color),
+    lustre: text(mineral.lustre),
+    streak: text(mineral.streak),
+    diaphaneity: text(mineral.diaphaneity),
+    cleavage: text(mineral.cleavage),
+    fracture: text(mineral.fracture),
+    tenacity: text(mineral.tenacity),
+    description: text(mineral.descriptionShort) ?? text(mineral.description),
+  });
+}
+
+export function rruffCanonicalValues(mineral: RruffCanonicalSource): CanonicalValues {
+  const reconciled = rruffFieldValues(mineral);
+  return withoutEmpty({
+    ...reconciled,
+    name: text(mineral.mineralName),
+    year: year(reconciled.year),
+    // "Si O H" in the export
+    elements: mineral.chemistryElements?.split(/\s+/).filter(Boolean),
+  });
+}
+
+export function erocksCanonicalValues(row: Record<string, string | undefined>): CanonicalValues {
+  return withoutEmpty({
+    ...erocksFieldValues(row),
+    name: text(row['Title']),
+    hardnessMin: measurement(row['Hardness Min']),
+    hardnessMax: measurement(row['Hardness Max']),
+    colour: text(row['Colour']),
+    streak: text(row['Streak']),
+    tenacity: text(row['Tenacity']),
+  });
+}
+
+// Reconciled fields use the conflict rules, so SiO<sub>2</sub> and SiO₂ aren't alternatives
+function sameValue(field: CanonicalField, a: CanonicalValue, b: CanonicalValue): boolean {
+  if (RECONCILED_FIELDS.includes(field as ReconciledField)) {
+    return compareFieldValues(field as ReconciledField, String(a), String(b)) === null;
+  }
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every(item => b.includes(item));
+  }
+  return String(a).trim().toLowerCase() === String(b).trim().toLowerCase();
+}
+
+/**
+ * Picks each field from the highest priority candidate that has it. A
+ * reviewed conflict on the field wins over every source, and `inherited`
+ * (the parent species of a variety) only fills fields no candidate has.
+ */
+export function mergeCanonical(
+  candidates: CanonicalCandidate[],
+  options: {
+    reviewed?: Partial<Record<CanonicalField, ReviewedValue>>;
+    inherited?: { mindatId: number; values: CanonicalValues };
+  } = {},
+): Pick<CanonicalMineral, 'sources' | 'values' | 'provenance'> {
+  const ranked = candidates.slice().sort((a, b) => b.priority - a.priority);
+  const values: CanonicalValues = {};
+  const provenance: CanonicalMineral['provenance'] = {};
+
+  for (const field of CANONICAL_FIELDS) {
+    const offered = ranked.filter(candidate => candidate.values[field] !== undefined);
+    const reviewed = options.reviewed?.[field];
+
+    let chosen: { value: CanonicalValue; provenance: FieldProvenance } | undefined;
+    if (reviewed) {
+      chosen = {
+        value: field === 'year' ? year(reviewed.value) ?? reviewed.value : reviewed.value,
+        provenance: { source: 'review', priority: null, conflictId: reviewed.conflictId, alternatives: [] },
+      };
+    } else if (offered.length > 0) {
+      const [top] = offered;
+      chosen = {
+        value: top.values[field]!,
+        provenance: { source: top.source, priority: top.priority, alternatives: [] },
+      };
+      offered.shift();
+    } else if (options.inherited?.values[field] !== undefined) {
+      chosen = {
+        value: options.inherited.values[field]!,
+        provenance: { source: 'mindat', priority: null, inheritedFrom: options.inherited.mindatId, alternatives: [] },
+      };
+    }
+    if (!chosen) continue;
+
+    for (const candidate of offered) {
+      const value = candidate.values[field]!;
+      if (!sameValue(field, value, chosen.value)) chosen.provenance.alternatives.push({ source: candidate.source, value });
+    }
+    values[field] = chosen.value;
+    provenance[field] = chosen.provenance;
+  }
+
+  return {
+    sources: ranked.map(({ source, priority, recordId }): CanonicalSource => ({ name: source, priority, recordId })),
+    values,
+    provenance,
+  };
+}
+
+/**
+ * The candidates for one row of the e-Rocks UPDATE export, ranked by the
+ * run's data_sources priorities. Mindat is left out when it is inactive, and
+ * for an e-Rocks variety or synonym matched through its parent: the Mindat
+ * record is then the parent's, so the row keeps its own e-Rocks values. The
+ * row itself is always offered, below every active source if e-Rocks isn't.
+ */
+export function erocksExportCandidates(
+  mindat: (MindatCanonicalSource & { mindatId?: number | null }) | null,
+  erocksRow: Record<string, string | undefined>,
+  matchedViaParent: boolean,
+  priorities: Map<string, number>,
+): CanonicalCandidate[] {
+  const candidates: CanonicalCandidate[] = [{
+    source: 'erocks',
+    priority: priorities.get('erocks') ?? Number.NEGATIVE_INFINITY,
+    recordId: erocksRow['Nid'] ?? '',
+    values: erocksCanonicalValues(erocksRow),
+  }];
+  if (mindat && !matchedViaParent && priorities.has('mindat')) {
+    candidates.push({
+      source: 'mindat',
+      priority: priorities.get('mindat')!,
+      recordId: String(mindat.mindatId ?? ''),
+      values: mindatCanonicalValues(mindat),
+    });
+  }
+  return candidates;
+}
+
+/**
+ * Builds the golden record for one mineral from the local Mindat row (or the
+ * live API when it has not been synced), RRUFF, and whatever e-Rocks values
+ * reconciliation recorded in data_conflicts. Priorities come from
+ * data_sources, so changing a source's priority there changes which value wins.
+ */
+export class CanonicalMineralService {
+  private static instance: CanonicalMineralService;
+  private mindatAPI = MindatAPIService.getInstance();
+  private fieldMapper = MindatFieldMapper.getInstance();
+
+  private constructor() {}
+
+  static getInstance(): CanonicalMineralService {
+    if (!CanonicalMineralService.instance) {
+      CanonicalMineralService.instance = new CanonicalMineralService();
+    }
+    return CanonicalMineralService.instance;
+  }
+
+  // null when neither the local table nor Mindat has the ID
+  async getCanonical(mindatId: number): Promise<CanonicalMineral | null> {
+    const mindat = await this.loadMindat(mindatId);
+    if (!mindat) return null;
+
+    const priorities = await this.loadPriorities();
+    const candidates: CanonicalCandidate[] = [];
+    if (priorities.has('mindat')) {
+      candidates.push({
+        source: 'mindat',
+        priority: priorities.get('mindat')!,
+        recordId: String(mindatId),
+        values: mindatCanonicalValues(mindat),
+      });
+    }
+
+    const rruff = priorities.has('rruff') ? await this.findRruff(mindatId, mindat) : null;
+    if (rruff) {
+      candidates.push({
+        source: 'rruff',
+        priority: priorities.get('rruff')!,
+        recordId: rruff.imaSymbol,
+        values: rruffCanonicalValues(rruff),
+      });
+    }
+
+    const conflicts = await db.select().from(dataConflicts)
+      .where(eq(dataConflicts.mindatId, mindatId))
+      .orderBy(desc(dataConflicts.resolvedAt));
+    const sourceNames = await this.sourceNames(conflicts.flatMap(conflict => [conflict.sourceAId, conflict.sourceBId]));
+
+    // e-Rocks exports aren't stored; the values they disagreed on are
+    const recorded = new Map<string, CanonicalValues>();
+    const reviewed: Partial<Record<CanonicalField, ReviewedValue>> = {};
+    for (const conflict of conflicts) {
+      const field = conflict.fieldName as CanonicalField;
+      for (const [sourceId, value] of [[conflict.sourceAId, conflict.valueA], [conflict.sourceBId, conflict.valueB]] as const) {
+        const name = sourceId ? sourceNames.get(sourceId) : undefined;
+        if (!name || !value || candidates.some(candidate => candidate.source === name)) continue;
+        const values = recorded.get(name) ?? {};
+        if (values[field] === undefined) values[field] = field === 'year' ? year(value) ?? value : value;
+        recorded.set(name, values);
+      }
+      // Newest decision first, so the first one seen per field stands
+      if ((conflict.status === 'accepted' || conflict.status === 'overridden') && conflict.resolution && !reviewed[field]) {
+        reviewed[field] = { conflictId: conflict.id, value: conflict.resolution };
+      }
+    }
+    for (const [name, values] of Array.from(recorded.entries())) {
+      if (!priorities.has(name)) continue;
+      candidates.push({ source: name, priority: priorities.get(name)!, recordId: String(mindatId), values });
+    }
+
+    const varietyOf = mindat.varietyOf ?? null;
+    const synonymOf = mindat.synId ?? null;
+    const parentId = varietyOf ?? synonymOf;
+    const parent = parentId ? await this.loadLocalMindat(parentId) : null;
+
+    return {
+      mindatId,
+      varietyOf,
+      synonymOf,
+      ...mergeCanonical(candidates, {
+        reviewed,
+        inherited: parent && parentId ? { mindatId: parentId, values: mindatCanonicalValues(parent) } : undefined,
+      }),
+      pendingConflicts: conflicts.filter(conflict => conflict.status === 'pending').length,
+    };
+  }
+
+  // Active sources only; one missing from data_sources ranks by its default
+  async loadPriorities(): Promise<Map<string, number>> {
+    const rows = await db.select().from(dataSources);
+    const priorities = new Map<string, number>();
+    for (const [name, defaults] of Object.entries(SOURCE_DEFAULTS) as [ReconciliationSource, { priority: number }][]) {
+      priorities.set(name, defaults.priority);
+    }
+    for (const row of rows) {
+      if (row.isActive) priorities.set(row.name, row.priority);
+      else priorities.delete(row.name);
+    }
+    return priorities;
+  }
+
+  private async sourceNames(ids: (number | null)[]): Promise<Map<number, string>> {
+    const wanted = Array.from(new Set(ids.filter((id): id is number => id !== null)));
+    if (wanted.length === 0) return new Map();
+    const rows = await db.select({ id: dataSources.id, name: dataSources.name })
+      .from(dataSources)
+      .where(inArray(dataSources.id, wanted));
+    return new Map(rows.map(row => [row.id, row.name]));
+  }
+
+  private async loadLocalMindat(mindatId: number): Promise<MindatMineral | null> {
+    const [row] = await db.select().from(mindatMinerals).where(eq(mindatMinerals.mindatId, mindatId)).limit(1);
+    return row ?? null;
+  }
+
+  private async loadMindat(mindatId: number): Promise<(MindatCanonicalSource & Partial<Pick<MindatMineral, 'varietyOf' | 'synId'>>) | null> {
+    const local = await this.loadLocalMindat(mindatId);
+    if (local) return local;
+
+    try {
+      const record = await this.mindatAPI.getMineralById(mindatId);
+      return record ? this.fieldMapper.map(record, 'api') : null;
+    } catch (error) {
+      if (error instanceof MindatApiError && error.status === 404) return null;
+      throw error;
+    }
+  }
+
+  // Same order reconciliation matches RRUFF in: Mindat ID, IMA symbol, name
+  private async findRruff(mindatId: number, mindat: MindatCanonicalSource): Promise<RruffMineral | null> {
+    const [byId] = await db.select().from(rruffMinerals).where(eq(rruffMinerals.mindatId, mindatId)).limit(1);
+    if (byId) return byId;
+
+    if (mindat.imaSymbol) {
+      const [bySymbol] = await db.select().from(rruffMinerals).where(eq(rruffMinerals.imaSymbol, mindat.imaSymbol)).limit(1);
+      if (bySymbol) return bySymbol;
+    }
+
+    if (mindat.name) {
+      const [byName] = await db.select().from(rruffMinerals)
+        .where(sql`lower(${rruffMinerals.mineralName}) = ${mindat.name.toLowerCase()}`)
+        .limit(1);
+      if (byName) return byName;
+    }
+    return null;
+  }
+}
@@ -0,0 +1,138 @@
+import { describe, expect, it } from 'vitest';
+import { applyChangeFeedPage, isAfter, MAX_FAILED_ATTEMPTS, nextChangeFeedQuery, NO_FAILURES } from './change-feed-cursor';
+
+const at = (time: string, mindatId: number) => ({ updtTime: new Date(time), mindatId });
+
+describe('isAfter', () => {
+  it('orders by time, then Mindat ID', () => {
+    expect(isAfter(at('2025-01-01T00:00:01Z', 1), at('2025-01-01T00:00:00Z', 9))).toBe(true);
+    expect(isAfter(at('2025-01-01T00:00:00Z', 2), at('2025-01-01T00:00:00Z', 1))).toBe(true);
+    expect(isAfter(at('2025-01-01T00:00:00Z', 1), at('2025-01-01T00:00:00Z', 1))).toBe(false);
+  });
+});
+
+describe('applyChangeFeedPage', () => {
+  const records = [
+    { id: 10, updttime: '2025-01-01T00:00:00Z' },
+    { id: 11, updttime: '2025-01-01T00:00:00Z' },
+    { id: 5, updttime: '2025-01-01T00:00:01Z' },
+    { id: 7, updttime: '2025-01-01T00:00:02Z' },
+  ];
+
+  it('applies every record and moves the cursor to the last one', async () => {
+    const seen: number[] = [];
+    const result = await applyChangeFeedPage(records, undefined, async (record) => {
+      seen.push(record.id);
+    });
+
+    expect(seen).toEqual([10, 11, 5, 7]);
+    expect(result).toEqual({ cursor: at('2025-01-01T00:00:02Z', 7), applied: 4, failures: NO_FAILURES, skipped: [] });
+  });
+
+  it('skips records at or before the cursor and records without a time', async () => {
+    const seen: number[] = [];
+    const result = await applyChangeFeedPage(
+      [...records, { id: 8, updttime: null }],
+      at('2025-01-01T00:00:00Z', 10),
+      async (record) => {
+        seen.push(record.id);
+      },
+    );
+
+    expect(seen).toEqual([11, 5, 7]);
+    expect(result.cursor).toEqual(at('2025-01-01T00:00:02Z', 7));
+  });
+
+  it('stops at the first failure with the cursor on the last applied record', async () => {
+    const seen: number[] = [];
+    const error = new Error('constraint violation');
+    const result = await applyChangeFeedPage(records, undefined, async (record) => {
+      seen.push(record.id);
+      if (record.id === 5) throw error;
+    });
+
+    expect(seen).toEqual([10, 11, 5]);
+    expect(result).toEqual({
+      cursor: at('2025-01-01T00:00:00Z', 11),
+      applied: 2,
+      failures: { failingMindatId: 5, failedAttempts: 1 },
+      skipped: [],
+      failure: { record: records[2], error },
+    });
+  });
+
+  it('leaves the cursor alone when the first record fails', async () => {
+    const cursor = at('2024-12-31T00:00:00Z', 1);
+    const result = await applyChangeFeedPage(records, cursor, async () => {
+      throw new Error('offline');
+    });
+
+    expect(result.cursor).toBe(cursor);
+    expect(result.applied).toBe(0);
+    expect(result.failure?.record.id).toBe(10);
+  });
+
+  it('lets a retry from the saved cursor pick up the failed record', async () => {
+    let failing = true;
+    const apply = async (record: { id: number }) => {
+      if (record.id === 5 && failing) throw new Error('timeout');
+    };
+
+    const first = await applyChangeFeedPage(records, undefined, apply);
+    failing = false;
+    const seen: number[] = [];
+    const retry = await applyChangeFeedPage(records, first.cursor, async (record) => {
+      seen.push(record.id);
+      await apply(record);
+    });
+
+    expect(seen).toEqual([5, 7]);
+    expect(retry.failure).toBeUndefined();
+    expect(retry.failures).toEqual(NO_FAILURES);
+  });
+
+  it('counts the runs a record fails in a row and then moves past it', async () => {
+    const error = new Error('constraint violation');
+    const apply = async (record: { id: number }) => {
+      if (record.id === 5) throw error;
+    };
+
+    let cursor;
+    let failures = NO_FAILURES;
+    for (let run = 1; run < MAX_FAILED_ATTEMPTS; run++) {
+      const result = await applyChangeFeedPage(records, cursor, apply, failures);
+      expect(result.failure?.record.id).toBe(5);
+      expect(result.failures).toEqual({ failingMindatId: 5, failedAttempts: run });
+      ({ cursor, failures } = result);
+    }
+
+    const last = await applyChangeFeedPage(records, cursor, apply, failures);
+    expect(last.failure).toBeUndefined();
+    expect(last.skipped).toEqual([{ record: records[2], error }]);
+    expect(last).toMatchObject({ cursor: at('2025-01-01T00:00:02Z', 7), applied: 1, failures: NO_FAILURES });
+  });
+
+  it('starts counting again when a different record fails', async () => {
+    const result = await applyChangeFeedPage(records, undefined, async (record) => {
+      if (record.id === 11) throw new Error('timeout');
+    }, { failingMindatId: 5, failedAttempts: MAX_FAILED_ATTEMPTS - 1 });
+
+    expect(result.failures).toEqual({ failingMindatId: 11, failedAttempts: 1 });
+    expect(result.skipped).toEqual([]);
+  });
+});
+
+describe('nextChangeFeedQuery', () => {
+  const since = new Date('2025-01-01T00:00:00.500Z');
+
+  it('re-queries from the cursor once it passes the boundary second', () => {
+    const cursor = at('2025-01-01T00:00:03Z', 4);
+    expect(nextChangeFeedQuery(cursor, since, 3)).toEqual({ since: cursor.updtTime, page: 1 });
+    expect(nextChangeFeedQuery(cursor, undefined, 1)).toEqual({ since: cursor.updtTime, page: 1 });
+  });
+
+  it('steps to the next page while the cursor is still in the same second', () => {
+    expect(nextChangeFeedQuery(at('2025-01-01T00:00:00.900Z', 4), since, 2)).toEqual({ since, page: 3 });
+    expect(nextChangeFeedQuery(undefined, undefined, 1)).toEqual({ since: undefined, page: 2 });
+  });
+});
@@ -0,0 +1,91 @@
+import type { SyncCursor } from '@shared/schema';
+
+export type ChangeFeedPosition = Pick<SyncCursor, 'updtTime' | 'mindatId'>;
+
+export type ChangeFeedFailures = Pick<SyncCursor, 'failingMindatId' | 'failedAttempts'>;
+
+export const NO_FAILURES: ChangeFeedFailures = { failingMindatId: null, failedAttempts: 0 };
+
+// Runs a record may fail before the cursor moves past it
+export const MAX_FAILED_ATTEMPTS = 3;
+
+// A change-feed record as Mindat returns it; only the ordering fields matter here
+export interface ChangeFeedRecord {
+  id: number;
+  updttime?: string | null;
+}
+
+export interface ChangeFeedPageResult<T> {
+  cursor: ChangeFeedPosition | undefined;
+  applied: number;
+  failures: ChangeFeedFailures; // To save with the cursor
+  skipped: { record: T; error: any }[]; // Given up on after MAX_FAILED_ATTEMPTS
+  failure?: { record: T; error: any };
+}
+
+export function isAfter(a: ChangeFeedPosition, b: ChangeFeedPosition): boolean {
+  const diff = a.updtTime.getTime() - b.updtTime.getTime();
+  return diff > 0 || (diff === 0 && a.mindatId > b.mindatId);
+}
+
+function wholeSecond(date: Date): number {
+  return Math.floor(date.getTime() / 1000);
+}
+
+/**
+ * Apply one page of the feed in (updttime, id) order, skipping records at or
+ * before the cursor. The cursor only moves past records that applied, and the
+ * page stops at the first failure, so the failed record is retried by the
+ * next run. `failures` counts the runs in a row the record after the cursor
+ * has failed; once it reaches maxAttempts the record is reported in `skipped`
+ * and the cursor moves past it, so one bad record can't hold the feed back.
+ */
+export async function applyChangeFeedPage<T extends ChangeFeedRecord>(
+  records: T[],
+  cursor: ChangeFeedPosition | undefined,
+  apply: (record: T) => Promise<void>,
+  failures: ChangeFeedFailures = NO_FAILURES,
+  maxAttempts = MAX_FAILED_ATTEMPTS,
+): Promise<ChangeFeedPageResult<T>> {
+  let applied = 0;
+  const skipped: ChangeFeedPageResult<T>['skipped'] = [];
+
+  for (const record of records) {
+    if (!record.updttime) continue;
+
+    const position = { updtTime: new Date(record.updttime), mindatId: record.id };
+    if (cursor && !isAfter(position, cursor)) continue;
+
+    try {
+      await apply(record);
+      applied++;
+    } catch (error) {
+      const failedAttempts = failures.failingMindatId === record.id ? failures.failedAttempts + 1 : 1;
+      if (failedAttempts < maxAttempts) {
+        return { cursor, applied, failures: { failingMindatId: record.id, failedAttempts }, skipped, failure: { record, error } };
+      }
+      skipped.push({ record, error });
+    }
+    cursor = position;
+    failures = NO_FAILURES;
+  }
+
+  return { cursor, applied, failures, skipped };
+}
+
+/**
+ * Where to query next. Re-query from the cursor rather than walking page
+ * numbers, so records edited mid-run can't shift the pages underneath us.
+ * Only when a whole page shares the boundary second do we have to step to
+ * the next page.
+ */
+export function nextChangeFeedQuery(
+  cursor: ChangeFeedPosition | undefined,
+  since: Date | undefined,
+  page: number,
+): { since: Date | undefined; page: number } {
+  if (cursor && (!since || wholeSecond(cursor.updtTime) > wholeSecond(since))) {
+    return { since: cursor.updtTime, page: 1 };
+  }
+  return { since, page: page + 1 };
+}
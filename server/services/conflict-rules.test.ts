@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import {
+  compareFieldValues,
+  erocksFieldValues,
+  formatStrunz,
+  mindatFieldValues,
+  normalizeFormula,
+  rruffFieldValues,
+} from './conflict-rules';
+
+describe('formatStrunz', () => {
+  it('joins the parts the way e-Rocks writes them', () => {
+    expect(formatStrunz(['5', 'B', 'E', '45'])).toBe('5.BE.45');
+    expect(formatStrunz(['9', 'D', null, null])).toBe('9.D');
+    expect(formatStrunz(['4', null, null, '10'])).toBe('4');
+  });
+
+  it('needs a class', () => {
+    expect(formatStrunz([null, 'B', 'E', '45'])).toBeUndefined();
+    expect(formatStrunz(['0', 'B', 'E', '45'])).toBeUndefined();
+  });
+});
+
+describe('field values', () => {
+  it('falls back to the Mindat formula and the approval year', () => {
+    expect(mindatFieldValues({
+      imaFormula: ' ', mindatFormula: 'SiO2', crystalSystem: 'Trigonal',
+      publicationYear: null, approvalYear: 1962, imaYear: 1960,
+      strunz10ed1: '4', strunz10ed2: 'D', strunz10ed3: 'A', strunz10ed4: '05',
+    })).toEqual({
+      formula: 'SiO2', crystalSystem: 'Trigonal', imaStatus: undefined,
+      year: '1962', imaSymbol: undefined, strunz: '4.DA.05',
+    });
+  });
+
+  it('treats a zero year from RRUFF as missing', () => {
+    expect(rruffFieldValues({
+      imaChemistry: 'PbS', crystalSystems: 'cubic', imaStatus: 'Approved', yearFirstPublished: 0, imaSymbol: 'Gn',
+    })).toEqual({ formula: 'PbS', crystalSystem: 'cubic', imaStatus: 'Approved', year: undefined, imaSymbol: 'Gn' });
+  });
+
+  it('reads the e-Rocks export columns', () => {
+    expect(erocksFieldValues({ Formula: 'CaCO3', 'Crystal System': '', 'Mindat Status': 'APPROVED', Strunz: '5.AB.05' }))
+      .toEqual({ formula: 'CaCO3', crystalSystem: undefined, imaStatus: 'APPROVED', strunz: '5.AB.05' });
+  });
+});
+
+describe('normalizeFormula', () => {
+  it('ignores markup, Unicode digits and spacing', () => {
+    expect(normalizeFormula('SiO<sub>2</sub>')).toBe('SiO2');
+    expect(normalizeFormula('SiO₂')).toBe('SiO2');
+    expect(normalizeFormula('Fe²⁺ S')).toBe(normalizeFormula('Fe<sup>2+</sup>S'));
+    expect(normalizeFormula('CaSO4&middot;2H2O')).toBe('CaSO4.2H2O');
+  });
+});
+
+describe('compareFieldValues', () => {
+  it('rates formulas that differ only in charges as low', () => {
+    expect(compareFieldValues('formula', 'SiO<sub>2</sub>', 'SiO₂')).toBeNull();
+    expect(compareFieldValues('formula', 'Fe<sup>2+</sup>S', 'Fe<sup>3+</sup>S')).toBe('low');
+    expect(compareFieldValues('formula', 'FeS2', 'PbS')).toBe('high');
+  });
+
+  it('matches any shared crystal system and files trigonal under hexagonal', () => {
+    expect(compareFieldValues('crystalSystem', 'Monoclinic', 'monoclinic|triclinic')).toBeNull();
+    expect(compareFieldValues('crystalSystem', 'Trigonal', 'hexagonal')).toBe('low');
+    expect(compareFieldValues('crystalSystem', 'Cubic', 'tetragonal')).toBe('medium');
+  });
+
+  it('only rates a status conflict high when approval differs', () => {
+    expect(compareFieldValues('imaStatus', 'APPROVED, GRANDFATHERED', 'Grandfathered,Approved')).toBeNull();
+    expect(compareFieldValues('imaStatus', 'APPROVED', 'Approved,Grandfathered')).toBe('low');
+    expect(compareFieldValues('imaStatus', 'DISCREDITED', 'Approved')).toBe('high');
+  });
+
+  it('rates years one apart as low', () => {
+    expect(compareFieldValues('year', '1962', '1962')).toBeNull();
+    expect(compareFieldValues('year', '1962', '1963')).toBe('low');
+    expect(compareFieldValues('year', '1962', '1970')).toBe('medium');
+    expect(compareFieldValues('year', 'unknown', '1970')).toBeNull();
+  });
+
+  it('treats a symbol that differs only in case as low', () => {
+    expect(compareFieldValues('imaSymbol', 'Qz ', 'Qz')).toBeNull();
+    expect(compareFieldValues('imaSymbol', 'Qz', 'QZ')).toBe('low');
+    expect(compareFieldValues('imaSymbol', 'Qz', 'Gn')).toBe('high');
+  });
+
+  it('rates Strunz codes by how much of the code they share', () => {
+    expect(compareFieldValues('strunz', '4.da.05.', '4.DA.05')).toBeNull();
+    expect(compareFieldValues('strunz', '4.DA', '4.DA.05')).toBe('low');
+    expect(compareFieldValues('strunz', '4.DA.05', '4.DB.10')).toBe('medium');
+    expect(compareFieldValues('strunz', '4.DA.05', '9.DA.05')).toBe('high');
+  });
+});
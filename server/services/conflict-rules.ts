@@ -0,0 +1,153 @@
+import type { MindatMineral, RruffMineral } from '@shared/schema';
+
+export type ReconciledField = 'formula' | 'crystalSystem' | 'imaStatus' | 'year' | 'imaSymbol' | 'strunz';
+
+export type ConflictSeverity = 'low' | 'medium' | 'high';
+
+export type FieldValues = Partial<Record<ReconciledField, string>>;
+
+export const RECONCILED_FIELDS: ReconciledField[] = ['formula', 'crystalSystem', 'imaStatus', 'year', 'imaSymbol', 'strunz'];
+
+// Partial so a freshly mapped API record will do as well as a stored row
+export type MindatFieldSource = Partial<Pick<MindatMineral,
+  'imaFormula' | 'mindatFormula' | 'crystalSystem' | 'imaStatus' | 'imaSymbol' |
+  'publicationYear' | 'approvalYear' | 'imaYear' |
+  'strunz10ed1' | 'strunz10ed2' | 'strunz10ed3' | 'strunz10ed4'>>;
+
+export type RruffFieldSource = Pick<RruffMineral,
+  'imaChemistry' | 'crystalSystems' | 'imaStatus' | 'yearFirstPublished' | 'imaSymbol'>;
+
+const SUBSCRIPT_DIGITS = '₀₁₂₃₄₅₆₇₈₉';
+const SUPERSCRIPT_DIGITS = '⁰¹²³⁴⁵⁶⁷⁸⁹';
+
+function present(value: string | number | null | undefined): string | undefined {
+  if (value === null || value === undefined) return undefined;
+  const text = String(value).trim();
+  return text === '' || text === '0' ? undefined : text;
+}
+
+/**
+ * Mindat's Strunz parts joined the way e-Rocks writes them:
+ * 5, B, E, 45 → 5.BE.45
+ */
+export function formatStrunz(parts: (string | null | undefined)[]): string | undefined {
+  const [group, division, family, number] = parts.map(part => present(part));
+  if (!group) return undefined;
+  let code = group;
+  if (division) code += `.${division}${family ?? ''}`;
+  if (division && number) code += `.${number}`;
+  return code;
+}
+
+export function mindatFieldValues(mineral: MindatFieldSource): FieldValues {
+  return {
+    formula: present(mineral.imaFormula) ?? present(mineral.mindatFormula),
+    crystalSystem: present(mineral.crystalSystem),
+    imaStatus: present(mineral.imaStatus),
+    // RRUFF gives the year first published; approval is the nearest stand-in
+    year: present(mineral.publicationYear ?? mineral.approvalYear ?? mineral.imaYear),
+    imaSymbol: present(mineral.imaSymbol),
+    strunz: formatStrunz([mineral.strunz10ed1, mineral.strunz10ed2, mineral.strunz10ed3, mineral.strunz10ed4]),
+  };
+}
+
+export function rruffFieldValues(mineral: RruffFieldSource): FieldValues {
+  return {
+    formula: present(mineral.imaChemistry),
+    crystalSystem: present(mineral.crystalSystems),
+    imaStatus: present(mineral.imaStatus),
+    year: present(mineral.yearFirstPublished),
+    imaSymbol: present(mineral.imaSymbol),
+  };
+}
+
+// A row of the e-Rocks export; its status column is a copy of Mindat's
+export function erocksFieldValues(row: Record<string, string | undefined>): FieldValues {
+  return {
+    formula: present(row['Formula']),
+    crystalSystem: present(row['Crystal System']),
+    imaStatus: present(row['Mindat Status']),
+    strunz: present(row['Strunz']),
+  };
+}
+
+// SiO<sub>2</sub>, SiO₂ and SiO2 compare equal, as do Fe<sup>2+</sup> and Fe²⁺
+export function normalizeFormula(formula: string): string {
+  return formula
+    .replace(/<[^>]+>/g, '')
+    .replace(/&middot;|[·•∙]/g, '.')
+    .replace(/&nbsp;|\s+/g, '')
+    .replace(/[₀-₉]/g, digit => String(SUBSCRIPT_DIGITS.indexOf(digit)))
+    .replace(/[⁰¹²³⁴-⁹]/g, digit => String(SUPERSCRIPT_DIGITS.indexOf(digit)))
+    .replace(/⁺/g, '+')
+    .replace(/⁻/g, '-');
+}
+
+function withoutCharges(formula: string): string {
+  return normalizeFormula(formula.replace(/<sup>[^<]*<\/sup>/g, '').replace(/[⁰¹²³⁴-⁹⁺⁻]+/g, ''));
+}
+
+// RRUFF lists alternatives as monoclinic|triclinic
+function crystalSystems(value: string): Set<string> {
+  return new Set(value.toLowerCase().split(/[|,/]/).map(system => system.trim()).filter(Boolean));
+}
+
+// RRUFF has no trigonal; it files those minerals under the hexagonal family
+function crystalFamily(system: string): string {
+  return system === 'trigonal' || system === 'rhombohedral' ? 'hexagonal' : system;
+}
+
+// Mindat: "APPROVED, GRANDFATHERED"; RRUFF: "Approved,Grandfathered"
+function statusFlags(value: string): Set<string> {
+  return new Set(value.toLowerCase().replace(/[{}"]/g, '').split(/[,|]/).map(flag => flag.trim()).filter(Boolean));
+}
+
+function normalizeStrunz(value: string): string {
+  return value.toUpperCase().replace(/\s+/g, '').replace(/\.+$/, '');
+}
+
+/**
+ * How badly two sources disagree on a field, or null if they agree once
+ * formatting is ignored. High severity conflicts change what a mineral is
+ * (its composition, symbol or whether it is approved) and always go to
+ * review; low ones are differences in detail.
+ */
+export function compareFieldValues(field: ReconciledField, a: string, b: string): ConflictSeverity | null {
+  switch (field) {
+    case 'formula': {
+      if (normalizeFormula(a) === normalizeFormula(b)) return null;
+      return withoutCharges(a) === withoutCharges(b) ? 'low' : 'high';
+    }
+    case 'crystalSystem': {
+      const systemsA = Array.from(crystalSystems(a));
+      const systemsB = Array.from(crystalSystems(b));
+      if (systemsA.some(system => systemsB.includes(system))) return null;
+      const familiesA = systemsA.map(crystalFamily);
+      return systemsB.some(system => familiesA.includes(crystalFamily(system))) ? 'low' : 'medium';
+    }
+    case 'imaStatus': {
+      const flagsA = statusFlags(a);
+      const flagsB = statusFlags(b);
+      if (flagsA.size === flagsB.size && Array.from(flagsB).every(flag => flagsA.has(flag))) return null;
+      return flagsA.has('approved') === flagsB.has('approved') ? 'low' : 'high';
+    }
+    case 'year': {
+      const yearA = parseInt(a, 10);
+      const yearB = parseInt(b, 10);
+      if (isNaN(yearA) || isNaN(yearB) || yearA === yearB) return null;
+      return Math.abs(yearA - yearB) <= 1 ? 'low' : 'medium';
+    }
+    case 'imaSymbol': {
+      if (a.trim() === b.trim()) return null;
+      return a.trim().toLowerCase() === b.trim().toLowerCase() ? 'low' : 'high';
+    }
+    case 'strunz': {
+      const codeA = normalizeStrunz(a);
+      const codeB = normalizeStrunz(b);
+      if (codeA === codeB) return null;
+      // One source only has the class or division
+      if (codeA.startsWith(codeB) || codeB.startsWith(codeA)) return 'low';
+      return codeA.split('.')[0] === codeB.split('.')[0] ? 'medium' : 'high';
+    }
+  }
+}
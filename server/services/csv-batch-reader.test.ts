@@ -0,0 +1,66 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { addRowError, emptyImportReport, MAX_ROW_ERRORS, readCSVBatches, type CSVRow } from './csv-batch-reader';
+
+describe('readCSVBatches', () => {
+  let dir: string;
+  let file: string;
+
+  beforeAll(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'csv-batch-reader-'));
+    file = path.join(dir, 'rows.csv');
+    fs.writeFileSync(file, 'id,name\n1,Quartz\n2,Galena\n\n3,Pyrite\n4,Calcite\n5,Gypsum\n');
+  });
+
+  afterAll(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  async function collect(options: Parameters<typeof readCSVBatches>[1]) {
+    const batches: CSVRow<Record<string, string>>[][] = [];
+    for await (const batch of readCSVBatches(file, options)) batches.push(batch);
+    return batches;
+  }
+
+  it('yields numbered rows in batches, skipping blank lines', async () => {
+    const batches = await collect({ batchSize: 2 });
+
+    expect(batches.map(batch => batch.map(({ row }) => row))).toEqual([[1, 2], [3, 4], [5]]);
+    expect(batches[1][0].record).toEqual({ id: '3', name: 'Pyrite' });
+  });
+
+  it('resumes after startRow and hands the rows before it to onSkipped', async () => {
+    const skipped: number[] = [];
+    const batches = await collect({
+      batchSize: 10,
+      startRow: 3,
+      onSkipped: ({ row, record }) => skipped.push(row * 100 + Number(record.id)),
+    });
+
+    expect(skipped).toEqual([101, 202, 303]);
+    expect(batches.flat().map(({ row }) => row)).toEqual([4, 5]);
+  });
+
+  it('rejects a missing file', async () => {
+    await expect(readCSVBatches(path.join(dir, 'missing.csv'), { batchSize: 1 }).next()).rejects.toThrow(/ENOENT/);
+  });
+});
+
+describe('addRowError', () => {
+  it('logs errors but only reports warnings, up to the cap', () => {
+    const progress = emptyImportReport(false);
+
+    addRowError(progress, { row: 1, key: '12', level: 'error', message: 'missing md_name' });
+    addRowError(progress, { row: 2, key: null, level: 'warning', message: 'bad number' });
+
+    expect(progress.errors).toEqual(['Row 1 (12): missing md_name']);
+    expect(progress.rowErrors).toHaveLength(2);
+
+    for (let row = 3; row < MAX_ROW_ERRORS + 10; row++) {
+      addRowError(progress, { row, key: null, level: 'warning', message: 'bad number' });
+    }
+    expect(progress.rowErrors).toHaveLength(MAX_ROW_ERRORS);
+  });
+});
@@ -0,0 +1,109 @@
+import { createReadStream } from 'fs';
+import { parse, type Options } from 'csv-parse';
+
+export interface CSVRow<T> {
+  row: number; // 1-based, header excluded
+  record: T;
+}
+
+// A problem with one row of an import file
+export interface ImportRowError {
+  row: number;
+  key: string | null; // md_id or IMA symbol, when the row had one
+  level: 'error' | 'warning'; // errors keep the row out of the import
+  message: string;
+}
+
+// Counts kept by the streaming importers. In a dry run the created and
+// updated counts are what would have been written.
+export interface ImportReport {
+  dryRun: boolean;
+  totalProcessed: number;
+  totalFailed: number; // Valid rows whose write failed
+  totalCreated: number;
+  totalUpdated: number;
+  totalUnchanged: number;
+  totalSkipped: number; // Already present and not being updated
+  totalInvalid: number;
+  errors: string[];
+  rowErrors: ImportRowError[];
+}
+
+// Enough to show what is wrong with a file without holding every message
+export const MAX_ROW_ERRORS = 1000;
+
+/**
+ * Errors also go to `errors`, which the job runner writes to the job log;
+ * warnings are only kept in the report.
+ */
+export function addRowError(progress: ImportReport, error: ImportRowError): void {
+  if (progress.rowErrors.length >= MAX_ROW_ERRORS) return;
+  progress.rowErrors.push(error);
+  if (error.level === 'error') {
+    progress.errors.push(`Row ${error.row}${error.key ? ` (${error.key})` : ''}: ${error.message}`);
+  }
+}
+
+export function emptyImportReport(dryRun: boolean): ImportReport {
+  return {
+    dryRun,
+    totalProcessed: 0,
+    totalFailed: 0,
+    totalCreated: 0,
+    totalUpdated: 0,
+    totalUnchanged: 0,
+    totalSkipped: 0,
+    totalInvalid: 0,
+    errors: [],
+    rowErrors: [],
+  };
+}
+
+/**
+ * Stream a CSV file with a header row, yielding `batchSize` rows at a time.
+ * Only one batch is held in memory; the next is not read until the caller
+ * has finished with the current one. Rows before `startRow` (0-based) are
+ * parsed but not yielded, so an import can resume where it stopped; they go
+ * to `onSkipped` instead, for state the earlier attempt built from them.
+ */
+export async function* readCSVBatches<T = Record<string, string>>(
+  filePath: string,
+  options: { batchSize: number; startRow?: number; parse?: Options; onSkipped?: (row: CSVRow<T>) => void },
+): AsyncGenerator<CSVRow<T>[]> {
+  const { batchSize, startRow = 0 } = options;
+
+  const input = createReadStream(filePath);
+  const parser = input.pipe(parse({
+    columns: true,
+    skip_empty_lines: true,
+    trim: true,
+    ...options.parse,
+  }));
+  // pipe() does not forward read errors such as a missing file
+  input.on('error', (error) => parser.destroy(error));
+
+  let batch: CSVRow<T>[] = [];
+  let index = 0;
+
+  try {
+    for await (const record of parser) {
+      index++;
+      if (index <= startRow) {
+        options.onSkipped?.({ row: index, record: record as T });
+        continue;
+      }
+
+      batch.push({ row: index, record: record as T });
+      if (batch.length >= batchSize) {
+        yield batch;
+        batch = [];
+      }
+    }
+
+    if (batch.length > 0) {
+      yield batch;
+    }
+  } finally {
+    input.destroy();
+  }
+}
@@ -2,10 +2,18 @@ import { neon } from '@neondatabase/serverless';
 import fs from 'fs/promises';
 import path from 'path';
 import csv from 'csv-parser';
-import { createReadStream, createWriteStream } from 'fs';
+import { createReadStream, createWriteStream, existsSync } from 'fs';
 import { stringify } from 'csv-stringify/sync';
-
-interface ERocksMineral {
+import { compareFieldValues, erocksFieldValues, mindatFieldValues, type ReconciledField } from './conflict-rules';
+import { CanonicalMineralService, erocksExportCandidates, mergeCanonical, type MindatCanonicalSource } from './canonical-mineral-service';
+import { ERocksEnrichmentRuns, type MatchCandidate } from './erocks-enrichment-runs';
+import { EXCEPTIONS_FILE, ERocksOverrides } from './erocks-overrides';
+import { MatchPipeline, type StrategyConfig, type StrategyMatchType } from './erocks-match-strategies';
+import { MindatMatchIndex, type MindatQuery } from './erocks-mindat-index';
+import type { ERocksMatchResult, ERocksOverride, InsertERocksMatchResult } from '@shared/schema';
+
+// A type rather than an interface so a row passes as Record<string, string | undefined>
+type ERocksMineral = {
   'Published status': string;
   'Approval status': string;
   'Created': string;
@@ -38,12 +46,15 @@ interface ERocksMineral {
   'Variety Of': string;
   'Nid': string;
   'Source': string;
-}
+};
+
+// Runners-up kept with a match for review
+const MAX_ALTERNATIVES = 10;
 
 interface MatchResult {
   erocksRecord: ERocksMineral;
   mindatData: any | null;
-  matchType: 'exact_id' | 'exact_name' | 'fuzzy_name' | 'formula' | 'no_match';
+  matchType: StrategyMatchType | 'override' | 'no_match';
   confidence: number;
   notes: string[];
   conflicts: string[];
@@ -51,18 +62,117 @@ interface MatchResult {
   isVariety: boolean;   // True if matched via parent mineral
   isSynonym: boolean;   // True if matched via synonym
   parentMineral?: string; // Name of parent if variety/synonym
+  alternatives?: MatchCandidate[]; // The runners-up of the candidate list, best first
+  overrideId?: number; // The erocks_overrides row that decided the match
+  review?: MatchReview;
+}
+
+// A reviewer's decision on the match, taken in this run or an earlier one
+interface MatchReview {
+  status: 'approved' | 'rejected' | 'corrected';
+  mindatData: any | null; // The record picked instead, when corrected
+  note: string | null;
+  reviewedAt: Date | null;
+}
+
+// A stored result's review, with the corrected record looked up in `mindatById`
+function storedReview(result: ERocksMatchResult, mindatById: Map<number, any>): MatchReview | undefined {
+  if (result.reviewStatus !== 'approved' && result.reviewStatus !== 'rejected' && result.reviewStatus !== 'corrected') {
+    return undefined;
+  }
+  return {
+    status: result.reviewStatus,
+    mindatData: result.reviewedMindatId !== null ? mindatById.get(result.reviewedMindatId) ?? null : null,
+    note: result.reviewNote,
+    reviewedAt: result.reviewedAt,
+  };
+}
+
+/**
+ * The match as it should be exported: approved stops needing review,
+ * rejected becomes an exception and corrected uses the reviewer's record
+ * as if the e-Rocks row had carried its Mindat ID.
+ */
+function withReview(match: MatchResult): MatchResult {
+  const { review } = match;
+  if (!review) return match;
+  const note = review.note ? ` (${review.note})` : '';
+
+  switch (review.status) {
+    case 'approved':
+      return { ...match, needsReview: false, notes: [...match.notes, `Match approved in review${note}`] };
+    case 'rejected':
+      return {
+        ...match,
+        mindatData: null,
+        matchType: 'no_match',
+        confidence: 0,
+        needsReview: false,
+        notes: [...match.notes, `Match rejected in review${note}`],
+      };
+    case 'corrected':
+      // The picked record has since gone from mindat_minerals
+      if (!review.mindatData) return match;
+      return {
+        ...match,
+        mindatData: review.mindatData,
+        matchType: 'exact_id',
+        confidence: 100,
+        needsReview: false,
+        notes: [...match.notes, `Mindat ID ${review.mindatData.mindat_id} picked in review${note}`],
+      };
+  }
+}
+
+// The raw SQL here returns mindat_minerals rows with their column names
+function mindatRowFields(row: any): MindatCanonicalSource & { mindatId: number | null } {
+  return {
+    mindatId: row.mindat_id ?? null,
+    name: row.name,
+    imaFormula: row.ima_formula,
+    mindatFormula: row.mindat_formula,
+    crystalSystem: row.crystal_system,
+    imaStatus: row.ima_status,
+    imaSymbol: row.ima_symbol,
+    publicationYear: row.publication_year,
+    approvalYear: row.approval_year,
+    imaYear: row.ima_year,
+    strunz10ed1: row.strunz10ed1,
+    strunz10ed2: row.strunz10ed2,
+    strunz10ed3: row.strunz10ed3,
+    strunz10ed4: row.strunz10ed4,
+    hardnessMin: row.hardness_min,
+    hardnessMax: row.hardness_max,
+    colour: row.colour,
+    color: row.color,
+    streak: row.streak,
+    tenacity: row.tenacity,
+    descriptionShort: row.description_short,
+  };
 }
 
 export class ERocksDataEnrichment {
   private sql: ReturnType<typeof neon>;
+  private runs = ERocksEnrichmentRuns.getInstance();
+  private overrideStore = ERocksOverrides.getInstance();
+  private overrides = new Map<string, ERocksOverride>(); // Active overrides by Nid, loaded per run
+  private pipeline: MatchPipeline;
 
-  constructor() {
+  /**
+   * `strategies` sets the matching strategies' order and confidence;
+   * without it config/erocks-matching.json is used, if present.
+   */
+  constructor(options: { strategies?: StrategyConfig[] } = {}) {
     if (!process.env.DATABASE_URL) {
       throw new Error('DATABASE_URL environment variable is not set');
     }
     this.sql = neon(process.env.DATABASE_URL);
+    this.pipeline = options.strategies ? MatchPipeline.fromConfig(options.strategies) : MatchPipeline.fromFile();
   }
 
+  private query: MindatQuery = (strings, ...values) =>
+    this.sql(strings, ...values) as unknown as Promise<Record<string, any>[]>;
+
   /**
    * Check if e-Rocks record should be processed
    */
@@ -86,145 +196,24 @@ export class ERocksDataEnrichment {
   }
 
   /**
-   * Normalize mineral name for comparison
-   * Handles UTF-8 special characters, diacritics, and variations
-   */
-  private normalizeName(name: string): string {
-    if (!name) return '';
-
-    return name
-      .toLowerCase()
-      // Normalize Unicode (decompose accented characters)
-      .normalize('NFD')
-      // Remove diacritics/accents
-      .replace(/[\u0300-\u036f]/g, '')
-      // Handle special mineral name characters
-      .replace(/[-()\s]/g, '')
-      .replace(/['']/g, '') // Remove quotes
-      // Remove common prefixes
-      .replace(/^var\.|^variety\s+|^type\s+/i, '')
-      // Handle Greek letters that might appear
-      .replace(/α/g, 'alpha')
-      .replace(/β/g, 'beta')
-      .replace(/γ/g, 'gamma')
-      .replace(/δ/g, 'delta')
-      // Remove any remaining non-alphanumeric except essential chars
-      .replace(/[^\w]/g, '')
-      .trim();
-  }
-
-  /**
-   * Normalize chemical formula for comparison
-   * Handles UTF-8 subscripts, superscripts, and special characters
-   */
-  private normalizeFormula(formula: string): string {
-    if (!formula) return '';
-
-    return formula
-      // Normalize Unicode
-      .normalize('NFD')
-      // Remove spaces
-      .replace(/\s+/g, '')
-      // Convert subscript numbers to regular
-      .replace(/₀/g, '0').replace(/₁/g, '1').replace(/₂/g, '2')
-      .replace(/₃/g, '3').replace(/₄/g, '4').replace(/₅/g, '5')
-      .replace(/₆/g, '6').replace(/₇/g, '7').replace(/₈/g, '8')
-      .replace(/₉/g, '9')
-      // Convert superscript numbers to regular (for charges)
-      .replace(/⁰/g, '0').replace(/¹/g, '1').replace(/²/g, '2')
-      .replace(/³/g, '3').replace(/⁴/g, '4').replace(/⁵/g, '5')
-      .replace(/⁶/g, '6').replace(/⁷/g, '7').replace(/⁸/g, '8')
-      .replace(/⁹/g, '9')
-      // Handle special charge symbols
-      .replace(/⁺/g, '+').replace(/⁻/g, '-')
-      // Standardize hydration notation
-      .replace(/·/g, '.').replace(/•/g, '.')
-      .trim();
-  }
-
-  /**
-   * Create multiple normalized variants of a name for better matching
-   */
-  private getNameVariants(name: string): string[] {
-    const variants = new Set<string>();
-
-    // Original normalized
-    variants.add(this.normalizeName(name));
-
-    // Without numbers
-    variants.add(this.normalizeName(name).replace(/\d+/g, ''));
-
-    // Without common suffixes like -(Ce), -(Nd), etc.
-    const withoutSuffix = name.replace(/[-‐]\([A-Z][a-z]?\)$/i, '');
-    if (withoutSuffix !== name) {
-      variants.add(this.normalizeName(withoutSuffix));
-    }
-
-    // Handle cases like "Fergusonite-(Nd)" → "Fergusonite"
-    const baseName = name.split(/[-‐(]/)[0];
-    if (baseName !== name) {
-      variants.add(this.normalizeName(baseName));
-    }
-
-    return Array.from(variants).filter(v => v.length > 0);
-  }
-
-  /**
-   * Calculate simple similarity score between two strings
+   * Resolve the Mindat IDs that records point to (variety_of, syn_id) to
+   * mineral names, in one query
    */
-  private similarityScore(str1: string, str2: string): number {
-    const s1 = str1.toLowerCase();
-    const s2 = str2.toLowerCase();
-
-    if (s1 === s2) return 100;
-
-    // Levenshtein distance approximation
-    const longer = s1.length > s2.length ? s1 : s2;
-    const shorter = s1.length > s2.length ? s2 : s1;
-
-    if (longer.length === 0) return 100;
-
-    const editDistance = this.getEditDistance(s1, s2);
-    return ((longer.length - editDistance) / longer.length) * 100;
-  }
-
-  private getEditDistance(s1: string, s2: string): number {
-    const costs: number[] = [];
-    for (let i = 0; i <= s1.length; i++) {
-      let lastValue = i;
-      for (let j = 0; j <= s2.length; j++) {
-        if (i === 0) {
-          costs[j] = j;
-        } else if (j > 0) {
-          let newValue = costs[j - 1];
-          if (s1.charAt(i - 1) !== s2.charAt(j - 1)) {
-            newValue = Math.min(Math.min(newValue, lastValue), costs[j]) + 1;
-          }
-          costs[j - 1] = lastValue;
-          lastValue = newValue;
-        }
-      }
-      if (i > 0) costs[s2.length] = lastValue;
-    }
-    return costs[s2.length];
-  }
-
-  /**
-   * Resolve Mindat ID to mineral name
-   */
-  private async resolveMindatId(mindatId: number | null): Promise<string | null> {
-    if (!mindatId || mindatId === 0) return null;
+  private async resolveMindatNames(mindatRecords: any[]): Promise<Map<number, string>> {
+    const ids = Array.from(new Set(mindatRecords
+      .flatMap(record => record ? [record.variety_of, record.syn_id] : [])
+      .filter((id): id is number => !!id)));
+    if (ids.length === 0) return new Map();
 
     try {
-      const result = await this.sql`
-        SELECT name FROM mindat_minerals
-        WHERE mindat_id = ${mindatId}
-        LIMIT 1
-      `;
-      return result.length > 0 ? result[0].name : null;
+      const rows = await this.sql`
+        SELECT mindat_id, name FROM mindat_minerals
+        WHERE mindat_id = ANY(${ids})
+      ` as Record<string, any>[];
+      return new Map(rows.map(row => [row.mindat_id as number, row.name as string]));
     } catch (error) {
-      console.error(`Error resolving Mindat ID ${mindatId}:`, error);
-      return null;
+      console.error(`Error resolving ${ids.length} Mindat IDs:`, error);
+      return new Map();
     }
   }
 
@@ -233,7 +222,7 @@ export class ERocksDataEnrichment {
    * Note: Group names may need to be looked up from a separate groups table
    * For now, returning the group ID as string
    */
-  private async resolveGroupId(groupId: number | null): Promise<string | null> {
+  private resolveGroupId(groupId: number | null): string | null {
     if (!groupId || groupId === 0) return null;
 
     // TODO: If we have a separate groups table, query it here
@@ -244,12 +233,12 @@ export class ERocksDataEnrichment {
   /**
    * Extract relationship data from Mindat mineral record
    */
-  private async extractRelationshipData(mindatRecord: any): Promise<{
+  private extractRelationshipData(mindatRecord: any, names: Map<number, string>): {
     varietyOf: string | null;
     polytypeOf: string | null;
     groupParent: string | null;
     synonymOf: string | null;
-  }> {
+  } {
     const relationships = {
       varietyOf: null as string | null,
       polytypeOf: null as string | null,
@@ -261,7 +250,7 @@ export class ERocksDataEnrichment {
 
     // Resolve variety_of ID to name
     if (mindatRecord.variety_of) {
-      relationships.varietyOf = await this.resolveMindatId(mindatRecord.variety_of);
+      relationships.varietyOf = names.get(mindatRecord.variety_of) ?? null;
     }
 
     // Polytype_of is already text
@@ -271,21 +260,21 @@ export class ERocksDataEnrichment {
 
     // Resolve group_id to group name
     if (mindatRecord.group_id) {
-      relationships.groupParent = await this.resolveGroupId(mindatRecord.group_id);
+      relationships.groupParent = this.resolveGroupId(mindatRecord.group_id);
     }
 
     // Resolve syn_id to name
     if (mindatRecord.syn_id) {
-      relationships.synonymOf = await this.resolveMindatId(mindatRecord.syn_id);
+      relationships.synonymOf = names.get(mindatRecord.syn_id) ?? null;
     }
 
     return relationships;
   }
 
   /**
-   * Match e-Rocks record to Mindat database
+   * Match e-Rocks record to Mindat database, as held in `index`
    */
-  async matchMineral(erocksRecord: ERocksMineral): Promise<MatchResult> {
+  matchMineral(erocksRecord: ERocksMineral, index: MindatMatchIndex): MatchResult {
     const result: MatchResult = {
       erocksRecord,
       mindatData: null,
@@ -314,222 +303,92 @@ export class ERocksDataEnrichment {
       result.notes.push(`This is a synonym of: ${synonymOf}`);
     }
 
-    const mindatId = erocksRecord['Mindat ID']?.trim();
-    const title = erocksRecord['Title']?.trim();
-    const formula = erocksRecord['Formula']?.trim();
-
-    // Determine search name (use parent if variety/synonym, otherwise use title)
-    const searchName = (varietyOf || synonymOf || title)?.trim();
-
-    // Strategy 1: Exact Mindat ID match
-    if (mindatId && mindatId !== '') {
-      // Handle "ER" prefix - these were not originally on Mindat but can be checked now
-      if (mindatId.toUpperCase().startsWith('ER')) {
-        result.notes.push(`ER-prefixed ID detected (${mindatId}). Will try name/formula matching instead.`);
-        // Skip to other matching strategies - don't try to parse ER IDs
-      } else {
-        try {
-          const parsedId = parseInt(mindatId);
-          if (!isNaN(parsedId)) {
-            const mineralById = await this.sql`
-              SELECT * FROM mindat_minerals
-              WHERE mindat_id = ${parsedId}
-              LIMIT 1
-            `;
-
-            if (mineralById.length > 0) {
-              result.mindatData = mineralById[0];
-              result.matchType = 'exact_id';
-              result.confidence = 100;
-              result.needsReview = false; // Always accept ID matches
-              result.notes.push(`Matched by Mindat ID: ${mindatId}`);
-
-              // Check for conflicts
-              this.checkDataConflicts(erocksRecord, mineralById[0], result);
-              return result;
-            } else {
-              result.notes.push(`Mindat ID ${mindatId} not found in approved minerals`);
-            }
-          }
-        } catch (error) {
-          result.notes.push(`Error querying by ID: ${error}`);
-        }
-      }
-    }
-
-    // Strategy 2: Exact name match (case-insensitive)
-    // Use searchName to handle varieties/synonyms
-    if (searchName) {
-      try {
-        const mineralByName = await this.sql`
-          SELECT * FROM mindat_minerals
-          WHERE LOWER(name) = ${searchName.toLowerCase()}
-          LIMIT 1
-        `;
-
-        if (mineralByName.length > 0) {
-          result.mindatData = mineralByName[0];
-          result.matchType = 'exact_name';
-          result.confidence = 95;
-          result.needsReview = false; // Always accept exact name matches
-          result.notes.push(`Matched by exact name: ${searchName}`);
-          if (varietyOf || synonymOf) {
-            result.notes.push(`Matched parent mineral for variety/synonym`);
-          }
-          this.checkDataConflicts(erocksRecord, mineralByName[0], result);
-          return result;
-        }
-      } catch (error) {
-        result.notes.push(`Error querying by name: ${error}`);
+    // Manual overrides decide before any strategy; skip ones never get here
+    const override = this.overrides.get(erocksRecord.Nid?.trim() ?? '');
+    if (override && override.action !== 'skip') {
+      result.overrideId = override.id;
+      result.notes.push(`Override #${override.id} (${override.author}): ${override.reason}`);
+      if (override.action === 'no_match') {
+        return result;
       }
 
-      // Strategy 3: Try all name variants (normalized)
-      const nameVariants = this.getNameVariants(searchName);
-      result.notes.push(`Trying ${nameVariants.length} name variants: ${nameVariants.slice(0, 3).join(', ')}...`);
-
-      for (const variant of nameVariants) {
-        try {
-          // Search for minerals where normalized name matches
-          const minerals = await this.sql`
-            SELECT *,
-              LOWER(REGEXP_REPLACE(REGEXP_REPLACE(REGEXP_REPLACE(name, '[\\-()\\ ]', '', 'g'), '[''']', '', 'g'), '[^a-z0-9]', '', 'g')) as normalized_name
-            FROM mindat_minerals
-            WHERE LOWER(REGEXP_REPLACE(REGEXP_REPLACE(REGEXP_REPLACE(name, '[\\-()\\ ]', '', 'g'), '[''']', '', 'g'), '[^a-z0-9]', '', 'g')) = ${variant}
-            LIMIT 5
-          `;
-
-          if (minerals.length > 0) {
-            result.mindatData = minerals[0];
-            result.matchType = 'fuzzy_name';
-            result.confidence = 88;
-            result.needsReview = true; // Fuzzy matches need review
-            result.notes.push(`Matched by normalized variant: "${searchName}" → "${minerals[0].name}"`);
-            if (minerals.length > 1) {
-              result.notes.push(`Note: ${minerals.length} minerals match this pattern`);
-            }
-            this.checkDataConflicts(erocksRecord, minerals[0], result);
-            return result;
-          }
-        } catch (error) {
-          result.notes.push(`Variant search error for "${variant}": ${error}`);
-        }
-      }
-
-      // Strategy 4: Fuzzy name search (using LIKE)
-      try {
-        const fuzzySearch = await this.sql`
-          SELECT *, similarity(name, ${searchName}) as sim_score
-          FROM mindat_minerals
-          WHERE name ILIKE ${'%' + searchName.substring(0, Math.min(searchName.length, 10)) + '%'}
-          ORDER BY char_length(name) ASC
-          LIMIT 10
-        `;
-
-        for (const mineral of fuzzySearch) {
-          const score = this.similarityScore(searchName, mineral.name);
-          if (score > 80) {
-            result.mindatData = mineral;
-            result.matchType = 'fuzzy_name';
-            result.confidence = score;
-            result.needsReview = true; // Fuzzy matches need review
-            result.notes.push(`Fuzzy match: "${searchName}" → "${mineral.name}" (${score.toFixed(1)}% similar)`);
-            this.checkDataConflicts(erocksRecord, mineral, result);
-            return result;
-          }
-        }
-      } catch (error) {
-        result.notes.push(`Fuzzy search error: ${error}`);
+      const mineral = override.mindatId !== null ? index.get(override.mindatId) : undefined;
+      if (mineral) {
+        result.mindatData = mineral;
+        result.matchType = 'override';
+        result.confidence = 100;
+        this.checkDataConflicts(erocksRecord, mineral, result);
+        return result;
       }
+      result.overrideId = undefined;
+      result.notes.push(`Override Mindat ID ${override.mindatId} not found; matching as usual`);
     }
 
-    // Strategy 5: Formula match (normalized to handle UTF-8 variations)
-    if (formula && formula !== '') {
-      const normalizedFormula = this.normalizeFormula(formula);
-      result.notes.push(`Searching by formula: ${formula} (normalized: ${normalizedFormula})`);
-
-      try {
-        // First try exact match
-        const exactFormulaMatch = await this.sql`
-          SELECT * FROM mindat_minerals
-          WHERE formula = ${formula}
-          LIMIT 5
-        `;
+    const candidates = this.pipeline.run({
+      mindatId: erocksRecord['Mindat ID']?.trim(),
+      formula: erocksRecord['Formula']?.trim(),
+      // Varieties and synonyms are matched through their parent
+      searchName: (varietyOf || synonymOf || erocksRecord['Title'])?.trim(),
+      viaParent: !!(varietyOf || synonymOf),
+    }, { index, notes: result.notes });
+
+    if (candidates.length === 0) {
+      result.notes.push('No match found in Mindat database');
+      return result;
+    }
 
-        if (exactFormulaMatch.length > 0) {
-          result.mindatData = exactFormulaMatch[0];
-          result.matchType = 'formula';
-          result.confidence = 80;
-          result.needsReview = true; // Formula matches need review
-          result.notes.push(`Exact formula match: ${formula}`);
-          if (exactFormulaMatch.length > 1) {
-            result.notes.push(`Note: ${exactFormulaMatch.length} minerals share this formula`);
-          }
-          this.checkDataConflicts(erocksRecord, exactFormulaMatch[0], result);
-          return result;
-        }
+    const [best, ...others] = candidates;
+    result.mindatData = best.row;
+    result.matchType = best.matchType;
+    result.confidence = best.confidence;
+    result.needsReview = best.needsReview;
+    result.notes.push(best.note);
+    result.alternatives = others.slice(0, MAX_ALTERNATIVES).map(candidate => ({
+      mindatId: candidate.mindatId,
+      name: candidate.row.name,
+      formula: candidate.row.ima_formula || candidate.row.mindat_formula || null,
+      confidence: candidate.confidence,
+      strategies: candidate.strategies,
+    }));
 
-        // Try normalized formula match (handles UTF-8 variations)
-        if (normalizedFormula) {
-          const normalizedFormulaMatch = await this.sql`
-            SELECT * FROM mindat_minerals
-            WHERE REPLACE(REPLACE(REPLACE(formula, ' ', ''), '·', '.'), '•', '.') = ${normalizedFormula}
-            LIMIT 5
-          `;
-
-          if (normalizedFormulaMatch.length > 0) {
-            result.mindatData = normalizedFormulaMatch[0];
-            result.matchType = 'formula';
-            result.confidence = 75;
-            result.needsReview = true; // Formula matches need review
-            result.notes.push(`Normalized formula match: "${formula}" → "${normalizedFormulaMatch[0].formula}"`);
-            if (normalizedFormulaMatch.length > 1) {
-              result.notes.push(`Note: ${normalizedFormulaMatch.length} minerals match normalized formula`);
-            }
-            this.checkDataConflicts(erocksRecord, normalizedFormulaMatch[0], result);
-            return result;
-          }
-        }
-      } catch (error) {
-        result.notes.push(`Formula search error: ${error}`);
-      }
+    // Strategies that cannot tell records apart leave the choice to a reviewer
+    const tied = others.filter(candidate => candidate.confidence === best.confidence).length;
+    if (tied > 0) {
+      result.needsReview = true;
+      result.notes.push(`Note: ${tied + 1} minerals match at ${best.confidence}% confidence`);
     }
 
-    result.notes.push('No match found in Mindat database');
+    this.checkDataConflicts(erocksRecord, best.row, result);
     return result;
   }
 
   /**
-   * Check for data conflicts between e-Rocks and Mindat
+   * Check for data conflicts between e-Rocks and Mindat, using the same
+   * rules as the reconciliation service (formatting-only differences are
+   * not conflicts)
    */
   private checkDataConflicts(erocksRecord: ERocksMineral, mindatData: any, result: MatchResult): void {
-    // Compare formula
-    if (erocksRecord.Formula && mindatData.formula) {
-      if (erocksRecord.Formula.trim() !== mindatData.formula.trim()) {
-        result.conflicts.push(`Formula differs: e-Rocks="${erocksRecord.Formula}" vs Mindat="${mindatData.formula}"`);
-      }
-    }
-
-    // Compare crystal system
-    if (erocksRecord['Crystal System'] && mindatData.crystal_system) {
-      const eCrystal = erocksRecord['Crystal System'].toLowerCase().trim();
-      const mCrystal = mindatData.crystal_system.toLowerCase().trim();
-      if (eCrystal !== mCrystal && eCrystal !== '' && mCrystal !== '') {
-        result.conflicts.push(`Crystal System differs: e-Rocks="${erocksRecord['Crystal System']}" vs Mindat="${mindatData.crystal_system}"`);
-      }
-    }
-
-    // Compare Strunz classification
-    if (erocksRecord.Strunz && mindatData.strunz_id) {
-      if (erocksRecord.Strunz.trim() !== mindatData.strunz_id.trim()) {
-        result.conflicts.push(`Strunz differs: e-Rocks="${erocksRecord.Strunz}" vs Mindat="${mindatData.strunz_id}"`);
+    const erocks = erocksFieldValues(erocksRecord as unknown as Record<string, string>);
+    const mindat = mindatFieldValues(mindatRowFields(mindatData));
+
+    const labels: [ReconciledField, string][] = [['formula', 'Formula'], ['crystalSystem', 'Crystal System'], ['strunz', 'Strunz']];
+    for (const [field, label] of labels) {
+      const eValue = erocks[field];
+      const mValue = mindat[field];
+      if (!eValue || !mValue) continue;
+
+      const severity = compareFieldValues(field, eValue, mValue);
+      if (severity) {
+        result.conflicts.push(`${label} differs (${severity}): e-Rocks="${eValue}" vs Mindat="${mValue}"`);
       }
     }
   }
 
   /**
-   * Process entire e-Rocks CSV and generate enriched output
+   * Process entire e-Rocks CSV and generate enriched output. The run and
+   * every record's match are stored in the database; returns the run ID.
    */
-  async processCSV(inputPath: string, outputDir: string): Promise<void> {
+  async processCSV(inputPath: string, outputDir: string): Promise<number> {
     console.log(`\n🔄 Starting e-Rocks data enrichment...`);
     console.log(`📁 Input: ${inputPath}`);
     console.log(`📂 Output: ${outputDir}\n`);
@@ -537,6 +396,101 @@ export class ERocksDataEnrichment {
     // Ensure output directory exists
     await fs.mkdir(outputDir, { recursive: true });
 
+    const run = await this.runs.startRun(inputPath, outputDir);
+    console.log(`🗂️  Enrichment run #${run.id} (input ${run.inputHash.slice(0, 12)})\n`);
+
+    try {
+      await this.enrichRun(run.id, inputPath, outputDir);
+      return run.id;
+    } catch (error) {
+      await this.runs.failRun(run.id, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Write a stored run's output files again without re-matching. Mindat
+   * values are read as they are now, so the export picks up later syncs,
+   * and review decisions taken since the run are applied.
+   */
+  async exportRun(runId: number, outputDir: string): Promise<void> {
+    const run = await this.runs.getRun(runId);
+    if (!run) {
+      throw new Error(`No enrichment run #${runId}`);
+    }
+    await fs.mkdir(outputDir, { recursive: true });
+
+    const results = await this.runs.loadResults(runId);
+    const mindatIds = Array.from(new Set(results
+      .flatMap(result => [result.mindatId, result.reviewedMindatId])
+      .filter((id): id is number => id !== null)));
+    const mindatRows = mindatIds.length > 0
+      ? await this.sql`SELECT * FROM mindat_minerals WHERE mindat_id = ANY(${mindatIds})` as Record<string, any>[]
+      : [];
+    const mindatById = new Map(mindatRows.map(row => [row.mindat_id as number, row]));
+
+    const matches: MatchResult[] = [];
+    const skippedRecords: ERocksMineral[] = [];
+    for (const result of results) {
+      const erocksRecord = result.erocksRecord as ERocksMineral;
+      if (result.matchType === 'skipped') {
+        skippedRecords.push(erocksRecord);
+        continue;
+      }
+      matches.push({
+        erocksRecord,
+        mindatData: result.mindatId !== null ? mindatById.get(result.mindatId) ?? null : null,
+        matchType: result.matchType as MatchResult['matchType'],
+        confidence: result.confidence,
+        notes: result.notes ?? [],
+        conflicts: result.conflicts ?? [],
+        needsReview: result.needsReview,
+        isVariety: result.isVariety,
+        isSynonym: result.isSynonym,
+        parentMineral: result.parentMineral ?? undefined,
+        alternatives: (result.alternatives as MatchCandidate[] | null) ?? undefined,
+        review: storedReview(result, mindatById),
+      });
+    }
+
+    console.log(`\n📤 Re-exporting run #${runId} (${run.inputFile}) to ${outputDir}\n`);
+    await this.writeOutputs(matches, skippedRecords, outputDir, {
+      runId,
+      stats: run.stats,
+      timestamp: new Date().toISOString(),
+      runStartedAt: run.startedAt,
+      inputFile: run.inputFile,
+      inputHash: run.inputHash,
+      totalCSVRecords: run.totalRecords,
+    });
+  }
+
+  private toStoredResult(match: MatchResult): Omit<InsertERocksMatchResult, 'runId'> {
+    return {
+      nid: match.erocksRecord.Nid?.trim() || null,
+      title: match.erocksRecord.Title?.trim() || null,
+      erocksRecord: match.erocksRecord,
+      mindatId: match.mindatData?.mindat_id ?? null,
+      matchType: match.matchType,
+      confidence: Math.round(match.confidence),
+      notes: match.notes,
+      conflicts: match.conflicts,
+      needsReview: match.needsReview,
+      isVariety: match.isVariety,
+      isSynonym: match.isSynonym,
+      parentMineral: match.parentMineral ?? null,
+      alternatives: match.alternatives ?? null,
+      overrideId: match.overrideId ?? null,
+      reviewStatus: match.review?.status ?? (match.needsReview ? 'pending' : null),
+      reviewedMindatId: match.review?.status === 'corrected' ? match.review.mindatData.mindat_id : null,
+      reviewNote: match.review?.note ?? null,
+      reviewedAt: match.review?.reviewedAt ?? null,
+    };
+  }
+
+  private async enrichRun(runId: number, inputPath: string, outputDir: string): Promise<void> {
+    await this.loadOverrides();
+
     const matches: MatchResult[] = [];
     const allRecords: ERocksMineral[] = [];
     const skippedRecords: ERocksMineral[] = [];
@@ -555,9 +509,9 @@ export class ERocksDataEnrichment {
         .on('error', reject);
     });
 
-    // Filter for Class="Mineral" only
+    // Filter for Class="Mineral" only, less records overridden to skip
     const mineralRecords = allRecords.filter(record => {
-      if (this.shouldProcessRecord(record)) {
+      if (this.shouldProcessRecord(record) && this.overrides.get(record.Nid?.trim() ?? '')?.action !== 'skip') {
         return true;
       } else {
         skippedRecords.push(record);
@@ -568,17 +522,23 @@ export class ERocksDataEnrichment {
     console.log(`   ${mineralRecords.length} minerals to process`);
     console.log(`   ${skippedRecords.length} non-minerals skipped\n`);
 
-    // Process each mineral record
+    // Load Mindat once, then match every record in memory
+    console.log(`📊 Loading Mindat database into memory...`);
+    const loadStarted = Date.now();
+    const index = await MindatMatchIndex.load(this.query);
+    console.log(`✅ Loaded ${index.size} Mindat minerals in ${((Date.now() - loadStarted) / 1000).toFixed(1)}s\n`);
+
     console.log(`🔍 Matching minerals to Mindat database...\n`);
+    const matchStarted = Date.now();
     let processed = 0;
 
     for (const record of mineralRecords) {
       try {
-        const match = await this.matchMineral(record);
+        const match = this.matchMineral(record, index);
         matches.push(match);
 
         processed++;
-        if (processed % 100 === 0) {
+        if (processed % 1000 === 0) {
           console.log(`Progress: ${processed}/${mineralRecords.length} (${((processed/mineralRecords.length)*100).toFixed(1)}%)`);
         }
       } catch (error) {
@@ -597,12 +557,17 @@ export class ERocksDataEnrichment {
       }
     }
 
-    console.log(`\n✅ Processed all ${matches.length} mineral records\n`);
+    console.log(`\n✅ Processed all ${matches.length} mineral records in ${((Date.now() - matchStarted) / 1000).toFixed(1)}s\n`);
+
+    const carried = await this.carryOverReviews(matches, index);
+    if (carried > 0) {
+      console.log(`♻️  Carried ${carried} review decisions over from earlier runs\n`);
+    }
 
     // Generate statistics
     const stats = this.generateMatchReport(matches);
     stats.skippedNonMinerals = skippedRecords.length;
-    stats.needsReviewCount = matches.filter(m => m.needsReview).length;
+    stats.needsReviewCount = matches.filter(m => m.needsReview && !m.review).length;
 
     console.log('📊 Match Statistics:');
     console.log(`   Total CSV records: ${allRecords.length}`);
@@ -612,12 +577,104 @@ export class ERocksDataEnrichment {
     console.log(`   ✅ Exact name matches: ${stats.exactNameMatches}`);
     console.log(`   🔍 Fuzzy matches: ${stats.fuzzyMatches}`);
     console.log(`   🧪 Formula matches: ${stats.formulaMatches}`);
+    console.log(`   🔗 RRUFF matches: ${stats.rruffMatches}`);
+    console.log(`   📌 Override matches: ${stats.overrideMatches}`);
     console.log(`   ❌ No matches: ${stats.noMatches}`);
     console.log(`   ⚠️  Needs review: ${stats.needsReviewCount}`);
     console.log(`   ⚠️  With conflicts: ${stats.withConflicts}`);
     console.log(`   📝 Varieties: ${stats.varieties}`);
     console.log(`   📝 Synonyms: ${stats.synonyms}\n`);
 
+    await this.runs.saveResults(runId, [
+      ...matches.map(match => this.toStoredResult(match)),
+      ...skippedRecords.map(record => {
+        const override = this.overrides.get(record.Nid?.trim() ?? '');
+        return {
+          nid: record.Nid?.trim() || null,
+          title: record.Title?.trim() || null,
+          erocksRecord: record,
+          matchType: 'skipped',
+          notes: override?.action === 'skip' ? [`Override #${override.id} (${override.author}): ${override.reason}`] : null,
+          overrideId: override?.action === 'skip' ? override.id : null,
+        };
+      }),
+    ]);
+
+    await this.writeOutputs(matches, skippedRecords, outputDir, {
+      runId,
+      stats,
+      timestamp: new Date().toISOString(),
+      inputFile: inputPath,
+      totalCSVRecords: allRecords.length,
+    });
+
+    await this.runs.completeRun(runId, {
+      totalRecords: allRecords.length,
+      mineralRecords: matches.length,
+      skippedRecords: skippedRecords.length,
+      matchedRecords: matches.filter(m => m.matchType !== 'no_match').length,
+      needsReviewCount: stats.needsReviewCount,
+      stats,
+    });
+    console.log(`✅ Enrichment complete! Stored as run #${runId}\n`);
+  }
+
+  /**
+   * Give matches the decision taken on the same Nid in an earlier run. A
+   * corrected Mindat ID always applies; approving or rejecting only does if
+   * the record was matched to the same Mindat record again.
+   */
+  private async carryOverReviews(matches: MatchResult[], index: MindatMatchIndex): Promise<number> {
+    const nids = matches.map(match => match.erocksRecord.Nid?.trim()).filter((nid): nid is string => !!nid);
+    const priorReviews = await this.runs.getPriorReviews(nids);
+    if (priorReviews.size === 0) return 0;
+
+    let carried = 0;
+    for (const match of matches) {
+      // An override outranks a past review
+      if (match.overrideId !== undefined) continue;
+      const prior = priorReviews.get(match.erocksRecord.Nid?.trim() ?? '');
+      if (!prior) continue;
+
+      const review: MatchReview = {
+        status: prior.reviewStatus as MatchReview['status'],
+        mindatData: null,
+        note: [`From run #${prior.runId}`, prior.reviewNote].filter(Boolean).join(': '),
+        reviewedAt: prior.reviewedAt,
+      };
+      if (review.status === 'corrected') {
+        review.mindatData = prior.reviewedMindatId !== null ? index.get(prior.reviewedMindatId) ?? null : null;
+        if (!review.mindatData) continue;
+      } else if (prior.mindatId !== (match.mindatData?.mindat_id ?? null)) {
+        continue;
+      }
+
+      match.review = review;
+      carried++;
+    }
+    return carried;
+  }
+
+  // Sync config/erocks-exceptions.json into erocks_overrides, then load what is active
+  private async loadOverrides(): Promise<void> {
+    if (existsSync(EXCEPTIONS_FILE)) {
+      const imported = await this.overrideStore.importFile(EXCEPTIONS_FILE);
+      console.log(`📌 ${EXCEPTIONS_FILE}: ${imported.imported} added, ${imported.updated} updated, ${imported.removed} removed`);
+      for (const error of imported.errors) {
+        console.warn(`   ⚠️  ${error}`);
+      }
+    }
+
+    this.overrides = await this.overrideStore.getActiveOverrides();
+    console.log(`📌 ${this.overrides.size} active overrides\n`);
+  }
+
+  private async writeOutputs(
+    matches: MatchResult[],
+    skippedRecords: ERocksMineral[],
+    outputDir: string,
+    report: Record<string, unknown>,
+  ): Promise<void> {
     // Generate 5 output files
     const updatePath = path.join(outputDir, 'erocks_UPDATE.csv');
     const exceptionsPath = path.join(outputDir, 'erocks_EXCEPTIONS.csv');
@@ -625,7 +682,8 @@ export class ERocksDataEnrichment {
     const newMineralsPath = path.join(outputDir, 'mindat_NEW_MINERALS.csv');
     const reportPath = path.join(outputDir, 'match_report.json');
 
-    // Split matches into categories
+    // Split matches into categories, as the reviewers decided
+    matches = matches.map(withReview);
     const matched = matches.filter(m => m.matchType !== 'no_match');
     const exceptions = matches.filter(m => m.matchType === 'no_match');
 
@@ -636,15 +694,12 @@ export class ERocksDataEnrichment {
 
     // Write statistics report
     await fs.writeFile(reportPath, JSON.stringify({
-      stats,
-      timestamp: new Date().toISOString(),
-      inputFile: inputPath,
-      totalCSVRecords: allRecords.length,
+      ...report,
       mineralRecords: matches.length,
       skippedRecords: skippedRecords.length,
       matchedRecords: matched.length,
       exceptionRecords: exceptions.length,
-      needsReview: stats.needsReviewCount,
+      needsReview: matches.filter(m => m.needsReview).length,
       newMindatMinerals: '(calculated in NEW_MINERALS file)'
     }, null, 2));
 
@@ -654,7 +709,6 @@ export class ERocksDataEnrichment {
     console.log(`   ${skippedPath} (${skippedRecords.length} records)`);
     console.log(`   ${newMineralsPath} (check file for count)`);
     console.log(`   ${reportPath}\n`);
-    console.log(`✅ Enrichment complete!\n`);
   }
 
   /**
@@ -666,56 +720,39 @@ export class ERocksDataEnrichment {
       return;
     }
 
+    const names = await this.resolveMindatNames(matches.map(match => match.mindatData));
+    const priorities = await CanonicalMineralService.getInstance().loadPriorities();
+
     // Prepare CSV rows with consistent field order
-    const rows = await Promise.all(matches.map(async match => {
+    const rows = matches.map(match => {
       const erocks = match.erocksRecord;
       const mindat = match.mindatData;
 
       // Extract relationship data from Mindat
-      const relationships = await this.extractRelationshipData(mindat);
+      const relationships = this.extractRelationshipData(mindat, names);
 
-      // Concatenate Strunz parts: strunz10ed1.strunz10ed2+strunz10ed3.strunz10ed4 (e.g., 5.BE.45)
-      const parts = [mindat?.strunz10ed1, mindat?.strunz10ed2, mindat?.strunz10ed3, mindat?.strunz10ed4].filter(p => p);
-      let strunz = '';
-      if (parts.length === 1) {
-        strunz = parts[0];
-      } else if (parts.length === 2) {
-        strunz = parts[0] + '.' + parts[1];
-      } else if (parts.length === 3) {
-        strunz = parts[0] + '.' + parts[1] + parts[2];
-      } else if (parts.length === 4) {
-        strunz = parts[0] + '.' + parts[1] + parts[2] + '.' + parts[3];
-      }
-      const cleanStrunz = (strunz === '0' || strunz === 0 || !strunz) ? (erocks.Strunz || '') : strunz;
-
-      // Title: Preserve e-Rocks title for varieties/synonyms, otherwise use Mindat
-      const title = (match.isVariety || match.isSynonym) ? erocks.Title : (mindat?.name || erocks.Title || '');
-
-      // For varieties/synonyms: preserve e-Rocks data, only update Mindat ID/URL and relationships
-      // For normal minerals: use Mindat data as source of truth
+      // Mindat wins unless this is a variety/synonym matched through its parent
       const isVarietyOrSynonym = match.isVariety || match.isSynonym;
-
-      // Hardness: convert 0 to empty
-      const hardnessMax = isVarietyOrSynonym ? erocks['Hardness Max'] || '' : (mindat?.hardness_max?.toString() || mindat?.hardness?.split('-')?.[1]?.trim() || erocks['Hardness Max'] || '');
-      const hardnessMin = isVarietyOrSynonym ? erocks['Hardness Min'] || '' : (mindat?.hardness_min?.toString() || mindat?.hardness?.split('-')?.[0]?.trim() || erocks['Hardness Min'] || '');
-      const cleanHardnessMax = hardnessMax === '0' ? '' : hardnessMax;
-      const cleanHardnessMin = hardnessMin === '0' ? '' : hardnessMin;
+      const { values } = mergeCanonical(
+        erocksExportCandidates(mindat ? mindatRowFields(mindat) : null, erocks, isVarietyOrSynonym, priorities),
+      );
+      const value = (field: keyof typeof values) => values[field]?.toString() ?? '';
 
       return {
-        'Title': title,
-        'Short Description': isVarietyOrSynonym ? '' : (mindat?.description_short || ''),
+        'Title': value('name'),
+        'Short Description': value('description'),
         'Synonyms': erocks.Synonyms || '',
         'Mindat ID': mindat?.mindat_id?.toString() || erocks['Mindat ID'] || '',
         'Mindat URL': mindat?.mindat_id ? `https://www.mindat.org/min-${mindat.mindat_id}.html` : erocks['Mindat URL'] || '',
-        'Formula': isVarietyOrSynonym ? erocks.Formula || '' : (mindat?.formula || mindat?.ima_formula || erocks.Formula || ''),
-        'Crystal System': isVarietyOrSynonym ? erocks['Crystal System'] || '' : (mindat?.crystal_system || erocks['Crystal System'] || ''),
-        'Hardness Min': cleanHardnessMin,
-        'Hardness Max': cleanHardnessMax,
-        'Streak': isVarietyOrSynonym ? erocks.Streak || '' : (mindat?.streak || erocks.Streak || ''),
-        'Tenacity': isVarietyOrSynonym ? erocks.Tenacity || '' : (mindat?.tenacity || erocks.Tenacity || ''),
-        'Colour': isVarietyOrSynonym ? erocks.Colour || '' : (mindat?.colour || mindat?.color || erocks.Colour || ''),
+        'Formula': value('formula'),
+        'Crystal System': value('crystalSystem'),
+        'Hardness Min': value('hardnessMin'),
+        'Hardness Max': value('hardnessMax'),
+        'Streak': value('streak'),
+        'Tenacity': value('tenacity'),
+        'Colour': value('colour'),
         'Type Locality': erocks['Type Locality'] || '',
-        'Strunz': cleanStrunz,
+        'Strunz': value('strunz'),
         'Mindat Status': mindat?.ima_status || '',
         'Variety Of': relationships.varietyOf || erocks['Variety Of'] || '',
         'Group Parent': relationships.groupParent || erocks['Group Parent'] || '',
@@ -729,7 +766,7 @@ export class ERocksDataEnrichment {
         'Class': 'Mineral',
         'Nid': erocks.Nid || ''  // MANDATORY for e-Rocks UPDATE
       };
-    }));
+    });
 
     // Convert to CSV using csv-stringify
     const csvContent = stringify(rows, {
@@ -924,6 +961,8 @@ export class ERocksDataEnrichment {
       exactNameMatches: 0,
       fuzzyMatches: 0,
       formulaMatches: 0,
+      rruffMatches: 0,
+      overrideMatches: 0,
       noMatches: 0,
       withConflicts: 0,
       varieties: 0,
@@ -944,6 +983,12 @@ export class ERocksDataEnrichment {
         case 'formula':
           stats.formulaMatches++;
           break;
+        case 'rruff':
+          stats.rruffMatches++;
+          break;
+        case 'override':
+          stats.overrideMatches++;
+          break;
         case 'no_match':
           stats.noMatches++;
           break;
@@ -0,0 +1,403 @@
+import { db } from '../db';
+import {
+  erocksEnrichmentRuns,
+  erocksMatchResults,
+  mindatMinerals,
+  type ERocksEnrichmentRun,
+  type ERocksMatchResult,
+  type InsertERocksMatchResult,
+} from '@shared/schema';
+import { and, asc, desc, eq, ilike, inArray, isNotNull, ne, or, sql, type SQL } from 'drizzle-orm';
+import { formatStrunz } from './conflict-rules';
+import { createHash } from 'crypto';
+import { createReadStream } from 'fs';
+
+export interface RunSummary {
+  totalRecords: number;
+  mineralRecords: number;
+  skippedRecords: number;
+  matchedRecords: number;
+  needsReviewCount: number;
+  stats: Record<string, number>;
+}
+
+type MatchSnapshot = Pick<ERocksMatchResult, 'mindatId' | 'matchType' | 'confidence' | 'reviewStatus'>;
+
+export interface RunDifference {
+  key: string; // Nid, or the title for records without one
+  title: string | null;
+  change: 'added' | 'removed' | 'rematched' | 'match_type' | 'confidence';
+  before: MatchSnapshot | null;
+  after: MatchSnapshot | null;
+}
+
+export interface RunComparison {
+  base: ERocksEnrichmentRun;
+  other: ERocksEnrichmentRun;
+  sameInput: boolean;
+  counts: Record<RunDifference['change'] | 'unchanged', number>;
+  differences: RunDifference[];
+}
+
+// Another Mindat record the matching strategies found besides the one taken
+export interface MatchCandidate {
+  mindatId: number;
+  name: string;
+  formula: string | null;
+  confidence?: number;
+  strategies?: string[]; // Not recorded by runs before the strategy pipeline
+}
+
+// approve and reject settle the match as made, correct replaces it with a
+// Mindat ID the reviewer picked and reopen puts the record back in the queue
+export type ReviewDecision = 'approve' | 'reject' | 'correct' | 'reopen';
+
+export const REVIEW_DECISIONS: ReviewDecision[] = ['approve', 'reject', 'correct', 'reopen'];
+
+const REVIEW_STATUSES: Record<ReviewDecision, string> = {
+  approve: 'approved',
+  reject: 'rejected',
+  correct: 'corrected',
+  reopen: 'pending',
+};
+
+// The Mindat side of the review screen
+export interface ReviewMindatRecord {
+  mindatId: number;
+  name: string;
+  formula: string | null;
+  crystalSystem: string | null;
+  strunz: string | null;
+  imaStatus: string | null;
+  hardnessMin: number | null;
+  hardnessMax: number | null;
+  colour: string | null;
+  streak: string | null;
+  varietyOf: number | null;
+  synId: number | null;
+}
+
+export interface ReviewItem extends ERocksMatchResult {
+  candidate: ReviewMindatRecord | null;
+  reviewed: ReviewMindatRecord | null; // The corrected record, if any
+}
+
+// A decision taken on an earlier run, to carry over to a new one
+export type PriorReview = Pick<ERocksMatchResult, 'runId' | 'nid' | 'mindatId' | 'reviewStatus' | 'reviewedMindatId' | 'reviewNote' | 'reviewedAt'>;
+
+export class ERocksReviewError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ERocksReviewError';
+  }
+}
+
+const INSERT_BATCH_SIZE = 500;
+
+function recordKey(result: Pick<ERocksMatchResult, 'nid' | 'title'>): string {
+  return result.nid?.trim() || `title:${result.title?.trim().toLowerCase() ?? ''}`;
+}
+
+function snapshot(result: ERocksMatchResult): MatchSnapshot {
+  return {
+    mindatId: result.mindatId,
+    matchType: result.matchType,
+    confidence: result.confidence,
+    reviewStatus: result.reviewStatus,
+  };
+}
+
+/**
+ * Stores each e-Rocks enrichment run and what it matched every record to,
+ * so a run can be audited, compared with another or exported again after
+ * its output files are gone.
+ */
+export class ERocksEnrichmentRuns {
+  private static instance: ERocksEnrichmentRuns;
+
+  private constructor() {}
+
+  static getInstance(): ERocksEnrichmentRuns {
+    if (!ERocksEnrichmentRuns.instance) {
+      ERocksEnrichmentRuns.instance = new ERocksEnrichmentRuns();
+    }
+    return ERocksEnrichmentRuns.instance;
+  }
+
+  async startRun(inputFile: string, outputDir: string): Promise<ERocksEnrichmentRun> {
+    const inputHash = await this.hashFile(inputFile);
+    const [run] = await db.insert(erocksEnrichmentRuns)
+      .values({ inputFile, inputHash, outputDir })
+      .returning();
+    return run;
+  }
+
+  async saveResults(runId: number, results: Omit<InsertERocksMatchResult, 'runId'>[]): Promise<void> {
+    for (let i = 0; i < results.length; i += INSERT_BATCH_SIZE) {
+      await db.insert(erocksMatchResults)
+        .values(results.slice(i, i + INSERT_BATCH_SIZE).map(result => ({ ...result, runId })));
+    }
+  }
+
+  async completeRun(runId: number, summary: RunSummary): Promise<void> {
+    await db.update(erocksEnrichmentRuns)
+      .set({ ...summary, status: 'completed', completedAt: new Date() })
+      .where(eq(erocksEnrichmentRuns.id, runId));
+  }
+
+  async failRun(runId: number, error: unknown): Promise<void> {
+    await db.update(erocksEnrichmentRuns)
+      .set({ status: 'failed', error: error instanceof Error ? error.message : String(error), completedAt: new Date() })
+      .where(eq(erocksEnrichmentRuns.id, runId));
+  }
+
+  // Newest first
+  async listRuns(limit = 50): Promise<ERocksEnrichmentRun[]> {
+    return db.select()
+      .from(erocksEnrichmentRuns)
+      .orderBy(desc(erocksEnrichmentRuns.startedAt), desc(erocksEnrichmentRuns.id))
+      .limit(limit);
+  }
+
+  async getRun(runId: number): Promise<ERocksEnrichmentRun | null> {
+    const [run] = await db.select().from(erocksEnrichmentRuns).where(eq(erocksEnrichmentRuns.id, runId));
+    return run ?? null;
+  }
+
+  // What the review workbench opens on when no run is given
+  async getLatestCompletedRun(): Promise<ERocksEnrichmentRun | null> {
+    const [run] = await db.select()
+      .from(erocksEnrichmentRuns)
+      .where(eq(erocksEnrichmentRuns.status, 'completed'))
+      .orderBy(desc(erocksEnrichmentRuns.startedAt), desc(erocksEnrichmentRuns.id))
+      .limit(1);
+    return run ?? null;
+  }
+
+  async listResults(runId: number, filters: {
+    matchType?: string;
+    needsReview?: boolean;
+    reviewStatus?: string;
+    search?: string; // Title or Nid
+    limit?: number;
+    offset?: number;
+  } = {}): Promise<ERocksMatchResult[]> {
+    const conditions: SQL[] = [eq(erocksMatchResults.runId, runId)];
+    if (filters.matchType) conditions.push(eq(erocksMatchResults.matchType, filters.matchType));
+    if (filters.needsReview !== undefined) conditions.push(eq(erocksMatchResults.needsReview, filters.needsReview));
+    if (filters.reviewStatus) conditions.push(eq(erocksMatchResults.reviewStatus, filters.reviewStatus));
+    if (filters.search) {
+      conditions.push(or(
+        ilike(erocksMatchResults.title, `%${filters.search}%`),
+        eq(erocksMatchResults.nid, filters.search),
+      )!);
+    }
+
+    return db.select()
+      .from(erocksMatchResults)
+      .where(and(...conditions))
+      .orderBy(asc(erocksMatchResults.id))
+      .limit(filters.limit ?? 100)
+      .offset(filters.offset ?? 0);
+  }
+
+  // Every result of a run, in input order, for re-exporting it
+  async loadResults(runId: number): Promise<ERocksMatchResult[]> {
+    return db.select()
+      .from(erocksMatchResults)
+      .where(eq(erocksMatchResults.runId, runId))
+      .orderBy(asc(erocksMatchResults.id));
+  }
+
+  /**
+   * A page of a run's matches by review status (pending by default), each
+   * with the Mindat record it was matched to and the one a reviewer picked.
+   */
+  async listReviewQueue(runId: number, filters: {
+    status?: string;
+    matchType?: string;
+    search?: string;
+    limit?: number;
+    offset?: number;
+  } = {}): Promise<ReviewItem[]> {
+    const results = await this.listResults(runId, {
+      reviewStatus: filters.status ?? 'pending',
+      matchType: filters.matchType,
+      search: filters.search,
+      limit: filters.limit,
+      offset: filters.offset,
+    });
+
+    const ids = Array.from(new Set(results
+      .flatMap(result => [result.mindatId, result.reviewedMindatId])
+      .filter((id): id is number => id !== null)));
+    const records = await this.loadMindatRecords(ids);
+
+    return results.map(result => ({
+      ...result,
+      candidate: result.mindatId !== null ? records.get(result.mindatId) ?? null : null,
+      reviewed: result.reviewedMindatId !== null ? records.get(result.reviewedMindatId) ?? null : null,
+    }));
+  }
+
+  // Counts by review status, for the queue's tabs
+  async getReviewSummary(runId: number): Promise<{ reviewStatus: string; count: number }[]> {
+    return db.select({
+      reviewStatus: erocksMatchResults.reviewStatus,
+      count: sql<number>`count(*)::int`,
+    })
+      .from(erocksMatchResults)
+      .where(and(eq(erocksMatchResults.runId, runId), isNotNull(erocksMatchResults.reviewStatus)))
+      .groupBy(erocksMatchResults.reviewStatus)
+      .orderBy(erocksMatchResults.reviewStatus) as Promise<{ reviewStatus: string; count: number }[]>;
+  }
+
+  /**
+   * Record a reviewer's decision on one or more matches. Any match can be
+   * decided, not only those flagged for review; correct needs the Mindat ID
+   * to use instead, which must be in mindat_minerals.
+   */
+  async decide(ids: number[], decision: ReviewDecision, options: { mindatId?: number; note?: string } = {}): Promise<ERocksMatchResult[]> {
+    if (!REVIEW_DECISIONS.includes(decision)) {
+      throw new ERocksReviewError(`decision must be one of: ${REVIEW_DECISIONS.join(', ')}`);
+    }
+    if (ids.length === 0 || !ids.every(id => Number.isInteger(id))) {
+      throw new ERocksReviewError('ids must be a non-empty list of match result IDs');
+    }
+
+    let reviewedMindatId: number | null = null;
+    if (decision === 'correct') {
+      if (!Number.isInteger(options.mindatId)) {
+        throw new ERocksReviewError('correct needs the Mindat ID to use instead');
+      }
+      const [mineral] = await db.select({ mindatId: mindatMinerals.mindatId })
+        .from(mindatMinerals)
+        .where(eq(mindatMinerals.mindatId, options.mindatId!))
+        .limit(1);
+      if (!mineral) {
+        throw new ERocksReviewError(`Mindat ID ${options.mindatId} is not in mindat_minerals`);
+      }
+      reviewedMindatId = mineral.mindatId;
+    }
+
+    return db.update(erocksMatchResults)
+      .set({
+        reviewStatus: REVIEW_STATUSES[decision],
+        reviewedMindatId,
+        reviewNote: decision === 'reopen' ? null : options.note?.trim() || null,
+        reviewedAt: decision === 'reopen' ? null : new Date(),
+      })
+      .where(and(inArray(erocksMatchResults.id, ids), ne(erocksMatchResults.matchType, 'skipped')))
+      .returning();
+  }
+
+  /**
+   * The latest decision taken on each of these Nids in any earlier run,
+   * so a new run of the same export does not ask the same questions again.
+   */
+  async getPriorReviews(nids: string[]): Promise<Map<string, PriorReview>> {
+    const reviews = new Map<string, PriorReview>();
+    if (nids.length === 0) return reviews;
+
+    const rows: PriorReview[] = await db.selectDistinctOn([erocksMatchResults.nid], {
+      runId: erocksMatchResults.runId,
+      nid: erocksMatchResults.nid,
+      mindatId: erocksMatchResults.mindatId,
+      reviewStatus: erocksMatchResults.reviewStatus,
+      reviewedMindatId: erocksMatchResults.reviewedMindatId,
+      reviewNote: erocksMatchResults.reviewNote,
+      reviewedAt: erocksMatchResults.reviewedAt,
+    })
+      .from(erocksMatchResults)
+      .where(and(
+        inArray(erocksMatchResults.nid, nids),
+        inArray(erocksMatchResults.reviewStatus, ['approved', 'rejected', 'corrected']),
+      ))
+      .orderBy(erocksMatchResults.nid, desc(erocksMatchResults.reviewedAt), desc(erocksMatchResults.id));
+
+    for (const row of rows) reviews.set(row.nid!, row);
+    return reviews;
+  }
+
+  /**
+   * What changed between two runs, record by record (keyed by Nid). Records
+   * only one run processed are added/removed; otherwise a different Mindat
+   * ID beats a different match type, which beats a different confidence.
+   */
+  async compareRuns(baseId: number, otherId: number): Promise<RunComparison | null> {
+    const [base, other] = await Promise.all([this.getRun(baseId), this.getRun(otherId)]);
+    if (!base || !other) return null;
+
+    const [baseResults, otherResults] = await Promise.all([this.loadResults(baseId), this.loadResults(otherId)]);
+    const before = new Map(baseResults.filter(result => result.matchType !== 'skipped').map(result => [recordKey(result), result]));
+    const after = new Map(otherResults.filter(result => result.matchType !== 'skipped').map(result => [recordKey(result), result]));
+
+    const counts: RunComparison['counts'] = { added: 0, removed: 0, rematched: 0, match_type: 0, confidence: 0, unchanged: 0 };
+    const differences: RunDifference[] = [];
+
+    for (const [key, result] of Array.from(after.entries())) {
+      const previous = before.get(key);
+      let change: RunDifference['change'] | null = null;
+      if (!previous) change = 'added';
+      else if (previous.mindatId !== result.mindatId) change = 'rematched';
+      else if (previous.matchType !== result.matchType) change = 'match_type';
+      else if (previous.confidence !== result.confidence) change = 'confidence';
+
+      if (!change) {
+        counts.unchanged++;
+        continue;
+      }
+      counts[change]++;
+      differences.push({ key, title: result.title, change, before: previous ? snapshot(previous) : null, after: snapshot(result) });
+    }
+
+    for (const [key, result] of Array.from(before.entries())) {
+      if (after.has(key)) continue;
+      counts.removed++;
+      differences.push({ key, title: result.title, change: 'removed', before: snapshot(result), after: null });
+    }
+
+    return { base, other, sameInput: base.inputHash === other.inputHash, counts, differences };
+  }
+
+  private async loadMindatRecords(mindatIds: number[]): Promise<Map<number, ReviewMindatRecord>> {
+    if (mindatIds.length === 0) return new Map();
+
+    const rows = await db.select({
+      mindatId: mindatMinerals.mindatId,
+      name: mindatMinerals.name,
+      imaFormula: mindatMinerals.imaFormula,
+      mindatFormula: mindatMinerals.mindatFormula,
+      crystalSystem: mindatMinerals.crystalSystem,
+      strunz10ed1: mindatMinerals.strunz10ed1,
+      strunz10ed2: mindatMinerals.strunz10ed2,
+      strunz10ed3: mindatMinerals.strunz10ed3,
+      strunz10ed4: mindatMinerals.strunz10ed4,
+      imaStatus: mindatMinerals.imaStatus,
+      hardnessMin: mindatMinerals.hardnessMin,
+      hardnessMax: mindatMinerals.hardnessMax,
+      colour: mindatMinerals.colour,
+      streak: mindatMinerals.streak,
+      varietyOf: mindatMinerals.varietyOf,
+      synId: mindatMinerals.synId,
+    })
+      .from(mindatMinerals)
+      .where(inArray(mindatMinerals.mindatId, mindatIds));
+
+    return new Map(rows.map(({ imaFormula, mindatFormula, strunz10ed1, strunz10ed2, strunz10ed3, strunz10ed4, ...row }) => [row.mindatId, {
+      ...row,
+      formula: imaFormula || mindatFormula || null,
+      strunz: formatStrunz([strunz10ed1, strunz10ed2, strunz10ed3, strunz10ed4]) ?? null,
+    }]));
+  }
+
+  private hashFile(filePath: string): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const hash = createHash('sha256');
+      createReadStream(filePath)
+        .on('data', chunk => hash.update(chunk))
+        .on('end', () => resolve(hash.digest('hex')))
+        .on('error', reject);
+    });
+  }
+}
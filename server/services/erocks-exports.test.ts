@@ -0,0 +1,40 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+describe('resolveERocksExport', () => {
+  let dir: string;
+  let exports: typeof import('./erocks-exports');
+
+  beforeAll(async () => {
+    dir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'erocks-exports-')));
+    fs.writeFileSync(path.join(dir, 'minerals.csv'), 'Title\n');
+    vi.stubEnv('EROCKS_EXPORT_DIR', dir);
+    vi.resetModules();
+    exports = await import('./erocks-exports');
+  });
+
+  afterAll(() => {
+    vi.unstubAllEnvs();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('resolves a file name inside the export directory', () => {
+    expect(exports.resolveERocksExport('minerals.csv')).toBe(path.join(dir, 'minerals.csv'));
+    expect(exports.isERocksExportPath(path.join(dir, 'minerals.csv'))).toBe(true);
+  });
+
+  it.each(['../minerals.csv', '/etc/passwd', 'sub/minerals.csv', '..', ''])('rejects %j', (name) => {
+    expect(() => exports.resolveERocksExport(name)).toThrow(exports.ERocksExportError);
+  });
+
+  it('reports a missing file by name only', () => {
+    expect(() => exports.resolveERocksExport('missing.csv')).toThrow(new exports.ERocksExportError('e-Rocks export not found: missing.csv'));
+  });
+
+  it('only accepts job paths directly inside the directory', () => {
+    expect(exports.isERocksExportPath('/etc/passwd')).toBe(false);
+    expect(exports.isERocksExportPath(path.join(dir, 'sub', 'minerals.csv'))).toBe(false);
+  });
+});
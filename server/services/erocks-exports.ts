@@ -0,0 +1,34 @@
+import { existsSync } from 'fs';
+import path from 'path';
+
+// e-Rocks CSV exports are only ever read from this directory
+export const EROCKS_EXPORT_DIR = path.resolve(process.env.EROCKS_EXPORT_DIR || 'attached_assets');
+
+export class ERocksExportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ERocksExportError';
+  }
+}
+
+// True for a path directly inside EROCKS_EXPORT_DIR
+export function isERocksExportPath(filePath: string): boolean {
+  return path.dirname(path.resolve(filePath)) === EROCKS_EXPORT_DIR;
+}
+
+/**
+ * Resolve an export named by a request to its path. Only a bare file name is
+ * accepted, so a request can't read or probe anything outside the export
+ * directory; errors name the file, never the directory.
+ */
+export function resolveERocksExport(name: string): string {
+  if (!name || name !== path.basename(name) || name === '.' || name === '..') {
+    throw new ERocksExportError('e-Rocks export must be a file name in the export directory');
+  }
+
+  const filePath = path.join(EROCKS_EXPORT_DIR, name);
+  if (!existsSync(filePath)) {
+    throw new ERocksExportError(`e-Rocks export not found: ${name}`);
+  }
+  return filePath;
+}
@@ -0,0 +1,137 @@
+import { describe, expect, it } from 'vitest';
+import { readFileSync } from 'fs';
+import {
+  MATCHING_CONFIG_FILE,
+  MatchPipeline,
+  MatchStrategyConfigError,
+  MatchStrategyRegistry,
+  type MatchStrategy,
+  type StrategyContext,
+  type StrategyHit,
+} from './erocks-match-strategies';
+import type { MindatMatchIndex } from './erocks-mindat-index';
+
+const quartz = { mindat_id: 3337, name: 'Quartz' };
+const galena = { mindat_id: 1641, name: 'Galena' };
+
+// Strategies that return fixed hits, so the pipeline can be tested without an index
+function stub(name: string, confidence: number, hits: StrategyHit[] | Error): MatchStrategy {
+  return {
+    name,
+    matchType: 'fuzzy_name',
+    confidence,
+    needsReview: true,
+    find() {
+      if (hits instanceof Error) throw hits;
+      return hits;
+    },
+  };
+}
+
+const registry = MatchStrategyRegistry.getInstance();
+registry.register(stub('test_first', 90, [
+  { row: galena, score: 1, note: 'first: galena' },
+  { row: quartz, score: 0.5, note: 'first: quartz' },
+]));
+registry.register(stub('test_second', 80, [
+  { row: quartz, score: 1, note: 'second: quartz' },
+  { row: galena, score: 1, note: 'second: galena' },
+]));
+registry.register(stub('test_tie', 90, [{ row: galena, score: 1, note: 'tie: galena' }]));
+registry.register(stub('test_broken', 100, new Error('index offline')));
+
+function context(): StrategyContext {
+  return { index: {} as MindatMatchIndex, notes: [] };
+}
+
+const input = { searchName: 'Quartz', viaParent: false };
+
+describe('MatchPipeline.run', () => {
+  it('merges hits on the same record, keeping its best confidence', () => {
+    const candidates = MatchPipeline.fromConfig([{ name: 'test_first' }, { name: 'test_second' }]).run(input, context());
+
+    expect(candidates.map(({ mindatId, confidence, note, strategies }) => ({ mindatId, confidence, note, strategies }))).toEqual([
+      { mindatId: 1641, confidence: 90, note: 'first: galena', strategies: ['test_first', 'test_second'] },
+      { mindatId: 3337, confidence: 80, note: 'second: quartz', strategies: ['test_second', 'test_first'] },
+    ]);
+  });
+
+  it('gives equal confidence to the strategy that runs first', () => {
+    const [galenaCandidate] = MatchPipeline.fromConfig([{ name: 'test_tie' }, { name: 'test_first' }]).run(input, context());
+
+    expect(galenaCandidate.note).toBe('tie: galena');
+    expect(galenaCandidate.strategies).toEqual(['test_tie', 'test_first']);
+  });
+
+  it('applies configured confidence and review settings', () => {
+    const candidates = MatchPipeline.fromConfig([
+      { name: 'test_first', confidence: 33, needsReview: false },
+      { name: 'test_second', enabled: false },
+    ]).run(input, context());
+
+    expect(candidates.map(({ mindatId, confidence, needsReview }) => ({ mindatId, confidence, needsReview }))).toEqual([
+      { mindatId: 1641, confidence: 33, needsReview: false },
+      { mindatId: 3337, confidence: 16.5, needsReview: false },
+    ]);
+  });
+
+  it('notes a failing strategy and carries on', () => {
+    const run = context();
+    const candidates = MatchPipeline.fromConfig([{ name: 'test_broken' }, { name: 'test_second' }]).run(input, run);
+
+    expect(candidates).toHaveLength(2);
+    expect(run.notes).toEqual(['test_broken strategy error: Error: index offline']);
+  });
+
+  it('runs the built-in strategies against the index', () => {
+    const index = {
+      get: (id: number) => (id === 3337 ? quartz : undefined),
+      findByName: (name: string) => (name === 'Quartz' ? [quartz] : []),
+    } as unknown as MindatMatchIndex;
+
+    const [candidate] = MatchPipeline.fromConfig([{ name: 'exact_id' }, { name: 'exact_name' }])
+      .run({ mindatId: '3337', searchName: 'Quartz', viaParent: false }, { index, notes: [] });
+
+    expect(candidate).toMatchObject({ mindatId: 3337, confidence: 100, matchType: 'exact_id', strategies: ['exact_id', 'exact_name'] });
+  });
+
+  const shipped = (JSON.parse(readFileSync(MATCHING_CONFIG_FILE, 'utf8')).strategies as { name: string }[])
+    .filter(entry => ['exact_name', 'name_variants', 'fuzzy_name'].includes(entry.name));
+
+  it.each([
+    ['the defaults', [{ name: 'exact_name' }, { name: 'name_variants' }, { name: 'fuzzy_name' }]],
+    [MATCHING_CONFIG_FILE, shipped],
+  ])('keeps an exact name ahead of a long name one letter away with %s', (_, config) => {
+    const ferro = { mindat_id: 47614, name: 'Potassic-ferro-pargasite' };
+    const ferri = { mindat_id: 47613, name: 'Potassic-ferri-pargasite' };
+    const index = {
+      findByName: (name: string) => (name === ferro.name ? [ferro] : []),
+      findByNormalizedName: () => [],
+      searchNames: () => [ferri, ferro],
+    } as unknown as MindatMatchIndex;
+
+    const candidates = MatchPipeline.fromConfig(config).run({ searchName: ferro.name, viaParent: false }, { index, notes: [] });
+
+    expect(candidates.map(({ mindatId, matchType }) => ({ mindatId, matchType }))).toEqual([
+      { mindatId: 47614, matchType: 'exact_name' },
+      { mindatId: 47613, matchType: 'fuzzy_name' },
+    ]);
+    expect(candidates[1].confidence).toBeLessThan(candidates[0].confidence);
+  });
+});
+
+describe('MatchPipeline.fromConfig', () => {
+  it('runs every registered strategy without a config', () => {
+    expect(MatchPipeline.fromConfig().getStrategyNames()).toEqual(registry.getNames());
+  });
+
+  it.each([
+    [[{ name: 'nope' }], /Unknown match strategy "nope"/],
+    [[{ name: 'exact_id' }, { name: 'exact_id' }], /listed twice/],
+    [[{ name: 'exact_id', confidence: 101 }], /from 0 to 100/],
+    [[{ name: 'exact_id', needsReview: 'yes' as unknown as boolean }], /true or false/],
+  ])('rejects %j', (config, message) => {
+    expect(() => MatchPipeline.fromConfig(config)).toThrow(MatchStrategyConfigError);
+    expect(() => MatchPipeline.fromConfig(config)).toThrow(message);
+  });
+});
@@ -0,0 +1,481 @@
+import { existsSync, readFileSync } from 'fs';
+import type { MindatMatchIndex } from './erocks-mindat-index';
+
+export const MATCHING_CONFIG_FILE = 'config/erocks-matching.json';
+
+// What a strategy reports a record as matched by; overrides and misses are decided elsewhere
+export type StrategyMatchType = 'exact_id' | 'exact_name' | 'fuzzy_name' | 'formula' | 'rruff';
+
+// The parts of an e-Rocks record the strategies look at
+export interface MatchInput {
+  mindatId?: string; // The record's own Mindat ID column
+  formula?: string;
+  searchName?: string; // The parent's name for varieties and synonyms, otherwise the title
+  viaParent: boolean;
+}
+
+export interface StrategyContext {
+  index: MindatMatchIndex; // Loaded once per run; strategies only read it
+  notes: string[]; // Anything worth keeping with the match, whoever wins
+}
+
+export interface StrategyHit {
+  row: Record<string, any>; // A mindat_minerals row
+  score: number; // 0-1; the candidate's confidence is the strategy's times this
+  note: string;
+}
+
+export interface MatchStrategy {
+  name: string;
+  matchType: StrategyMatchType;
+  confidence: number; // Default, 0-100
+  needsReview: boolean; // Whether a win by this strategy alone needs a reviewer
+  find(input: MatchInput, context: StrategyContext): StrategyHit[];
+}
+
+// One entry of config/erocks-matching.json; order in the file is run order
+export interface StrategyConfig {
+  name: string;
+  confidence?: number;
+  needsReview?: boolean;
+  enabled?: boolean;
+}
+
+export interface ScoredCandidate {
+  row: Record<string, any>;
+  mindatId: number;
+  confidence: number;
+  matchType: StrategyMatchType;
+  needsReview: boolean;
+  note: string;
+  strategies: string[]; // Every strategy that found this record, best first
+}
+
+export class MatchStrategyConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MatchStrategyConfigError';
+  }
+}
+
+/**
+ * Normalize mineral name for comparison
+ * Handles UTF-8 special characters, diacritics, and variations
+ */
+export function normalizeName(name: string): string {
+  if (!name) return '';
+
+  return name
+    .toLowerCase()
+    // Normalize Unicode (decompose accented characters)
+    .normalize('NFD')
+    // Remove diacritics/accents
+    .replace(/[\u0300-\u036f]/g, '')
+    // Handle special mineral name characters
+    .replace(/[-()\s]/g, '')
+    .replace(/['']/g, '') // Remove quotes
+    // Remove common prefixes
+    .replace(/^var\.|^variety\s+|^type\s+/i, '')
+    // Handle Greek letters that might appear
+    .replace(/α/g, 'alpha')
+    .replace(/β/g, 'beta')
+    .replace(/γ/g, 'gamma')
+    .replace(/δ/g, 'delta')
+    // Remove any remaining non-alphanumeric except essential chars
+    .replace(/[^\w]/g, '')
+    .trim();
+}
+
+/**
+ * Normalize chemical formula for comparison
+ * Handles UTF-8 subscripts, superscripts, and special characters
+ */
+export function normalizeFormula(formula: string): string {
+  if (!formula) return '';
+
+  return formula
+    // Mindat formulas carry HTML sub/superscripts
+    .replace(/<[^>]+>/g, '')
+    // Normalize Unicode
+    .normalize('NFD')
+    // Remove spaces
+    .replace(/\s+/g, '')
+    // Convert subscript numbers to regular
+    .replace(/₀/g, '0').replace(/₁/g, '1').replace(/₂/g, '2')
+    .replace(/₃/g, '3').replace(/₄/g, '4').replace(/₅/g, '5')
+    .replace(/₆/g, '6').replace(/₇/g, '7').replace(/₈/g, '8')
+    .replace(/₉/g, '9')
+    // Convert superscript numbers to regular (for charges)
+    .replace(/⁰/g, '0').replace(/¹/g, '1').replace(/²/g, '2')
+    .replace(/³/g, '3').replace(/⁴/g, '4').replace(/⁵/g, '5')
+    .replace(/⁶/g, '6').replace(/⁷/g, '7').replace(/⁸/g, '8')
+    .replace(/⁹/g, '9')
+    // Handle special charge symbols
+    .replace(/⁺/g, '+').replace(/⁻/g, '-')
+    // Standardize hydration notation
+    .replace(/·/g, '.').replace(/•/g, '.')
+    .trim();
+}
+
+/**
+ * Create multiple normalized variants of a name for better matching
+ */
+export function getNameVariants(name: string): string[] {
+  const variants = new Set<string>();
+
+  // Original normalized
+  variants.add(normalizeName(name));
+
+  // Without numbers
+  variants.add(normalizeName(name).replace(/\d+/g, ''));
+
+  // Without common suffixes like -(Ce), -(Nd), etc.
+  const withoutSuffix = name.replace(/[-‐]\([A-Z][a-z]?\)$/i, '');
+  if (withoutSuffix !== name) {
+    variants.add(normalizeName(withoutSuffix));
+  }
+
+  // Handle cases like "Fergusonite-(Nd)" → "Fergusonite"
+  const baseName = name.split(/[-‐(]/)[0];
+  if (baseName !== name) {
+    variants.add(normalizeName(baseName));
+  }
+
+  return Array.from(variants).filter(v => v.length > 0);
+}
+
+/**
+ * Calculate simple similarity score between two strings
+ */
+export function similarityScore(str1: string, str2: string): number {
+  const s1 = str1.toLowerCase();
+  const s2 = str2.toLowerCase();
+
+  if (s1 === s2) return 100;
+
+  // Levenshtein distance approximation
+  const longer = s1.length > s2.length ? s1 : s2;
+  const shorter = s1.length > s2.length ? s2 : s1;
+
+  if (longer.length === 0) return 100;
+
+  const editDistance = getEditDistance(s1, s2);
+  return ((longer.length - editDistance) / longer.length) * 100;
+}
+
+function getEditDistance(s1: string, s2: string): number {
+  const costs: number[] = [];
+  for (let i = 0; i <= s1.length; i++) {
+    let lastValue = i;
+    for (let j = 0; j <= s2.length; j++) {
+      if (i === 0) {
+        costs[j] = j;
+      } else if (j > 0) {
+        let newValue = costs[j - 1];
+        if (s1.charAt(i - 1) !== s2.charAt(j - 1)) {
+          newValue = Math.min(Math.min(newValue, lastValue), costs[j]) + 1;
+        }
+        costs[j - 1] = lastValue;
+        lastValue = newValue;
+      }
+    }
+    if (i > 0) costs[s2.length] = lastValue;
+  }
+  return costs[s2.length];
+}
+
+const exactIdStrategy: MatchStrategy = {
+  name: 'exact_id',
+  matchType: 'exact_id',
+  confidence: 100,
+  needsReview: false,
+  find({ mindatId }, { index, notes }) {
+    if (!mindatId) return [];
+    // "ER" IDs were not originally on Mindat; name and formula may still find them
+    if (mindatId.toUpperCase().startsWith('ER')) {
+      notes.push(`ER-prefixed ID detected (${mindatId}). Will try name/formula matching instead.`);
+      return [];
+    }
+
+    const parsedId = parseInt(mindatId);
+    if (isNaN(parsedId)) return [];
+
+    const row = index.get(parsedId);
+    if (!row) {
+      notes.push(`Mindat ID ${mindatId} not found in approved minerals`);
+      return [];
+    }
+    return [{ row, score: 1, note: `Matched by Mindat ID: ${mindatId}` }];
+  },
+};
+
+const exactNameStrategy: MatchStrategy = {
+  name: 'exact_name',
+  matchType: 'exact_name',
+  confidence: 95,
+  needsReview: false,
+  find({ searchName, viaParent }, { index }) {
+    if (!searchName) return [];
+
+    const rows = index.findByName(searchName);
+    const note = viaParent
+      ? `Matched by exact name: ${searchName} (parent mineral for variety/synonym)`
+      : `Matched by exact name: ${searchName}`;
+    return rows.map(row => ({ row, score: 1, note }));
+  },
+};
+
+const nameVariantsStrategy: MatchStrategy = {
+  name: 'name_variants',
+  matchType: 'fuzzy_name',
+  confidence: 88,
+  needsReview: true,
+  find({ searchName }, { index, notes }) {
+    if (!searchName) return [];
+
+    const nameVariants = getNameVariants(searchName);
+    notes.push(`Trying ${nameVariants.length} name variants: ${nameVariants.slice(0, 3).join(', ')}...`);
+
+    const hits: StrategyHit[] = [];
+    for (const variant of nameVariants) {
+      for (const row of index.findByNormalizedName(variant)) {
+        hits.push({ row, score: 1, note: `Matched by normalized variant: "${searchName}" → "${row.name}"` });
+      }
+    }
+    return hits;
+  },
+};
+
+// Confidence is scaled by name similarity; identical names are exact_name's.
+// Kept below exact_name and name_variants, so a long name one letter away
+// from a different mineral never outranks the exact hit
+const fuzzyNameStrategy: MatchStrategy = {
+  name: 'fuzzy_name',
+  matchType: 'fuzzy_name',
+  confidence: 85,
+  needsReview: true,
+  find({ searchName }, { index }) {
+    if (!searchName) return [];
+
+    // The ten shortest names containing the first ten characters
+    const rows = index.searchNames(searchName.substring(0, Math.min(searchName.length, 10)));
+
+    const hits: StrategyHit[] = [];
+    for (const row of rows) {
+      if (row.name.toLowerCase() === searchName.toLowerCase()) continue;
+      const score = similarityScore(searchName, row.name);
+      if (score > 80) {
+        hits.push({ row, score: score / 100, note: `Fuzzy match: "${searchName}" → "${row.name}" (${score.toFixed(1)}% similar)` });
+      }
+    }
+    return hits;
+  },
+};
+
+const formulaStrategy: MatchStrategy = {
+  name: 'formula',
+  matchType: 'formula',
+  confidence: 80,
+  needsReview: true,
+  find({ formula }, { index }) {
+    if (!formula) return [];
+
+    const rows = index.findByFormula(formula);
+    return rows.map(row => ({ row, score: 1, note: `Exact formula match: ${formula}` }));
+  },
+};
+
+// Handles UTF-8 subscripts, superscripts and hydration dots
+const normalizedFormulaStrategy: MatchStrategy = {
+  name: 'formula_normalized',
+  matchType: 'formula',
+  confidence: 75,
+  needsReview: true,
+  find({ formula }, { index }) {
+    const normalized = formula ? normalizeFormula(formula) : '';
+    if (!normalized) return [];
+
+    const rows = index.findByNormalizedFormula(normalized);
+    return rows.map(row => ({ row, score: 1, note: `Normalized formula match: "${formula}" → "${row.ima_formula || row.mindat_formula}"` }));
+  },
+};
+
+// RRUFF minerals of the same name that the RRUFF ↔ Mindat linking job has linked; scaled by its confidence
+const rruffStrategy: MatchStrategy = {
+  name: 'rruff',
+  matchType: 'rruff',
+  confidence: 90,
+  needsReview: true,
+  find({ searchName }, { index }) {
+    if (!searchName) return [];
+
+    const hits: StrategyHit[] = [];
+    for (const link of index.rruffLinks(searchName)) {
+      const row = index.get(link.mindatId);
+      if (!row) continue;
+      hits.push({
+        row,
+        score: link.confidence ?? 1,
+        note: `RRUFF "${link.rruffName}" is linked to Mindat "${row.name}" (${link.method})`,
+      });
+    }
+    return hits;
+  },
+};
+
+/**
+ * The matching strategies ERocksDataEnrichment can use, by name. The
+ * built-in ones are registered in their default run order; register more
+ * before building a pipeline.
+ */
+export class MatchStrategyRegistry {
+  private static instance: MatchStrategyRegistry;
+  private strategies = new Map<string, MatchStrategy>();
+
+  private constructor() {
+    for (const strategy of [
+      exactIdStrategy,
+      exactNameStrategy,
+      rruffStrategy,
+      nameVariantsStrategy,
+      fuzzyNameStrategy,
+      formulaStrategy,
+      normalizedFormulaStrategy,
+    ]) {
+      this.register(strategy);
+    }
+  }
+
+  static getInstance(): MatchStrategyRegistry {
+    if (!MatchStrategyRegistry.instance) {
+      MatchStrategyRegistry.instance = new MatchStrategyRegistry();
+    }
+    return MatchStrategyRegistry.instance;
+  }
+
+  register(strategy: MatchStrategy): void {
+    if (this.strategies.has(strategy.name)) {
+      throw new Error(`Match strategy "${strategy.name}" is already registered`);
+    }
+    this.strategies.set(strategy.name, strategy);
+  }
+
+  get(name: string): MatchStrategy | undefined {
+    return this.strategies.get(name);
+  }
+
+  getNames(): string[] {
+    return Array.from(this.strategies.keys());
+  }
+}
+
+/**
+ * Runs every configured strategy over a record and merges what they found
+ * into one candidate list, best first. A record found by several strategies
+ * keeps its highest confidence; equal confidence goes to the strategy that
+ * runs first.
+ */
+export class MatchPipeline {
+  private constructor(private steps: MatchStrategy[]) {}
+
+  /**
+   * Without a config every registered strategy runs at its defaults. With
+   * one, only the strategies it lists run, in its order.
+   */
+  static fromConfig(config?: StrategyConfig[]): MatchPipeline {
+    const registry = MatchStrategyRegistry.getInstance();
+    if (!config) {
+      return new MatchPipeline(registry.getNames().map(name => registry.get(name)!));
+    }
+
+    const steps: MatchStrategy[] = [];
+    for (const entry of config) {
+      const strategy = registry.get(entry?.name);
+      if (!strategy) {
+        throw new MatchStrategyConfigError(`Unknown match strategy "${entry?.name}"; expected one of: ${registry.getNames().join(', ')}`);
+      }
+      if (steps.some(step => step.name === strategy.name)) {
+        throw new MatchStrategyConfigError(`Match strategy "${strategy.name}" is listed twice`);
+      }
+      if (entry.confidence !== undefined && (typeof entry.confidence !== 'number' || entry.confidence < 0 || entry.confidence > 100)) {
+        throw new MatchStrategyConfigError(`confidence for "${strategy.name}" must be a number from 0 to 100`);
+      }
+      if (entry.needsReview !== undefined && typeof entry.needsReview !== 'boolean') {
+        throw new MatchStrategyConfigError(`needsReview for "${strategy.name}" must be true or false`);
+      }
+      if (entry.enabled === false) continue;
+
+      steps.push({
+        ...strategy,
+        confidence: entry.confidence ?? strategy.confidence,
+        needsReview: entry.needsReview ?? strategy.needsReview,
+      });
+    }
+    return new MatchPipeline(steps);
+  }
+
+  // config/erocks-matching.json if there is one, otherwise the defaults
+  static fromFile(filePath = MATCHING_CONFIG_FILE): MatchPipeline {
+    if (!existsSync(filePath)) return MatchPipeline.fromConfig();
+
+    let strategies: unknown;
+    try {
+      strategies = JSON.parse(readFileSync(filePath, 'utf8')).strategies;
+    } catch (error: any) {
+      throw new MatchStrategyConfigError(`Cannot read ${filePath}: ${error.message}`);
+    }
+    if (!Array.isArray(strategies)) {
+      throw new MatchStrategyConfigError(`${filePath}: "strategies" must be a list`);
+    }
+    return MatchPipeline.fromConfig(strategies);
+  }
+
+  getStrategyNames(): string[] {
+    return this.steps.map(step => step.name);
+  }
+
+  run(input: MatchInput, context: StrategyContext): ScoredCandidate[] {
+    const byMindatId = new Map<number, ScoredCandidate>();
+
+    for (const strategy of this.steps) {
+      let hits: StrategyHit[];
+      try {
+        hits = strategy.find(input, context);
+      } catch (error) {
+        context.notes.push(`${strategy.name} strategy error: ${error}`);
+        continue;
+      }
+
+      for (const hit of hits) {
+        const mindatId = hit.row.mindat_id as number;
+        const confidence = Math.round(strategy.confidence * hit.score * 10) / 10;
+        const existing = byMindatId.get(mindatId);
+
+        if (!existing) {
+          byMindatId.set(mindatId, {
+            row: hit.row,
+            mindatId,
+            confidence,
+            matchType: strategy.matchType,
+            needsReview: strategy.needsReview,
+            note: hit.note,
+            strategies: [strategy.name],
+          });
+        } else if (confidence > existing.confidence) {
+          Object.assign(existing, {
+            confidence,
+            matchType: strategy.matchType,
+            needsReview: strategy.needsReview,
+            note: hit.note,
+            strategies: [strategy.name, ...existing.strategies.filter(name => name !== strategy.name)],
+          });
+        } else if (!existing.strategies.includes(strategy.name)) {
+          existing.strategies.push(strategy.name);
+        }
+      }
+    }
+
+    // Stable, so equal confidence keeps the order the records were found in
+    return Array.from(byMindatId.values()).sort((a, b) => b.confidence - a.confidence);
+  }
+}
@@ -0,0 +1,139 @@
+import { normalizeFormula, normalizeName } from './erocks-match-strategies';
+
+export type MindatQuery = (strings: TemplateStringsArray, ...values: unknown[]) => Promise<Record<string, any>[]>;
+
+// A linked rruff_minerals row, as the rruff strategy uses it
+export interface RruffLink {
+  mindatId: number;
+  rruffName: string;
+  method: string | null;
+  confidence: number | null;
+}
+
+const PAGE_SIZE = 10000;
+
+function addTo<T>(map: Map<string, T[]>, key: string | null | undefined, value: T): void {
+  if (!key) return;
+  const values = map.get(key);
+  if (!values) map.set(key, [value]);
+  else if (!values.includes(value)) values.push(value);
+}
+
+/**
+ * mindat_minerals held in memory for a whole enrichment run, indexed the
+ * ways the matching strategies look records up. Loading takes a handful of
+ * paged queries; every lookup after that is a map read. Rows are loaded in
+ * Mindat ID order and every list keeps that order, so the same data always
+ * gives the same matches.
+ */
+export class MindatMatchIndex {
+  private byId = new Map<number, Record<string, any>>();
+  private byName = new Map<string, Record<string, any>[]>(); // Lower-cased
+  private byNormalizedName = new Map<string, Record<string, any>[]>();
+  private byFormula = new Map<string, Record<string, any>[]>();
+  private byNormalizedFormula = new Map<string, Record<string, any>[]>();
+  private rruffByName = new Map<string, RruffLink[]>();
+  private byLength: { name: string; row: Record<string, any> }[] = []; // Shortest name first, for fuzzy search
+
+  private constructor() {}
+
+  static async load(query: MindatQuery): Promise<MindatMatchIndex> {
+    const index = new MindatMatchIndex();
+
+    // Only the columns matching, conflict checks and the UPDATE export read
+    let lastId = 0;
+    while (true) {
+      const rows = await query`
+        SELECT mindat_id, name, ima_formula, mindat_formula, crystal_system, ima_status, ima_symbol,
+          publication_year, approval_year, ima_year, strunz10ed1, strunz10ed2, strunz10ed3, strunz10ed4,
+          hardness_min, hardness_max, colour, color, streak, tenacity, description_short,
+          variety_of, syn_id, polytype_of, group_id
+        FROM mindat_minerals
+        WHERE mindat_id > ${lastId}
+        ORDER BY mindat_id
+        LIMIT ${PAGE_SIZE}
+      `;
+      if (rows.length === 0) break;
+
+      for (const row of rows) index.add(row);
+      lastId = rows[rows.length - 1].mindat_id;
+    }
+
+    const links = await query`
+      SELECT mindat_id, mineral_name, match_method, match_confidence
+      FROM rruff_minerals
+      WHERE enrichment_status = 'linked' AND mindat_id IS NOT NULL
+      ORDER BY id
+    `;
+    for (const link of links) {
+      addTo(index.rruffByName, link.mineral_name?.toLowerCase(), {
+        mindatId: link.mindat_id,
+        rruffName: link.mineral_name,
+        method: link.match_method,
+        confidence: link.match_confidence,
+      });
+    }
+
+    index.byLength.sort((a, b) => a.name.length - b.name.length || a.row.mindat_id - b.row.mindat_id);
+    return index;
+  }
+
+  get size(): number {
+    return this.byId.size;
+  }
+
+  get(mindatId: number): Record<string, any> | undefined {
+    return this.byId.get(mindatId);
+  }
+
+  findByName(name: string, limit = 5): Record<string, any>[] {
+    return (this.byName.get(name.toLowerCase()) ?? []).slice(0, limit);
+  }
+
+  // `normalized` is already through normalizeName
+  findByNormalizedName(normalized: string, limit = 5): Record<string, any>[] {
+    return (this.byNormalizedName.get(normalized) ?? []).slice(0, limit);
+  }
+
+  // Matches the IMA or the Mindat formula
+  findByFormula(formula: string, limit = 5): Record<string, any>[] {
+    return (this.byFormula.get(formula) ?? []).slice(0, limit);
+  }
+
+  // `normalized` is already through normalizeFormula
+  findByNormalizedFormula(normalized: string, limit = 5): Record<string, any>[] {
+    return (this.byNormalizedFormula.get(normalized) ?? []).slice(0, limit);
+  }
+
+  // Names containing `fragment`, case-insensitively, shortest first
+  searchNames(fragment: string, limit = 10): Record<string, any>[] {
+    const needle = fragment.toLowerCase();
+    const rows: Record<string, any>[] = [];
+    for (const entry of this.byLength) {
+      if (!entry.name.includes(needle)) continue;
+      rows.push(entry.row);
+      if (rows.length === limit) break;
+    }
+    return rows;
+  }
+
+  rruffLinks(name: string, limit = 5): RruffLink[] {
+    return (this.rruffByName.get(name.toLowerCase()) ?? []).slice(0, limit);
+  }
+
+  private add(row: Record<string, any>): void {
+    this.byId.set(row.mindat_id, row);
+    if (!row.name) return;
+
+    const name = row.name.toLowerCase();
+    addTo(this.byName, name, row);
+    addTo(this.byNormalizedName, normalizeName(row.name), row);
+    this.byLength.push({ name, row });
+
+    for (const formula of [row.ima_formula, row.mindat_formula]) {
+      if (!formula) continue;
+      addTo(this.byFormula, formula, row);
+      addTo(this.byNormalizedFormula, normalizeFormula(formula), row);
+    }
+  }
+}
@@ -0,0 +1,287 @@
+import { db } from '../db';
+import {
+  erocksMatchResults,
+  erocksOverrides,
+  mindatMinerals,
+  type ERocksOverride,
+  type InsertERocksOverride,
+} from '@shared/schema';
+import { and, asc, eq, gt, ilike, isNull, or, type SQL } from 'drizzle-orm';
+import fs from 'fs/promises';
+
+export type OverrideAction = 'skip' | 'match' | 'no_match';
+
+export const OVERRIDE_ACTIONS: OverrideAction[] = ['skip', 'match', 'no_match'];
+
+export const EXCEPTIONS_FILE = 'config/erocks-exceptions.json';
+
+// Author recorded for file entries that do not name one
+const FILE_AUTHOR = 'erocks-exceptions.json';
+
+export interface OverrideInput {
+  nid?: string;
+  action?: string;
+  mindatId?: number | null;
+  reason?: string;
+  author?: string;
+  expiresAt?: string | Date | null;
+}
+
+export interface OverrideImportResult {
+  imported: number;
+  updated: number;
+  removed: number; // File entries no longer in the file
+  kept: number; // Nids the file names that already have an API or review override
+  errors: string[];
+}
+
+// An entry of config/erocks-exceptions.json, keyed by Nid
+interface ExceptionsFileEntry {
+  action?: string;
+  preferredMatch?: number;
+  reason?: string;
+  author?: string;
+  expiresAt?: string;
+}
+
+export class ERocksOverrideError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ERocksOverrideError';
+  }
+}
+
+/**
+ * Manual e-Rocks overrides keyed by Nid. The matcher loads the active ones
+ * at the start of a run; config/erocks-exceptions.json is imported into the
+ * same table so file and API entries are validated alike.
+ */
+export class ERocksOverrides {
+  private static instance: ERocksOverrides;
+
+  private constructor() {}
+
+  static getInstance(): ERocksOverrides {
+    if (!ERocksOverrides.instance) {
+      ERocksOverrides.instance = new ERocksOverrides();
+    }
+    return ERocksOverrides.instance;
+  }
+
+  async listOverrides(filters: {
+    action?: string;
+    search?: string; // Nid or reason
+    includeExpired?: boolean;
+    limit?: number;
+    offset?: number;
+  } = {}): Promise<ERocksOverride[]> {
+    const conditions: SQL[] = [];
+    if (filters.action) conditions.push(eq(erocksOverrides.action, filters.action));
+    if (filters.search) {
+      conditions.push(or(
+        eq(erocksOverrides.nid, filters.search),
+        ilike(erocksOverrides.reason, `%${filters.search}%`),
+      )!);
+    }
+    if (!filters.includeExpired) {
+      conditions.push(or(isNull(erocksOverrides.expiresAt), gt(erocksOverrides.expiresAt, new Date()))!);
+    }
+
+    return db.select()
+      .from(erocksOverrides)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(asc(erocksOverrides.nid))
+      .limit(filters.limit ?? 100)
+      .offset(filters.offset ?? 0);
+  }
+
+  async getOverride(id: number): Promise<ERocksOverride | null> {
+    const [override] = await db.select().from(erocksOverrides).where(eq(erocksOverrides.id, id));
+    return override ?? null;
+  }
+
+  // Unexpired overrides by Nid, as the matcher applies them
+  async getActiveOverrides(): Promise<Map<string, ERocksOverride>> {
+    const overrides = await db.select()
+      .from(erocksOverrides)
+      .where(or(isNull(erocksOverrides.expiresAt), gt(erocksOverrides.expiresAt, new Date())));
+    return new Map(overrides.map(override => [override.nid, override]));
+  }
+
+  async createOverride(input: OverrideInput): Promise<ERocksOverride> {
+    const values = await this.validate(input);
+    const [override] = await db.insert(erocksOverrides).values({ ...values, source: 'api' }).returning();
+    return override;
+  }
+
+  // Partial update. A file entry edited here belongs to the API from then on.
+  async updateOverride(id: number, input: OverrideInput): Promise<ERocksOverride | null> {
+    const existing = await this.getOverride(id);
+    if (!existing) return null;
+
+    // Switching away from match drops the Mindat ID unless one is sent
+    const mindatId = input.action !== undefined && input.action !== 'match' ? null : existing.mindatId;
+    const values = await this.validate({ ...existing, mindatId, ...input }, id);
+    const [override] = await db.update(erocksOverrides)
+      .set({ ...values, source: existing.source === 'file' ? 'api' : existing.source, updatedAt: new Date() })
+      .where(eq(erocksOverrides.id, id))
+      .returning();
+    return override;
+  }
+
+  async deleteOverride(id: number): Promise<boolean> {
+    const deleted = await db.delete(erocksOverrides).where(eq(erocksOverrides.id, id)).returning({ id: erocksOverrides.id });
+    return deleted.length > 0;
+  }
+
+  /**
+   * Turn a workbench decision into a permanent override for its Nid:
+   * approved and corrected pin the Mindat ID, rejected becomes no_match.
+   * Replaces any override the Nid already has.
+   */
+  async promoteReview(matchResultId: number, input: Pick<OverrideInput, 'reason' | 'author' | 'expiresAt'>): Promise<ERocksOverride | null> {
+    const [result] = await db.select().from(erocksMatchResults).where(eq(erocksMatchResults.id, matchResultId));
+    if (!result) return null;
+    if (!result.nid) {
+      throw new ERocksOverrideError('Only records with a Nid can have an override');
+    }
+
+    let decision: Pick<OverrideInput, 'action' | 'mindatId'>;
+    if (result.reviewStatus === 'corrected') decision = { action: 'match', mindatId: result.reviewedMindatId };
+    else if (result.reviewStatus === 'approved' && result.mindatId !== null) decision = { action: 'match', mindatId: result.mindatId };
+    else if (result.reviewStatus === 'approved' || result.reviewStatus === 'rejected') decision = { action: 'no_match', mindatId: null };
+    else throw new ERocksOverrideError('Only approved, rejected or corrected matches can become overrides');
+
+    const [existing] = await db.select({ id: erocksOverrides.id }).from(erocksOverrides).where(eq(erocksOverrides.nid, result.nid));
+    const values = {
+      ...await this.validate({ ...input, ...decision, nid: result.nid, reason: input.reason ?? result.reviewNote ?? undefined }, existing?.id),
+      source: 'review',
+      matchResultId,
+    };
+
+    const [override] = existing
+      ? await db.update(erocksOverrides).set({ ...values, updatedAt: new Date() }).where(eq(erocksOverrides.id, existing.id)).returning()
+      : await db.insert(erocksOverrides).values(values).returning();
+    return override;
+  }
+
+  /**
+   * Bring the file's entries into the table. The file owns the rows it
+   * created: they are updated from it and removed when it drops them.
+   * Nids already overridden through the API or a review are left alone.
+   * Invalid entries are reported and skipped.
+   */
+  async importFile(filePath = EXCEPTIONS_FILE): Promise<OverrideImportResult> {
+    const result: OverrideImportResult = { imported: 0, updated: 0, removed: 0, kept: 0, errors: [] };
+
+    let entries: Record<string, ExceptionsFileEntry>;
+    try {
+      const parsed = JSON.parse(await fs.readFile(filePath, 'utf8'));
+      entries = parsed?.exceptions ?? {};
+      if (typeof entries !== 'object' || Array.isArray(entries)) throw new Error('"exceptions" must be an object keyed by Nid');
+    } catch (error: any) {
+      throw new ERocksOverrideError(`Cannot read ${filePath}: ${error.message}`);
+    }
+
+    const existing = new Map((await db.select().from(erocksOverrides)).map(override => [override.nid, override]));
+
+    for (const [nid, entry] of Object.entries(entries)) {
+      const owner = existing.get(nid.trim());
+      if (owner && owner.source !== 'file') {
+        result.kept++;
+        continue;
+      }
+
+      try {
+        const values = await this.validate({
+          nid,
+          action: entry.preferredMatch !== undefined ? 'match' : entry.action,
+          mindatId: entry.preferredMatch ?? null,
+          reason: entry.reason,
+          author: entry.author ?? FILE_AUTHOR,
+          expiresAt: entry.expiresAt ?? null,
+        }, owner?.id);
+
+        if (owner) {
+          await db.update(erocksOverrides).set({ ...values, updatedAt: new Date() }).where(eq(erocksOverrides.id, owner.id));
+          result.updated++;
+        } else {
+          await db.insert(erocksOverrides).values({ ...values, source: 'file' });
+          result.imported++;
+        }
+      } catch (error: any) {
+        result.errors.push(`${nid}: ${error.message}`);
+      }
+    }
+
+    const fileNids = new Set(Object.keys(entries).map(nid => nid.trim()));
+    for (const override of Array.from(existing.values())) {
+      if (override.source === 'file' && !fileNids.has(override.nid)) {
+        await db.delete(erocksOverrides).where(eq(erocksOverrides.id, override.id));
+        result.removed++;
+      }
+    }
+
+    return result;
+  }
+
+  private async validate(input: OverrideInput, id?: number): Promise<Omit<InsertERocksOverride, 'source' | 'matchResultId'>> {
+    const nid = typeof input.nid === 'string' ? input.nid.trim() : '';
+    if (!nid) {
+      throw new ERocksOverrideError('nid is required');
+    }
+
+    const [sameNid] = await db.select({ id: erocksOverrides.id })
+      .from(erocksOverrides)
+      .where(eq(erocksOverrides.nid, nid))
+      .limit(1);
+    if (sameNid && sameNid.id !== id) {
+      throw new ERocksOverrideError(`Nid ${nid} already has override #${sameNid.id}`);
+    }
+
+    const action = input.action as OverrideAction;
+    if (!OVERRIDE_ACTIONS.includes(action)) {
+      throw new ERocksOverrideError(`action must be one of: ${OVERRIDE_ACTIONS.join(', ')}`);
+    }
+
+    let mindatId: number | null = null;
+    if (action === 'match') {
+      if (!Number.isInteger(input.mindatId)) {
+        throw new ERocksOverrideError('match needs a mindatId');
+      }
+      const [mineral] = await db.select({ mindatId: mindatMinerals.mindatId })
+        .from(mindatMinerals)
+        .where(eq(mindatMinerals.mindatId, input.mindatId!))
+        .limit(1);
+      if (!mineral) {
+        throw new ERocksOverrideError(`Mindat ID ${input.mindatId} is not in mindat_minerals`);
+      }
+      mindatId = mineral.mindatId;
+    } else if (input.mindatId !== undefined && input.mindatId !== null) {
+      throw new ERocksOverrideError(`mindatId only applies to match, not ${action}`);
+    }
+
+    const reason = typeof input.reason === 'string' ? input.reason.trim() : '';
+    if (!reason) {
+      throw new ERocksOverrideError('reason is required');
+    }
+
+    const author = typeof input.author === 'string' ? input.author.trim() : '';
+    if (!author) {
+      throw new ERocksOverrideError('author is required');
+    }
+    if (author.length > 100) {
+      throw new ERocksOverrideError('author must be at most 100 characters');
+    }
+
+    let expiresAt: Date | null = null;
+    if (input.expiresAt !== undefined && input.expiresAt !== null && input.expiresAt !== '') {
+      expiresAt = new Date(input.expiresAt);
+      if (isNaN(expiresAt.getTime())) {
+        throw new ERocksOverrideError(`Invalid expiresAt "${input.expiresAt}"`);
+      }
+    }
+
+    return { nid, action, mindatId, reason, author, expiresAt };
+  }
+}
@@ -0,0 +1,40 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+describe('resolveImportFile', () => {
+  let dir: string;
+  let files: typeof import('./import-files');
+
+  beforeAll(async () => {
+    dir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'import-files-')));
+    fs.writeFileSync(path.join(dir, 'mindatdump.csv'), 'mindat_id\n');
+    vi.stubEnv('IMPORT_DIR', dir);
+    vi.resetModules();
+    files = await import('./import-files');
+  });
+
+  afterAll(() => {
+    vi.unstubAllEnvs();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('resolves a file name inside the import directory', () => {
+    expect(files.resolveImportFile('mindatdump.csv')).toBe(path.join(dir, 'mindatdump.csv'));
+    expect(files.isImportFilePath(path.join(dir, 'mindatdump.csv'))).toBe(true);
+  });
+
+  it.each(['../mindatdump.csv', '/etc/passwd', 'sub/mindatdump.csv', '..', ''])('rejects %j', (name) => {
+    expect(() => files.resolveImportFile(name)).toThrow(files.ImportFileError);
+  });
+
+  it('reports a missing file by name only', () => {
+    expect(() => files.resolveImportFile('missing.csv')).toThrow(new files.ImportFileError('Import file not found: missing.csv'));
+  });
+
+  it('only accepts job paths directly inside the directory', () => {
+    expect(files.isImportFilePath('/etc/passwd')).toBe(false);
+    expect(files.isImportFilePath(path.join(dir, '..', 'mindatdump.csv'))).toBe(false);
+  });
+});
@@ -0,0 +1,33 @@
+import { existsSync } from 'fs';
+import path from 'path';
+
+// CSV imports queued from the API only read files in this directory
+export const IMPORT_DIR = path.resolve(process.env.IMPORT_DIR || 'attached_assets');
+
+export class ImportFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImportFileError';
+  }
+}
+
+// True for a path directly inside IMPORT_DIR
+export function isImportFilePath(filePath: string): boolean {
+  return path.dirname(path.resolve(filePath)) === IMPORT_DIR;
+}
+
+/**
+ * The path of an import file a request names. Only a bare file name is
+ * accepted, and errors name the file but never the directory.
+ */
+export function resolveImportFile(name: string): string {
+  if (!name || name !== path.basename(name) || name === '.' || name === '..') {
+    throw new ImportFileError('Import file must be a file name in the import directory');
+  }
+
+  const filePath = path.join(IMPORT_DIR, name);
+  if (!existsSync(filePath)) {
+    throw new ImportFileError(`Import file not found: ${name}`);
+  }
+  return filePath;
+}
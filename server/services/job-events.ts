@@ -0,0 +1,46 @@
+import { EventEmitter } from 'events';
+import type { SyncJob } from '@shared/schema';
+import type { SyncJobEvent, SyncJobEventPayload } from '@shared/sync-events';
+
+type JobEventListener = (event: SyncJobEvent) => void;
+
+/**
+ * Fans job events out to SSE subscribers. Jobs only ever run inside the
+ * server process, so an in-process emitter is all the transport we need;
+ * nothing is buffered, and clients reconnecting start from a fresh snapshot.
+ */
+export class JobEventBus {
+  private static instance: JobEventBus;
+  private emitter = new EventEmitter();
+
+  private constructor() {
+    // One listener per open stream
+    this.emitter.setMaxListeners(0);
+  }
+
+  static getInstance(): JobEventBus {
+    if (!JobEventBus.instance) {
+      JobEventBus.instance = new JobEventBus();
+    }
+    return JobEventBus.instance;
+  }
+
+  publish(job: Pick<SyncJob, 'id' | 'jobType'>, payload: SyncJobEventPayload) {
+    const event = {
+      ...payload,
+      jobId: job.id,
+      jobType: job.jobType,
+      at: new Date().toISOString(),
+    } as SyncJobEvent;
+    this.emitter.emit('event', event);
+  }
+
+  // Returns the unsubscribe function; pass jobId to receive only that job
+  subscribe(listener: JobEventListener, jobId?: number): () => void {
+    const handler = (event: SyncJobEvent) => {
+      if (jobId === undefined || event.jobId === jobId) listener(event);
+    };
+    this.emitter.on('event', handler);
+    return () => this.emitter.off('event', handler);
+  }
+}
@@ -0,0 +1,604 @@
+import path from 'path';
+import { z } from 'zod';
+import { storage } from '../storage';
+import { JobRunner, type JobContext } from './job-runner';
+import { MindatAPIService } from './mindat-api-service';
+import { MindatSyncService } from './mindat-sync-service';
+import { MindatIncrementalSync } from './mindat-incremental-sync';
+import { RruffImportService } from './rruff-import-service';
+import { MindatCSVImportV2 } from './mindat-csv-import-v2';
+import { MindatMergeResolver } from './mindat-merge-resolver';
+import { ReconciliationService } from './reconciliation-service';
+import { RruffMindatLinker } from './rruff-mindat-linker';
+import type { UnmappedFieldSummary } from './mindat-field-mapping';
+import type { ImportReport } from './csv-batch-reader';
+import { EROCKS_EXPORT_DIR, isERocksExportPath } from './erocks-exports';
+import { IMPORT_DIR, isImportFilePath } from './import-files';
+
+export const JOB_TYPES = {
+  mindatFullSync: 'mindat_full_sync',
+  mindatIdScan: 'mindat_id_scan',
+  mindatChangeFeed: 'mindat_change_feed',
+  mindatValidation: 'mindat_validation',
+  rruffImport: 'rruff_import',
+  mindatCsvImport: 'mindat_csv_import',
+  mineralSync: 'mineral_sync',
+  mindatMergeResolution: 'mindat_merge_resolution',
+  reconciliation: 'reconciliation',
+  rruffMindatLink: 'rruff_mindat_link',
+  mindatStaleRefresh: 'mindat_stale_refresh',
+} as const;
+
+export const RRUFF_CSV_PATH = path.join(IMPORT_DIR, 'RRUFF_Export_20250908_091618_1759745369897.csv');
+
+export interface MindatFullSyncParams {
+  startPage: number;
+  maxPages: number;
+  pageSize: number;
+  imaOnly: boolean;
+}
+
+export interface MindatIdScanParams {
+  startId?: number;
+  endId?: number;
+  batchSize: number;
+}
+
+export interface MindatChangeFeedParams {
+  since?: string;
+  pageSize: number;
+  maxPages?: number;
+}
+
+export interface MindatValidationParams {
+  sampleSize: number;
+  olderThan?: string;
+}
+
+// Stale minerals a local-first search served, to re-sync off the request path
+export interface MindatStaleRefreshParams {
+  mindatIds: number[];
+}
+
+export interface MineralSyncParams {
+  query: string;
+  pageSize: number;
+  maxPages: number;
+}
+
+export interface MindatMergeResolutionParams {
+  limit: number;
+}
+
+export interface ReconciliationParams {
+  erocksCsvPath?: string; // Without it only Mindat and RRUFF are compared
+  autoResolve: boolean;
+}
+
+export interface RruffMindatLinkParams {
+  relinkAll: boolean; // Redo automatic links as well as unlinked rows
+}
+
+export interface CsvImportParams {
+  filePath: string;
+  batchSize?: number;
+  skipExisting?: boolean;
+  dryRun?: boolean; // Validate and count only
+}
+
+type ParamsSchema<P> = z.ZodType<P, z.ZodTypeDef, unknown>;
+
+const count = z.number().int().positive();
+const dateString = z.string().refine(value => !isNaN(Date.parse(value)), 'Expected a date');
+
+// The runner checks queued and scheduled params against these and fills in
+// the defaults, so a handler never sees a missing or mistyped value
+const mindatFullSyncParams: ParamsSchema<MindatFullSyncParams> = z.object({
+  startPage: count.default(1),
+  maxPages: count.default(10),
+  pageSize: count.default(100),
+  imaOnly: z.boolean().default(false),
+}).strict();
+
+const mindatIdScanParams: ParamsSchema<MindatIdScanParams> = z.object({
+  startId: count.optional(),
+  endId: count.optional(),
+  batchSize: count.default(100),
+}).strict();
+
+const mindatChangeFeedParams: ParamsSchema<MindatChangeFeedParams> = z.object({
+  since: dateString.optional(),
+  pageSize: count.default(200),
+  maxPages: count.optional(),
+}).strict();
+
+const mindatValidationParams: ParamsSchema<MindatValidationParams> = z.object({
+  sampleSize: count.default(1000),
+  olderThan: dateString.optional(),
+}).strict();
+
+const mindatStaleRefreshParams: ParamsSchema<MindatStaleRefreshParams> = z.object({
+  mindatIds: z.array(count).min(1),
+}).strict();
+
+const mineralSyncParams: ParamsSchema<MineralSyncParams> = z.object({
+  query: z.string().min(1).default('a'),
+  pageSize: count.default(100),
+  maxPages: count.default(5),
+}).strict();
+
+const mindatMergeResolutionParams: ParamsSchema<MindatMergeResolutionParams> = z.object({
+  limit: count.default(500),
+}).strict();
+
+const reconciliationParams: ParamsSchema<ReconciliationParams> = z.object({
+  erocksCsvPath: z.string().refine(isERocksExportPath, `Must be a file in ${EROCKS_EXPORT_DIR}`).optional(),
+  autoResolve: z.boolean().default(true),
+}).strict();
+
+const rruffMindatLinkParams: ParamsSchema<RruffMindatLinkParams> = z.object({
+  relinkAll: z.boolean().default(false),
+}).strict();
+
+const csvImportParams: ParamsSchema<CsvImportParams> = z.object({
+  // Stored with the job and read again on resume, so it is checked here too
+  filePath: z.string().refine(isImportFilePath, `Must be a file in ${IMPORT_DIR}`),
+  batchSize: count.optional(),
+  skipExisting: z.boolean().optional(),
+  dryRun: z.boolean().optional(),
+}).strict();
+
+// A new Mindat field shows up here until it is added to the field mapping
+async function logUnmappedFields(log: JobContext['log'], fields: UnmappedFieldSummary[] = []) {
+  if (fields.length === 0) return;
+  await log(`Unmapped Mindat fields: ${fields.map(f => `${f.field} (${f.occurrences})`).join(', ')}`, 'warn');
+}
+
+// Job result for the streaming CSV importers; a dry run's report is its result
+function importResult(progress: ImportReport) {
+  return {
+    dryRun: progress.dryRun,
+    totalProcessed: progress.totalProcessed,
+    totalCreated: progress.totalCreated,
+    totalUpdated: progress.totalUpdated,
+    totalUnchanged: progress.totalUnchanged,
+    totalSkipped: progress.totalSkipped,
+    totalInvalid: progress.totalInvalid,
+    totalFailed: progress.totalFailed,
+    errors: progress.errors.slice(0, 20),
+    rowErrors: progress.rowErrors,
+  };
+}
+
+async function logImportResult(log: JobContext['log'], progress: ImportReport) {
+  const [created, updated] = progress.dryRun ? ['Dry run: would create', 'would update'] : ['Created', 'updated'];
+  await log(`${created} ${progress.totalCreated}, ${updated} ${progress.totalUpdated}, unchanged ${progress.totalUnchanged}, skipped ${progress.totalSkipped}, invalid ${progress.totalInvalid}, failed ${progress.totalFailed}`);
+}
+
+/**
+ * Wire each long-running sync or import into the job queue. Handlers map the
+ * service's progress callback onto a checkpoint that is enough to pick the
+ * work up again after a restart or a resume request.
+ */
+export function registerJobHandlers(runner: JobRunner = JobRunner.getInstance()) {
+  const mindatSync = MindatSyncService.getInstance();
+  const incrementalSync = MindatIncrementalSync.getInstance();
+  const rruffImport = RruffImportService.getInstance();
+  const mindatCSVImport = MindatCSVImportV2.getInstance();
+  const mindatAPI = MindatAPIService.getInstance();
+  const mergeResolver = MindatMergeResolver.getInstance();
+  const reconciliation = ReconciliationService.getInstance();
+  const rruffLinker = RruffMindatLinker.getInstance();
+
+  runner.register<MindatFullSyncParams, { nextPage: number }>(JOB_TYPES.mindatFullSync, {
+    concurrency: 1,
+    params: mindatFullSyncParams,
+    run: async ({ jobId, params, checkpoint, baseline, saveCheckpoint, log, record }) => {
+      const startPage = checkpoint?.nextPage ?? params.startPage;
+      await log(`Syncing pages ${startPage}-${params.maxPages} (${params.pageSize} per page${params.imaOnly ? ', IMA only' : ''})`);
+
+      const progress = await mindatSync.syncMinerals({
+        ...params,
+        startPage,
+        jobId,
+        onRecord: record,
+        onPage: async (nextPage, pageProgress, totalCount) => {
+          const pagesTotal = (params.maxPages - params.startPage + 1) * params.pageSize;
+          const total = totalCount !== undefined
+            ? Math.min(pagesTotal, Math.max(0, totalCount - (params.startPage - 1) * params.pageSize))
+            : null;
+          await saveCheckpoint({ nextPage }, {
+            processed: pageProgress.totalProcessed,
+            failed: pageProgress.totalFailed,
+            total,
+            errors: pageProgress.errors,
+          });
+        },
+      });
+
+      await log(`Created ${progress.totalCreated}, updated ${progress.totalUpdated}, failed ${progress.totalFailed}`);
+      await logUnmappedFields(log, progress.unmappedFields);
+      return {
+        totalProcessed: baseline + progress.totalProcessed,
+        totalCreated: progress.totalCreated,
+        totalUpdated: progress.totalUpdated,
+        totalFailed: progress.totalFailed,
+        errors: progress.errors.slice(0, 20),
+        unmappedFields: progress.unmappedFields ?? [],
+      };
+    },
+  });
+
+  runner.register<MindatIdScanParams, { startId: number; endId: number; nextId: number }>(JOB_TYPES.mindatIdScan, {
+    concurrency: 1,
+    params: mindatIdScanParams,
+    run: async ({ jobId, params, checkpoint, baseline, saveCheckpoint, log, record }) => {
+      // The auto-detected range is pinned in the first checkpoint, so a
+      // resume keeps scanning the same range even after new inserts
+      const firstId = checkpoint?.startId;
+      await log(checkpoint ? `Resuming ID scan at ${checkpoint.nextId}` : `Scanning IDs ${params.startId ?? 'auto'}-${params.endId ?? 'auto'}`);
+
+      const progress = await incrementalSync.syncNewMinerals({
+        startId: checkpoint?.nextId ?? params.startId,
+        endId: checkpoint?.endId ?? params.endId,
+        batchSize: params.batchSize,
+        jobId,
+        onRecord: record,
+        onBatch: async (position, batchProgress) => {
+          const startId = firstId ?? position.startId;
+          await saveCheckpoint({ startId, endId: position.endId, nextId: position.nextId }, {
+            processed: batchProgress.totalChecked,
+            failed: batchProgress.errors.length,
+            total: position.endId - startId + 1,
+            errors: batchProgress.errors,
+          });
+        },
+      });
+
+      await log(`Found ${progress.newMinerals} new, ${progress.updatedMinerals} updated, ${progress.deletedMinerals} deleted`);
+      await logUnmappedFields(log, progress.unmappedFields);
+      return {
+        totalChecked: baseline + progress.totalChecked,
+        newMinerals: progress.newMinerals,
+        updatedMinerals: progress.updatedMinerals,
+        deletedMinerals: progress.deletedMinerals,
+        errors: progress.errors.slice(0, 20),
+        unmappedFields: progress.unmappedFields ?? [],
+      };
+    },
+  });
+
+  // The change feed keeps its own cursor in sync_cursors; the job checkpoint
+  // only records that `since` has already been applied
+  runner.register<MindatChangeFeedParams, { started: true }>(JOB_TYPES.mindatChangeFeed, {
+    concurrency: 1,
+    params: mindatChangeFeedParams,
+    run: async ({ jobId, params, checkpoint, baseline, saveCheckpoint, log, record }) => {
+      const since = !checkpoint && params.since ? new Date(params.since) : undefined;
+      await log(since ? `Syncing changes since ${since.toISOString()}` : 'Syncing changes since the stored cursor');
+
+      const progress = await incrementalSync.syncChangedMinerals({
+        since,
+        pageSize: params.pageSize,
+        maxPages: params.maxPages,
+        jobId,
+        onRecord: record,
+        onPage: async (pageProgress, remaining) => {
+          await saveCheckpoint({ started: true }, {
+            processed: pageProgress.totalChecked,
+            failed: pageProgress.errors.length,
+            total: remaining !== undefined ? baseline + pageProgress.totalChecked + remaining : null,
+            errors: pageProgress.errors,
+          });
+        },
+      });
+
+      await log(`Applied ${progress.totalChecked} changes: ${progress.newMinerals} new, ${progress.updatedMinerals} updated`);
+      await logUnmappedFields(log, progress.unmappedFields);
+      return {
+        totalChecked: baseline + progress.totalChecked,
+        newMinerals: progress.newMinerals,
+        updatedMinerals: progress.updatedMinerals,
+        errors: progress.errors.slice(0, 20),
+        unmappedFields: progress.unmappedFields ?? [],
+      };
+    },
+  });
+
+  // Validation visits the least recently synced minerals first and touches
+  // each one it checks, so resuming simply validates the remainder
+  runner.register<MindatValidationParams, { checked: number }>(JOB_TYPES.mindatValidation, {
+    concurrency: 1,
+    params: mindatValidationParams,
+    run: async ({ jobId, params, baseline, saveCheckpoint, log, record }) => {
+      const sampleSize = Math.max(0, params.sampleSize - baseline);
+      await log(`Validating ${sampleSize} minerals`);
+
+      const progress = await incrementalSync.validateExistingMinerals({
+        sampleSize,
+        olderThan: params.olderThan ? new Date(params.olderThan) : undefined,
+        jobId,
+        onRecord: record,
+        onProgress: async (batchProgress, total) => {
+          await saveCheckpoint({ checked: baseline + batchProgress.totalChecked }, {
+            processed: batchProgress.totalChecked,
+            failed: batchProgress.errors.length,
+            total: baseline + total,
+            errors: batchProgress.errors,
+          });
+        },
+      });
+
+      await log(`Checked ${progress.totalChecked}: ${progress.updatedMinerals} updated, ${progress.deletedMinerals} deleted`);
+      await logUnmappedFields(log, progress.unmappedFields);
+      return {
+        totalChecked: baseline + progress.totalChecked,
+        updatedMinerals: progress.updatedMinerals,
+        deletedMinerals: progress.deletedMinerals,
+        errors: progress.errors.slice(0, 20),
+        unmappedFields: progress.unmappedFields ?? [],
+      };
+    },
+  });
+
+  // Walks deleted IDs in mineral_changes id order, so the checkpoint is the last row visited
+  runner.register<MindatMergeResolutionParams, { lastChangeId: number }>(JOB_TYPES.mindatMergeResolution, {
+    concurrency: 1,
+    params: mindatMergeResolutionParams,
+    run: async ({ params, checkpoint, baseline, saveCheckpoint, log }) => {
+      const limit = Math.max(0, params.limit - baseline);
+      await log(`Resolving up to ${limit} deleted Mindat IDs`);
+
+      const progress = await mergeResolver.resolvePending({
+        limit,
+        afterId: checkpoint?.lastChangeId,
+        onProgress: async (lastChangeId, batchProgress, total) => {
+          await saveCheckpoint({ lastChangeId }, {
+            processed: batchProgress.checked,
+            failed: batchProgress.errors.length,
+            total: baseline + total,
+            errors: batchProgress.errors,
+          });
+        },
+      });
+
+      await log(`Checked ${progress.checked}: ${progress.merged} merged, ${progress.unresolved} still deleted, ${progress.reappeared} reappeared`);
+      return {
+        totalChecked: baseline + progress.checked,
+        merged: progress.merged,
+        unresolved: progress.unresolved,
+        reappeared: progress.reappeared,
+        errors: progress.errors.slice(0, 20),
+      };
+    },
+  });
+
+  // Walks Mindat minerals in mindat_id order, so the checkpoint is the last one compared
+  runner.register<ReconciliationParams, { lastMindatId: number }>(JOB_TYPES.reconciliation, {
+    concurrency: 1,
+    params: reconciliationParams,
+    run: async ({ params, checkpoint, baseline, saveCheckpoint, log }) => {
+      await log(`Reconciling Mindat with RRUFF${params.erocksCsvPath ? ` and ${params.erocksCsvPath}` : ''}${checkpoint ? ` from ID ${checkpoint.lastMindatId + 1}` : ''}`);
+
+      const progress = await reconciliation.reconcile({
+        erocksCsvPath: params.erocksCsvPath,
+        autoResolve: params.autoResolve,
+        afterId: checkpoint?.lastMindatId,
+        onProgress: async (lastMindatId, batchProgress, total) => {
+          await saveCheckpoint({ lastMindatId }, {
+            processed: batchProgress.totalChecked,
+            failed: batchProgress.errors.length,
+            total: baseline + total,
+            errors: batchProgress.errors,
+          });
+        },
+      });
+
+      await log(`Compared ${progress.compared} of ${progress.totalChecked}: ${progress.created} new conflicts, ${progress.updated} changed, ${progress.cleared} cleared; ${progress.autoResolved} auto-resolved, ${progress.pending} for review`);
+      return {
+        totalChecked: baseline + progress.totalChecked,
+        compared: progress.compared,
+        created: progress.created,
+        updated: progress.updated,
+        cleared: progress.cleared,
+        autoResolved: progress.autoResolved,
+        pending: progress.pending,
+        errors: progress.errors.slice(0, 20),
+      };
+    },
+  });
+
+  runner.register<RruffMindatLinkParams, { lastRruffId: number }>(JOB_TYPES.rruffMindatLink, {
+    concurrency: 1,
+    params: rruffMindatLinkParams,
+    run: async ({ params, checkpoint, baseline, saveCheckpoint, log }) => {
+      await log(`Linking ${params.relinkAll ? 'all' : 'unlinked'} RRUFF minerals to Mindat${checkpoint ? ` from row ${checkpoint.lastRruffId + 1}` : ''}`);
+
+      const progress = await rruffLinker.link({
+        relinkAll: params.relinkAll,
+        afterId: checkpoint?.lastRruffId,
+        onProgress: async (lastRruffId, batchProgress, total) => {
+          await saveCheckpoint({ lastRruffId }, {
+            processed: batchProgress.checked,
+            failed: batchProgress.errors.length,
+            total: baseline + total,
+            errors: batchProgress.errors,
+          });
+        },
+      });
+
+      await log(`Checked ${progress.checked}: ${progress.linked} linked, ${progress.ambiguous} ambiguous, ${progress.unmatched} unmatched`);
+      return {
+        totalChecked: baseline + progress.checked,
+        linked: progress.linked,
+        ambiguous: progress.ambiguous,
+        unmatched: progress.unmatched,
+        errors: progress.errors.slice(0, 20),
+      };
+    },
+  });
+
+  runner.register<MindatStaleRefreshParams, { nextIndex: number }>(JOB_TYPES.mindatStaleRefresh, {
+    concurrency: 1,
+    params: mindatStaleRefreshParams,
+    run: async ({ params, checkpoint, baseline, saveCheckpoint, log }) => {
+      await log(`Refreshing ${params.mindatIds.length - (checkpoint?.nextIndex ?? 0)} stale minerals`);
+
+      const progress = await mindatSync.refreshMinerals(params.mindatIds, {
+        startIndex: checkpoint?.nextIndex,
+        onProgress: async (nextIndex, refreshProgress) => {
+          await saveCheckpoint({ nextIndex }, {
+            processed: refreshProgress.totalProcessed,
+            failed: refreshProgress.totalFailed,
+            total: params.mindatIds.length,
+            errors: refreshProgress.errors,
+          });
+        },
+      });
+
+      await log(`Refreshed ${progress.totalUpdated}, failed ${progress.totalFailed}`);
+      return {
+        totalProcessed: baseline + progress.totalProcessed,
+        totalUpdated: progress.totalUpdated,
+        totalFailed: progress.totalFailed,
+        errors: progress.errors.slice(0, 20),
+      };
+    },
+  });
+
+  runner.register<CsvImportParams, { nextRow: number }>(JOB_TYPES.rruffImport, {
+    concurrency: 1,
+    params: csvImportParams,
+    run: async ({ params, checkpoint, saveCheckpoint, log }) => {
+      await log(`${params.dryRun ? 'Dry run of' : 'Importing'} ${params.filePath}${checkpoint ? ` from row ${checkpoint.nextRow + 1}` : ''}`);
+
+      const progress = await rruffImport.importFromCSV(params.filePath, {
+        batchSize: params.batchSize,
+        skipExisting: params.skipExisting,
+        dryRun: params.dryRun,
+        startRow: checkpoint?.nextRow,
+        onProgress: async (nextRow, rowProgress, totalRows) => {
+          await saveCheckpoint({ nextRow }, {
+            processed: rowProgress.totalProcessed,
+            failed: rowProgress.totalFailed + rowProgress.totalInvalid,
+            total: totalRows,
+            errors: rowProgress.errors,
+          });
+        },
+      });
+
+      await logImportResult(log, progress);
+      return importResult(progress);
+    },
+  });
+
+  runner.register<CsvImportParams, { nextRow: number }>(JOB_TYPES.mindatCsvImport, {
+    concurrency: 1,
+    params: csvImportParams,
+    run: async ({ jobId, params, checkpoint, saveCheckpoint, log }) => {
+      await log(`${params.dryRun ? 'Dry run of' : 'Importing'} ${params.filePath}${checkpoint ? ` from row ${checkpoint.nextRow + 1}` : ''}`);
+
+      const progress = await mindatCSVImport.importFromCSV(params.filePath, {
+        batchSize: params.batchSize,
+        skipExisting: params.skipExisting,
+        dryRun: params.dryRun,
+        startRow: checkpoint?.nextRow,
+        jobId,
+        onProgress: async (nextRow, rowProgress, totalRows) => {
+          await saveCheckpoint({ nextRow }, {
+            processed: rowProgress.totalProcessed,
+            failed: rowProgress.totalFailed + rowProgress.totalInvalid,
+            total: totalRows,
+            errors: rowProgress.errors,
+          });
+        },
+      });
+
+      await logImportResult(log, progress);
+      await logUnmappedFields(log, progress.unmappedFields);
+      return {
+        ...importResult(progress),
+        unmappedFields: progress.unmappedFields ?? [],
+      };
+    },
+  });
+
+  // Name-search sync into the legacy minerals table, started from the
+  // Settings page; existing minerals are left alone
+  runner.register<MineralSyncParams, { nextPage: number }>(JOB_TYPES.mineralSync, {
+    concurrency: 1,
+    params: mineralSyncParams,
+    run: async ({ params, checkpoint, saveCheckpoint, log, record }) => {
+      const { query, pageSize, maxPages } = params;
+      await log(`Syncing minerals matching "${query}" (${maxPages} pages of ${pageSize})`);
+
+      let processed = 0;
+      let created = 0;
+      let failed = 0;
+      const errors: string[] = [];
+
+      for (let page = checkpoint?.nextPage ?? 1; page <= maxPages; page++) {
+        const response = await mindatAPI.searchMinerals({
+          name: query,
+          page,
+          page_size: pageSize,
+          fields: 'id,name,ima_formula,formula,crystal_system,hardness_min,hardness_max,specific_gravity_min,specific_gravity_max,colour,diaphaneity,lustre,streak,fracture,cleavage,tenacity,ima_symbol,ima_status'
+        });
+
+        const minerals = response.results || [];
+
+        for (const mineralData of minerals) {
+          processed++;
+          try {
+            const existing = await storage.getMineralByMindatId(mineralData.id);
+
+            if (!existing) {
+              await storage.createMineral({
+                mindatId: mineralData.id,
+                name: mineralData.name,
+                formula: mineralData.formula || null,
+                imaFormula: mineralData.ima_formula || null,
+                imaSymbol: mineralData.ima_symbol || null,
+                imaStatus: mineralData.ima_status || null,
+                crystalSystem: mineralData.crystal_system || null,
+                hardnessMin: mineralData.hardness_min || null,
+                hardnessMax: mineralData.hardness_max || null,
+                specificGravityMin: mineralData.specific_gravity_min || null,
+                specificGravityMax: mineralData.specific_gravity_max || null,
+                colour: mineralData.colour || null,
+                diaphaneity: mineralData.diaphaneity || null,
+                lustre: mineralData.lustre || null,
+                streak: mineralData.streak || null,
+                fracture: mineralData.fracture || null,
+                cleavage: mineralData.cleavage || null,
+                tenacity: mineralData.tenacity || null,
+                rawData: mineralData,
+              });
+              created++;
+              record({ action: 'created', mindatId: mineralData.id, name: mineralData.name });
+            }
+          } catch (error: any) {
+            console.error(`Error syncing mineral ${mineralData.id}:`, error);
+            failed++;
+            errors.push(`Mineral ${mineralData.id}: ${error.message}`);
+          }
+        }
+
+        await saveCheckpoint({ nextPage: page + 1 }, {
+          processed,
+          failed,
+          total: typeof response.count === 'number' ? Math.min(response.count, maxPages * pageSize) : null,
+          errors,
+        });
+
+        // If we got fewer results than requested, we're done
+        if (minerals.length < pageSize) {
+          break;
+        }
+      }
+
+      await log(`Created ${created}, failed ${failed}`);
+      return { created, failed, errors: errors.slice(0, 20) };
+    },
+  });
+}
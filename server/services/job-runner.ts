@@ -0,0 +1,468 @@
+import { db } from '../db';
+import { storage, type SyncJobFilters } from '../storage';
+import { syncJobs, syncJobLogs, type InsertSyncJob, type SyncJob, type SyncJobLog } from '@shared/schema';
+import type { JobLogLevel, JobSummary, SyncRecordChange } from '@shared/sync-events';
+import { and, asc, desc, eq, gt, inArray, isNull, lt, or, sql } from 'drizzle-orm';
+import type { z } from 'zod';
+import { fromZodError } from 'zod-validation-error';
+import { JobEventBus } from './job-events';
+
+const POLL_INTERVAL_MS = 10000;
+const HEARTBEAT_INTERVAL_MS = 30000;
+// A running job whose heartbeat is older than this belonged to a process
+// that died; it goes back to pending and resumes from its checkpoint
+const STALE_AFTER_MS = 2 * 60 * 1000;
+
+export type JobStatus = 'pending' | 'running' | 'completed' | 'failed' | 'cancelled' | 'skipped';
+export type { JobLogLevel, JobSummary };
+
+export interface JobProgress {
+  // Counts for the current attempt; the runner adds what earlier attempts did
+  processed: number;
+  failed?: number;
+  // Overall record count when known
+  total?: number | null;
+  // Error messages so far this attempt; new ones are logged and streamed
+  errors?: string[];
+}
+
+/**
+ * Handed to a running job. Handlers persist their resume point with
+ * saveCheckpoint(), which is also where a cancel request is noticed: it
+ * throws JobCancelledError and the handler should let it propagate.
+ */
+export interface JobContext<P = any, C = any> {
+  jobId: number;
+  params: P;
+  // Saved by an earlier attempt, or undefined on a fresh job
+  checkpoint: C | undefined;
+  // Records processed by earlier attempts
+  baseline: number;
+  log(message: string, level?: JobLogLevel): Promise<void>;
+  saveCheckpoint(checkpoint: C, progress: JobProgress): Promise<void>;
+  // Stream a single created/updated/deleted record; not persisted
+  record(change: SyncRecordChange): void;
+}
+
+export interface JobHandler<P = any, C = any> {
+  // Maximum jobs of this type running at once
+  concurrency: number;
+  // Checked on enqueue and before each run; the parsed value (with defaults) is what run() gets
+  params?: z.ZodType<P, z.ZodTypeDef, unknown>;
+  run(context: JobContext<P, C>): Promise<unknown>;
+}
+
+export class JobCancelledError extends Error {
+  constructor(jobId: number) {
+    super(`Job ${jobId} was cancelled`);
+    this.name = 'JobCancelledError';
+  }
+}
+
+export class JobQueueError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'JobQueueError';
+  }
+}
+
+export class JobParamsError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'JobParamsError';
+  }
+}
+
+/**
+ * Persistent job queue on sync_jobs. Jobs are claimed with a conditional
+ * UPDATE so two server processes never run the same row, and per-type
+ * concurrency is enforced against the jobs this process is running.
+ */
+export class JobRunner {
+  private static instance: JobRunner;
+  private events = JobEventBus.getInstance();
+  private handlers = new Map<string, JobHandler>();
+  private active = new Map<number, string>();
+  private pollTimer?: NodeJS.Timeout;
+  private heartbeatTimer?: NodeJS.Timeout;
+  private ticking = false;
+  private tickAgain = false;
+
+  private constructor() {}
+
+  static getInstance(): JobRunner {
+    if (!JobRunner.instance) {
+      JobRunner.instance = new JobRunner();
+    }
+    return JobRunner.instance;
+  }
+
+  register<P, C>(jobType: string, handler: JobHandler<P, C>) {
+    this.handlers.set(jobType, handler);
+  }
+
+  hasHandler(jobType: string): boolean {
+    return this.handlers.has(jobType);
+  }
+
+  getJobTypes(): string[] {
+    return Array.from(this.handlers.keys());
+  }
+
+  // Validate params for a job type and fill in its defaults
+  parseParams<P>(jobType: string, params: unknown): P {
+    const handler = this.handlers.get(jobType);
+    if (!handler) {
+      throw new JobParamsError(`No handler registered for job type "${jobType}"`);
+    }
+    if (!handler.params) return (params ?? {}) as P;
+
+    const result = handler.params.safeParse(params ?? {});
+    if (!result.success) {
+      throw new JobParamsError(fromZodError(result.error, { prefix: `Invalid params for ${jobType}` }).message);
+    }
+    return result.data as P;
+  }
+
+  start() {
+    if (this.pollTimer) return;
+
+    this.pollTimer = setInterval(() => this.tick(), POLL_INTERVAL_MS);
+    this.heartbeatTimer = setInterval(() => this.heartbeat(), HEARTBEAT_INTERVAL_MS);
+    this.pollTimer.unref();
+    this.heartbeatTimer.unref();
+
+    console.log(`🧵 Job runner started (${Array.from(this.handlers.keys()).join(', ')})`);
+    this.tick();
+  }
+
+  async enqueue<P>(jobType: string, params: P, options: { scheduleId?: number } = {}): Promise<SyncJob> {
+    const parsed = this.parseParams<P>(jobType, params);
+
+    const job = await storage.createSyncJob({
+      jobType,
+      status: 'pending',
+      scheduleId: options.scheduleId,
+      params: parsed as InsertSyncJob['params'],
+    });
+
+    this.events.publish(job, { type: 'queued' });
+    await this.appendLog(job, 'info', `Queued ${jobType}`);
+    this.tick();
+    return job;
+  }
+
+  // Record a run that was due but not started, so it shows in the history
+  async recordSkipped<P>(jobType: string, params: P, options: { scheduleId?: number; reason: string }): Promise<SyncJob> {
+    const now = new Date();
+    const job = await storage.createSyncJob({
+      jobType,
+      status: 'skipped',
+      scheduleId: options.scheduleId,
+      params: params as InsertSyncJob['params'],
+      errorMessage: options.reason,
+      completedAt: now,
+    });
+
+    await this.appendLog(job, 'warn', `Skipped: ${options.reason}`);
+    return job;
+  }
+
+  // Pending or running job started by the schedule, or of its job type from
+  // anywhere else (a manual run, another schedule), if any
+  async findActiveForSchedule(schedule: { id: number; jobType: string }): Promise<SyncJob | undefined> {
+    const [job] = await db.select()
+      .from(syncJobs)
+      .where(and(
+        or(eq(syncJobs.scheduleId, schedule.id), eq(syncJobs.jobType, schedule.jobType)),
+        inArray(syncJobs.status, ['pending', 'running']),
+      ))
+      .orderBy(desc(syncJobs.id))
+      .limit(1);
+    return job;
+  }
+
+  /**
+   * Pending jobs are cancelled immediately; running jobs are flagged and stop
+   * at their next checkpoint.
+   */
+  async cancel(jobId: number): Promise<SyncJob | undefined> {
+    const job = await storage.getSyncJob(jobId);
+    if (!job) return undefined;
+
+    if (job.status === 'pending') {
+      const [cancelled] = await db.update(syncJobs)
+        .set({ status: 'cancelled', completedAt: new Date() })
+        .where(and(eq(syncJobs.id, jobId), eq(syncJobs.status, 'pending')))
+        .returning();
+      if (cancelled) {
+        await this.appendLog(job, 'warn', 'Cancelled before it started');
+        this.events.publish(job, { type: 'finished', status: 'cancelled', errorMessage: null });
+        return cancelled;
+      }
+      // Claimed in the meantime; fall through to flag the running job
+    } else if (job.status !== 'running') {
+      throw new JobQueueError(`Job ${jobId} is already ${job.status}`);
+    }
+
+    const [flagged] = await db.update(syncJobs)
+      .set({ cancelRequested: true })
+      .where(eq(syncJobs.id, jobId))
+      .returning();
+    await this.appendLog(job, 'warn', 'Cancel requested');
+    return flagged;
+  }
+
+  // Failed or cancelled jobs go back to the queue and continue from their checkpoint
+  async resume(jobId: number): Promise<SyncJob | undefined> {
+    const job = await storage.getSyncJob(jobId);
+    if (!job) return undefined;
+
+    if (job.status !== 'failed' && job.status !== 'cancelled') {
+      throw new JobQueueError(`Job ${jobId} is ${job.status}; only failed or cancelled jobs can be resumed`);
+    }
+
+    const resumed = await storage.updateSyncJob(jobId, { status: 'pending', cancelRequested: false, errorMessage: null, completedAt: null });
+
+    this.events.publish(job, { type: 'queued' });
+    await this.appendLog(job, 'info', job.checkpoint ? 'Resume requested; continuing from checkpoint' : 'Resume requested; starting over');
+    this.tick();
+    return resumed;
+  }
+
+  async getJob(jobId: number): Promise<JobSummary | undefined> {
+    const job = await storage.getSyncJob(jobId);
+    return job ? this.summarize(job) : undefined;
+  }
+
+  async listJobs(options: { limit?: number } & SyncJobFilters = {}): Promise<JobSummary[]> {
+    const { limit = 20, ...filters } = options;
+    const jobs = await storage.getRecentSyncJobs(limit, filters);
+    return jobs.map(job => this.summarize(job));
+  }
+
+  // Pass the last id seen as `afterId` to tail a job's log
+  async getLogs(jobId: number, options: { afterId?: number; limit?: number } = {}): Promise<SyncJobLog[]> {
+    return db.select()
+      .from(syncJobLogs)
+      .where(and(
+        eq(syncJobLogs.jobId, jobId),
+        options.afterId ? gt(syncJobLogs.id, options.afterId) : undefined,
+      ))
+      .orderBy(asc(syncJobLogs.id))
+      .limit(options.limit ?? 200);
+  }
+
+  /**
+   * Percent complete needs a known total. The ETA extrapolates from the
+   * current attempt only, so time spent before a restart doesn't skew it.
+   */
+  summarize(job: SyncJob): JobSummary {
+    const processed = job.recordsProcessed ?? 0;
+    const total = job.recordsTotal;
+
+    let percentComplete: number | null = null;
+    if (job.status === 'completed') {
+      percentComplete = 100;
+    } else if (total) {
+      percentComplete = Math.min(100, Math.round((processed / total) * 1000) / 10);
+    }
+
+    let etaSeconds: number | null = null;
+    if (job.status === 'running' && total && job.runStartedAt) {
+      const doneThisRun = processed - (job.runStartRecords ?? 0);
+      const elapsedMs = Date.now() - job.runStartedAt.getTime();
+      if (doneThisRun > 0 && elapsedMs > 0) {
+        etaSeconds = Math.max(0, Math.round(((total - processed) / doneThisRun) * elapsedMs / 1000));
+      }
+    }
+
+    return { ...job, percentComplete, etaSeconds };
+  }
+
+  private async tick() {
+    if (this.ticking) {
+      this.tickAgain = true;
+      return;
+    }
+    this.ticking = true;
+
+    try {
+      do {
+        this.tickAgain = false;
+        await this.requeueStale();
+
+        for (const [jobType, handler] of Array.from(this.handlers.entries())) {
+          const running = Array.from(this.active.values()).filter(type => type === jobType).length;
+          const free = handler.concurrency - running;
+          if (free <= 0) continue;
+
+          const candidates = await db.select({ id: syncJobs.id })
+            .from(syncJobs)
+            .where(and(eq(syncJobs.jobType, jobType), eq(syncJobs.status, 'pending')))
+            .orderBy(asc(syncJobs.id))
+            .limit(free);
+
+          for (const candidate of candidates) {
+            const job = await this.claim(candidate.id);
+            if (job) this.execute(job, handler);
+          }
+        }
+      } while (this.tickAgain);
+    } catch (error: any) {
+      console.error('❌ Job runner poll failed:', error.message);
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  private async claim(jobId: number): Promise<SyncJob | undefined> {
+    const now = new Date();
+    const [job] = await db.update(syncJobs)
+      .set({
+        status: 'running',
+        startedAt: sql`coalesce(${syncJobs.startedAt}, ${now})`,
+        runStartedAt: now,
+        runStartRecords: sql`coalesce(${syncJobs.recordsProcessed}, 0)`,
+        heartbeatAt: now,
+      })
+      .where(and(eq(syncJobs.id, jobId), eq(syncJobs.status, 'pending')))
+      .returning();
+    return job;
+  }
+
+  private async execute(job: SyncJob, handler: JobHandler) {
+    this.active.set(job.id, job.jobType);
+
+    const baseline = job.recordsProcessed ?? 0;
+    const failedBaseline = job.recordsFailed ?? 0;
+    let errorsReported = 0;
+
+    const context: JobContext = {
+      jobId: job.id,
+      params: job.params ?? {},
+      checkpoint: job.checkpoint ?? undefined,
+      baseline,
+      log: (message, level = 'info') => this.appendLog(job, level, message),
+      record: (change) => this.events.publish(job, { type: 'record', ...change }),
+      saveCheckpoint: async (checkpoint, progress) => {
+        const errors = progress.errors ?? [];
+        for (const message of errors.slice(errorsReported)) {
+          await this.appendError(job, message);
+        }
+        errorsReported = Math.max(errorsReported, errors.length);
+
+        const [row] = await db.update(syncJobs)
+          .set({
+            checkpoint,
+            recordsProcessed: baseline + progress.processed,
+            recordsFailed: failedBaseline + (progress.failed ?? 0),
+            ...(progress.total !== undefined ? { recordsTotal: progress.total } : {}),
+            heartbeatAt: new Date(),
+          })
+          .where(eq(syncJobs.id, job.id))
+          .returning();
+
+        if (row) {
+          const summary = this.summarize(row);
+          this.events.publish(job, {
+            type: 'progress',
+            processed: summary.recordsProcessed ?? 0,
+            failed: summary.recordsFailed ?? 0,
+            total: summary.recordsTotal,
+            percentComplete: summary.percentComplete,
+            etaSeconds: summary.etaSeconds,
+          });
+        }
+
+        if (row?.cancelRequested) {
+          throw new JobCancelledError(job.id);
+        }
+      },
+    };
+
+    this.events.publish(job, { type: 'started', resumed: !!job.checkpoint });
+    await this.appendLog(job, 'info', job.checkpoint ? 'Resuming from checkpoint' : 'Started');
+
+    try {
+      // Rows queued before a schema change fail here rather than mid-run
+      const result = await handler.run({ ...context, params: this.parseParams(job.jobType, job.params) });
+      await db.update(syncJobs)
+        .set({ status: 'completed', result: result ?? null, completedAt: new Date() })
+        .where(eq(syncJobs.id, job.id));
+      await this.appendLog(job, 'info', 'Completed');
+      this.events.publish(job, { type: 'finished', status: 'completed', errorMessage: null });
+    } catch (error: any) {
+      const cancelled = error instanceof JobCancelledError;
+      await db.update(syncJobs)
+        .set({
+          status: cancelled ? 'cancelled' : 'failed',
+          errorMessage: cancelled ? null : error.message,
+          completedAt: new Date(),
+        })
+        .where(eq(syncJobs.id, job.id))
+        .catch(updateError => console.error(`❌ Could not record outcome of job ${job.id}:`, updateError.message));
+      await this.appendLog(job, cancelled ? 'warn' : 'error', cancelled ? 'Cancelled' : `Failed: ${error.message}`);
+      this.events.publish(job, {
+        type: 'finished',
+        status: cancelled ? 'cancelled' : 'failed',
+        errorMessage: cancelled ? null : error.message,
+      });
+    } finally {
+      this.active.delete(job.id);
+      this.tick();
+    }
+  }
+
+  private async requeueStale() {
+    const cutoff = new Date(Date.now() - STALE_AFTER_MS);
+    const stale = await db.update(syncJobs)
+      .set({ status: 'pending' })
+      .where(and(
+        eq(syncJobs.status, 'running'),
+        or(isNull(syncJobs.heartbeatAt), lt(syncJobs.heartbeatAt, cutoff)),
+      ))
+      .returning({ id: syncJobs.id, jobType: syncJobs.jobType });
+
+    for (const job of stale) {
+      await this.appendLog(job, 'warn', 'Worker stopped responding; requeued to resume from checkpoint');
+      this.events.publish(job, { type: 'queued' });
+    }
+  }
+
+  private async heartbeat() {
+    const ids = Array.from(this.active.keys());
+    if (ids.length === 0) return;
+
+    try {
+      await db.update(syncJobs)
+        .set({ heartbeatAt: new Date() })
+        .where(inArray(syncJobs.id, ids));
+    } catch (error: any) {
+      console.error('❌ Job heartbeat failed:', error.message);
+    }
+  }
+
+  private async appendLog(job: Pick<SyncJob, 'id' | 'jobType'>, level: JobLogLevel, message: string) {
+    await this.writeLog(job.id, level, message);
+    this.events.publish(job, { type: 'log', level, message });
+  }
+
+  // Per-record errors from the handler; kept in the log so the error feed
+  // survives a page reload
+  private async appendError(job: Pick<SyncJob, 'id' | 'jobType'>, message: string) {
+    await this.writeLog(job.id, 'error', message);
+    this.events.publish(job, { type: 'error', message });
+  }
+
+  private async writeLog(jobId: number, level: JobLogLevel, message: string) {
+    const prefix = level === 'error' ? '❌' : level === 'warn' ? '⚠️ ' : '🧵';
+    console.log(`${prefix} [job ${jobId}] ${message}`);
+
+    try {
+      await db.insert(syncJobLogs).values({ jobId, level, message });
+    } catch (error: any) {
+      console.error(`❌ Could not write log for job ${jobId}:`, error.message);
+    }
+  }
+}
@@ -1,8 +1,4 @@
-interface MindatAuthConfig {
-  username?: string;
-  password?: string;
-  apiKey?: string;
-}
+import { MindatHttpClient, MindatApiError, type MindatRequestOptions } from './mindat-http-client';
 
 interface MindatSearchParams {
   page?: number;
@@ -18,15 +14,10 @@ interface MindatSearchParams {
 
 export class MindatAPIService {
   private static instance: MindatAPIService;
-  private baseUrl = 'https://api.mindat.org/v1';
-  private authConfig: MindatAuthConfig;
+  private http: MindatHttpClient;
 
   private constructor() {
-    this.authConfig = {
-      username: process.env.MINDAT_USERNAME,
-      password: process.env.MINDAT_PASS,
-      apiKey: process.env.MINDAT_API_KEY,
-    };
+    this.http = MindatHttpClient.getInstance();
   }
 
   static getInstance(): MindatAPIService {
@@ -36,24 +27,7 @@ export class MindatAPIService {
     return MindatAPIService.instance;
   }
 
-  private getAuthHeaders(): HeadersInit {
-    const headers: HeadersInit = {
-      'Content-Type': 'application/json',
-    };
-
-    if (this.authConfig.apiKey) {
-      headers['Authorization'] = `Token ${this.authConfig.apiKey}`;
-    } else if (this.authConfig.username && this.authConfig.password) {
-      const base64Auth = Buffer.from(
-        `${this.authConfig.username}:${this.authConfig.password}`
-      ).toString('base64');
-      headers['Authorization'] = `Basic ${base64Auth}`;
-    }
-
-    return headers;
-  }
-
-  async searchMinerals(params: MindatSearchParams = {}): Promise<any> {
+  async searchMinerals(params: MindatSearchParams = {}, options: MindatRequestOptions = {}): Promise<any> {
     const queryParams = new URLSearchParams();
     
     queryParams.append('format', 'json');
@@ -70,43 +44,65 @@ export class MindatAPIService {
     if (params.ordering) queryParams.append('ordering', params.ordering);
     if (params.entrytype !== undefined) queryParams.append('entrytype', params.entrytype.toString());
 
-    const url = `${this.baseUrl}/geomaterials/?${queryParams.toString()}`;
-
     try {
-      const response = await fetch(url, {
-        headers: this.getAuthHeaders(),
-      });
-
-      if (!response.ok) {
-        throw new Error(`Mindat API error: ${response.status} ${response.statusText}`);
-      }
-
-      return await response.json();
+      return await this.http.get(`geomaterials/?${queryParams.toString()}`, options);
     } catch (error) {
       console.error('Error fetching minerals from Mindat:', error);
       throw error;
     }
   }
 
-  async getMineralById(id: number): Promise<any> {
-    const url = `${this.baseUrl}/geomaterials/${id}/`;
+  /**
+   * Page through full geomaterial records modified at or after `since`,
+   * oldest first. `updated_at` has one-second resolution, so callers must
+   * expect records from the boundary second they have already seen.
+   */
+  async searchChangedMinerals(params: { since?: Date; page?: number; page_size?: number; fields?: string } = {}): Promise<any> {
+    const queryParams = new URLSearchParams();
 
-    try {
-      const response = await fetch(url, {
-        headers: this.getAuthHeaders(),
-      });
+    queryParams.append('format', 'json');
+    if (params.fields) queryParams.append('fields', params.fields);
+    queryParams.append('ordering', 'updttime,id');
+    if (params.since) {
+      queryParams.append('updated_at', params.since.toISOString().slice(0, 19).replace('T', ' '));
+    }
+    if (params.page) queryParams.append('page', params.page.toString());
+    if (params.page_size) queryParams.append('page_size', params.page_size.toString());
 
-      if (!response.ok) {
-        throw new Error(`Mindat API error: ${response.status} ${response.statusText}`);
-      }
+    try {
+      return await this.http.get(`geomaterials/?${queryParams.toString()}`);
+    } catch (error) {
+      console.error('Error fetching changed minerals from Mindat:', error);
+      throw error;
+    }
+  }
 
-      return await response.json();
+  async getMineralById(id: number): Promise<any> {
+    try {
+      return await this.http.get(`geomaterials/${id}/`, { cache: true });
     } catch (error) {
       console.error(`Error fetching mineral ${id} from Mindat:`, error);
       throw error;
     }
   }
 
+  /**
+   * Fetch a geomaterial, bypassing the cache, and say whether Mindat answered
+   * for this ID, redirected to another record (how it serves merged IDs) or
+   * has no such ID.
+   */
+  async probeMineral(id: number): Promise<{ status: 'found' | 'redirected'; record: any } | { status: 'missing' }> {
+    try {
+      const record = await this.http.get(`geomaterials/${id}/`);
+      return { status: record?.id === id ? 'found' : 'redirected', record };
+    } catch (error) {
+      if (error instanceof MindatApiError && error.status === 404) {
+        return { status: 'missing' };
+      }
+      throw error;
+    }
+  }
+
   async searchLocalities(params: { name?: string; page?: number; page_size?: number } = {}): Promise<any> {
     const queryParams = new URLSearchParams();
     
@@ -115,18 +111,8 @@ export class MindatAPIService {
     if (params.page) queryParams.append('page', params.page.toString());
     if (params.page_size) queryParams.append('page_size', params.page_size.toString());
 
-    const url = `${this.baseUrl}/localities/?${queryParams.toString()}`;
-
     try {
-      const response = await fetch(url, {
-        headers: this.getAuthHeaders(),
-      });
-
-      if (!response.ok) {
-        throw new Error(`Mindat API error: ${response.status} ${response.statusText}`);
-      }
-
-      return await response.json();
+      return await this.http.get(`localities/?${queryParams.toString()}`);
     } catch (error) {
       console.error('Error fetching localities from Mindat:', error);
       throw error;
@@ -134,18 +120,8 @@ export class MindatAPIService {
   }
 
   async getLocalityById(id: number): Promise<any> {
-    const url = `${this.baseUrl}/localities/${id}/`;
-
     try {
-      const response = await fetch(url, {
-        headers: this.getAuthHeaders(),
-      });
-
-      if (!response.ok) {
-        throw new Error(`Mindat API error: ${response.status} ${response.statusText}`);
-      }
-
-      return await response.json();
+      return await this.http.get(`localities/${id}/`, { cache: true });
     } catch (error) {
       console.error(`Error fetching locality ${id} from Mindat:`, error);
       throw error;
@@ -3,6 +3,7 @@ import { mindatMinerals, mineralNameIndex, dataSources } from '@shared/schema';
 import { parse } from 'csv-parse/sync';
 import { readFileSync } from 'fs';
 import { eq } from 'drizzle-orm';
+import { MindatFieldMapper, UnmappedFieldTally, type UnmappedFieldSummary } from './mindat-field-mapping';
 import crypto from 'crypto';
 
 interface MindatCSVRow {
@@ -15,11 +16,13 @@ interface ImportProgress {
   totalCreated: number;
   totalUpdated: number;
   errors: string[];
+  unmappedFields?: UnmappedFieldSummary[]; // Set when the import finishes
 }
 
 export class MindatCSVImportService {
   private static instance: MindatCSVImportService;
   private mindatDataSourceId: number | null = null;
+  private fieldMapper = MindatFieldMapper.getInstance();
 
   private constructor() {}
 
@@ -60,46 +63,6 @@ export class MindatCSVImportService {
     return newSource.id;
   }
 
-  // Helper functions for data conversion
-  private toInt(value: string | null | undefined): number | null {
-    if (!value || value.trim() === '' || value === 'NULL') return null;
-    const num = parseInt(value, 10);
-    return isNaN(num) ? null : num;
-  }
-
-  private toReal(value: string | null | undefined): number | null {
-    if (!value || value.trim() === '' || value === 'NULL') return null;
-    const num = parseFloat(value);
-    return isNaN(num) ? null : num;
-  }
-
-  private toArray(value: string | null | undefined): string[] | null {
-    if (!value || value.trim() === '' || value === 'NULL') return null;
-    // Handle both comma-separated and already-parsed arrays
-    if (Array.isArray(value)) return value;
-    return value.split(',').map(v => v.trim()).filter(v => v.length > 0);
-  }
-
-  private toString(value: string | null | undefined): string | null {
-    if (!value || value.trim() === '' || value === 'NULL') return null;
-    return value.trim();
-  }
-
-  private toTimestamp(value: string | null | undefined): Date | null {
-    if (!value || value.trim() === '' || value === 'NULL') return null;
-    const timestamp = parseInt(value, 10);
-    if (isNaN(timestamp)) return null;
-    return new Date(timestamp * 1000); // Convert Unix timestamp to Date
-  }
-
-  private toBool(value: string | null | undefined): boolean | null {
-    if (!value || value.trim() === '' || value === 'NULL') return null;
-    const lower = value.toLowerCase().trim();
-    if (lower === 'true' || lower === '1' || lower === 'yes') return true;
-    if (lower === 'false' || lower === '0' || lower === 'no') return false;
-    return null;
-  }
-
   private generateHash(data: any): string {
     return crypto.createHash('sha256').update(JSON.stringify(data)).digest('hex');
   }
@@ -137,19 +100,16 @@ export class MindatCSVImportService {
       console.log('Sample columns:', Object.keys(records[0]).slice(0, 20).join(', '));
 
       const batch: any[] = [];
+      const unmapped = new UnmappedFieldTally();
 
       for (const record of records) {
         try {
           progress.totalProcessed++;
 
-          // Extract mindat_id - try common column names
-          const mindatId = this.toInt(
-            record.mindat_id ||
-            record.id ||
-            record.mineral_id ||
-            record.Id ||
-            record.ID
-          );
+          // Older exports name columns after the database (hardness_min,
+          // unit_cell_a); the shared mapping accepts those as well
+          const mapped = this.fieldMapper.map(record, 'csv', { unmapped });
+          const mindatId = mapped.mindatId;
 
           if (!mindatId) {
             progress.totalFailed++;
@@ -169,108 +129,8 @@ export class MindatCSVImportService {
             }
           }
 
-          // Map CSV fields to database schema
-          // Adjust these mappings based on your actual CSV column names
           const mineralData: any = {
-            mindatId,
-            name: this.toString(record.name || record.mineral_name || record.Name),
-
-            // Basic info
-            guid: this.toString(record.guid || record.GUID),
-            longId: this.toString(record.long_id || record.longid),
-            entryType: this.toInt(record.entry_type || record.entrytype),
-            entryTypeText: this.toString(record.entry_type_text || record.entrytypetext),
-            updtTime: this.toTimestamp(record.updt_time || record.updttime),
-
-            // Formula and IMA
-            imaFormula: this.toString(record.ima_formula || record.imaformula),
-            mindatFormula: this.toString(record.mindat_formula || record.formula),
-            mindatFormulaNote: this.toString(record.mindat_formula_note),
-            imaStatus: this.toString(record.ima_status || record.imastatus),
-            imaSymbol: this.toString(record.ima_symbol || record.imasymbol),
-            imaNotes: this.toString(record.ima_notes),
-            imaHistory: this.toString(record.ima_history),
-            imaYear: this.toInt(record.ima_year),
-            approvalYear: this.toInt(record.approval_year),
-            publicationYear: this.toInt(record.publication_year),
-            discoveryYear: this.toInt(record.discovery_year || record.year_named),
-            shortcodeIma: this.toString(record.shortcode_ima),
-
-            // Descriptions
-            aboutName: this.toString(record.about_name),
-            descriptionShort: this.toString(record.description_short),
-            description: this.toString(record.description),
-            occurrence: this.toString(record.occurrence),
-
-            // Crystal system
-            crystalSystem: this.toString(record.crystal_system || record.crystalsystem),
-            csMetamict: this.toString(record.cs_metamict),
-            spaceGroup: this.toString(record.space_group || record.spacegroup),
-            spaceGroupSet: this.toString(record.space_group_set),
-
-            // Unit cell
-            unitCellA: this.toReal(record.unit_cell_a),
-            unitCellAError: this.toReal(record.unit_cell_a_error),
-            unitCellB: this.toReal(record.unit_cell_b),
-            unitCellBError: this.toReal(record.unit_cell_b_error),
-            unitCellC: this.toReal(record.unit_cell_c),
-            unitCellCError: this.toReal(record.unit_cell_c_error),
-            unitCellAlpha: this.toReal(record.unit_cell_alpha),
-            unitCellAlphaError: this.toReal(record.unit_cell_alpha_error),
-            unitCellBeta: this.toReal(record.unit_cell_beta),
-            unitCellBetaError: this.toReal(record.unit_cell_beta_error),
-            unitCellGamma: this.toReal(record.unit_cell_gamma),
-            unitCellGammaError: this.toReal(record.unit_cell_gamma_error),
-            unitCellVolume: this.toReal(record.unit_cell_volume),
-            zValue: this.toReal(record.z_value),
-
-            // Hardness
-            hardnessMin: this.toReal(record.hardness_min || record.hardnessmin),
-            hardnessMax: this.toReal(record.hardness_max || record.hardnessmax),
-            hardType: this.toString(record.hard_type),
-
-            // Density
-            densityMin: this.toReal(record.density_min),
-            densityMax: this.toReal(record.density_max),
-            densityCalc: this.toReal(record.density_calc),
-            specificGravityMin: this.toReal(record.specific_gravity_min),
-            specificGravityMax: this.toReal(record.specific_gravity_max),
-
-            // Physical properties
-            colour: this.toString(record.colour || record.color || record.colors),
-            color: this.toString(record.color || record.colors),
-            diaphaneity: this.toString(record.diaphaneity),
-            lustre: this.toString(record.lustre || record.luster),
-            lustreType: this.toString(record.lustre_type),
-            streak: this.toString(record.streak),
-            fracture: this.toString(record.fracture),
-            fractureType: this.toString(record.fracture_type),
-            cleavage: this.toString(record.cleavage),
-            cleavageType: this.toString(record.cleavage_type),
-            tenacity: this.toString(record.tenacity),
-            habit: this.toString(record.habit),
-            morphology: this.toString(record.morphology),
-
-            // Classification
-            strunz10ed1: this.toString(record.strunz10ed1),
-            strunz10ed2: this.toString(record.strunz10ed2),
-            strunz10ed3: this.toString(record.strunz10ed3),
-            strunz10ed4: this.toString(record.strunz10ed4),
-            strunzClass: this.toString(record.strunz_class || record.strunzclass),
-            dana8ed1: this.toString(record.dana8ed1),
-            dana8ed2: this.toString(record.dana8ed2),
-            dana8ed3: this.toString(record.dana8ed3),
-            dana8ed4: this.toString(record.dana8ed4),
-            danaClass: this.toString(record.dana_class),
-
-            // Chemistry
-            elements: this.toArray(record.elements || record.formula_elements),
-            keyElements: this.toArray(record.key_elements),
-
-            // Metadata
-            imageUrl: this.toString(record.image_url),
-            imageCount: this.toInt(record.image_count),
-            localityCount: this.toInt(record.locality_count),
+            ...mapped,
 
             // Generate hash for change detection
             dataHash: this.generateHash(record),
@@ -307,6 +167,8 @@ export class MindatCSVImportService {
         await this.insertBatch(batch, progress);
       }
 
+      progress.unmappedFields = await this.fieldMapper.flushUnmappedFields(unmapped);
+
       console.log(`\nImport completed:`);
       console.log(`- Total processed: ${progress.totalProcessed}`);
       console.log(`- Created: ${progress.totalCreated}`);
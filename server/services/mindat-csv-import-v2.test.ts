@@ -0,0 +1,38 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+// Nothing is stored yet; a dry run may read but must never write
+const db = vi.hoisted(() => ({
+  select: vi.fn(() => ({ from: () => ({ where: async () => [] }) })),
+  insert: vi.fn(),
+  transaction: vi.fn(),
+}));
+vi.mock('../db', () => ({ db }));
+
+import { MindatCSVImportV2 } from './mindat-csv-import-v2';
+
+describe('MindatCSVImportV2.importFromCSV', () => {
+  let dir: string;
+  let file: string;
+
+  beforeAll(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'mindat-csv-import-'));
+    file = path.join(dir, 'mindatdump.csv');
+    fs.writeFileSync(file, 'md_id,md_name,md_newfield\n1,Quartz,x\n2,Galena,\n');
+  });
+
+  afterAll(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('reports unmapped fields on a dry run without writing anything', async () => {
+    const progress = await MindatCSVImportV2.getInstance().importFromCSV(file, { dryRun: true });
+
+    expect(progress).toMatchObject({ dryRun: true, totalProcessed: 2, totalCreated: 2, totalInvalid: 0 });
+    expect(progress.unmappedFields).toEqual([{ source: 'csv', field: 'newfield', occurrences: 2 }]);
+    expect(db.insert).not.toHaveBeenCalled();
+    expect(db.transaction).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { coerceMindatValue, MindatFieldMapper, UnmappedFieldTally } from './mindat-field-mapping';
+
+describe('coerceMindatValue', () => {
+  it.each([
+    ['7', 'int', 7],
+    [' 12.9 ', 'int', 12],
+    ['2.65', 'real', 2.65],
+    ['-1e3', 'real', -1000],
+    ['.5', 'real', 0.5],
+    [3.5, 'real', 3.5],
+  ] as const)('reads %j as %s %j', (value, type, expected) => {
+    expect(coerceMindatValue(value, type)).toBe(expected);
+  });
+
+  it.each([
+    ['12abc', 'int'],
+    ['6.5-7', 'real'],
+    ['0x10', 'int'],
+    ['7..8', 'real'],
+    ['Infinity', 'real'],
+  ] as const)('does not read part of %j as a number', (value, type) => {
+    expect(coerceMindatValue(value, type)).toBeNull();
+  });
+});
+
+describe('MindatFieldMapper.map', () => {
+  const mapper = MindatFieldMapper.getInstance();
+
+  it('maps API keys and md_* CSV keys to the same columns', () => {
+    const api = mapper.map({
+      id: 3337, name: 'Quartz', ima_formula: 'SiO2', csystem: 'Trigonal', hmin: 7, updttime: '2025-01-01T00:00:00Z',
+    }, 'api');
+    const csv = mapper.map({
+      md_id: '3337', md_name: 'Quartz', md_ima_formula: 'SiO2', MD_CSYSTEM: 'Trigonal', md_hmin: '7', md_updttime: '2025-01-01T00:00:00Z',
+    }, 'csv');
+
+    expect(csv).toEqual(api);
+    expect(api).toMatchObject({ mindatId: 3337, name: 'Quartz', imaFormula: 'SiO2', crystalSystem: 'Trigonal', hardnessMin: 7 });
+  });
+
+  it('reports numbers it cannot read whole and stores null', () => {
+    const issues: string[] = [];
+    const mapped = mapper.map({ md_id: '12abc', md_name: 'Quartz', md_hmin: '6.5-7' }, 'csv', { issues });
+
+    expect(mapped).toMatchObject({ mindatId: null, hardnessMin: null });
+    expect(issues).toEqual(['id: "12abc" is not a valid int', 'hmin: "6.5-7" is not a valid real']);
+  });
+
+  it('counts fields no mapping reads in the tally it is given', () => {
+    const unmapped = new UnmappedFieldTally();
+
+    mapper.map({ id: 1, name: 'Quartz', newfield: '' }, 'api', { unmapped });
+    mapper.map({ id: 2, name: 'Galena', newfield: 'x' }, 'api', { unmapped });
+
+    expect(unmapped.rows()).toEqual([
+      { source: 'api', field: 'newfield', occurrences: 2, exampleValue: 'x', exampleMindatId: 2 },
+    ]);
+  });
+
+  it('keeps tallies from separate runs apart', () => {
+    const first = new UnmappedFieldTally();
+    const second = new UnmappedFieldTally();
+
+    mapper.map({ id: 1, name: 'Quartz', onlyfirst: 1 }, 'api', { unmapped: first });
+    mapper.map({ id: 2, name: 'Galena', onlysecond: 2 }, 'csv', { unmapped: second });
+    mapper.map({ id: 3, name: 'Pyrite', ignored: 3 }, 'api');
+
+    expect(first.rows().map(row => row.field)).toEqual(['onlyfirst']);
+    expect(second.rows().map(row => `${row.source}:${row.field}`)).toEqual(['csv:onlysecond']);
+  });
+});
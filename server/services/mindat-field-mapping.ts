@@ -0,0 +1,458 @@
+import { db } from '../db';
+import { mindatMinerals, mindatUnmappedFields, type MindatUnmappedField } from '@shared/schema';
+import { and, asc, desc, eq, sql } from 'drizzle-orm';
+
+export type MindatFieldType = 'string' | 'int' | 'real' | 'array' | 'timestamp' | 'bool';
+
+// api: geomaterials responses; csv: the md_* dump and older exports
+export type MindatRecordSource = 'api' | 'csv';
+
+type MindatColumn = Exclude<keyof typeof mindatMinerals.$inferInsert,
+  'id' | 'fieldHashes' | 'dataHash' | 'lastSyncedAt' | 'createdAt' | 'updatedAt'>;
+
+export interface MindatFieldMapping {
+  column: MindatColumn;
+  type: MindatFieldType;
+  // Source keys in priority order. The column's own name (e.g.
+  // hardness_min, as older CSV exports use) is always accepted after these.
+  sources: string[];
+}
+
+export type MappedMindatRecord = Partial<typeof mindatMinerals.$inferInsert>;
+
+export interface UnmappedFieldSummary {
+  source: MindatRecordSource;
+  field: string;
+  occurrences: number;
+}
+
+/**
+ * The one mapping from Mindat data to mindat_minerals, used by the API sync,
+ * the incremental sync and both CSV importers. Source keys are matched
+ * case-insensitively with any md_ prefix removed, so md_hmin, hmin and HMIN
+ * all feed hardnessMin. A column whose first source holds no value falls
+ * back to the next one.
+ */
+export const MINDAT_FIELD_MAPPINGS: MindatFieldMapping[] = [
+  { column: 'mindatId', type: 'int', sources: ['mindat_id', 'id', 'mineral_id'] },
+  { column: 'name', type: 'string', sources: ['name', 'mineral_name'] },
+  { column: 'guid', type: 'string', sources: ['guid'] },
+  { column: 'longId', type: 'string', sources: ['longid'] },
+  { column: 'entryType', type: 'int', sources: ['entrytype'] },
+  { column: 'entryTypeText', type: 'string', sources: ['entrytype_text', 'entrytypetext'] },
+  { column: 'updtTime', type: 'timestamp', sources: ['updttime'] },
+
+  { column: 'imaFormula', type: 'string', sources: ['ima_formula', 'imaformula'] },
+  { column: 'mindatFormula', type: 'string', sources: ['mindat_formula', 'formula'] },
+  { column: 'mindatFormulaNote', type: 'string', sources: ['mindat_formula_note'] },
+  { column: 'imaStatus', type: 'string', sources: ['ima_status', 'imastatus'] },
+  { column: 'imaSymbol', type: 'string', sources: ['shortcode_ima', 'ima_symbol', 'imasymbol'] },
+  { column: 'imaNotes', type: 'string', sources: ['ima_notes'] },
+  { column: 'imaHistory', type: 'string', sources: ['ima_history'] },
+  { column: 'imaYear', type: 'int', sources: ['approval_year', 'ima_year'] },
+  { column: 'approvalYear', type: 'int', sources: ['approval_year'] },
+  { column: 'publicationYear', type: 'int', sources: ['publication_year'] },
+  { column: 'discoveryYear', type: 'int', sources: ['discovery_year', 'year_named'] },
+  { column: 'shortcodeIma', type: 'string', sources: ['shortcode_ima'] },
+
+  { column: 'aboutName', type: 'string', sources: ['aboutname'] },
+  { column: 'descriptionShort', type: 'string', sources: ['description_short'] },
+
+  { column: 'crystalSystem', type: 'string', sources: ['csystem', 'crystalsystem'] },
+  { column: 'csMetamict', type: 'string', sources: ['csmetamict'] },
+  { column: 'spaceGroup', type: 'string', sources: ['spacegroup'] },
+  { column: 'spaceGroupSet', type: 'string', sources: ['spacegroupset'] },
+  { column: 'unitCellA', type: 'real', sources: ['a'] },
+  { column: 'unitCellAError', type: 'real', sources: ['aerror'] },
+  { column: 'unitCellB', type: 'real', sources: ['b'] },
+  { column: 'unitCellBError', type: 'real', sources: ['berror'] },
+  { column: 'unitCellC', type: 'real', sources: ['c'] },
+  { column: 'unitCellCError', type: 'real', sources: ['cerror'] },
+  { column: 'unitCellAlpha', type: 'real', sources: ['alpha'] },
+  { column: 'unitCellAlphaError', type: 'real', sources: ['alphaerror'] },
+  { column: 'unitCellBeta', type: 'real', sources: ['beta'] },
+  { column: 'unitCellBetaError', type: 'real', sources: ['betaerror'] },
+  { column: 'unitCellGamma', type: 'real', sources: ['gamma'] },
+  { column: 'unitCellGammaError', type: 'real', sources: ['gammaerror'] },
+  { column: 'unitCellVolume', type: 'real', sources: ['va3'] },
+  { column: 'zValue', type: 'real', sources: ['z'] },
+
+  { column: 'hardnessMin', type: 'real', sources: ['hmin', 'hardnessmin'] },
+  { column: 'hardnessMax', type: 'real', sources: ['hmax', 'hardnessmax'] },
+  { column: 'hardType', type: 'string', sources: ['hardtype'] },
+  { column: 'vhnMin', type: 'real', sources: ['vhnmin'] },
+  { column: 'vhnMax', type: 'real', sources: ['vhnmax'] },
+  { column: 'vhns', type: 'real', sources: ['vhns'] },
+  { column: 'vhng', type: 'real', sources: ['vhng'] },
+  { column: 'vhnError', type: 'real', sources: ['vhnerror'] },
+
+  { column: 'densityMin', type: 'real', sources: ['dmeas'] },
+  { column: 'densityMax', type: 'real', sources: ['dmeas2'] },
+  { column: 'densityCalc', type: 'real', sources: ['dcalc'] },
+  { column: 'densityCalcError', type: 'real', sources: ['dcalcerror'] },
+  { column: 'densityMeas', type: 'real', sources: ['dmeas'] },
+  { column: 'densityMeas2', type: 'real', sources: ['dmeas2'] },
+  { column: 'densityMeasError', type: 'real', sources: ['dmeaserror'] },
+  { column: 'specificGravityMin', type: 'real', sources: ['dmeas'] },
+  { column: 'specificGravityMax', type: 'real', sources: ['dmeas2'] },
+
+  { column: 'colour', type: 'string', sources: ['colour', 'color', 'colors'] },
+  { column: 'color', type: 'string', sources: ['color', 'colors', 'colour'] },
+  { column: 'commentColor', type: 'string', sources: ['commentcolor'] },
+  { column: 'diaphaneity', type: 'string', sources: ['diapheny'] },
+  { column: 'lustre', type: 'string', sources: ['lustre', 'luster'] },
+  { column: 'lustreType', type: 'string', sources: ['lustretype'] },
+  { column: 'commentLuster', type: 'string', sources: ['commentluster'] },
+  { column: 'streak', type: 'string', sources: ['streak'] },
+  { column: 'fracture', type: 'string', sources: ['fracture', 'fracturetype'] },
+  { column: 'fractureType', type: 'string', sources: ['fracturetype'] },
+  { column: 'cleavage', type: 'string', sources: ['cleavage'] },
+  { column: 'cleavageType', type: 'string', sources: ['cleavagetype'] },
+  { column: 'tenacity', type: 'string', sources: ['tenacity'] },
+  { column: 'habit', type: 'string', sources: ['habit', 'morphology'] },
+  { column: 'morphology', type: 'string', sources: ['morphology'] },
+  { column: 'parting', type: 'string', sources: ['parting'] },
+  { column: 'twinning', type: 'string', sources: ['twinning'] },
+  { column: 'commentCrystal', type: 'string', sources: ['commentcrystal'] },
+  { column: 'commentHard', type: 'string', sources: ['commenthard'] },
+  { column: 'commentDense', type: 'string', sources: ['commentdense'] },
+  { column: 'commentBreak', type: 'string', sources: ['commentbreak'] },
+
+  { column: 'optical2vCalc', type: 'real', sources: ['optical2vcalc'] },
+  { column: 'optical2vCalc2', type: 'real', sources: ['optical2vcalc2'] },
+  { column: 'optical2vCalcError', type: 'real', sources: ['optical2vcalcerror'] },
+  { column: 'optical2vMeasured', type: 'real', sources: ['optical2vmeasured'] },
+  { column: 'optical2vMeasured2', type: 'real', sources: ['optical2vmeasured2'] },
+  { column: 'optical2vMeasuredError', type: 'real', sources: ['optical2vmeasurederror'] },
+  { column: 'opticalSign', type: 'string', sources: ['opticalsign'] },
+  { column: 'opticalType', type: 'string', sources: ['opticaltype'] },
+  { column: 'opticalTropic', type: 'string', sources: ['opticaltropic'] },
+  { column: 'opticalAlpha', type: 'real', sources: ['opticalalpha'] },
+  { column: 'opticalAlpha2', type: 'real', sources: ['opticalalpha2'] },
+  { column: 'opticalAlphaError', type: 'real', sources: ['opticalalphaerror'] },
+  { column: 'opticalBeta', type: 'real', sources: ['opticalbeta'] },
+  { column: 'opticalBeta2', type: 'real', sources: ['opticalbeta2'] },
+  { column: 'opticalBetaError', type: 'real', sources: ['opticalbetaerror'] },
+  { column: 'opticalGamma', type: 'real', sources: ['opticalgamma'] },
+  { column: 'opticalGamma2', type: 'real', sources: ['opticalgamma2'] },
+  { column: 'opticalGammaError', type: 'real', sources: ['opticalgammaerror'] },
+  { column: 'opticalOmega', type: 'real', sources: ['opticalomega'] },
+  { column: 'opticalOmega2', type: 'real', sources: ['opticalomega2'] },
+  { column: 'opticalOmegaError', type: 'real', sources: ['opticalomegaerror'] },
+  { column: 'opticalEpsilon', type: 'real', sources: ['opticalepsilon'] },
+  { column: 'opticalEpsilon2', type: 'real', sources: ['opticalepsilon2'] },
+  { column: 'opticalEpsilonError', type: 'real', sources: ['opticalepsilonerror'] },
+  { column: 'opticalN', type: 'real', sources: ['opticaln'] },
+  { column: 'opticalN2', type: 'real', sources: ['opticaln2'] },
+  { column: 'opticalNError', type: 'real', sources: ['opticalnerror'] },
+  { column: 'opticalR', type: 'string', sources: ['opticalr'] },
+  { column: 'riMin', type: 'real', sources: ['rimin'] },
+  { column: 'riMax', type: 'real', sources: ['rimax'] },
+  { column: 'riAlpha', type: 'real', sources: ['opticalalpha'] },
+  { column: 'riBeta', type: 'real', sources: ['opticalbeta'] },
+  { column: 'riGamma', type: 'real', sources: ['opticalgamma'] },
+  { column: 'riOmega', type: 'real', sources: ['opticalomega'] },
+  { column: 'riEpsilon', type: 'real', sources: ['opticalepsilon'] },
+  { column: 'opticalBirefringence', type: 'string', sources: ['opticalbirefringence'] },
+  { column: 'opticalBireflectance', type: 'string', sources: ['opticalbireflectance'] },
+  { column: 'opticalDispersion', type: 'string', sources: ['opticaldispersion'] },
+  { column: 'opticalAnisotropism', type: 'string', sources: ['opticalanisotropism'] },
+  { column: 'opticalExtinction', type: 'string', sources: ['opticalextinction'] },
+  { column: 'opticalPleochroism', type: 'string', sources: ['opticalpleochroism'] },
+  // Mindat's own spelling
+  { column: 'opticalPleochroismDesc', type: 'string', sources: ['opticalpleochorismdesc'] },
+  { column: 'opticalColour', type: 'string', sources: ['opticalcolour'] },
+  { column: 'opticalInternal', type: 'string', sources: ['opticalinternal'] },
+  { column: 'opticalComments', type: 'string', sources: ['opticalcomments'] },
+  { column: 'specDispm', type: 'string', sources: ['specdispm'] },
+  { column: 'pleochroism', type: 'string', sources: ['opticalpleochroism'] },
+
+  { column: 'strunz10ed1', type: 'string', sources: ['strunz10ed1'] },
+  { column: 'strunz10ed2', type: 'string', sources: ['strunz10ed2'] },
+  { column: 'strunz10ed3', type: 'string', sources: ['strunz10ed3'] },
+  { column: 'strunz10ed4', type: 'string', sources: ['strunz10ed4'] },
+  { column: 'strunzClass', type: 'string', sources: ['strunz_class', 'strunzclass', 'strunz10ed4'] },
+  { column: 'dana8ed1', type: 'string', sources: ['dana8ed1'] },
+  { column: 'dana8ed2', type: 'string', sources: ['dana8ed2'] },
+  { column: 'dana8ed3', type: 'string', sources: ['dana8ed3'] },
+  { column: 'dana8ed4', type: 'string', sources: ['dana8ed4'] },
+  { column: 'danaClass', type: 'string', sources: ['dana_class', 'dana8ed4'] },
+  { column: 'cclass', type: 'string', sources: ['cclass'] },
+
+  { column: 'elements', type: 'array', sources: ['elements', 'formula_elements'] },
+  { column: 'keyElements', type: 'array', sources: ['key_elements'] },
+  { column: 'sigelements', type: 'array', sources: ['sigelements'] },
+  { column: 'impurities', type: 'string', sources: ['impurities'] },
+
+  { column: 'groupId', type: 'int', sources: ['groupid'] },
+  { column: 'varietyOf', type: 'int', sources: ['varietyof'] },
+  { column: 'synId', type: 'int', sources: ['synid'] },
+  { column: 'polytypeOf', type: 'string', sources: ['polytypeof'] },
+  { column: 'cim', type: 'string', sources: ['cim'] },
+  { column: 'tlform', type: 'string', sources: ['tlform'] },
+
+  { column: 'meteoriteCode', type: 'string', sources: ['meteoritical_code'] },
+  { column: 'meteoriticalCode', type: 'string', sources: ['meteoritical_code'] },
+  { column: 'meteoriteCodeExists', type: 'bool', sources: ['meteoritical_code_exists'] },
+
+  { column: 'rockBgsCode', type: 'string', sources: ['rock_bgs_code'] },
+  { column: 'rockParent', type: 'string', sources: ['rock_parent'] },
+  { column: 'rockParent2', type: 'string', sources: ['rock_parent2'] },
+  { column: 'rockRoot', type: 'string', sources: ['rock_root'] },
+
+  { column: 'typeSpecimenStore', type: 'string', sources: ['type_specimen_store'] },
+  { column: 'noLocAdd', type: 'string', sources: ['nolocadd'] },
+
+  { column: 'description', type: 'string', sources: ['description', 'description_short'] },
+  { column: 'occurrence', type: 'string', sources: ['occurrence', 'otheroccurrence'] },
+  { column: 'otherOccurrence', type: 'string', sources: ['otheroccurrence'] },
+
+  { column: 'imageUrl', type: 'string', sources: ['image_url'] },
+  { column: 'imageCount', type: 'int', sources: ['image_count'] },
+
+  { column: 'luminescence', type: 'string', sources: ['luminescence'] },
+  { column: 'magnetism', type: 'string', sources: ['magnetism'] },
+  { column: 'electrical', type: 'string', sources: ['electrical'] },
+  { column: 'thermalBehaviour', type: 'string', sources: ['thermalbehaviour'] },
+
+  { column: 'epitaxiDescription', type: 'string', sources: ['epitaxidescription'] },
+  { column: 'tranGlide', type: 'string', sources: ['tranglide'] },
+  { column: 'weighting', type: 'string', sources: ['weighting'] },
+
+  { column: 'uv', type: 'string', sources: ['uv'] },
+  { column: 'ir', type: 'string', sources: ['ir'] },
+  { column: 'other', type: 'string', sources: ['other'] },
+  { column: 'industrial', type: 'string', sources: ['industrial'] },
+
+  { column: 'localityCount', type: 'int', sources: ['locality_count'] },
+  { column: 'nonUtf', type: 'bool', sources: ['non_utf'] },
+];
+
+// Empty cells, blank strings and the literal NULL some dumps write
+function isBlank(value: unknown): boolean {
+  if (value === null || value === undefined) return true;
+  if (typeof value !== 'string') return false;
+  const trimmed = value.trim();
+  return trimmed === '' || trimmed.toUpperCase() === 'NULL';
+}
+
+// The whole value must be a number; "6.5-7" or "12abc" is not read as its prefix
+const NUMBER_PATTERN = /^[+-]?(\d+\.?\d*|\.\d+)(e[+-]?\d+)?$/i;
+
+function toNumber(value: unknown): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  const text = String(value).trim();
+  return NUMBER_PATTERN.test(text) ? Number(text) : null;
+}
+
+export function coerceMindatValue(value: unknown, type: MindatFieldType): unknown {
+  if (isBlank(value)) return null;
+
+  switch (type) {
+    case 'string':
+      // The API returns some text fields (ima_status) as lists
+      if (Array.isArray(value)) return value.length > 0 ? value.join(', ') : null;
+      if (typeof value === 'object') return JSON.stringify(value);
+      return String(value).trim();
+    case 'int': {
+      const num = toNumber(value);
+      return num === null ? null : Math.trunc(num);
+    }
+    case 'real':
+      return toNumber(value);
+    case 'array': {
+      const items = Array.isArray(value) ? value : String(value).split(',');
+      return items.map(item => String(item).trim()).filter(item => item.length > 0);
+    }
+    case 'timestamp': {
+      if (value instanceof Date) return isNaN(value.getTime()) ? null : value;
+      // Older dumps store Unix seconds, the API and md_* dump ISO dates
+      const text = String(value).trim();
+      const date = /^\d+$/.test(text) ? new Date(parseInt(text, 10) * 1000) : new Date(text);
+      return isNaN(date.getTime()) ? null : date;
+    }
+    case 'bool': {
+      if (typeof value === 'boolean') return value;
+      if (typeof value === 'number') return value !== 0;
+      const lower = String(value).trim().toLowerCase();
+      if (lower === 'true' || lower === '1' || lower === 'yes') return true;
+      if (lower === 'false' || lower === '0' || lower === 'no') return false;
+      return null;
+    }
+  }
+}
+
+function normalizeKey(key: string): string {
+  return key.toLowerCase().replace(/^md_/, '');
+}
+
+// Each mapping's source keys plus the column's own name, normalized
+const MAPPING_KEYS = MINDAT_FIELD_MAPPINGS.map(mapping => {
+  const keys = mapping.sources.map(normalizeKey);
+  const columnName = mindatMinerals[mapping.column].name;
+  return { ...mapping, keys: keys.includes(columnName) ? keys : [...keys, columnName] };
+});
+
+const KNOWN_KEYS = new Set(MAPPING_KEYS.flatMap(mapping => mapping.keys));
+
+interface UnmappedEntry {
+  occurrences: number;
+  exampleValue: string | null;
+  exampleMindatId: number | null;
+}
+
+function example(value: unknown): string {
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return text.length > 500 ? `${text.slice(0, 500)}…` : text;
+}
+
+/**
+ * Source fields no mapping reads, counted over one sync or import. Each run
+ * makes its own and hands it to map(), so jobs running side by side never
+ * report each other's fields.
+ */
+export class UnmappedFieldTally {
+  private entries = new Map<string, UnmappedEntry>(); // "source:field"
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  add(record: Map<string, unknown>, source: MindatRecordSource, mindatId: number | null): void {
+    for (const [field, value] of Array.from(record.entries())) {
+      if (KNOWN_KEYS.has(field) || field === '') continue;
+
+      const key = `${source}:${field}`;
+      const entry = this.entries.get(key);
+      if (entry) {
+        entry.occurrences++;
+        if (entry.exampleValue === null && !isBlank(value)) {
+          entry.exampleValue = example(value);
+          entry.exampleMindatId = mindatId;
+        }
+      } else {
+        this.entries.set(key, {
+          occurrences: 1,
+          exampleValue: isBlank(value) ? null : example(value),
+          exampleMindatId: isBlank(value) ? null : mindatId,
+        });
+      }
+    }
+  }
+
+  summary(): UnmappedFieldSummary[] {
+    return this.rows().map(({ source, field, occurrences }) => ({ source, field, occurrences }));
+  }
+
+  rows(): Array<UnmappedEntry & { source: MindatRecordSource; field: string }> {
+    return Array.from(this.entries.entries()).map(([key, entry]) => {
+      const separator = key.indexOf(':');
+      return { source: key.slice(0, separator) as MindatRecordSource, field: key.slice(separator + 1), ...entry };
+    });
+  }
+}
+
+/**
+ * Applies MINDAT_FIELD_MAPPINGS. Syncs and imports pass a tally of the fields
+ * no mapping reads and call flushUnmappedFields with it when they finish,
+ * which adds it to mindat_unmapped_fields and logs it.
+ */
+export class MindatFieldMapper {
+  private static instance: MindatFieldMapper;
+
+  private constructor() {}
+
+  static getInstance(): MindatFieldMapper {
+    if (!MindatFieldMapper.instance) {
+      MindatFieldMapper.instance = new MindatFieldMapper();
+    }
+    return MindatFieldMapper.instance;
+  }
+
+  /**
+   * Only columns with at least one source key present in the record are
+   * returned, so a partial API response leaves the other columns alone.
+   * Values that cannot be read as their column's type are mapped to null and,
+   * when `issues` is given, described there. Fields no mapping reads are
+   * counted in `unmapped`.
+   */
+  map(
+    record: Record<string, unknown>,
+    source: MindatRecordSource,
+    options: { unmapped?: UnmappedFieldTally; issues?: string[] } = {},
+  ): MappedMindatRecord {
+    const { unmapped, issues } = options;
+    // md_hmin wins over a bare hmin column in the same file
+    const normalized = new Map<string, unknown>();
+    for (const [key, value] of Object.entries(record)) {
+      const field = normalizeKey(key);
+      if (!normalized.has(field) || /^md_/i.test(key)) normalized.set(field, value);
+    }
+
+    const values: Record<string, unknown> = {};
+    const unreadable = new Set<string>();
+    for (const mapping of MAPPING_KEYS) {
+      for (const key of mapping.keys) {
+        if (!normalized.has(key)) continue;
+        const raw = normalized.get(key);
+        const value = coerceMindatValue(raw, mapping.type);
+        if (value === null && !isBlank(raw) && !unreadable.has(key)) {
+          unreadable.add(key);
+          issues?.push(`${key}: ${JSON.stringify(raw)} is not a valid ${mapping.type}`);
+        }
+        values[mapping.column] = value;
+        if (value !== null) break;
+      }
+    }
+
+    unmapped?.add(normalized, source, (values.mindatId as number | null | undefined) ?? null);
+    return values as MappedMindatRecord;
+  }
+
+  /**
+   * Adds a run's tally to mindat_unmapped_fields. Failures are logged rather
+   * than thrown so they never fail the sync that called it.
+   */
+  async flushUnmappedFields(unmapped: UnmappedFieldTally): Promise<UnmappedFieldSummary[]> {
+    if (unmapped.size === 0) return [];
+
+    const rows = unmapped.rows();
+    const summary = unmapped.summary();
+    console.warn(`⚠️  Unmapped Mindat fields: ${summary.map(s => `${s.field} (${s.source}, ${s.occurrences})`).join(', ')}`);
+
+    try {
+      for (const row of rows) {
+        await db.insert(mindatUnmappedFields)
+          .values(row)
+          .onConflictDoUpdate({
+            target: [mindatUnmappedFields.source, mindatUnmappedFields.field],
+            set: {
+              occurrences: sql`${mindatUnmappedFields.occurrences} + ${row.occurrences}`,
+              exampleValue: sql`coalesce(${row.exampleValue}, ${mindatUnmappedFields.exampleValue})`,
+              exampleMindatId: sql`coalesce(${row.exampleMindatId}, ${mindatUnmappedFields.exampleMindatId})`,
+              lastSeenAt: sql`now()`,
+            },
+          });
+      }
+    } catch (error: any) {
+      console.warn(`⚠️  Failed to record unmapped Mindat fields: ${error.message}`);
+    }
+
+    return summary;
+  }
+
+  // Most recently seen first
+  async getUnmappedFields(source?: MindatRecordSource): Promise<MindatUnmappedField[]> {
+    const query = db.select().from(mindatUnmappedFields);
+    return (source ? query.where(eq(mindatUnmappedFields.source, source)) : query)
+      .orderBy(desc(mindatUnmappedFields.lastSeenAt), asc(mindatUnmappedFields.field));
+  }
+
+  // Once a mapping is added the field stops being tallied; this drops its row
+  async clearUnmappedField(source: MindatRecordSource, field: string): Promise<boolean> {
+    const deleted = await db.delete(mindatUnmappedFields)
+      .where(and(eq(mindatUnmappedFields.source, source), eq(mindatUnmappedFields.field, field)))
+      .returning();
+    return deleted.length > 0;
+  }
+}
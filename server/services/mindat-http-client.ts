@@ -0,0 +1,267 @@
+import { db } from '../db';
+import { mindatApiCache, type MindatApiCacheEntry } from '@shared/schema';
+import { eq, sql } from 'drizzle-orm';
+
+// Point at the fixture stand-in (npm run mindat:stand-in) for offline work
+const MINDAT_BASE_URL = (process.env.MINDAT_API_BASE_URL || 'https://api.mindat.org/v1').replace(/\/+$/, '');
+const REQUESTS_PER_MINUTE = parseInt(process.env.MINDAT_RATE_LIMIT || '30', 10);
+const BURST = parseInt(process.env.MINDAT_RATE_BURST || '5', 10);
+const TIMEOUT_MS = parseInt(process.env.MINDAT_TIMEOUT_MS || '30000', 10);
+const MAX_RETRIES = parseInt(process.env.MINDAT_MAX_RETRIES || '4', 10);
+const BACKOFF_BASE_MS = 1000;
+const BACKOFF_MAX_MS = 60000;
+
+export interface MindatRequestOptions {
+  // Store the response with its ETag/Last-Modified and revalidate next time
+  cache?: boolean;
+  timeoutMs?: number;
+  retries?: number; // Interactive callers pass 0 to fail fast
+}
+
+export class MindatApiError extends Error {
+  constructor(public status: number, statusText: string, public url: string) {
+    super(`Mindat API error: ${status} ${statusText}`);
+    this.name = 'MindatApiError';
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Token bucket shared by every request in the process. Holds up to
+ * `capacity` tokens and refills continuously at `refillPerSecond`.
+ */
+class TokenBucket {
+  private tokens: number;
+  private lastRefill = Date.now();
+
+  constructor(private capacity: number, private refillPerSecond: number) {
+    this.tokens = capacity;
+  }
+
+  private refill() {
+    const now = Date.now();
+    this.tokens = Math.min(this.capacity, this.tokens + ((now - this.lastRefill) / 1000) * this.refillPerSecond);
+    this.lastRefill = now;
+  }
+
+  async take(): Promise<void> {
+    for (;;) {
+      this.refill();
+      if (this.tokens >= 1) {
+        this.tokens -= 1;
+        return;
+      }
+      await sleep(Math.ceil(((1 - this.tokens) / this.refillPerSecond) * 1000));
+    }
+  }
+
+  // Push the bucket into debt so every caller, not just the throttled one,
+  // waits `ms` before the next token is available
+  pause(ms: number) {
+    this.refill();
+    this.tokens = Math.min(this.tokens, 1 - (ms / 1000) * this.refillPerSecond);
+  }
+}
+
+/**
+ * The single HTTP path to Mindat. Rate limits with a token bucket, retries
+ * 429/5xx and network failures with exponential backoff (honouring
+ * Retry-After), times requests out, and keeps a persistent ETag cache in
+ * mindat_api_cache so unchanged records cost a 304 instead of a full body.
+ */
+export class MindatHttpClient {
+  private static instance: MindatHttpClient;
+  private bucket = new TokenBucket(BURST, REQUESTS_PER_MINUTE / 60);
+  private apiKey?: string;
+  private username?: string;
+  private password?: string;
+
+  private constructor() {
+    this.apiKey = process.env.MINDAT_API_KEY;
+    this.username = process.env.MINDAT_USERNAME;
+    this.password = process.env.MINDAT_PASS;
+  }
+
+  static getInstance(): MindatHttpClient {
+    if (!MindatHttpClient.instance) {
+      MindatHttpClient.instance = new MindatHttpClient();
+    }
+    return MindatHttpClient.instance;
+  }
+
+  get baseUrl(): string {
+    return MINDAT_BASE_URL;
+  }
+
+  hasCredentials(): boolean {
+    return !!this.apiKey || !!(this.username && this.password);
+  }
+
+  private getAuthHeaders(): Record<string, string> {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      'Accept': 'application/json',
+    };
+
+    if (this.apiKey) {
+      headers['Authorization'] = `Token ${this.apiKey}`;
+    } else if (this.username && this.password) {
+      const base64Auth = Buffer.from(`${this.username}:${this.password}`).toString('base64');
+      headers['Authorization'] = `Basic ${base64Auth}`;
+    }
+
+    return headers;
+  }
+
+  private resolveUrl(pathOrUrl: string): string {
+    if (/^https?:\/\//.test(pathOrUrl)) return pathOrUrl;
+    return `${this.baseUrl}/${pathOrUrl.replace(/^\//, '')}`;
+  }
+
+  /**
+   * GET a Mindat endpoint and parse the JSON body. Accepts a path relative to
+   * the v1 API root ("geomaterials/123/") or an absolute Mindat URL.
+   * Throws MindatApiError for any non-2xx response left after retries.
+   */
+  async get<T = any>(pathOrUrl: string, options: MindatRequestOptions = {}): Promise<T> {
+    const url = this.resolveUrl(pathOrUrl);
+    const headers = this.getAuthHeaders();
+    const cached = options.cache ? await this.readCache(url) : undefined;
+
+    if (cached?.etag) headers['If-None-Match'] = cached.etag;
+    if (cached?.lastModified) headers['If-Modified-Since'] = cached.lastModified;
+
+    const response = await this.send(url, headers, options.timeoutMs ?? TIMEOUT_MS, options.retries ?? MAX_RETRIES);
+
+    if (response.status === 304 && cached) {
+      await this.touchCache(url);
+      return cached.body as T;
+    }
+
+    if (!response.ok) {
+      throw new MindatApiError(response.status, response.statusText, url);
+    }
+
+    const body = await response.json();
+
+    if (options.cache) {
+      await this.writeCache(url, body, response.headers.get('etag'), response.headers.get('last-modified'));
+    }
+
+    return body as T;
+  }
+
+  private async send(url: string, headers: Record<string, string>, timeoutMs: number, maxRetries: number): Promise<Response> {
+    for (let attempt = 0; ; attempt++) {
+      await this.bucket.take();
+
+      let response: Response;
+      try {
+        response = await this.fetchWithTimeout(url, headers, timeoutMs);
+      } catch (error: any) {
+        if (attempt >= maxRetries) throw error;
+        const wait = this.backoff(attempt);
+        console.warn(`⚠️  Mindat request failed (${error.message}), retry ${attempt + 1}/${maxRetries} in ${wait}ms`);
+        await sleep(wait);
+        continue;
+      }
+
+      if (response.status !== 429 && response.status < 500) {
+        return response;
+      }
+
+      if (attempt >= maxRetries) {
+        return response;
+      }
+
+      const wait = this.retryAfter(response) ?? this.backoff(attempt);
+      console.warn(`⚠️  Mindat responded ${response.status}, retry ${attempt + 1}/${maxRetries} in ${wait}ms`);
+      if (response.status === 429) {
+        // The next take() waits out the pause
+        this.bucket.pause(wait);
+      } else {
+        await sleep(wait);
+      }
+    }
+  }
+
+  private async fetchWithTimeout(url: string, headers: Record<string, string>, timeoutMs: number): Promise<Response> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+    try {
+      return await fetch(url, { headers, signal: controller.signal });
+    } catch (error: any) {
+      if (error.name === 'AbortError') {
+        throw new Error(`Mindat request timed out after ${timeoutMs}ms`);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private backoff(attempt: number): number {
+    const exponential = Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** attempt);
+    return Math.round(exponential / 2 + Math.random() * (exponential / 2));
+  }
+
+  // Retry-After is either delay-seconds or an HTTP date
+  private retryAfter(response: Response): number | undefined {
+    const header = response.headers.get('retry-after');
+    if (!header) return undefined;
+
+    const seconds = Number(header);
+    if (!isNaN(seconds)) return Math.min(BACKOFF_MAX_MS, Math.max(0, seconds * 1000));
+
+    const date = Date.parse(header);
+    if (!isNaN(date)) return Math.min(BACKOFF_MAX_MS, Math.max(0, date - Date.now()));
+
+    return undefined;
+  }
+
+  // Cache failures never fail the request; the worst case is a full fetch
+  private async readCache(url: string): Promise<MindatApiCacheEntry | undefined> {
+    try {
+      const [entry] = await db.select().from(mindatApiCache).where(eq(mindatApiCache.url, url)).limit(1);
+      return entry;
+    } catch (error: any) {
+      console.warn(`⚠️  Mindat cache read failed: ${error.message}`);
+      return undefined;
+    }
+  }
+
+  private async touchCache(url: string): Promise<void> {
+    try {
+      await db.update(mindatApiCache)
+        .set({ validatedAt: new Date() })
+        .where(eq(mindatApiCache.url, url));
+    } catch (error: any) {
+      console.warn(`⚠️  Mindat cache update failed: ${error.message}`);
+    }
+  }
+
+  private async writeCache(url: string, body: unknown, etag: string | null, lastModified: string | null): Promise<void> {
+    if (!etag && !lastModified) return;
+
+    try {
+      await db.insert(mindatApiCache)
+        .values({ url, etag, lastModified, body })
+        .onConflictDoUpdate({
+          target: mindatApiCache.url,
+          set: {
+            etag,
+            lastModified,
+            body,
+            fetchedAt: sql`now()`,
+            validatedAt: sql`now()`,
+          },
+        });
+    } catch (error: any) {
+      console.warn(`⚠️  Mindat cache write failed: ${error.message}`);
+    }
+  }
+}
@@ -1,7 +1,20 @@
 import { db } from '../db';
-import { mindatMinerals, mineralChanges } from '@shared/schema';
-import { eq, sql } from 'drizzle-orm';
+import { mindatMinerals, syncCursors, type MindatMineral } from '@shared/schema';
+import type { SyncRecordAction, SyncRecordChange } from '@shared/sync-events';
+import { desc, eq, isNotNull, sql } from 'drizzle-orm';
 import { MindatAPIService } from './mindat-api-service';
+import { MindatApiError } from './mindat-http-client';
+import { MineralChangeHistory } from './mineral-change-history';
+import { MindatMergeResolver } from './mindat-merge-resolver';
+import { MindatFieldMapper, UnmappedFieldTally, type UnmappedFieldSummary } from './mindat-field-mapping';
+import {
+  applyChangeFeedPage,
+  MAX_FAILED_ATTEMPTS,
+  NO_FAILURES,
+  nextChangeFeedQuery,
+  type ChangeFeedFailures,
+  type ChangeFeedPosition,
+} from './change-feed-cursor';
 import crypto from 'crypto';
 
 interface SyncProgress {
@@ -11,6 +24,7 @@ interface SyncProgress {
   deletedMinerals: number;
   mergedMinerals: number;
   errors: string[];
+  unmappedFields?: UnmappedFieldSummary[]; // Set when the run finishes
 }
 
 interface SyncOptions {
@@ -18,11 +32,36 @@ interface SyncOptions {
   endId?: number;
   batchSize?: number;
   checkExisting?: boolean; // Re-validate existing minerals for changes
+  // Called after each batch with the id to resume from
+  onBatch?: (position: { nextId: number; startId: number; endId: number }, progress: SyncProgress) => Promise<void>;
+  onRecord?: (change: SyncRecordChange) => void;
+  jobId?: number; // Attributed in the field change history
+}
+
+interface ChangeFeedOptions {
+  since?: Date; // Override the stored high-water mark
+  pageSize?: number;
+  maxPages?: number; // Stop early; the next run resumes from the saved cursor
+  // Called after each page; `remaining` is Mindat's count of changes still ahead
+  onPage?: (progress: SyncProgress, remaining?: number) => Promise<void>;
+  onRecord?: (change: SyncRecordChange) => void;
+  jobId?: number;
+}
+
+const CHANGE_FEED_CURSOR = 'mindat_geomaterials';
+
+// Per-run state the record writers need
+interface RunContext {
+  jobId?: number; // Attributed in the field change history
+  unmapped: UnmappedFieldTally;
 }
 
 export class MindatIncrementalSync {
   private static instance: MindatIncrementalSync;
   private mindatAPI: MindatAPIService;
+  private history = MineralChangeHistory.getInstance();
+  private mergeResolver = MindatMergeResolver.getInstance();
+  private fieldMapper = MindatFieldMapper.getInstance();
 
   private constructor() {
     this.mindatAPI = MindatAPIService.getInstance();
@@ -39,16 +78,14 @@ export class MindatIncrementalSync {
     return crypto.createHash('sha256').update(JSON.stringify(data)).digest('hex');
   }
 
-  private delay(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
-  }
-
   /**
    * Sync new minerals from Mindat API
-   * Fetches minerals with IDs greater than current max
+   * Probes IDs greater than the current max one request at a time. The daily
+   * sync uses syncChangedMinerals; this remains for backfilling ID ranges.
    */
   async syncNewMinerals(options: SyncOptions = {}): Promise<SyncProgress> {
-    const { batchSize = 100, endId } = options;
+    const { batchSize = 100, endId, onBatch, onRecord, jobId } = options;
+    const run: RunContext = { jobId, unmapped: new UnmappedFieldTally() };
 
     const progress: SyncProgress = {
       totalChecked: 0,
@@ -87,6 +124,12 @@ export class MindatIncrementalSync {
               continue;
             }
 
+            if (mineralData.id !== id) {
+              // Mindat redirected a merged ID to the surviving record
+              await this.trackVanished(id, progress, onRecord, mineralData.id);
+              continue;
+            }
+
             // Check if mineral exists in database
             const existing = await db.select()
               .from(mindatMinerals)
@@ -97,28 +140,26 @@ export class MindatIncrementalSync {
 
             if (existing.length === 0) {
               // New mineral - insert
-              await this.insertMineral(mineralData, dataHash);
+              await this.insertMineral(mineralData, dataHash, run);
               progress.newMinerals++;
+              onRecord?.({ action: 'created', mindatId: id, name: mineralData.name });
             } else {
               // Check if data changed
               if (existing[0].dataHash !== dataHash) {
-                await this.updateMineral(id, mineralData, dataHash);
+                await this.updateMineral(existing[0], mineralData, dataHash, run);
                 progress.updatedMinerals++;
+                onRecord?.({ action: 'updated', mindatId: id, name: mineralData.name });
               }
             }
 
-            // Rate limiting - Mindat API typically allows ~30 requests/min
-            await this.delay(2000); // 2 seconds between requests
-
             if (progress.totalChecked % 50 === 0) {
               console.log(`✅ Progress: ${progress.totalChecked} checked, ${progress.newMinerals} new, ${progress.updatedMinerals} updated`);
             }
 
           } catch (error: any) {
-            if (error.message.includes('404')) {
+            if (error instanceof MindatApiError && error.status === 404) {
               // Mineral was deleted or merged
-              await this.trackDeletion(id);
-              progress.deletedMinerals++;
+              await this.trackVanished(id, progress, onRecord);
             } else {
               progress.errors.push(`ID ${id}: ${error.message}`);
               if (progress.errors.length <= 10) {
@@ -127,13 +168,18 @@ export class MindatIncrementalSync {
             }
           }
         }
+
+        await onBatch?.({ nextId: endBatchId + 1, startId, endId: targetEndId }, progress);
       }
 
+      progress.unmappedFields = await this.fieldMapper.flushUnmappedFields(run.unmapped);
+
       console.log(`\n✅ Sync completed:`);
       console.log(`  📊 Total checked: ${progress.totalChecked}`);
       console.log(`  ✨ New minerals: ${progress.newMinerals}`);
       console.log(`  🔄 Updated: ${progress.updatedMinerals}`);
       console.log(`  🗑️  Deleted: ${progress.deletedMinerals}`);
+      console.log(`  🔀 Merged: ${progress.mergedMinerals}`);
       console.log(`  ❌ Errors: ${progress.errors.length}`);
 
       return progress;
@@ -144,6 +190,151 @@ export class MindatIncrementalSync {
     }
   }
 
+  /**
+   * Sync every mineral modified on Mindat since the last run
+   * Pages the API ordered by (updttime, id) and persists the position of the
+   * last applied record after each page, so an interrupted run loses nothing
+   * and a completed one costs roughly one request per page of edits. A record
+   * that fails to apply ends the run with the cursor just before it, unless it
+   * has failed MAX_FAILED_ATTEMPTS runs in a row: it is then reported in the
+   * job errors and skipped.
+   */
+  async syncChangedMinerals(options: ChangeFeedOptions = {}): Promise<SyncProgress> {
+    const { pageSize = 200, maxPages, onPage, onRecord, jobId } = options;
+    const run: RunContext = { jobId, unmapped: new UnmappedFieldTally() };
+
+    const progress: SyncProgress = {
+      totalChecked: 0,
+      newMinerals: 0,
+      updatedMinerals: 0,
+      deletedMinerals: 0,
+      mergedMinerals: 0,
+      errors: [],
+    };
+
+    try {
+      const saved = options.since ? undefined : await this.loadCursor();
+      let cursor: ChangeFeedPosition | undefined = options.since
+        ? { updtTime: options.since, mindatId: 0 }
+        : saved?.cursor;
+      let failures = saved?.failures ?? NO_FAILURES;
+
+      console.log(`🔄 Starting change-feed sync from ${cursor ? cursor.updtTime.toISOString() : 'the beginning'}`);
+
+      let since = cursor?.updtTime;
+      let page = 1;
+      let pagesFetched = 0;
+
+      while (!maxPages || pagesFetched < maxPages) {
+        // Same full records as the full sync, so data hashes compare like for like
+        const response = await this.mindatAPI.searchChangedMinerals({ since, page, page_size: pageSize, fields: '*' });
+        pagesFetched++;
+
+        const result = await applyChangeFeedPage(response.results || [], cursor, async (mineralData: any) => {
+          progress.totalChecked++;
+          const action = await this.applyMineral(mineralData, progress, run);
+          if (action) onRecord?.({ action, mindatId: mineralData.id, name: mineralData.name });
+        }, failures);
+        cursor = result.cursor;
+        failures = result.failures;
+
+        if (cursor) {
+          await this.saveCursor(cursor, failures);
+        }
+
+        for (const { record, error } of result.skipped) {
+          progress.errors.push(`ID ${record.id}: skipped after ${MAX_FAILED_ATTEMPTS} failed runs: ${error.message}`);
+          console.error(`❌ Mineral ${record.id} failed ${MAX_FAILED_ATTEMPTS} runs in a row, moving past it:`, error.message);
+        }
+
+        if (result.failure) {
+          const { record, error } = result.failure;
+          progress.errors.push(`ID ${record.id}: ${error.message}`);
+          console.error(`❌ Error processing mineral ${record.id}, stopping so the next run retries it:`, error.message);
+          await onPage?.(progress);
+          break;
+        }
+
+        console.log(`✅ Page ${pagesFetched}: ${progress.totalChecked} changed, ${progress.newMinerals} new, ${progress.updatedMinerals} updated`);
+
+        const remaining = typeof response.count === 'number' ? Math.max(0, response.count - page * pageSize) : undefined;
+        await onPage?.(progress, remaining);
+
+        if (!response.next) break;
+
+        ({ since, page } = nextChangeFeedQuery(cursor, since, page));
+      }
+
+      progress.unmappedFields = await this.fieldMapper.flushUnmappedFields(run.unmapped);
+
+      console.log(`\n✅ Change-feed sync completed:`);
+      console.log(`  📊 Changed records: ${progress.totalChecked}`);
+      console.log(`  ✨ New minerals: ${progress.newMinerals}`);
+      console.log(`  🔄 Updated: ${progress.updatedMinerals}`);
+      console.log(`  📍 High-water mark: ${cursor ? `${cursor.updtTime.toISOString()} (#${cursor.mindatId})` : 'none'}`);
+      console.log(`  ❌ Errors: ${progress.errors.length}`);
+
+      return progress;
+
+    } catch (error: any) {
+      console.error('❌ Fatal change-feed sync error:', error);
+      throw error;
+    }
+  }
+
+  // Falls back to the newest updt_time already stored (served by
+  // mindat_mineral_updt_time_idx) so the first run doesn't refetch everything
+  private async loadCursor(): Promise<{ cursor: ChangeFeedPosition; failures: ChangeFeedFailures } | undefined> {
+    const [saved] = await db.select()
+      .from(syncCursors)
+      .where(eq(syncCursors.name, CHANGE_FEED_CURSOR))
+      .limit(1);
+    if (saved) {
+      const { updtTime, mindatId, failingMindatId, failedAttempts } = saved;
+      return { cursor: { updtTime, mindatId }, failures: { failingMindatId, failedAttempts } };
+    }
+
+    const [newest] = await db.select({ updtTime: mindatMinerals.updtTime, mindatId: mindatMinerals.mindatId })
+      .from(mindatMinerals)
+      .where(isNotNull(mindatMinerals.updtTime))
+      .orderBy(desc(mindatMinerals.updtTime))
+      .limit(1);
+
+    return newest?.updtTime
+      ? { cursor: { updtTime: newest.updtTime, mindatId: newest.mindatId }, failures: NO_FAILURES }
+      : undefined;
+  }
+
+  private async saveCursor(cursor: ChangeFeedPosition, failures: ChangeFeedFailures): Promise<void> {
+    await db.insert(syncCursors)
+      .values({ name: CHANGE_FEED_CURSOR, ...cursor, ...failures })
+      .onConflictDoUpdate({
+        target: syncCursors.name,
+        set: { ...cursor, ...failures, updatedAt: new Date() },
+      });
+  }
+
+  private async applyMineral(mineralData: any, progress: SyncProgress, run: RunContext): Promise<SyncRecordAction | undefined> {
+    const [existing] = await db.select()
+      .from(mindatMinerals)
+      .where(eq(mindatMinerals.mindatId, mineralData.id))
+      .limit(1);
+
+    const dataHash = this.generateHash(mineralData);
+
+    if (!existing) {
+      await this.insertMineral(mineralData, dataHash, run);
+      progress.newMinerals++;
+      return 'created';
+    }
+    if (existing.dataHash !== dataHash) {
+      await this.updateMineral(existing, mineralData, dataHash, run);
+      progress.updatedMinerals++;
+      return 'updated';
+    }
+    return undefined;
+  }
+
   /**
    * Re-validate existing minerals for changes
    * Useful for detecting edits in already-imported minerals
@@ -151,8 +342,13 @@ export class MindatIncrementalSync {
   async validateExistingMinerals(options: {
     sampleSize?: number;
     olderThan?: Date;
+    // Called every 50 minerals and at the end
+    onProgress?: (progress: SyncProgress, total: number) => Promise<void>;
+    onRecord?: (change: SyncRecordChange) => void;
+    jobId?: number;
   } = {}): Promise<SyncProgress> {
-    const { sampleSize = 1000, olderThan } = options;
+    const { sampleSize = 1000, olderThan, onProgress, onRecord, jobId } = options;
+    const run: RunContext = { jobId, unmapped: new UnmappedFieldTally() };
 
     const progress: SyncProgress = {
       totalChecked: 0,
@@ -188,41 +384,56 @@ export class MindatIncrementalSync {
 
           if (!mineralData) {
             // Mineral was deleted
-            await this.trackDeletion(mineral.mindatId);
-            progress.deletedMinerals++;
-            continue;
-          }
-
-          // Check for changes
-          const [existing] = await db.select()
-            .from(mindatMinerals)
-            .where(eq(mindatMinerals.mindatId, mineral.mindatId))
-            .limit(1);
+            await this.trackVanished(mineral.mindatId, progress, onRecord);
+          } else if (mineralData.id !== mineral.mindatId) {
+            // Redirected to the record it was merged into; leave our copy as it was
+            await this.trackVanished(mineral.mindatId, progress, onRecord, mineralData.id);
+          } else {
+            // Check for changes
+            const [existing] = await db.select()
+              .from(mindatMinerals)
+              .where(eq(mindatMinerals.mindatId, mineral.mindatId))
+              .limit(1);
 
-          const newHash = this.generateHash(mineralData);
+            const newHash = this.generateHash(mineralData);
 
-          if (existing.dataHash !== newHash) {
-            await this.updateMineral(mineral.mindatId, mineralData, newHash);
-            progress.updatedMinerals++;
-            console.log(`🔄 Updated mineral ${mineral.mindatId} - data changed`);
+            if (existing.dataHash !== newHash) {
+              await this.updateMineral(existing, mineralData, newHash, run);
+              progress.updatedMinerals++;
+              onRecord?.({ action: 'updated', mindatId: mineral.mindatId, name: mineralData.name });
+              console.log(`🔄 Updated mineral ${mineral.mindatId} - data changed`);
+            } else {
+              // Confirmed unchanged; moves it to the back of the validation order
+              await db.update(mindatMinerals)
+                .set({ lastSyncedAt: new Date() })
+                .where(eq(mindatMinerals.mindatId, mineral.mindatId));
+            }
           }
 
-          // Rate limiting
-          await this.delay(2000);
-
           if (progress.totalChecked % 50 === 0) {
             console.log(`✅ Progress: ${progress.totalChecked}/${minerals.length} checked, ${progress.updatedMinerals} updated`);
           }
 
         } catch (error: any) {
-          progress.errors.push(`ID ${mineral.mindatId}: ${error.message}`);
+          if (error instanceof MindatApiError && error.status === 404) {
+            await this.trackVanished(mineral.mindatId, progress, onRecord);
+          } else {
+            progress.errors.push(`ID ${mineral.mindatId}: ${error.message}`);
+          }
+        }
+
+        if (progress.totalChecked % 50 === 0 || progress.totalChecked === minerals.length) {
+          await onProgress?.(progress, minerals.length);
         }
       }
 
+      progress.unmappedFields = await this.fieldMapper.flushUnmappedFields(run.unmapped);
+
       console.log(`\n✅ Validation completed:`);
       console.log(`  📊 Total checked: ${progress.totalChecked}`);
       console.log(`  🔄 Updated: ${progress.updatedMinerals}`);
       console.log(`  🗑️  Deleted: ${progress.deletedMinerals}`);
+      console.log(`  🔀 Merged: ${progress.mergedMinerals}`);
 
       return progress;
 
@@ -232,33 +443,11 @@ export class MindatIncrementalSync {
     }
   }
 
-  private async insertMineral(mineralData: any, dataHash: string): Promise<void> {
+  private async insertMineral(mineralData: any, dataHash: string, run: RunContext): Promise<void> {
     await db.insert(mindatMinerals).values({
+      ...this.fieldMapper.map(mineralData, 'api', { unmapped: run.unmapped }),
       mindatId: mineralData.id,
       name: mineralData.name,
-      guid: mineralData.guid || null,
-      longId: mineralData.longid || null,
-
-      // IMA info
-      imaFormula: mineralData.ima_formula || null,
-      mindatFormula: mineralData.formula || null,
-      imaStatus: mineralData.ima_status || null,
-      imaSymbol: mineralData.ima_symbol || null,
-
-      // Crystal system
-      crystalSystem: mineralData.crystal_system || null,
-
-      // Physical properties
-      hardnessMin: mineralData.hardness_min || null,
-      hardnessMax: mineralData.hardness_max || null,
-      specificGravityMin: mineralData.specific_gravity_min || null,
-      specificGravityMax: mineralData.specific_gravity_max || null,
-      colour: mineralData.colour || null,
-      diaphaneity: mineralData.diaphaneity || null,
-      lustre: mineralData.lustre || null,
-      streak: mineralData.streak || null,
-
-      // Metadata
       dataHash,
       lastSyncedAt: new Date(),
       createdAt: new Date(),
@@ -266,39 +455,37 @@ export class MindatIncrementalSync {
     });
   }
 
-  private async updateMineral(mindatId: number, mineralData: any, dataHash: string): Promise<void> {
-    await db.update(mindatMinerals)
-      .set({
-        name: mineralData.name,
-        imaFormula: mineralData.ima_formula || null,
-        mindatFormula: mineralData.formula || null,
-        imaStatus: mineralData.ima_status || null,
-        crystalSystem: mineralData.crystal_system || null,
-        hardnessMin: mineralData.hardness_min || null,
-        hardnessMax: mineralData.hardness_max || null,
-        specificGravityMin: mineralData.specific_gravity_min || null,
-        specificGravityMax: mineralData.specific_gravity_max || null,
-        colour: mineralData.colour || null,
-        dataHash,
-        lastSyncedAt: new Date(),
-        updatedAt: new Date(),
-      })
-      .where(eq(mindatMinerals.mindatId, mindatId));
-  }
+  // Writes the overwritten values to the change history in the same transaction
+  private async updateMineral(existing: MindatMineral, mineralData: any, dataHash: string, run: RunContext): Promise<void> {
+    const values = {
+      ...this.fieldMapper.map(mineralData, 'api', { unmapped: run.unmapped }),
+      dataHash,
+      lastSyncedAt: new Date(),
+      updatedAt: new Date(),
+    };
 
-  private async trackDeletion(mindatId: number): Promise<void> {
-    // Check if already tracked
-    const existing = await db.select()
-      .from(mineralChanges)
-      .where(eq(mineralChanges.mindatId, mindatId))
-      .limit(1);
+    await db.transaction(async (tx) => {
+      await tx.update(mindatMinerals)
+        .set(values)
+        .where(eq(mindatMinerals.mindatId, existing.mindatId));
+      await this.history.recordUpdate(existing, values, { jobId: run.jobId, executor: tx });
+    });
+  }
 
-    if (existing.length === 0) {
-      await db.insert(mineralChanges).values({
-        mindatId,
-        changeType: 'deleted',
-        detectedAt: new Date(),
-      });
+  // Records the ID as merged when a target can be found, otherwise deleted
+  private async trackVanished(
+    mindatId: number,
+    progress: SyncProgress,
+    onRecord?: (change: SyncRecordChange) => void,
+    redirectedTo?: number,
+  ): Promise<void> {
+    const resolution = await this.mergeResolver.recordVanished(mindatId, { redirectedTo });
+    if (resolution) {
+      progress.mergedMinerals++;
+      onRecord?.({ action: 'merged', mindatId, mergedIntoId: resolution.mergedIntoId });
+    } else {
+      progress.deletedMinerals++;
+      onRecord?.({ action: 'deleted', mindatId });
     }
   }
 
@@ -318,12 +505,18 @@ export class MindatIncrementalSync {
       sql`SELECT MAX(last_synced_at) as last_sync FROM mindat_minerals`
     );
 
+    const [cursor] = await db.select()
+      .from(syncCursors)
+      .where(eq(syncCursors.name, CHANGE_FEED_CURSOR))
+      .limit(1);
+
     return {
       totalMinerals: countResult.rows[0]?.count || 0,
       maxMindatId: maxResult.rows[0]?.max_id || 0,
       lastSyncDate: lastSyncResult.rows[0]?.last_sync || null,
       knownMaxId: 471698, // Current max on Mindat.org
       mineralsBehind: 471698 - (maxResult.rows[0]?.max_id || 0),
+      changeFeedCursor: cursor ? { updtTime: cursor.updtTime, mindatId: cursor.mindatId, savedAt: cursor.updatedAt } : null,
     };
   }
 }
@@ -0,0 +1,401 @@
+import { db } from '../db';
+import {
+  minerals,
+  mindatMinerals,
+  mineralChanges,
+  mineralNameIndex,
+  rruffMinerals,
+  type MindatMineral,
+} from '@shared/schema';
+import { and, asc, eq, inArray, isNull, ne, or, sql } from 'drizzle-orm';
+import { alias } from 'drizzle-orm/pg-core';
+import { createReadStream } from 'fs';
+import csv from 'csv-parser';
+import { MindatAPIService } from './mindat-api-service';
+
+export type MergeMethod = 'redirect' | 'synonym' | 'ima_history' | 'name_match';
+
+export interface MergeResolution {
+  mergedIntoId: number;
+  method: MergeMethod;
+  evidence: string;
+}
+
+export interface RepointReference {
+  source: 'mindat_minerals' | 'mineral_name_index' | 'minerals' | 'rruff_minerals' | 'erocks';
+  column: string;
+  recordId: string;
+  label: string | null;
+  value: string;
+}
+
+export interface RepointEntry {
+  fromId: number;
+  fromName: string | null;
+  toId: number;
+  toName: string | null;
+  method: string | null;
+  detectedAt: Date;
+  references: RepointReference[];
+}
+
+interface ResolvePendingProgress {
+  checked: number;
+  merged: number;
+  unresolved: number;
+  reappeared: number;
+  errors: string[];
+}
+
+// Phrases Mindat uses in IMA history/notes to point at the surviving species
+const IMA_HISTORY_TARGETS = [
+  /renamed (?:to|as) ([^.;,()]+)/gi,
+  /discredited (?:in favou?r of|as identical (?:to|with)|as) ([^.;,()]+)/gi,
+  /(?:identical (?:to|with)|same as|merged (?:with|into)) ([^.;,()]+)/gi,
+  /=\s*([^.;,()=]+)/g,
+];
+
+// e-Rocks export columns that hold a mineral name rather than an ID
+const EROCKS_NAME_COLUMNS = ['Variety Of', 'Synonym Of', 'Renamed To', 'Polymorph of', 'Dimorph Of', 'Polytype Of', 'Group Parent', 'Habit Of'];
+
+/**
+ * Works out what happened to a Mindat ID that stopped resolving. Mindat
+ * redirects most merged IDs to the surviving record; when it just 404s we
+ * fall back to what the local copy of the record says (its synonym pointer,
+ * then its IMA history) and finally to another mineral with the same name.
+ * Resolved IDs are recorded as 'merged' in mineral_changes, and
+ * getRepointReport lists everything that still points at them.
+ */
+export class MindatMergeResolver {
+  private static instance: MindatMergeResolver;
+  private mindatAPI: MindatAPIService;
+
+  private constructor() {
+    this.mindatAPI = MindatAPIService.getInstance();
+  }
+
+  static getInstance(): MindatMergeResolver {
+    if (!MindatMergeResolver.instance) {
+      MindatMergeResolver.instance = new MindatMergeResolver();
+    }
+    return MindatMergeResolver.instance;
+  }
+
+  /**
+   * Record that `mindatId` no longer resolves. Pass `redirectedTo` when the
+   * fetch was already redirected; otherwise the local record is consulted.
+   * Returns the merge target, or null if the ID looks genuinely deleted.
+   */
+  async recordVanished(mindatId: number, options: { redirectedTo?: number } = {}): Promise<MergeResolution | null> {
+    const [tracked] = await db.select()
+      .from(mineralChanges)
+      .where(and(
+        eq(mineralChanges.mindatId, mindatId),
+        inArray(mineralChanges.changeType, ['deleted', 'merged']),
+      ))
+      .limit(1);
+
+    if (tracked?.changeType === 'merged' && tracked.mergedIntoId !== null) {
+      return {
+        mergedIntoId: tracked.mergedIntoId,
+        method: tracked.resolvedBy as MergeMethod,
+        evidence: tracked.notes ?? '',
+      };
+    }
+
+    const resolution = options.redirectedTo !== undefined && options.redirectedTo !== mindatId
+      ? { mergedIntoId: options.redirectedTo, method: 'redirect' as const, evidence: `Mindat redirects ${mindatId} to ${options.redirectedTo}` }
+      : await this.resolve(mindatId);
+
+    if (tracked) {
+      if (resolution) await this.markMerged(tracked.id, resolution);
+    } else {
+      await db.insert(mineralChanges).values({
+        mindatId,
+        changeType: resolution ? 'merged' : 'deleted',
+        mergedIntoId: resolution?.mergedIntoId ?? null,
+        resolvedBy: resolution?.method ?? null,
+        notes: resolution?.evidence ?? null,
+        detectedAt: new Date(),
+      });
+    }
+
+    if (resolution) {
+      console.log(`🔀 Mineral ${mindatId} merged into ${resolution.mergedIntoId} (${resolution.method})`);
+    }
+    return resolution;
+  }
+
+  /**
+   * Look for a merge target using only what we hold locally, plus one name
+   * search against Mindat. IDs we never stored have nothing to go on.
+   */
+  async resolve(mindatId: number): Promise<MergeResolution | null> {
+    const [record] = await db.select()
+      .from(mindatMinerals)
+      .where(eq(mindatMinerals.mindatId, mindatId))
+      .limit(1);
+    if (!record) return null;
+
+    if (record.synId && record.synId !== mindatId) {
+      return {
+        mergedIntoId: record.synId,
+        method: 'synonym',
+        evidence: `${record.name} was listed as a synonym of ${record.synId}`,
+      };
+    }
+
+    for (const name of this.historyTargets(record)) {
+      const target = await this.findLiveByName(name, mindatId);
+      if (target) {
+        return {
+          mergedIntoId: target.mindatId,
+          method: 'ima_history',
+          evidence: `IMA history points to ${target.name}`,
+        };
+      }
+    }
+
+    const sameName = await this.findLiveByName(record.name, mindatId)
+      ?? await this.searchMindatByName(record.name, mindatId);
+    if (sameName) {
+      return {
+        mergedIntoId: sameName.mindatId,
+        method: 'name_match',
+        evidence: `Another record is named ${sameName.name}`,
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * Revisit IDs recorded as deleted, oldest first, probing Mindat for a
+   * redirect before falling back to resolve(). Used by the
+   * mindat_merge_resolution job to backfill rows from before this existed.
+   * Only IDs we hold a record for are revisited; the rest are gaps the ID
+   * scan walked past and nothing can refer to them.
+   */
+  async resolvePending(options: {
+    limit?: number;
+    afterId?: number;
+    onProgress?: (lastId: number, progress: ResolvePendingProgress, total: number) => Promise<void>;
+  } = {}): Promise<ResolvePendingProgress> {
+    const { limit = 500, afterId = 0, onProgress } = options;
+    const progress: ResolvePendingProgress = { checked: 0, merged: 0, unresolved: 0, reappeared: 0, errors: [] };
+
+    const pending = await db.select()
+      .from(mineralChanges)
+      .where(and(
+        eq(mineralChanges.changeType, 'deleted'),
+        isNull(mineralChanges.mergedIntoId),
+        sql`${mineralChanges.id} > ${afterId}`,
+        sql`EXISTS (SELECT 1 FROM ${mindatMinerals} WHERE ${mindatMinerals.mindatId} = ${mineralChanges.mindatId})`,
+      ))
+      .orderBy(asc(mineralChanges.id))
+      .limit(limit);
+
+    console.log(`🔀 Resolving ${pending.length} deleted Mindat IDs`);
+
+    for (const change of pending) {
+      progress.checked++;
+      try {
+        const probe = await this.mindatAPI.probeMineral(change.mindatId);
+
+        if (probe.status === 'found') {
+          // Back again (or the 404 was transient); nothing to repoint
+          progress.reappeared++;
+        } else {
+          const resolution = probe.status === 'redirected'
+            ? { mergedIntoId: probe.record.id, method: 'redirect' as const, evidence: `Mindat redirects ${change.mindatId} to ${probe.record.id}` }
+            : await this.resolve(change.mindatId);
+
+          if (resolution) {
+            await this.markMerged(change.id, resolution);
+            progress.merged++;
+          } else {
+            progress.unresolved++;
+          }
+        }
+      } catch (error: any) {
+        progress.errors.push(`ID ${change.mindatId}: ${error.message}`);
+      }
+
+      if (progress.checked % 25 === 0 || progress.checked === pending.length) {
+        await onProgress?.(change.id, progress, pending.length);
+      }
+    }
+
+    console.log(`✅ Merge resolution: ${progress.merged} merged, ${progress.unresolved} still deleted, ${progress.reappeared} reappeared`);
+    return progress;
+  }
+
+  /**
+   * Every merged ID with the local rows, and optionally e-Rocks export rows,
+   * that still refer to it and need pointing at the surviving record.
+   */
+  async getRepointReport(options: { erocksCsvPath?: string } = {}): Promise<RepointEntry[]> {
+    const source = alias(mindatMinerals, 'source');
+    const target = alias(mindatMinerals, 'target');
+
+    const merges = await db.select({
+      fromId: mineralChanges.mindatId,
+      fromName: source.name,
+      toId: mineralChanges.mergedIntoId,
+      toName: target.name,
+      method: mineralChanges.resolvedBy,
+      detectedAt: mineralChanges.detectedAt,
+    })
+      .from(mineralChanges)
+      .leftJoin(source, eq(source.mindatId, mineralChanges.mindatId))
+      .leftJoin(target, eq(target.mindatId, mineralChanges.mergedIntoId))
+      .where(eq(mineralChanges.changeType, 'merged'))
+      .orderBy(asc(mineralChanges.mindatId));
+
+    const entries = new Map<number, RepointEntry>();
+    for (const merge of merges) {
+      if (merge.toId === null) continue;
+      entries.set(merge.fromId, { ...merge, toId: merge.toId, references: [] });
+    }
+    if (entries.size === 0) return [];
+
+    const ids = Array.from(entries.keys());
+    const add = (fromId: number, reference: RepointReference) => entries.get(fromId)?.references.push(reference);
+
+    const pointers = await db.select({
+      mindatId: mindatMinerals.mindatId,
+      name: mindatMinerals.name,
+      varietyOf: mindatMinerals.varietyOf,
+      synId: mindatMinerals.synId,
+    })
+      .from(mindatMinerals)
+      .where(or(inArray(mindatMinerals.varietyOf, ids), inArray(mindatMinerals.synId, ids)));
+    for (const row of pointers) {
+      if (row.varietyOf !== null && entries.has(row.varietyOf)) {
+        add(row.varietyOf, { source: 'mindat_minerals', column: 'variety_of', recordId: String(row.mindatId), label: row.name, value: String(row.varietyOf) });
+      }
+      if (row.synId !== null && entries.has(row.synId)) {
+        add(row.synId, { source: 'mindat_minerals', column: 'syn_id', recordId: String(row.mindatId), label: row.name, value: String(row.synId) });
+      }
+    }
+
+    const names = await db.select().from(mineralNameIndex).where(inArray(mineralNameIndex.mindatId, ids));
+    for (const row of names) {
+      add(row.mindatId!, { source: 'mineral_name_index', column: 'mindat_id', recordId: String(row.id), label: row.canonicalName, value: String(row.mindatId) });
+    }
+
+    const legacy = await db.select({ id: minerals.id, name: minerals.name, mindatId: minerals.mindatId })
+      .from(minerals)
+      .where(inArray(minerals.mindatId, ids));
+    for (const row of legacy) {
+      add(row.mindatId!, { source: 'minerals', column: 'mindat_id', recordId: String(row.id), label: row.name, value: String(row.mindatId) });
+    }
+
+    const rruff = await db.select({ id: rruffMinerals.id, name: rruffMinerals.mineralName, mindatId: rruffMinerals.mindatId })
+      .from(rruffMinerals)
+      .where(inArray(rruffMinerals.mindatId, ids));
+    for (const row of rruff) {
+      add(row.mindatId!, { source: 'rruff_minerals', column: 'mindat_id', recordId: String(row.id), label: row.name, value: String(row.mindatId) });
+    }
+
+    if (options.erocksCsvPath) {
+      await this.addErocksReferences(options.erocksCsvPath, entries);
+    }
+
+    return Array.from(entries.values());
+  }
+
+  private async addErocksReferences(csvPath: string, entries: Map<number, RepointEntry>): Promise<void> {
+    // Name columns only need repointing when the surviving record has a different name
+    const renamed = new Map<string, RepointEntry>();
+    for (const entry of Array.from(entries.values())) {
+      if (entry.fromName && entry.fromName.toLowerCase() !== entry.toName?.toLowerCase()) {
+        renamed.set(entry.fromName.toLowerCase(), entry);
+      }
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      createReadStream(csvPath, { encoding: 'utf8' })
+        .pipe(csv())
+        .on('data', (row: Record<string, string>) => {
+          const recordId = row['Nid'] || row['Title'] || '';
+          const label = row['Title'] || null;
+
+          const mindatId = parseInt(row['Mindat ID'] ?? '', 10);
+          entries.get(mindatId)?.references.push({ source: 'erocks', column: 'Mindat ID', recordId, label, value: row['Mindat ID'] });
+
+          const urlId = parseInt(row['Mindat URL']?.match(/min-(\d+)\.html/)?.[1] ?? '', 10);
+          if (urlId !== mindatId) {
+            entries.get(urlId)?.references.push({ source: 'erocks', column: 'Mindat URL', recordId, label, value: row['Mindat URL'] });
+          }
+
+          for (const column of EROCKS_NAME_COLUMNS) {
+            const value = row[column]?.trim();
+            const entry = value ? renamed.get(value.toLowerCase()) : undefined;
+            entry?.references.push({ source: 'erocks', column, recordId, label, value: value! });
+          }
+        })
+        .on('end', () => resolve())
+        .on('error', reject);
+    });
+  }
+
+  private async markMerged(changeId: number, resolution: MergeResolution): Promise<void> {
+    await db.update(mineralChanges)
+      .set({
+        changeType: 'merged',
+        mergedIntoId: resolution.mergedIntoId,
+        resolvedBy: resolution.method,
+        notes: resolution.evidence,
+      })
+      .where(eq(mineralChanges.id, changeId));
+  }
+
+  private historyTargets(record: MindatMineral): string[] {
+    const text = [record.imaHistory, record.imaNotes].filter(Boolean).join('; ');
+    const names: string[] = [];
+
+    for (const pattern of IMA_HISTORY_TARGETS) {
+      for (const match of Array.from(text.matchAll(pattern))) {
+        const name = match[1].trim();
+        if (name && name.length <= 60 && name.toLowerCase() !== record.name.toLowerCase()) {
+          names.push(name);
+        }
+      }
+    }
+
+    return names;
+  }
+
+  // A stored record with this name whose ID has not itself vanished
+  private async findLiveByName(name: string, excludeId: number): Promise<{ mindatId: number; name: string } | undefined> {
+    const [match] = await db.select({ mindatId: mindatMinerals.mindatId, name: mindatMinerals.name })
+      .from(mindatMinerals)
+      .where(and(
+        sql`lower(${mindatMinerals.name}) = lower(${name})`,
+        ne(mindatMinerals.mindatId, excludeId),
+        sql`NOT EXISTS (
+          SELECT 1 FROM ${mineralChanges}
+          WHERE ${mineralChanges.mindatId} = ${mindatMinerals.mindatId}
+            AND ${mineralChanges.changeType} IN ('deleted', 'merged')
+        )`,
+      ))
+      .orderBy(asc(mindatMinerals.entryType), asc(mindatMinerals.mindatId))
+      .limit(1);
+    return match;
+  }
+
+  // Search failures leave the ID recorded as deleted for the next attempt
+  private async searchMindatByName(name: string, excludeId: number): Promise<{ mindatId: number; name: string } | undefined> {
+    try {
+      const response = await this.mindatAPI.searchMinerals({ name, fields: 'id,name', page_size: 10 });
+      const match = (response.results || []).find((result: any) =>
+        result.id !== excludeId && String(result.name).toLowerCase() === name.toLowerCase()
+      );
+      return match ? { mindatId: match.id, name: match.name } : undefined;
+    } catch (error: any) {
+      console.warn(`⚠️  Name search for ${name} failed: ${error.message}`);
+      return undefined;
+    }
+  }
+}
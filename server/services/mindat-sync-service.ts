@@ -1,21 +1,35 @@
 import { db } from '../db';
-import { mindatMinerals, mineralNameIndex, syncJobs, dataSources } from '@shared/schema';
+import { mindatMinerals, mineralNameIndex, dataSources, type MindatMineral } from '@shared/schema';
+import type { SyncRecordChange } from '@shared/sync-events';
+import { storage, type MindatMineralSearchParams } from '../storage';
 import { MindatAPIService } from './mindat-api-service';
+import { MineralChangeHistory } from './mineral-change-history';
+import { MindatFieldMapper, UnmappedFieldTally, type UnmappedFieldSummary } from './mindat-field-mapping';
 import { eq } from 'drizzle-orm';
 import crypto from 'crypto';
 
+const DEFAULT_STALE_AFTER_DAYS = parseInt(process.env.MINDAT_STALE_DAYS || '30', 10);
+// A search waits this long for Mindat when nothing is stored locally, without retries
+const SEARCH_TIMEOUT_MS = 5000;
+// A queued refresh that has not run after this long may be queued again
+const REFRESH_REQUEUE_MS = 60 * 60 * 1000;
+
 interface SyncProgress {
   totalProcessed: number;
   totalFailed: number;
   totalUpdated: number;
   totalCreated: number;
   errors: string[];
+  unmappedFields?: UnmappedFieldSummary[]; // Set when a full sync finishes
 }
 
 export class MindatSyncService {
   private static instance: MindatSyncService;
   private mindatAPI: MindatAPIService;
+  private history = MineralChangeHistory.getInstance();
+  private fieldMapper = MindatFieldMapper.getInstance();
   private mindatDataSourceId: number | null = null;
+  private refreshQueued = new Map<number, number>(); // Mindat ID -> when it was queued
 
   private constructor() {
     this.mindatAPI = MindatAPIService.getInstance();
@@ -82,227 +96,24 @@ export class MindatSyncService {
     return hashes;
   }
 
-  private mapMindatToSchema(mindatData: any): any {
+  private mapMindatToSchema(mindatData: any, unmapped?: UnmappedFieldTally): any {
     return {
-      mindatId: mindatData.id,
-      name: mindatData.name,
-      guid: mindatData.guid ?? null,
-      longId: mindatData.longid ?? null,
-      entryType: mindatData.entrytype ?? null,
-      entryTypeText: mindatData.entrytype_text ?? null,
-      updtTime: mindatData.updttime ? new Date(mindatData.updttime) : null,
-
-      imaFormula: mindatData.ima_formula ?? null,
-      mindatFormula: mindatData.mindat_formula ?? null,
-      mindatFormulaNote: mindatData.mindat_formula_note ?? null,
-      imaStatus: mindatData.ima_status ?? null,
-      imaSymbol: mindatData.shortcode_ima ?? null,
-      imaNotes: mindatData.ima_notes ?? null,
-      imaHistory: mindatData.ima_history ?? null,
-      imaYear: mindatData.approval_year ?? mindatData.ima_year ?? null,
-      approvalYear: mindatData.approval_year ?? null,
-      publicationYear: mindatData.publication_year ?? null,
-      discoveryYear: mindatData.discovery_year ?? null,
-      shortcodeIma: mindatData.shortcode_ima ?? null,
-
-      aboutName: mindatData.aboutname ?? null,
-      descriptionShort: mindatData.description_short ?? null,
-
-      crystalSystem: mindatData.csystem ?? null,
-      csMetamict: mindatData.csmetamict ?? null,
-      spaceGroup: mindatData.spacegroup ?? null,
-      spaceGroupSet: mindatData.spacegroupset ?? null,
-      unitCellA: mindatData.a ?? null,
-      unitCellAError: mindatData.aerror ?? null,
-      unitCellB: mindatData.b ?? null,
-      unitCellBError: mindatData.berror ?? null,
-      unitCellC: mindatData.c ?? null,
-      unitCellCError: mindatData.cerror ?? null,
-      unitCellAlpha: mindatData.alpha ?? null,
-      unitCellAlphaError: mindatData.alphaerror ?? null,
-      unitCellBeta: mindatData.beta ?? null,
-      unitCellBetaError: mindatData.betaerror ?? null,
-      unitCellGamma: mindatData.gamma ?? null,
-      unitCellGammaError: mindatData.gammaerror ?? null,
-      unitCellVolume: mindatData.va3 ?? null,
-      zValue: mindatData.z ?? null,
-
-      hardnessMin: mindatData.hmin ?? null,
-      hardnessMax: mindatData.hmax ?? null,
-      hardType: mindatData.hardtype ?? null,
-      vhnMin: mindatData.vhnmin ?? null,
-      vhnMax: mindatData.vhnmax ?? null,
-      vhns: mindatData.vhns ?? null,
-      vhng: mindatData.vhng ?? null,
-      vhnError: mindatData.vhnerror ?? null,
-
-      densityMin: mindatData.dmeas ?? null,
-      densityMax: mindatData.dmeas2 ?? null,
-      densityCalc: mindatData.dcalc ?? null,
-      densityCalcError: mindatData.dcalcerror ?? null,
-      densityMeas: mindatData.dmeas ?? null,
-      densityMeas2: mindatData.dmeas2 ?? null,
-      densityMeasError: mindatData.dmeaserror ?? null,
-      specificGravityMin: mindatData.dmeas ?? null,
-      specificGravityMax: mindatData.dmeas2 ?? null,
-
-      colour: mindatData.colour ?? null,
-      color: mindatData.colour ?? null,
-      commentColor: mindatData.commentcolor ?? null,
-      diaphaneity: mindatData.diapheny ?? null,
-      lustre: mindatData.lustre ?? null,
-      lustreType: mindatData.lustretype ?? null,
-      commentLuster: mindatData.commentluster ?? null,
-      streak: mindatData.streak ?? null,
-      fracture: mindatData.fracturetype ?? null,
-      fractureType: mindatData.fracturetype ?? null,
-      cleavage: mindatData.cleavage ?? null,
-      cleavageType: mindatData.cleavagetype ?? null,
-      tenacity: mindatData.tenacity ?? null,
-      habit: mindatData.morphology ?? null,
-      morphology: mindatData.morphology ?? null,
-      parting: mindatData.parting ?? null,
-      twinning: mindatData.twinning ?? null,
-      commentCrystal: mindatData.commentcrystal ?? null,
-      commentHard: mindatData.commenthard ?? null,
-      commentDense: mindatData.commentdense ?? null,
-      commentBreak: mindatData.commentbreak ?? null,
-
-      optical2vCalc: mindatData.optical2vcalc ?? null,
-      optical2vCalc2: mindatData.optical2vcalc2 ?? null,
-      optical2vCalcError: mindatData.optical2vcalcerror ?? null,
-      optical2vMeasured: mindatData.optical2vmeasured ?? null,
-      optical2vMeasured2: mindatData.optical2vmeasured2 ?? null,
-      optical2vMeasuredError: mindatData.optical2vmeasurederror ?? null,
-      opticalSign: mindatData.opticalsign ?? null,
-      opticalType: mindatData.opticaltype ?? null,
-      opticalTropic: mindatData.opticaltropic ?? null,
-      opticalAlpha: mindatData.opticalalpha ?? null,
-      opticalAlpha2: mindatData.opticalalpha2 ?? null,
-      opticalAlphaError: mindatData.opticalalphaerror ?? null,
-      opticalBeta: mindatData.opticalbeta ?? null,
-      opticalBeta2: mindatData.opticalbeta2 ?? null,
-      opticalBetaError: mindatData.opticalbetaerror ?? null,
-      opticalGamma: mindatData.opticalgamma ?? null,
-      opticalGamma2: mindatData.opticalgamma2 ?? null,
-      opticalGammaError: mindatData.opticalgammaerror ?? null,
-      opticalOmega: mindatData.opticalomega ?? null,
-      opticalOmega2: mindatData.opticalomega2 ?? null,
-      opticalOmegaError: mindatData.opticalomegaerror ?? null,
-      opticalEpsilon: mindatData.opticalepsilon ?? null,
-      opticalEpsilon2: mindatData.opticalepsilon2 ?? null,
-      opticalEpsilonError: mindatData.opticalepsilonerror ?? null,
-      opticalN: mindatData.opticaln ?? null,
-      opticalN2: mindatData.opticaln2 ?? null,
-      opticalNError: mindatData.opticalnerror ?? null,
-      opticalR: mindatData.opticalr ?? null,
-      riMin: mindatData.rimin ?? null,
-      riMax: mindatData.rimax ?? null,
-      riAlpha: mindatData.opticalalpha ?? null,
-      riBeta: mindatData.opticalbeta ?? null,
-      riGamma: mindatData.opticalgamma ?? null,
-      riOmega: mindatData.opticalomega ?? null,
-      riEpsilon: mindatData.opticalepsilon ?? null,
-      opticalBirefringence: mindatData.opticalbirefringence ?? null,
-      opticalBireflectance: mindatData.opticalbireflectance ?? null,
-      opticalDispersion: mindatData.opticaldispersion ?? null,
-      opticalAnisotropism: mindatData.opticalanisotropism ?? null,
-      opticalExtinction: mindatData.opticalextinction ?? null,
-      opticalPleochroism: mindatData.opticalpleochroism ?? null,
-      opticalPleochroismDesc: mindatData.opticalpleochorismdesc ?? null,
-      opticalColour: mindatData.opticalcolour ?? null,
-      opticalInternal: mindatData.opticalinternal ?? null,
-      opticalComments: mindatData.opticalcomments ?? null,
-      specDispm: mindatData.specdispm ?? null,
-
-      pleochroism: mindatData.opticalpleochroism ?? null,
-
-      strunz10ed1: mindatData.strunz10ed1 ?? null,
-      strunz10ed2: mindatData.strunz10ed2 ?? null,
-      strunz10ed3: mindatData.strunz10ed3 ?? null,
-      strunz10ed4: mindatData.strunz10ed4 ?? null,
-      strunzClass: mindatData.strunz10ed4 ?? null,
-      dana8ed1: mindatData.dana8ed1 ?? null,
-      dana8ed2: mindatData.dana8ed2 ?? null,
-      dana8ed3: mindatData.dana8ed3 ?? null,
-      dana8ed4: mindatData.dana8ed4 ?? null,
-      danaClass: mindatData.dana8ed4 ?? null,
-      heyClass: null,
-      cclass: mindatData.cclass ?? null,
-
-      elements: mindatData.elements ?? null,
-      keyElements: mindatData.key_elements ?? null,
-      sigelements: mindatData.sigelements ?? null,
-      elementsInc: null,
-      elementsExc: null,
-      impurities: mindatData.impurities ?? null,
-
-      groupId: mindatData.groupid ?? null,
-      varietyOf: mindatData.varietyof ?? null,
-      synId: mindatData.synid ?? null,
-      polytypeOf: mindatData.polytypeof ?? null,
-      structuralGroupName: null,
-      cim: mindatData.cim ?? null,
-      tlform: mindatData.tlform ?? null,
-
-      meteoriteCode: mindatData.meteoritical_code ?? null,
-      meteoriticalCode: mindatData.meteoritical_code ?? null,
-      meteoriteCodeExists: false,
-
-      rockBgsCode: mindatData.rock_bgs_code ?? null,
-      rockParent: mindatData.rock_parent ?? null,
-      rockParent2: mindatData.rock_parent2 ?? null,
-      rockRoot: mindatData.rock_root ?? null,
-
-      typeLocalitiesData: null,
-      localityData: null,
-      typeSpecimenStore: mindatData.type_specimen_store ?? null,
-      noLocAdd: mindatData.nolocadd ?? null,
-
-      description: mindatData.description_short ?? null,
-      occurrence: mindatData.occurrence ?? mindatData.otheroccurrence ?? null,
-      otherOccurrence: mindatData.otheroccurrence ?? null,
-      formationEnvironment: null,
-      geologyNotes: null,
-
-      imageUrl: null,
-      imageCount: null,
-      alternateImages: null,
-
-      luminescence: mindatData.luminescence ?? null,
-      fluorescence: null,
-      magnetism: mindatData.magnetism ?? null,
-      radioactivity: null,
-      arsenicContent: null,
-      electrical: mindatData.electrical ?? null,
-      thermalBehaviour: mindatData.thermalbehaviour ?? null,
-
-      solubility: null,
-      fusibility: null,
-
-      epitaxiDescription: mindatData.epitaxidescription ?? null,
-      tranGlide: mindatData.tranglide ?? null,
-      weighting: mindatData.weighting ?? null,
-
-      uv: mindatData.uv ?? null,
-      ir: mindatData.ir ?? null,
-      other: mindatData.other ?? null,
-      industrial: mindatData.industrial ?? null,
-
-      localityCount: null,
-      licenseInfo: null,
-
-      nonUtf: false,
-
+      ...this.fieldMapper.map(mindatData, 'api', { unmapped }),
       fieldHashes: this.calculateFieldHashes(mindatData),
       dataHash: this.calculateHash(mindatData),
       lastSyncedAt: new Date(),
     };
   }
 
-  private async upsertMineral(mineralData: any, progress: SyncProgress): Promise<void> {
+  private async upsertMineral(
+    mineralData: any,
+    progress: SyncProgress,
+    onRecord?: (change: SyncRecordChange) => void,
+    jobId?: number,
+    unmapped?: UnmappedFieldTally, // Only full syncs report unmapped fields
+  ): Promise<void> {
     try {
-      const mapped = this.mapMindatToSchema(mineralData);
+      const mapped = this.mapMindatToSchema(mineralData, unmapped);
 
       const existing = await db.select()
         .from(mindatMinerals)
@@ -311,14 +122,23 @@ export class MindatSyncService {
 
       if (existing.length > 0) {
         if (existing[0].dataHash !== mapped.dataHash) {
+          await db.transaction(async (tx) => {
+            await tx.update(mindatMinerals)
+              .set(mapped)
+              .where(eq(mindatMinerals.mindatId, mapped.mindatId));
+            await this.history.recordUpdate(existing[0], mapped, { jobId, executor: tx });
+          });
+          progress.totalUpdated++;
+          onRecord?.({ action: 'updated', mindatId: mapped.mindatId, name: mapped.name });
+        } else {
           await db.update(mindatMinerals)
-            .set(mapped)
+            .set({ lastSyncedAt: mapped.lastSyncedAt })
             .where(eq(mindatMinerals.mindatId, mapped.mindatId));
-          progress.totalUpdated++;
         }
       } else {
         await db.insert(mindatMinerals).values(mapped);
         progress.totalCreated++;
+        onRecord?.({ action: 'created', mindatId: mapped.mindatId, name: mapped.name });
 
         const imaStatusArray = Array.isArray(mineralData.ima_status) 
           ? mineralData.ima_status 
@@ -354,27 +174,34 @@ export class MindatSyncService {
     }
   }
 
+  /**
+   * Page through Mindat geomaterials by id, upserting each record. Run it
+   * through the job queue (job type mindat_full_sync) for checkpointing;
+   * `onPage` is called after every page with the page to resume from, and
+   * `onRecord` for each mineral created or changed. Field changes are
+   * recorded against `jobId`.
+   */
   async syncMinerals(options: {
     startPage?: number;
     maxPages?: number;
     pageSize?: number;
     imaOnly?: boolean;
+    onPage?: (nextPage: number, progress: SyncProgress, totalCount?: number) => Promise<void>;
+    onRecord?: (change: SyncRecordChange) => void;
+    jobId?: number;
   } = {}): Promise<SyncProgress> {
     const {
       startPage = 1,
       maxPages = 10,
       pageSize = 100,
       imaOnly = false,
+      onPage,
+      onRecord,
+      jobId,
     } = options;
 
     await this.ensureMindatDataSource();
 
-    const [job] = await db.insert(syncJobs).values({
-      jobType: 'mindat_full_sync',
-      status: 'running',
-      startedAt: new Date(),
-    }).returning();
-
     const progress: SyncProgress = {
       totalProcessed: 0,
       totalFailed: 0,
@@ -383,72 +210,45 @@ export class MindatSyncService {
       errors: [],
     };
 
-    try {
-      const allFields = '*';
-
-      for (let page = startPage; page <= maxPages; page++) {
-        console.log(`Fetching page ${page} of ${maxPages}...`);
+    const allFields = '*';
+    const unmapped = new UnmappedFieldTally();
 
-        const searchParams: any = {
-          page,
-          page_size: pageSize,
-          fields: allFields,
-          ordering: 'id',
-        };
+    for (let page = startPage; page <= maxPages; page++) {
+      console.log(`Fetching page ${page} of ${maxPages}...`);
 
-        if (imaOnly) {
-          searchParams.entrytype = 0;
-        }
+      const searchParams: any = {
+        page,
+        page_size: pageSize,
+        fields: allFields,
+        ordering: 'id',
+      };
 
-        const response = await this.mindatAPI.searchMinerals(searchParams);
-
-        if (!response.results || response.results.length === 0) {
-          console.log('No more results, stopping sync');
-          break;
-        }
-
-        for (const mineralData of response.results) {
-          await this.upsertMineral(mineralData, progress);
-        }
+      if (imaOnly) {
+        searchParams.entrytype = 0;
+      }
 
-        await db.update(syncJobs)
-          .set({
-            recordsProcessed: progress.totalProcessed,
-            recordsFailed: progress.totalFailed,
-          })
-          .where(eq(syncJobs.id, job.id));
+      const response = await this.mindatAPI.searchMinerals(searchParams);
 
-        if (!response.next) {
-          console.log('Reached end of results');
-          break;
-        }
+      if (!response.results || response.results.length === 0) {
+        console.log('No more results, stopping sync');
+        break;
       }
 
-      await db.update(syncJobs)
-        .set({
-          status: 'completed',
-          recordsProcessed: progress.totalProcessed,
-          recordsFailed: progress.totalFailed,
-          completedAt: new Date(),
-        })
-        .where(eq(syncJobs.id, job.id));
+      for (const mineralData of response.results) {
+        await this.upsertMineral(mineralData, progress, onRecord, jobId, unmapped);
+      }
 
-      console.log(`Sync completed: ${progress.totalCreated} created, ${progress.totalUpdated} updated, ${progress.totalFailed} failed`);
+      await onPage?.(page + 1, progress, response.count);
 
-    } catch (error) {
-      await db.update(syncJobs)
-        .set({
-          status: 'failed',
-          errorMessage: String(error),
-          recordsProcessed: progress.totalProcessed,
-          recordsFailed: progress.totalFailed,
-          completedAt: new Date(),
-        })
-        .where(eq(syncJobs.id, job.id));
-
-      throw error;
+      if (!response.next) {
+        console.log('Reached end of results');
+        break;
+      }
     }
 
+    console.log(`Sync completed: ${progress.totalCreated} created, ${progress.totalUpdated} updated, ${progress.totalFailed} failed`);
+    progress.unmappedFields = await this.fieldMapper.flushUnmappedFields(unmapped);
+
     return progress;
   }
 
@@ -465,19 +265,104 @@ export class MindatSyncService {
     await this.upsertMineral(mineralData, progress);
   }
 
-  async searchAndSync(searchQuery: string, options: { page?: number; pageSize?: number } = {}): Promise<{ results: any[]; count: number }> {
-    const { page = 1, pageSize = 20 } = options;
+  /**
+   * Answer a search from mindat_minerals without waiting on Mindat for
+   * anything already stored. Only when nothing matches a name is Mindat
+   * asked, once and briefly. Stale rows are served as they are and their
+   * IDs handed to `onStale` (once per ID until refreshed) to refresh in
+   * the background.
+   */
+  async searchLocalFirst(
+    params: MindatMineralSearchParams,
+    options: { staleAfterDays?: number; onStale?: (mindatIds: number[]) => Promise<unknown> } = {}
+  ): Promise<{ results: MindatMineral[]; count: number; fetchedRemote: number; queuedRefresh: number }> {
+    const { staleAfterDays = DEFAULT_STALE_AFTER_DAYS, onStale } = options;
+
+    let local = await storage.searchMindatMinerals(params);
+    let fetchedRemote = 0;
+
+    // Nothing stored yet for this name: pull matching records from Mindat once.
+    if (local.count === 0 && params.name) {
+      try {
+        fetchedRemote = await this.fetchMissing(params.name, params.pageSize || 20);
+        if (fetchedRemote > 0) {
+          local = await storage.searchMindatMinerals(params);
+        }
+      } catch (error) {
+        console.error(`Remote search for "${params.name}" failed, serving local results:`, error);
+      }
+    }
+
+    const now = Date.now();
+    const staleBefore = new Date(now - staleAfterDays * 24 * 60 * 60 * 1000);
+    const stale = local.results
+      .filter(mineral => !mineral.lastSyncedAt || mineral.lastSyncedAt < staleBefore)
+      .map(mineral => mineral.mindatId)
+      .filter(mindatId => now - (this.refreshQueued.get(mindatId) ?? 0) > REFRESH_REQUEUE_MS);
+
+    if (stale.length > 0 && onStale) {
+      for (const mindatId of stale) this.refreshQueued.set(mindatId, now);
+      try {
+        await onStale(stale);
+      } catch (error) {
+        for (const mindatId of stale) this.refreshQueued.delete(mindatId);
+        console.error(`Could not queue refresh of ${stale.length} stale minerals:`, error);
+      }
+    }
+
+    return {
+      results: local.results,
+      count: local.count,
+      fetchedRemote,
+      queuedRefresh: onStale ? stale.length : 0,
+    };
+  }
+
+  /**
+   * Re-sync minerals a search found stale, from `startIndex` on. A failed
+   * refresh is reported and the rest carry on.
+   */
+  async refreshMinerals(mindatIds: number[], options: {
+    startIndex?: number;
+    onProgress?: (nextIndex: number, progress: SyncProgress) => Promise<void>;
+  } = {}): Promise<SyncProgress> {
+    const progress: SyncProgress = { totalProcessed: 0, totalFailed: 0, totalUpdated: 0, totalCreated: 0, errors: [] };
+
+    for (let index = options.startIndex ?? 0; index < mindatIds.length; index++) {
+      const mindatId = mindatIds[index];
+      try {
+        await this.syncSingleMineral(mindatId);
+        progress.totalUpdated++;
+      } catch (error: any) {
+        progress.totalFailed++;
+        progress.errors.push(`Mineral ${mindatId}: ${error.message}`);
+      } finally {
+        progress.totalProcessed++;
+        this.refreshQueued.delete(mindatId);
+      }
+      await options.onProgress?.(index + 1, progress);
+    }
 
+    return progress;
+  }
+
+  /**
+   * Fetch full records for a name search and store the ones not held locally.
+   * The search is requested with all fields, so no per-record follow-up calls.
+   */
+  private async fetchMissing(name: string, pageSize: number): Promise<number> {
     await this.ensureMindatDataSource();
 
     const searchResponse = await this.mindatAPI.searchMinerals({
-      name: searchQuery,
-      page,
+      name,
+      page: 1,
       page_size: pageSize,
       fields: '*',
+    }, {
+      timeoutMs: SEARCH_TIMEOUT_MS,
+      retries: 0,
     });
 
-    const results: any[] = [];
     const progress: SyncProgress = {
       totalProcessed: 0,
       totalFailed: 0,
@@ -486,31 +371,10 @@ export class MindatSyncService {
       errors: [],
     };
 
-    if (searchResponse.results && searchResponse.results.length > 0) {
-      for (const searchResult of searchResponse.results) {
-        try {
-          const mineralData = await this.mindatAPI.getMineralById(searchResult.id);
-          
-          await this.upsertMineral(mineralData, progress);
-          
-          const stored = await db.select()
-            .from(mindatMinerals)
-            .where(eq(mindatMinerals.mindatId, searchResult.id))
-            .limit(1);
-          
-          if (stored.length > 0) {
-            results.push(stored[0]);
-          }
-        } catch (error) {
-          console.error(`Error syncing mineral ${searchResult.id}:`, error);
-          progress.errors.push(`Failed to sync mineral ${searchResult.id}: ${error}`);
-        }
-      }
+    for (const mineralData of searchResponse.results || []) {
+      await this.upsertMineral(mineralData, progress);
     }
 
-    return {
-      results,
-      count: searchResponse.count || results.length,
-    };
+    return progress.totalCreated;
   }
 }
@@ -0,0 +1,160 @@
+import { db } from '../db';
+import { mindatMinerals, mineralChanges, syncJobs, type MindatMineral } from '@shared/schema';
+import type { FieldChange, MineralHistoryEntry } from '@shared/mineral-history';
+import { and, asc, desc, eq, gte, lt, type SQL } from 'drizzle-orm';
+
+// Bookkeeping columns, plus updtTime which moves on every Mindat edit and is
+// kept on each change row instead
+const IGNORED_FIELDS = new Set([
+  'id', 'mindatId', 'updtTime', 'fieldHashes', 'dataHash', 'lastSyncedAt', 'createdAt', 'updatedAt',
+]);
+
+// db or a transaction
+type Executor = Pick<typeof db, 'insert'>;
+
+interface HistoryQuery {
+  mindatId?: number;
+  field?: string;
+  since?: Date;
+  before?: Date;
+  limit?: number;
+}
+
+/**
+ * Field-level history for mindat_minerals. Syncs call recordUpdate alongside
+ * the row update so the values being overwritten are kept in mineral_changes,
+ * attributed to the job that made the change.
+ */
+export class MineralChangeHistory {
+  private static instance: MineralChangeHistory;
+
+  private constructor() {}
+
+  static getInstance(): MineralChangeHistory {
+    if (!MineralChangeHistory.instance) {
+      MineralChangeHistory.instance = new MineralChangeHistory();
+    }
+    return MineralChangeHistory.instance;
+  }
+
+  // Compares only the columns present in `next`
+  diff(existing: MindatMineral, next: Record<string, unknown>): FieldChange[] {
+    const current = existing as Record<string, unknown>;
+    const changes: FieldChange[] = [];
+
+    for (const [field, value] of Object.entries(next)) {
+      if (IGNORED_FIELDS.has(field) || !(field in current)) continue;
+
+      const oldValue = this.normalize(current[field]);
+      const newValue = this.normalize(value);
+      if (JSON.stringify(oldValue) !== JSON.stringify(newValue)) {
+        changes.push({ field, oldValue, newValue });
+      }
+    }
+
+    return changes;
+  }
+
+  async recordUpdate(
+    existing: MindatMineral,
+    next: Record<string, unknown>,
+    options: { jobId?: number; executor?: Executor } = {},
+  ): Promise<FieldChange[]> {
+    const changes = this.diff(existing, next);
+    if (changes.length === 0) return changes;
+
+    const detectedAt = new Date();
+    const updtTime = next.updtTime instanceof Date ? next.updtTime : null;
+
+    await (options.executor ?? db).insert(mineralChanges).values(changes.map(change => ({
+      mindatId: existing.mindatId,
+      changeType: 'modified',
+      fieldName: change.field,
+      oldValue: change.oldValue,
+      newValue: change.newValue,
+      updtTime,
+      jobId: options.jobId ?? null,
+      detectedAt,
+    })));
+
+    return changes;
+  }
+
+  async getHistory(mindatId: number, options: { before?: Date; limit?: number } = {}): Promise<MineralHistoryEntry[]> {
+    return this.load({ ...options, mindatId });
+  }
+
+  // Recent changes across all minerals, newest first
+  async listChanges(options: Omit<HistoryQuery, 'mindatId'> = {}): Promise<MineralHistoryEntry[]> {
+    return this.load(options);
+  }
+
+  /**
+   * `limit` counts entries (one per mineral per sync), not rows, so the
+   * entries to return are picked first and their rows fetched after.
+   */
+  private async load(query: HistoryQuery): Promise<MineralHistoryEntry[]> {
+    const conditions: SQL[] = [];
+    if (query.mindatId !== undefined) conditions.push(eq(mineralChanges.mindatId, query.mindatId));
+    if (query.field) conditions.push(eq(mineralChanges.fieldName, query.field));
+    if (query.since) conditions.push(gte(mineralChanges.detectedAt, query.since));
+    if (query.before) conditions.push(lt(mineralChanges.detectedAt, query.before));
+
+    const selected = await db.selectDistinct({ mindatId: mineralChanges.mindatId, detectedAt: mineralChanges.detectedAt })
+      .from(mineralChanges)
+      .where(and(...conditions))
+      .orderBy(desc(mineralChanges.detectedAt), desc(mineralChanges.mindatId))
+      .limit(query.limit ?? 50);
+    if (selected.length === 0) return [];
+
+    const keys = new Set(selected.map(entry => this.key(entry.mindatId, entry.detectedAt)));
+    const oldest = selected[selected.length - 1].detectedAt;
+
+    const rows = await db.select({ change: mineralChanges, jobType: syncJobs.jobType, name: mindatMinerals.name })
+      .from(mineralChanges)
+      .leftJoin(syncJobs, eq(syncJobs.id, mineralChanges.jobId))
+      .leftJoin(mindatMinerals, eq(mindatMinerals.mindatId, mineralChanges.mindatId))
+      .where(and(...conditions, gte(mineralChanges.detectedAt, oldest)))
+      .orderBy(desc(mineralChanges.detectedAt), asc(mineralChanges.id));
+
+    const entries = new Map<string, MineralHistoryEntry>();
+    for (const { change, jobType, name } of rows) {
+      const key = this.key(change.mindatId, change.detectedAt);
+      if (!keys.has(key)) continue;
+
+      let entry = entries.get(key);
+      if (!entry) {
+        entry = {
+          mindatId: change.mindatId,
+          name: name ?? null,
+          changeType: change.changeType,
+          detectedAt: change.detectedAt.toISOString(),
+          updtTime: change.updtTime?.toISOString() ?? null,
+          jobId: change.jobId,
+          jobType: jobType ?? null,
+          mergedIntoId: change.mergedIntoId,
+          notes: change.notes,
+          fields: [],
+        };
+        entries.set(key, entry);
+      }
+      if (change.fieldName) {
+        entry.fields.push({ field: change.fieldName, oldValue: change.oldValue, newValue: change.newValue });
+      }
+    }
+
+    return Array.from(entries.values());
+  }
+
+  private key(mindatId: number, detectedAt: Date): string {
+    return `${mindatId}:${detectedAt.getTime()}`;
+  }
+
+  // Treat missing and empty values alike; the syncs map absent fields to
+  // either null or '' depending on the path
+  private normalize(value: unknown): unknown {
+    if (value === undefined || value === null || value === '') return null;
+    if (value instanceof Date) return value.toISOString();
+    return value;
+  }
+}
@@ -0,0 +1,528 @@
+import { db } from '../db';
+import { mindatMinerals, type MindatMineral } from '@shared/schema';
+import { and, asc, gt, sql, type SQL } from 'drizzle-orm';
+import type { PgColumn } from 'drizzle-orm/pg-core';
+import { getNumericProperty, propertySpan } from '@shared/mineral-properties';
+
+export interface ObservedRange {
+  min?: number;
+  max?: number;
+}
+
+export interface MineralObservations {
+  streak?: string;
+  lustre?: string;
+  colour?: string;
+  hardness?: ObservedRange;
+  specificGravity?: ObservedRange;
+  crystalSystem?: string;
+  cleavage?: string;
+  fluorescence?: string;
+}
+
+export type MatchVerdict = 'match' | 'partial' | 'mismatch' | 'unknown';
+
+export interface PropertyMatch {
+  property: keyof MineralObservations;
+  observed: string;
+  recorded: string | null;
+  score: number;
+  verdict: MatchVerdict;
+  note: string;
+}
+
+export interface IdentificationCandidate {
+  mineral: CandidateMineral;
+  score: number;
+  matches: PropertyMatch[];
+}
+
+export class IdentificationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'IdentificationError';
+  }
+}
+
+interface Vocabulary {
+  terms: string[];
+  synonyms: Record<string, string>;
+  // Terms close enough to earn half credit, e.g. grey for black
+  near: Record<string, string[]>;
+}
+
+const COLOURS: Vocabulary = {
+  terms: ['black', 'white', 'grey', 'brown', 'red', 'orange', 'yellow', 'green', 'blue', 'violet', 'pink', 'colourless', 'silver', 'gold'],
+  synonyms: {
+    gray: 'grey', greyish: 'grey', grayish: 'grey', steel: 'grey', lead: 'grey',
+    blackish: 'black', whitish: 'white', tin: 'white', cream: 'white',
+    brownish: 'brown', tan: 'brown', buff: 'brown',
+    reddish: 'red', scarlet: 'red', crimson: 'red',
+    orangish: 'orange', orangey: 'orange', amber: 'orange',
+    yellowish: 'yellow', honey: 'yellow', brassy: 'gold', golden: 'gold',
+    greenish: 'green', olive: 'green', emerald: 'green',
+    bluish: 'blue', blueish: 'blue',
+    purple: 'violet', purplish: 'violet', lilac: 'violet', lavender: 'violet',
+    pinkish: 'pink', rose: 'pink',
+    colorless: 'colourless', clear: 'colourless',
+    silvery: 'silver',
+  },
+  near: {
+    black: ['grey'],
+    grey: ['black', 'silver', 'white'],
+    silver: ['grey', 'white'],
+    white: ['colourless', 'grey'],
+    colourless: ['white'],
+    brown: ['red', 'orange', 'yellow', 'black'],
+    red: ['pink', 'brown', 'orange'],
+    orange: ['red', 'yellow', 'brown'],
+    yellow: ['gold', 'orange', 'brown'],
+    gold: ['yellow'],
+    green: ['blue', 'yellow'],
+    blue: ['green', 'violet'],
+    violet: ['blue', 'pink'],
+    pink: ['red', 'violet'],
+  },
+};
+
+const LUSTRES: Vocabulary = {
+  terms: ['metallic', 'submetallic', 'adamantine', 'subadamantine', 'vitreous', 'subvitreous', 'resinous', 'waxy', 'greasy', 'pearly', 'silky', 'dull', 'earthy'],
+  synonyms: {
+    glassy: 'vitreous', oily: 'greasy', pitchy: 'resinous', matte: 'dull', matt: 'dull', splendent: 'metallic',
+  },
+  near: {
+    metallic: ['submetallic'],
+    submetallic: ['metallic', 'adamantine'],
+    adamantine: ['subadamantine', 'submetallic'],
+    subadamantine: ['adamantine', 'vitreous'],
+    vitreous: ['subvitreous', 'subadamantine'],
+    subvitreous: ['vitreous', 'resinous', 'greasy'],
+    resinous: ['waxy', 'greasy', 'subvitreous'],
+    waxy: ['resinous', 'greasy', 'dull'],
+    greasy: ['waxy', 'resinous', 'subvitreous'],
+    pearly: ['silky'],
+    silky: ['pearly'],
+    dull: ['earthy', 'waxy'],
+    earthy: ['dull'],
+  },
+};
+
+const CLEAVAGE_QUALITY: Record<string, number> = {
+  perfect: 4, excellent: 4, eminent: 4,
+  good: 3, distinct: 2, fair: 2,
+  imperfect: 1, poor: 1, indistinct: 1, difficult: 1,
+  none: 0, absent: 0,
+};
+
+const CRYSTAL_SYSTEM_SYNONYMS: Record<string, string> = {
+  isometric: 'cubic',
+  rhombohedral: 'trigonal',
+};
+
+// Relative importance of each observation in the overall score
+const PROPERTY_WEIGHTS: Record<keyof MineralObservations, number> = {
+  hardness: 3,
+  specificGravity: 2.5,
+  streak: 2.5,
+  lustre: 2,
+  crystalSystem: 1.5,
+  colour: 1,
+  cleavage: 1,
+  fluorescence: 0.5,
+};
+
+// Score for a property the mineral has no data for; slightly below neutral so
+// well-documented minerals outrank sparse records with the same evidence
+const UNKNOWN_SCORE = 0.4;
+const HARDNESS_TOLERANCE = 1;
+const SPECIFIC_GRAVITY_TOLERANCE = 0.5;
+const CANDIDATE_PAGE_SIZE = 5000;
+const TEXT_PROPERTIES = ['streak', 'lustre', 'colour', 'crystalSystem', 'cleavage', 'fluorescence'] as const;
+
+const candidateColumns = {
+  id: mindatMinerals.id,
+  mindatId: mindatMinerals.mindatId,
+  name: mindatMinerals.name,
+  mindatFormula: mindatMinerals.mindatFormula,
+  imaFormula: mindatMinerals.imaFormula,
+  crystalSystem: mindatMinerals.crystalSystem,
+  streak: mindatMinerals.streak,
+  lustre: mindatMinerals.lustre,
+  colour: mindatMinerals.colour,
+  cleavage: mindatMinerals.cleavage,
+  fluorescence: mindatMinerals.fluorescence,
+  hardnessMin: mindatMinerals.hardnessMin,
+  hardnessMax: mindatMinerals.hardnessMax,
+  specificGravityMin: mindatMinerals.specificGravityMin,
+  specificGravityMax: mindatMinerals.specificGravityMax,
+  densityMeas: mindatMinerals.densityMeas,
+  densityMeas2: mindatMinerals.densityMeas2,
+};
+
+export type CandidateMineral = Pick<MindatMineral, keyof typeof candidateColumns>;
+
+export class MineralIdentificationService {
+  private static instance: MineralIdentificationService;
+
+  private constructor() {}
+
+  static getInstance(): MineralIdentificationService {
+    if (!MineralIdentificationService.instance) {
+      MineralIdentificationService.instance = new MineralIdentificationService();
+    }
+    return MineralIdentificationService.instance;
+  }
+
+  /**
+   * Rank mindat_minerals against a set of field observations. Numeric
+   * properties score by distance from the recorded range; free-text ones are
+   * normalised to a small vocabulary first, so "greyish-black" still credits a
+   * mineral recorded as "black".
+   */
+  async identify(input: MineralObservations, options: { limit?: number } = {}): Promise<{
+    candidates: IdentificationCandidate[];
+    considered: number;
+  }> {
+    const { limit = 25 } = options;
+
+    for (const property of TEXT_PROPERTIES) {
+      const value = input[property];
+      if (value !== undefined && value !== null && typeof value !== 'string') {
+        throw new IdentificationError(`${property} must be a string`);
+      }
+    }
+
+    const observed = this.observedProperties(input);
+
+    if (observed.length === 0) {
+      throw new IdentificationError('Provide at least one observed property');
+    }
+
+    // Drop blank fields so everything below can assume an observation is usable
+    const observations: MineralObservations = Object.fromEntries(
+      observed.map((property) => [property, input[property]])
+    );
+
+    const totalWeight = observed.reduce((sum, property) => sum + PROPERTY_WEIGHTS[property], 0);
+
+    // Every row that passes the filters is scored; only the best `limit` are kept between pages
+    let candidates: IdentificationCandidate[] = [];
+    let considered = 0;
+    let lastId = 0;
+
+    while (true) {
+      const rows = await this.loadCandidates(observations, lastId);
+      if (rows.length === 0) break;
+
+      considered += rows.length;
+      lastId = rows[rows.length - 1].id;
+
+      for (const mineral of rows) {
+        const matches = observed.map((property) => this.scoreProperty(property, observations, mineral));
+        const weighted = matches.reduce((sum, match) => {
+          const score = match.verdict === 'unknown' ? UNKNOWN_SCORE : match.score;
+          return sum + score * PROPERTY_WEIGHTS[match.property];
+        }, 0);
+
+        candidates.push({
+          mineral,
+          score: Math.round((weighted / totalWeight) * 1000) / 1000,
+          matches,
+        });
+      }
+
+      candidates.sort((a, b) => b.score - a.score || a.mineral.name.localeCompare(b.mineral.name));
+      candidates = candidates.slice(0, limit);
+    }
+
+    return { candidates, considered };
+  }
+
+  private observedProperties(observations: MineralObservations): Array<keyof MineralObservations> {
+    return (Object.keys(PROPERTY_WEIGHTS) as Array<keyof MineralObservations>).filter((property) => {
+      const value = observations[property];
+      if (value === undefined || value === null) return false;
+      if (typeof value === 'string') return value.trim().length > 0;
+      return value.min !== undefined || value.max !== undefined;
+    });
+  }
+
+  /**
+   * One page of rows worth scoring, in id order after `afterId`. Numeric
+   * observations must fall within tolerance (or be unrecorded); everything
+   * else is left to scoring.
+   */
+  private async loadCandidates(observations: MineralObservations, afterId: number): Promise<CandidateMineral[]> {
+    const conditions: SQL[] = [
+      gt(mindatMinerals.id, afterId),
+      sql`coalesce(${mindatMinerals.entryTypeText}, '') !~* '(group|series)'`,
+      sql`coalesce(${mindatMinerals.synId}, 0) = 0`,
+    ];
+
+    if (observations.hardness) {
+      conditions.push(this.spanCondition(
+        [mindatMinerals.hardnessMin, mindatMinerals.hardnessMax],
+        [mindatMinerals.hardnessMax, mindatMinerals.hardnessMin],
+        observations.hardness,
+        HARDNESS_TOLERANCE
+      ));
+    }
+
+    if (observations.specificGravity) {
+      conditions.push(this.spanCondition(
+        [mindatMinerals.specificGravityMin, mindatMinerals.specificGravityMax, mindatMinerals.densityMeas, mindatMinerals.densityMeas2],
+        [mindatMinerals.specificGravityMax, mindatMinerals.specificGravityMin, mindatMinerals.densityMeas2, mindatMinerals.densityMeas],
+        observations.specificGravity,
+        SPECIFIC_GRAVITY_TOLERANCE
+      ));
+    }
+
+    return db.select(candidateColumns)
+      .from(mindatMinerals)
+      .where(and(...conditions))
+      .orderBy(asc(mindatMinerals.id))
+      .limit(CANDIDATE_PAGE_SIZE);
+  }
+
+  private spanCondition(lowColumns: PgColumn[], highColumns: PgColumn[], range: ObservedRange, tolerance: number): SQL {
+    const low = sql`coalesce(${sql.join(lowColumns, sql`, `)})`;
+    const high = sql`coalesce(${sql.join(highColumns, sql`, `)})`;
+    const bounds: SQL[] = [];
+
+    if (range.min !== undefined) bounds.push(sql`${high} >= ${range.min - tolerance}`);
+    if (range.max !== undefined) bounds.push(sql`${low} <= ${range.max + tolerance}`);
+
+    return sql`(${low} IS NULL OR (${and(...bounds)}))`;
+  }
+
+  // A range with only one end is open: { min: 7 } means "7 or more"
+  private observedSpan(range: ObservedRange): [number, number] {
+    const low = range.min ?? -Infinity;
+    const high = range.max ?? Infinity;
+    return low <= high ? [low, high] : [high, low];
+  }
+
+  /**
+   * Split free text into vocabulary terms. Within each comma- or "to"-separated
+   * phrase the last term is the main one and earlier terms are modifiers, so
+   * "greyish-black" is black (weight 1) with a grey tinge (weight 0.5).
+   */
+  private extractTerms(text: string, vocabulary: Vocabulary): Array<{ term: string; weight: number }> {
+    const found = new Map<string, number>();
+    const normalised = text.toLowerCase().replace(/\bsub[\s-]+/g, 'sub');
+
+    for (const phrase of normalised.split(/[,;/]|\bor\b|\bto\b|\band\b/)) {
+      const terms = phrase
+        .split(/[^a-z]+/)
+        .map((word) => vocabulary.synonyms[word] || word)
+        .filter((word) => vocabulary.terms.includes(word));
+
+      terms.forEach((term, index) => {
+        const weight = index === terms.length - 1 ? 1 : 0.5;
+        found.set(term, Math.max(found.get(term) || 0, weight));
+      });
+    }
+
+    return Array.from(found, ([term, weight]) => ({ term, weight }));
+  }
+
+  private scoreTerms(observed: string, recorded: string, vocabulary: Vocabulary): { score: number; note: string } | null {
+    const observedTerms = this.extractTerms(observed, vocabulary);
+    const recordedTerms = new Set(this.extractTerms(recorded, vocabulary).map(({ term }) => term));
+
+    if (observedTerms.length === 0) {
+      const contains = recorded.toLowerCase().includes(observed.trim().toLowerCase());
+      return { score: contains ? 1 : 0, note: contains ? 'Recorded text contains the observation' : 'No recognised terms in common' };
+    }
+
+    if (recordedTerms.size === 0) return null;
+
+    const exact: string[] = [];
+    const near: string[] = [];
+    let earned = 0;
+    let possible = 0;
+
+    for (const { term, weight } of observedTerms) {
+      possible += weight;
+      if (recordedTerms.has(term)) {
+        exact.push(term);
+        earned += weight;
+      } else {
+        const neighbour = vocabulary.near[term]?.find((candidate) => recordedTerms.has(candidate));
+        if (neighbour) {
+          near.push(`${term} ~ ${neighbour}`);
+          earned += weight * 0.5;
+        }
+      }
+    }
+
+    const notes: string[] = [];
+    if (exact.length > 0) notes.push(`matches ${exact.join(', ')}`);
+    if (near.length > 0) notes.push(`close: ${near.join(', ')}`);
+
+    return {
+      score: earned / possible,
+      note: notes.length > 0 ? notes.join('; ') : `recorded as ${Array.from(recordedTerms).join(', ')}`,
+    };
+  }
+
+  private scoreRange(observed: ObservedRange, recorded: [number, number] | null, tolerance: number): { score: number; note: string } | null {
+    if (!recorded) return null;
+
+    const [observedLow, observedHigh] = this.observedSpan(observed);
+    const [recordedLow, recordedHigh] = recorded;
+    const gap = Math.max(0, observedLow - recordedHigh, recordedLow - observedHigh);
+
+    if (gap === 0) return { score: 1, note: 'Within recorded range' };
+
+    const direction = observedLow > recordedHigh ? 'above' : 'below';
+    return {
+      score: Math.max(0, 1 - gap / tolerance),
+      note: `${Math.round(gap * 100) / 100} ${direction} recorded range`,
+    };
+  }
+
+  private cleavageQuality(text: string): number | null {
+    const words = text.toLowerCase().split(/[^a-z]+/);
+    if (/\bno cleavage\b|\bnot observed\b/.test(text.toLowerCase())) return 0;
+
+    const ranks = words.map((word) => CLEAVAGE_QUALITY[word]).filter((rank) => rank !== undefined);
+    return ranks.length > 0 ? Math.max(...ranks) : null;
+  }
+
+  private isFluorescent(text: string): boolean {
+    return !/non[\s-]?fluorescent|not fluorescent|\bnone\b|\bno\b|\binert\b|\bnil\b/.test(text.toLowerCase());
+  }
+
+  private verdict(score: number): MatchVerdict {
+    if (score >= 0.9) return 'match';
+    if (score >= 0.5) return 'partial';
+    return 'mismatch';
+  }
+
+  private formatRange(range: ObservedRange | [number, number] | null): string | null {
+    if (!range) return null;
+    const [low, high] = Array.isArray(range) ? range : this.observedSpan(range);
+    if (low === -Infinity) return `≤ ${high}`;
+    if (high === Infinity) return `≥ ${low}`;
+    return low === high ? `${low}` : `${low}–${high}`;
+  }
+
+  private normaliseCrystalSystem(value: string): string {
+    const system = value.trim().toLowerCase();
+    return CRYSTAL_SYSTEM_SYNONYMS[system] || system;
+  }
+
+  private scoreProperty(
+    property: keyof MineralObservations,
+    observations: MineralObservations,
+    mineral: CandidateMineral
+  ): PropertyMatch {
+    let observed: string;
+    let recorded: string | null;
+    let result: { score: number; note: string } | null;
+
+    switch (property) {
+      case 'hardness': {
+        const span = propertySpan(mineral, getNumericProperty('hardness')!);
+        observed = this.formatRange(observations.hardness!)!;
+        recorded = this.formatRange(span);
+        result = this.scoreRange(observations.hardness!, span, HARDNESS_TOLERANCE);
+        break;
+      }
+
+      case 'specificGravity': {
+        const span = propertySpan(mineral, getNumericProperty('specific_gravity')!)
+          ?? propertySpan(mineral, getNumericProperty('density_meas')!);
+        observed = this.formatRange(observations.specificGravity!)!;
+        recorded = this.formatRange(span);
+        result = this.scoreRange(observations.specificGravity!, span, SPECIFIC_GRAVITY_TOLERANCE);
+        break;
+      }
+
+      case 'streak':
+      case 'colour':
+      case 'lustre': {
+        observed = observations[property]!;
+        recorded = mineral[property];
+        result = recorded ? this.scoreTerms(observed, recorded, property === 'lustre' ? LUSTRES : COLOURS) : null;
+        break;
+      }
+
+      case 'crystalSystem': {
+        observed = observations.crystalSystem!;
+        recorded = mineral.crystalSystem;
+        if (!recorded) {
+          result = null;
+          break;
+        }
+        const a = this.normaliseCrystalSystem(observed);
+        const b = this.normaliseCrystalSystem(recorded);
+        const hexagonalFamily = ['hexagonal', 'trigonal'];
+        if (a === b) {
+          result = { score: 1, note: 'Same crystal system' };
+        } else if (hexagonalFamily.includes(a) && hexagonalFamily.includes(b)) {
+          result = { score: 0.5, note: 'Same crystal family (hexagonal)' };
+        } else {
+          result = { score: 0, note: `Recorded as ${recorded}` };
+        }
+        break;
+      }
+
+      case 'cleavage': {
+        observed = observations.cleavage!;
+        recorded = mineral.cleavage;
+        const observedQuality = this.cleavageQuality(observed);
+        const recordedQuality = recorded ? this.cleavageQuality(recorded) : null;
+        if (observedQuality === null) {
+          const contains = !!recorded?.toLowerCase().includes(observed.trim().toLowerCase());
+          result = recorded ? { score: contains ? 1 : 0, note: contains ? 'Recorded text contains the observation' : `Recorded as ${recorded}` } : null;
+        } else if (recordedQuality === null) {
+          result = null;
+        } else {
+          const difference = Math.abs(observedQuality - recordedQuality);
+          result = {
+            score: 1 - difference / 4,
+            note: difference === 0 ? 'Same cleavage quality' : `Cleavage quality differs by ${difference} step${difference === 1 ? '' : 's'}`,
+          };
+        }
+        break;
+      }
+
+      case 'fluorescence': {
+        observed = observations.fluorescence!;
+        recorded = mineral.fluorescence;
+        if (!recorded) {
+          result = null;
+          break;
+        }
+        const observedFluorescent = this.isFluorescent(observed);
+        const recordedFluorescent = this.isFluorescent(recorded);
+        if (observedFluorescent !== recordedFluorescent) {
+          result = { score: 0, note: recordedFluorescent ? 'Recorded as fluorescent' : 'Recorded as non-fluorescent' };
+        } else if (!observedFluorescent) {
+          result = { score: 1, note: 'Both non-fluorescent' };
+        } else {
+          const colour = this.scoreTerms(observed, recorded, COLOURS);
+          result = colour && this.extractTerms(observed, COLOURS).length > 0
+            ? { score: 0.75 + 0.25 * colour.score, note: `Fluorescent; ${colour.note}` }
+            : { score: 1, note: 'Both fluorescent' };
+        }
+        break;
+      }
+    }
+
+    if (!result) {
+      return { property, observed, recorded, score: 0, verdict: 'unknown', note: 'Not recorded for this mineral' };
+    }
+
+    return {
+      property,
+      observed,
+      recorded,
+      score: Math.round(result.score * 100) / 100,
+      verdict: this.verdict(result.score),
+      note: result.note,
+    };
+  }
+}
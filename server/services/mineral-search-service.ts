@@ -0,0 +1,156 @@
+import { db } from '../db';
+import { mindatMinerals, mineralNameIndex, mindatSearchDocument, type MindatMineral } from '@shared/schema';
+import { desc, eq, sql } from 'drizzle-orm';
+import type { PgColumn } from 'drizzle-orm/pg-core';
+
+export interface MineralSearchHighlights {
+  name?: string;
+  aliases?: string[];
+  aboutName?: string;
+  descriptionShort?: string;
+  occurrence?: string;
+}
+
+export interface RankedMineralResult {
+  mineral: MindatMineral;
+  score: number;
+  highlights: MineralSearchHighlights;
+}
+
+// ts_headline marks matches with control characters rather than <mark> so the
+// fragment can be HTML-escaped before the real tags go in
+const HEADLINE_START = '\u0002';
+const HEADLINE_STOP = '\u0003';
+const HEADLINE_OPTIONS = `StartSel=${HEADLINE_START}, StopSel=${HEADLINE_STOP}, MaxFragments=2, MaxWords=30, MinWords=10, FragmentDelimiter=" … "`;
+
+const HTML_ESCAPES: Record<string, string> = { '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' };
+
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, (char) => HTML_ESCAPES[char]);
+}
+
+export class MineralSearchService {
+  private static instance: MineralSearchService;
+
+  private constructor() {}
+
+  static getInstance(): MineralSearchService {
+    if (!MineralSearchService.instance) {
+      MineralSearchService.instance = new MineralSearchService();
+    }
+    return MineralSearchService.instance;
+  }
+
+  private escapeRegExp(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  }
+
+  // Highlights are HTML; everything from the source text is escaped
+  private markTerm(text: string, term: string): string | undefined {
+    const parts = text.split(new RegExp(`(${this.escapeRegExp(term)})`, 'gi'));
+    if (parts.length === 1) return undefined;
+    return parts.map((part, i) => (i % 2 ? `<mark>${escapeHtml(part)}</mark>` : escapeHtml(part))).join('');
+  }
+
+  private markHeadline(fragment: string): string {
+    return escapeHtml(fragment).split(HEADLINE_START).join('<mark>').split(HEADLINE_STOP).join('</mark>');
+  }
+
+  /**
+   * Ranked search over mineral names, aliases, etymology, short descriptions
+   * and occurrence text. Full-text matches are ranked with ts_rank_cd and
+   * combined with trigram similarity on the name and aliases, so misspellings
+   * ("chalcopirite") still find the right mineral.
+   *
+   * Candidates come from a UNION of two index-backed lookups: mindat_minerals
+   * by document and name, and mineral_name_index by mineral_aliases_text().
+   * Aliases match fuzzily on word similarity against the joined alias text.
+   */
+  async rankedSearch(term: string, options: { page?: number; pageSize?: number } = {}): Promise<{
+    results: RankedMineralResult[];
+    count: number;
+  }> {
+    const { page = 1, pageSize = 20 } = options;
+    const offset = (page - 1) * pageSize;
+    const query = term.trim();
+
+    if (!query) {
+      return { results: [], count: 0 };
+    }
+
+    const document = mindatSearchDocument(mindatMinerals);
+    const tsQuery = sql`websearch_to_tsquery('english'::regconfig, ${query})`;
+    const likePattern = `%${query}%`;
+
+    const aliasSimilarity = sql<number>`coalesce((SELECT max(similarity(alias, ${query})) FROM unnest(${mineralNameIndex.aliases}) AS alias), 0)`;
+    const matchedAliases = sql<string[] | null>`(SELECT array_agg(alias) FROM unnest(${mineralNameIndex.aliases}) AS alias WHERE alias ILIKE ${likePattern} OR similarity(alias, ${query}) >= 0.3)`;
+
+    const score = sql<number>`(
+      ts_rank_cd(${document}, ${tsQuery}, 32)
+      + greatest(similarity(${mindatMinerals.name}, ${query}), ${aliasSimilarity})
+      + CASE WHEN lower(${mindatMinerals.name}) = lower(${query}) THEN 1 ELSE 0 END
+    )`;
+
+    // An OR across both tables would defeat their indexes
+    const aliasesText = sql`mineral_aliases_text(${mineralNameIndex.aliases})`;
+    const where = sql`${mindatMinerals.mindatId} IN (
+      SELECT ${mindatMinerals.mindatId} FROM ${mindatMinerals}
+      WHERE ${document} @@ ${tsQuery}
+        OR ${mindatMinerals.name} % ${query}
+        OR ${mindatMinerals.name} ILIKE ${likePattern}
+      UNION
+      SELECT ${mineralNameIndex.mindatId} FROM ${mineralNameIndex}
+      WHERE ${aliasesText} ILIKE ${likePattern}
+        OR ${query} <% ${aliasesText}
+    )`;
+
+    const headline = (column: PgColumn) => sql<string | null>`CASE
+      WHEN to_tsvector('english'::regconfig, coalesce(${column}, '')) @@ ${tsQuery}
+      THEN ts_headline('english'::regconfig, ${column}, ${tsQuery}, ${HEADLINE_OPTIONS})
+    END`;
+
+    const [rows, countResult] = await Promise.all([
+      db.select({
+        mineral: mindatMinerals,
+        score,
+        aliases: matchedAliases,
+        aboutName: headline(mindatMinerals.aboutName),
+        descriptionShort: headline(mindatMinerals.descriptionShort),
+        occurrence: headline(mindatMinerals.occurrence),
+      })
+        .from(mindatMinerals)
+        .leftJoin(mineralNameIndex, eq(mineralNameIndex.mindatId, mindatMinerals.mindatId))
+        .where(where)
+        .orderBy(desc(score), mindatMinerals.name)
+        .limit(pageSize)
+        .offset(offset),
+
+      db.select({ count: sql<number>`count(*)` })
+        .from(mindatMinerals)
+        .leftJoin(mineralNameIndex, eq(mineralNameIndex.mindatId, mindatMinerals.mindatId))
+        .where(where),
+    ]);
+
+    const results = rows.map((row) => {
+      const highlights: MineralSearchHighlights = {};
+      const name = this.markTerm(row.mineral.name, query);
+
+      if (name) highlights.name = name;
+      if (row.aliases?.length) highlights.aliases = row.aliases.map((alias) => this.markTerm(alias, query) ?? alias);
+      if (row.aboutName) highlights.aboutName = this.markHeadline(row.aboutName);
+      if (row.descriptionShort) highlights.descriptionShort = this.markHeadline(row.descriptionShort);
+      if (row.occurrence) highlights.occurrence = this.markHeadline(row.occurrence);
+
+      return {
+        mineral: row.mineral,
+        score: Number(row.score),
+        highlights,
+      };
+    });
+
+    return {
+      results,
+      count: Number(countResult[0]?.count || 0),
+    };
+  }
+}
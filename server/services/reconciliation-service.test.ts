@@ -0,0 +1,20 @@
+import { describe, expect, it } from 'vitest';
+import { ConflictResolutionError, MAX_RESOLVE_IDS, ReconciliationService } from './reconciliation-service';
+
+describe('ReconciliationService.resolveConflicts', () => {
+  const reconciliation = ReconciliationService.getInstance();
+
+  it.each([
+    [[1], 'delete', undefined, /action must be one of/],
+    [[], 'ignore', undefined, /non-empty list/],
+    [[1.5], 'ignore', undefined, /non-empty list/],
+    [Array.from({ length: MAX_RESOLVE_IDS + 1 }, (_, i) => i + 1), 'ignore', undefined, /at most 500/],
+    [[1], 'override', 42, /value must be a string/],
+    [[1], 'accept_a', { text: 'SiO2' }, /value must be a string/],
+    [[1], 'override', '  ', /override needs a value/],
+  ])('rejects bad input before touching the database (case %#)', async (ids, action, value, message) => {
+    const result = reconciliation.resolveConflicts(ids as number[], action as any, value);
+    await expect(result).rejects.toThrow(ConflictResolutionError);
+    await expect(result).rejects.toThrow(message);
+  });
+});
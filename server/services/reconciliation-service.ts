@@ -0,0 +1,444 @@
+import { db } from '../db';
+import { dataConflicts, dataSources, mindatMinerals, rruffMinerals, type DataConflict } from '@shared/schema';
+import { and, asc, desc, eq, gt, ilike, inArray, sql, type SQL } from 'drizzle-orm';
+import { alias } from 'drizzle-orm/pg-core';
+import { createReadStream } from 'fs';
+import csv from 'csv-parser';
+import {
+  RECONCILED_FIELDS,
+  compareFieldValues,
+  erocksFieldValues,
+  mindatFieldValues,
+  rruffFieldValues,
+  type ConflictSeverity,
+  type FieldValues,
+  type RruffFieldSource,
+} from './conflict-rules';
+
+export type ReconciliationSource = 'mindat' | 'rruff' | 'erocks';
+
+export interface ReconciliationProgress {
+  totalChecked: number; // Mindat minerals visited
+  compared: number; // ... that another source also has
+  created: number;
+  updated: number; // Values changed since the last run
+  cleared: number; // Open conflicts whose sources now agree
+  autoResolved: number;
+  pending: number;
+  errors: string[];
+}
+
+// accept_a / accept_b keep one source's value, override records the reviewer's
+// own, ignore closes the conflict without a value and reopen undoes any of them
+export type ConflictAction = 'accept_a' | 'accept_b' | 'override' | 'ignore' | 'reopen';
+
+export const CONFLICT_ACTIONS: ConflictAction[] = ['accept_a', 'accept_b', 'override', 'ignore', 'reopen'];
+
+// Conflicts one review decision may cover
+export const MAX_RESOLVE_IDS = 500;
+
+export class ConflictResolutionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConflictResolutionError';
+  }
+}
+
+export interface ConflictListItem extends DataConflict {
+  sourceA: string | null;
+  sourceB: string | null;
+}
+
+interface SourceInfo {
+  id: number;
+  name: ReconciliationSource;
+  priority: number;
+}
+
+type ERocksRow = Record<string, string>;
+
+type RruffRow = RruffFieldSource & { mindatId: number | null; mineralName: string };
+
+interface RruffIndex {
+  byMindatId: Map<number, RruffRow>;
+  bySymbol: Map<string, RruffRow>;
+  byName: Map<string, RruffRow>;
+}
+
+interface ERocksIndex {
+  byMindatId: Map<number, ERocksRow>;
+  byName: Map<string, ERocksRow>;
+}
+
+// One disagreement (or agreement) found in this run, source A ranked first
+interface Comparison {
+  mindatId: number;
+  mineralName: string;
+  fieldName: string;
+  sourceA: SourceInfo;
+  sourceB: SourceInfo;
+  valueA: string;
+  valueB: string;
+  severity: ConflictSeverity | null;
+}
+
+// Used when a source has no data_sources row yet; the Mindat and RRUFF
+// importers create theirs with the same priorities
+export const SOURCE_DEFAULTS: Record<ReconciliationSource, { description: string; priority: number }> = {
+  mindat: { description: 'Mindat.org - The primary source of truth for mineral data', priority: 100 },
+  rruff: { description: 'RRUFF Database - Core mineral data for search index', priority: 80 },
+  erocks: { description: 'e-Rocks mineral catalogue export', priority: 60 },
+};
+
+const MINDAT_COLUMNS = {
+  mindatId: mindatMinerals.mindatId,
+  name: mindatMinerals.name,
+  imaFormula: mindatMinerals.imaFormula,
+  mindatFormula: mindatMinerals.mindatFormula,
+  crystalSystem: mindatMinerals.crystalSystem,
+  imaStatus: mindatMinerals.imaStatus,
+  imaSymbol: mindatMinerals.imaSymbol,
+  publicationYear: mindatMinerals.publicationYear,
+  approvalYear: mindatMinerals.approvalYear,
+  imaYear: mindatMinerals.imaYear,
+  strunz10ed1: mindatMinerals.strunz10ed1,
+  strunz10ed2: mindatMinerals.strunz10ed2,
+  strunz10ed3: mindatMinerals.strunz10ed3,
+  strunz10ed4: mindatMinerals.strunz10ed4,
+};
+
+// e-Rocks classes whose values describe a species Mindat also has
+const EROCKS_MINERAL_CLASSES = new Set(['', 'mineral', 'mineral group', 'mineral supergroup']);
+
+// Statuses the reconciler may change; accepted, overridden and ignored
+// conflicts were decided by a reviewer and only reopen if the values change
+const OPEN_STATUSES = ['pending', 'auto_resolved'];
+
+/**
+ * Compares what Mindat, RRUFF and an e-Rocks export say about each mineral
+ * (formula, crystal system, IMA status, year, IMA symbol and Strunz class)
+ * and records every disagreement in data_conflicts. A conflict that is not
+ * high severity and is between sources of different priority is resolved to
+ * the higher priority source's value; the rest wait for review. Re-running
+ * updates conflicts whose values changed, reopening reviewed ones, and
+ * resolves open ones the sources now agree on.
+ */
+export class ReconciliationService {
+  private static instance: ReconciliationService;
+
+  private constructor() {}
+
+  static getInstance(): ReconciliationService {
+    if (!ReconciliationService.instance) {
+      ReconciliationService.instance = new ReconciliationService();
+    }
+    return ReconciliationService.instance;
+  }
+
+  /**
+   * Walk mindat_minerals in mindat_id order, `batchSize` at a time, after
+   * `afterId`. Without `erocksCsvPath` only Mindat and RRUFF are compared and
+   * e-Rocks conflicts are left as they are.
+   */
+  async reconcile(options: {
+    erocksCsvPath?: string;
+    autoResolve?: boolean;
+    afterId?: number;
+    batchSize?: number;
+    onProgress?: (lastMindatId: number, progress: ReconciliationProgress, total: number) => Promise<void>;
+  } = {}): Promise<ReconciliationProgress> {
+    const { erocksCsvPath, autoResolve = true, afterId = 0, batchSize = 500, onProgress } = options;
+    const progress: ReconciliationProgress = {
+      totalChecked: 0, compared: 0, created: 0, updated: 0, cleared: 0, autoResolved: 0, pending: 0, errors: [],
+    };
+
+    const sources = await this.ensureSources(erocksCsvPath ? ['mindat', 'rruff', 'erocks'] : ['mindat', 'rruff']);
+    const rruff = sources.rruff ? await this.loadRruff() : null;
+    const erocks = sources.erocks && erocksCsvPath ? await this.loadErocks(erocksCsvPath) : null;
+
+    const [{ total }] = await db.select({ total: sql<number>`count(*)::int` })
+      .from(mindatMinerals)
+      .where(gt(mindatMinerals.mindatId, afterId));
+
+    console.log(`⚖️  Reconciling ${total} Mindat minerals against ${[rruff && 'RRUFF', erocks && 'e-Rocks'].filter(Boolean).join(' and ') || 'no other source'}`);
+
+    let lastId = afterId;
+    while (sources.mindat && (rruff || erocks)) {
+      const minerals = await db.select(MINDAT_COLUMNS)
+        .from(mindatMinerals)
+        .where(gt(mindatMinerals.mindatId, lastId))
+        .orderBy(asc(mindatMinerals.mindatId))
+        .limit(batchSize);
+      if (minerals.length === 0) break;
+
+      const comparisons: Comparison[] = [];
+      for (const mineral of minerals) {
+        progress.totalChecked++;
+        const records: { source: SourceInfo; values: FieldValues }[] = [{ source: sources.mindat, values: mindatFieldValues(mineral) }];
+
+        const rruffRow = rruff && (
+          rruff.byMindatId.get(mineral.mindatId) ??
+          (mineral.imaSymbol ? rruff.bySymbol.get(mineral.imaSymbol) : undefined) ??
+          rruff.byName.get(mineral.name.toLowerCase())
+        );
+        if (rruffRow) records.push({ source: sources.rruff!, values: rruffFieldValues(rruffRow) });
+
+        const erocksRow = erocks && (erocks.byMindatId.get(mineral.mindatId) ?? erocks.byName.get(mineral.name.toLowerCase()));
+        if (erocksRow) records.push({ source: sources.erocks!, values: erocksFieldValues(erocksRow) });
+
+        if (records.length > 1) progress.compared++;
+        comparisons.push(...this.compare(mineral.mindatId, mineral.name, records));
+      }
+
+      try {
+        await this.writeComparisons(comparisons, minerals.map(mineral => mineral.mindatId), autoResolve, progress);
+      } catch (error: any) {
+        progress.errors.push(`Minerals ${minerals[0].mindatId}-${minerals[minerals.length - 1].mindatId}: ${error.message}`);
+      }
+
+      lastId = minerals[minerals.length - 1].mindatId;
+      await onProgress?.(lastId, progress, total);
+    }
+
+    console.log(`✅ Reconciliation: ${progress.created} new conflicts, ${progress.updated} changed, ${progress.cleared} cleared (${progress.autoResolved} auto-resolved, ${progress.pending} for review)`);
+    return progress;
+  }
+
+  /**
+   * Conflicts, highest severity and newest first, with the names of the two
+   * sources.
+   */
+  async listConflicts(filters: {
+    status?: string;
+    severity?: string;
+    field?: string;
+    mineral?: string;
+    mindatId?: number;
+    limit?: number;
+    offset?: number;
+  } = {}): Promise<ConflictListItem[]> {
+    const sourceA = alias(dataSources, 'source_a');
+    const sourceB = alias(dataSources, 'source_b');
+
+    const conditions: SQL[] = [];
+    if (filters.status) conditions.push(eq(dataConflicts.status, filters.status));
+    if (filters.severity) conditions.push(eq(dataConflicts.severity, filters.severity));
+    if (filters.field) conditions.push(eq(dataConflicts.fieldName, filters.field));
+    if (filters.mineral) conditions.push(ilike(dataConflicts.mineralName, `%${filters.mineral}%`));
+    if (filters.mindatId !== undefined) conditions.push(eq(dataConflicts.mindatId, filters.mindatId));
+
+    const rows = await db.select({ conflict: dataConflicts, sourceA: sourceA.name, sourceB: sourceB.name })
+      .from(dataConflicts)
+      .leftJoin(sourceA, eq(sourceA.id, dataConflicts.sourceAId))
+      .leftJoin(sourceB, eq(sourceB.id, dataConflicts.sourceBId))
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(
+        sql`CASE ${dataConflicts.severity} WHEN 'high' THEN 0 WHEN 'medium' THEN 1 ELSE 2 END`,
+        desc(dataConflicts.createdAt),
+        desc(dataConflicts.id),
+      )
+      .limit(filters.limit ?? 100)
+      .offset(filters.offset ?? 0);
+
+    return rows.map(row => ({ ...row.conflict, sourceA: row.sourceA, sourceB: row.sourceB }));
+  }
+
+  /**
+   * Apply a reviewer's decision to each conflict in `ids`. Returns the rows
+   * that were updated, so unknown IDs are simply missing from the result.
+   * `value` comes straight from the request body, so its type is checked here.
+   */
+  async resolveConflicts(ids: number[], action: ConflictAction, value?: unknown): Promise<DataConflict[]> {
+    if (!CONFLICT_ACTIONS.includes(action)) {
+      throw new ConflictResolutionError(`action must be one of: ${CONFLICT_ACTIONS.join(', ')}`);
+    }
+    if (ids.length === 0 || !ids.every(id => Number.isInteger(id))) {
+      throw new ConflictResolutionError('ids must be a non-empty list of conflict IDs');
+    }
+    if (ids.length > MAX_RESOLVE_IDS) {
+      throw new ConflictResolutionError(`at most ${MAX_RESOLVE_IDS} conflicts can be resolved at once`);
+    }
+    if (value !== undefined && value !== null && typeof value !== 'string') {
+      throw new ConflictResolutionError('value must be a string');
+    }
+    if (action === 'override' && !value?.trim()) {
+      throw new ConflictResolutionError('override needs a value');
+    }
+
+    const updates = {
+      accept_a: { status: 'accepted', resolution: dataConflicts.valueA, resolvedAt: sql`now()` },
+      accept_b: { status: 'accepted', resolution: dataConflicts.valueB, resolvedAt: sql`now()` },
+      override: { status: 'overridden', resolution: value?.trim() ?? null, resolvedAt: sql`now()` },
+      ignore: { status: 'ignored', resolution: null, resolvedAt: sql`now()` },
+      reopen: { status: 'pending', resolution: null, resolvedAt: null },
+    }[action];
+
+    return db.update(dataConflicts)
+      .set(updates as Partial<typeof dataConflicts.$inferInsert>)
+      .where(inArray(dataConflicts.id, ids))
+      .returning();
+  }
+
+  // Counts by status, severity and field
+  async getSummary(): Promise<{ status: string; severity: string; fieldName: string; count: number }[]> {
+    return db.select({
+      status: dataConflicts.status,
+      severity: dataConflicts.severity,
+      fieldName: dataConflicts.fieldName,
+      count: sql<number>`count(*)::int`,
+    })
+      .from(dataConflicts)
+      .groupBy(dataConflicts.status, dataConflicts.severity, dataConflicts.fieldName)
+      .orderBy(dataConflicts.status, dataConflicts.severity, dataConflicts.fieldName);
+  }
+
+  // Every pair of sources on every field both have, higher priority first
+  private compare(mindatId: number, mineralName: string, records: { source: SourceInfo; values: FieldValues }[]): Comparison[] {
+    const ranked = [...records].sort((a, b) => b.source.priority - a.source.priority);
+    const comparisons: Comparison[] = [];
+
+    for (let i = 0; i < ranked.length; i++) {
+      for (let j = i + 1; j < ranked.length; j++) {
+        for (const field of RECONCILED_FIELDS) {
+          const valueA = ranked[i].values[field];
+          const valueB = ranked[j].values[field];
+          if (!valueA || !valueB) continue;
+
+          comparisons.push({
+            mindatId,
+            mineralName,
+            fieldName: field,
+            sourceA: ranked[i].source,
+            sourceB: ranked[j].source,
+            valueA,
+            valueB,
+            severity: compareFieldValues(field, valueA, valueB),
+          });
+        }
+      }
+    }
+
+    return comparisons;
+  }
+
+  private async writeComparisons(
+    comparisons: Comparison[],
+    mindatIds: number[],
+    autoResolve: boolean,
+    progress: ReconciliationProgress,
+  ): Promise<void> {
+    // Keyed without regard to order, so a change of priorities updates the row
+    const key = (mindatId: number | null, field: string, a: number | null, b: number | null) =>
+      `${mindatId}:${field}:${Math.min(a ?? 0, b ?? 0)}:${Math.max(a ?? 0, b ?? 0)}`;
+
+    const existing = new Map<string, DataConflict>();
+    const stored = await db.select().from(dataConflicts).where(inArray(dataConflicts.mindatId, mindatIds));
+    for (const row of stored) {
+      existing.set(key(row.mindatId, row.fieldName, row.sourceAId, row.sourceBId), row);
+    }
+
+    const inserts: typeof dataConflicts.$inferInsert[] = [];
+
+    for (const comparison of comparisons) {
+      const { sourceA, sourceB, valueA, valueB, severity } = comparison;
+      const row = existing.get(key(comparison.mindatId, comparison.fieldName, sourceA.id, sourceB.id));
+      const unchanged = row?.sourceAId === sourceA.id && row.valueA === valueA && row.valueB === valueB;
+
+      if (severity === null) {
+        if (row && OPEN_STATUSES.includes(row.status) && !(unchanged && row.status === 'auto_resolved')) {
+          await db.update(dataConflicts)
+            .set({ sourceAId: sourceA.id, sourceBId: sourceB.id, valueA, valueB, status: 'auto_resolved', resolution: valueA, resolvedAt: new Date() })
+            .where(eq(dataConflicts.id, row.id));
+          progress.cleared++;
+        }
+        continue;
+      }
+
+      if (unchanged) continue;
+
+      const outcome = autoResolve && severity !== 'high' && sourceA.priority > sourceB.priority
+        ? { status: 'auto_resolved', resolution: valueA, resolvedAt: new Date() }
+        : { status: 'pending', resolution: null, resolvedAt: null };
+      if (outcome.status === 'auto_resolved') progress.autoResolved++;
+      else progress.pending++;
+
+      const values = { sourceAId: sourceA.id, sourceBId: sourceB.id, valueA, valueB, severity, ...outcome };
+      if (row) {
+        await db.update(dataConflicts).set(values).where(eq(dataConflicts.id, row.id));
+        progress.updated++;
+      } else {
+        inserts.push({ mindatId: comparison.mindatId, mineralName: comparison.mineralName, fieldName: comparison.fieldName, ...values });
+        progress.created++;
+      }
+    }
+
+    if (inserts.length > 0) {
+      await db.insert(dataConflicts).values(inserts).onConflictDoNothing();
+    }
+  }
+
+  // The data_sources rows to compare, created if missing; inactive sources are left out
+  private async ensureSources(names: ReconciliationSource[]): Promise<Partial<Record<ReconciliationSource, SourceInfo>>> {
+    await db.insert(dataSources)
+      .values(names.map(name => ({ name, ...SOURCE_DEFAULTS[name], isActive: true })))
+      .onConflictDoNothing({ target: dataSources.name });
+
+    const rows = await db.select().from(dataSources).where(inArray(dataSources.name, names));
+    const sources: Partial<Record<ReconciliationSource, SourceInfo>> = {};
+    for (const row of rows) {
+      if (row.isActive) {
+        sources[row.name as ReconciliationSource] = { id: row.id, name: row.name as ReconciliationSource, priority: row.priority };
+      }
+    }
+    return sources;
+  }
+
+  // The RRUFF export is a few thousand rows, so it is matched in memory
+  private async loadRruff(): Promise<RruffIndex> {
+    const rows = await db.select({
+      mindatId: rruffMinerals.mindatId,
+      mineralName: rruffMinerals.mineralName,
+      imaChemistry: rruffMinerals.imaChemistry,
+      crystalSystems: rruffMinerals.crystalSystems,
+      imaStatus: rruffMinerals.imaStatus,
+      yearFirstPublished: rruffMinerals.yearFirstPublished,
+      imaSymbol: rruffMinerals.imaSymbol,
+    }).from(rruffMinerals);
+
+    const index: RruffIndex = { byMindatId: new Map(), bySymbol: new Map(), byName: new Map() };
+    for (const row of rows) {
+      if (row.mindatId) index.byMindatId.set(row.mindatId, row);
+      index.bySymbol.set(row.imaSymbol, row);
+      index.byName.set(row.mineralName.toLowerCase(), row);
+    }
+    return index;
+  }
+
+  // Varieties and synonyms carry their own values, not the species', so they are skipped
+  private async loadErocks(csvPath: string): Promise<ERocksIndex> {
+    const index: ERocksIndex = { byMindatId: new Map(), byName: new Map() };
+
+    await new Promise<void>((resolve, reject) => {
+      createReadStream(csvPath, { encoding: 'utf8' })
+        .pipe(csv())
+        .on('data', (row: ERocksRow) => {
+          if (!EROCKS_MINERAL_CLASSES.has(row['Class']?.trim().toLowerCase() ?? '')) return;
+          if (row['Variety Of']?.trim() || row['Synonym Of']?.trim()) return;
+
+          // ER-prefixed IDs are e-Rocks' own and don't parse
+          const idText = row['Mindat ID']?.trim() ?? '';
+          const mindatId = /^\d+$/.test(idText)
+            ? parseInt(idText, 10)
+            : parseInt(row['Mindat URL']?.match(/min-(\d+)\.html/)?.[1] ?? '', 10);
+          if (!isNaN(mindatId) && !index.byMindatId.has(mindatId)) index.byMindatId.set(mindatId, row);
+
+          const title = row['Title']?.trim().toLowerCase();
+          if (title && !index.byName.has(title)) index.byName.set(title, row);
+        })
+        .on('end', () => resolve())
+        .on('error', reject);
+    });
+
+    return index;
+  }
+}
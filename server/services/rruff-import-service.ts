@@ -1,8 +1,7 @@
 import { db } from '../db';
 import { rruffMinerals, dataSources } from '@shared/schema';
-import { parse } from 'csv-parse/sync';
-import { readFileSync } from 'fs';
-import { eq } from 'drizzle-orm';
+import { eq, inArray, sql } from 'drizzle-orm';
+import { readCSVBatches, addRowError, emptyImportReport, type ImportReport } from './csv-batch-reader';
 
 interface RruffCSVRow {
   'Mineral Name': string;
@@ -17,12 +16,15 @@ interface RruffCSVRow {
   'IMA Mineral Symbol': string;
 }
 
-interface ImportProgress {
-  totalProcessed: number;
-  totalFailed: number;
-  totalCreated: number;
-  errors: string[];
-}
+type RruffValues = Pick<typeof rruffMinerals.$inferInsert,
+  'mineralName' | 'mineralNameHtml' | 'imaChemistry' | 'chemistryElements' | 'yearFirstPublished'
+  | 'imaStatus' | 'structuralGroupname' | 'crystalSystems' | 'valenceElements'> & { imaSymbol: string };
+
+// Columns the export provides; enrichment columns are never touched by an import
+const CSV_COLUMNS = [
+  'mineralName', 'mineralNameHtml', 'imaChemistry', 'chemistryElements', 'yearFirstPublished',
+  'imaStatus', 'structuralGroupname', 'crystalSystems', 'valenceElements',
+] as const;
 
 export class RruffImportService {
   private static instance: RruffImportService;
@@ -67,67 +69,173 @@ export class RruffImportService {
     return newSource.id;
   }
 
-  async importFromCSV(filePath: string): Promise<ImportProgress> {
-    await this.ensureRruffDataSource();
+  /**
+   * Stream the RRUFF export in batches, keyed by IMA symbol. Rows already
+   * present are skipped unless `skipExisting` is false, in which case changed
+   * rows are updated with INSERT … ON CONFLICT (ima_symbol) DO UPDATE; either
+   * way a resumed import can safely replay rows after `startRow`. With
+   * `dryRun` nothing is written and the counts describe what would happen.
+   */
+  async importFromCSV(filePath: string, options: {
+    batchSize?: number;
+    skipExisting?: boolean;
+    dryRun?: boolean;
+    startRow?: number;
+    // Called after each batch with the row to resume from; the total is only
+    // known once the whole file has been read
+    onProgress?: (nextRow: number, progress: ImportReport, totalRows: number | null) => Promise<void>;
+  } = {}): Promise<ImportReport> {
+    const { batchSize = 250, skipExisting = true, dryRun = false, startRow = 0, onProgress } = options;
 
-    const progress: ImportProgress = {
-      totalProcessed: 0,
-      totalFailed: 0,
-      totalCreated: 0,
-      errors: [],
-    };
+    if (!dryRun) {
+      await this.ensureRruffDataSource();
+    }
+
+    const progress: ImportReport = emptyImportReport(dryRun);
+
+    // IMA symbol → first row it appeared on, to report duplicates; rebuilt
+    // from the rows before startRow on a resume
+    const seen = new Map<string, number>();
+    let nextRow = startRow;
+    let lastLogged = 0;
 
     try {
-      const fileContent = readFileSync(filePath, 'utf-8');
-      
-      const records = parse(fileContent, {
-        columns: true,
-        skip_empty_lines: true,
-        trim: true,
-      }) as RruffCSVRow[];
-
-      console.log(`Parsed ${records.length} minerals from RRUFF CSV`);
-
-      for (const record of records) {
-        try {
+      const batches = readCSVBatches<RruffCSVRow>(filePath, {
+        batchSize,
+        startRow,
+        onSkipped: ({ row, record }) => {
+          const imaSymbol = record['IMA Mineral Symbol']?.trim();
+          if (imaSymbol && (record['Mineral Name (plain)'] || record['Mineral Name']) && !seen.has(imaSymbol)) {
+            seen.set(imaSymbol, row);
+          }
+        },
+      });
+
+      for await (const rows of batches) {
+        const valid: { row: number; values: RruffValues }[] = [];
+
+        for (const { row, record } of rows) {
           progress.totalProcessed++;
+          const values = this.validateRow(row, record, seen, progress);
+          if (values) valid.push({ row, values });
+        }
 
-          const mineralData = {
-            mineralName: record['Mineral Name (plain)'] || record['Mineral Name'],
-            mineralNameHtml: record['Mineral Name'],
-            imaChemistry: record['IMA Chemistry (HTML)'],
-            chemistryElements: record['Chemistry Elements'],
-            yearFirstPublished: record['Year First Published'] 
-              ? parseInt(record['Year First Published'], 10) 
-              : null,
-            imaStatus: record['IMA Status'],
-            structuralGroupname: record['Structural Groupname'],
-            crystalSystems: record['Crystal Systems'],
-            valenceElements: record['Valence Elements'],
-            imaSymbol: record['IMA Mineral Symbol'],
-            enrichmentStatus: 'not_enriched' as const,
-          };
-
-          await db.insert(rruffMinerals).values(mineralData);
-          progress.totalCreated++;
-
-          if (progress.totalProcessed % 500 === 0) {
-            console.log(`Imported ${progress.totalProcessed}/${records.length} minerals...`);
-          }
-        } catch (error: any) {
-          progress.totalFailed++;
-          const errorMsg = `Failed to import ${record['Mineral Name (plain)']}: ${error.message}`;
-          progress.errors.push(errorMsg);
-          console.error(errorMsg);
+        await this.writeBatch(valid, progress, { skipExisting, dryRun });
+
+        nextRow = rows[rows.length - 1].row;
+        await onProgress?.(nextRow, progress, null);
+
+        if (progress.totalProcessed - lastLogged >= 500) {
+          lastLogged = progress.totalProcessed;
+          console.log(`Imported ${progress.totalProcessed} minerals...`);
         }
       }
-
-      console.log(`RRUFF import completed. Created: ${progress.totalCreated}, Failed: ${progress.totalFailed}`);
-      return progress;
     } catch (error: any) {
       console.error('Error reading or parsing CSV file:', error);
       throw new Error(`CSV import failed: ${error.message}`);
     }
+
+    await onProgress?.(nextRow, progress, nextRow);
+
+    console.log(`RRUFF ${dryRun ? 'dry run' : 'import'} completed. ${dryRun ? 'Would create' : 'Created'}: ${progress.totalCreated}, ${dryRun ? 'would update' : 'updated'}: ${progress.totalUpdated}, unchanged: ${progress.totalUnchanged}, skipped: ${progress.totalSkipped}, invalid: ${progress.totalInvalid}, failed: ${progress.totalFailed}`);
+    return progress;
+  }
+
+  private validateRow(
+    row: number,
+    record: RruffCSVRow,
+    seen: Map<string, number>,
+    progress: ImportReport,
+  ): RruffValues | null {
+    const imaSymbol = record['IMA Mineral Symbol']?.trim() || null;
+    const mineralName = record['Mineral Name (plain)'] || record['Mineral Name'];
+    const year = record['Year First Published'];
+    const parsedYear = year ? parseInt(year, 10) : NaN;
+    const yearFirstPublished = isNaN(parsedYear) ? null : parsedYear;
+
+    if (year && yearFirstPublished === null) {
+      addRowError(progress, { row, key: imaSymbol, level: 'warning', message: `Year First Published: "${year}" is not a year` });
+    }
+
+    const problems: string[] = [];
+    if (!imaSymbol) problems.push('missing IMA Mineral Symbol');
+    if (!mineralName) problems.push('missing Mineral Name');
+    if (imaSymbol && seen.has(imaSymbol)) problems.push(`duplicate IMA symbol, first seen on row ${seen.get(imaSymbol)}`);
+
+    if (problems.length > 0) {
+      progress.totalInvalid++;
+      addRowError(progress, { row, key: imaSymbol, level: 'error', message: problems.join('; ') });
+      return null;
+    }
+
+    seen.set(imaSymbol!, row);
+    return {
+      mineralName,
+      mineralNameHtml: record['Mineral Name'],
+      imaChemistry: record['IMA Chemistry (HTML)'],
+      chemistryElements: record['Chemistry Elements'],
+      yearFirstPublished,
+      imaStatus: record['IMA Status'],
+      structuralGroupname: record['Structural Groupname'],
+      crystalSystems: record['Crystal Systems'],
+      valenceElements: record['Valence Elements'],
+      imaSymbol: imaSymbol!,
+    };
+  }
+
+  private async writeBatch(
+    rows: { row: number; values: RruffValues }[],
+    progress: ImportReport,
+    options: { skipExisting: boolean; dryRun: boolean },
+  ): Promise<void> {
+    if (rows.length === 0) return;
+
+    const stored = await db.select()
+      .from(rruffMinerals)
+      .where(inArray(rruffMinerals.imaSymbol, rows.map(item => item.values.imaSymbol)));
+    const storedBySymbol = new Map(stored.map(item => [item.imaSymbol, item]));
+
+    const toWrite: RruffValues[] = [];
+    let created = 0;
+    let updated = 0;
+
+    for (const { values } of rows) {
+      const existing = storedBySymbol.get(values.imaSymbol);
+      if (!existing) {
+        created++;
+        toWrite.push(values);
+      } else if (options.skipExisting) {
+        progress.totalSkipped++;
+      } else if (CSV_COLUMNS.every(column => (existing[column] ?? null) === (values[column] ?? null))) {
+        progress.totalUnchanged++;
+      } else {
+        updated++;
+        toWrite.push(values);
+      }
+    }
+
+    if (!options.dryRun && toWrite.length > 0) {
+      try {
+        await db.insert(rruffMinerals)
+          .values(toWrite.map(values => ({ ...values, enrichmentStatus: 'not_enriched' as const })))
+          .onConflictDoUpdate({
+            target: rruffMinerals.imaSymbol,
+            set: {
+              ...Object.fromEntries(CSV_COLUMNS.map(column => [column, sql.raw(`excluded."${rruffMinerals[column].name}"`)])),
+              updatedAt: sql`now()`,
+            },
+          });
+      } catch (error: any) {
+        progress.totalFailed += toWrite.length;
+        const errorMsg = `Failed to import rows ${rows[0].row}-${rows[rows.length - 1].row}: ${error.message}`;
+        progress.errors.push(errorMsg);
+        console.error(errorMsg);
+        return;
+      }
+    }
+
+    progress.totalCreated += created;
+    progress.totalUpdated += updated;
   }
 
   async clearRruffData(): Promise<void> {
@@ -136,19 +244,22 @@ export class RruffImportService {
   }
 
   async getImportStats() {
-    const result = await db.select()
+    const rows = await db.select({
+      status: rruffMinerals.enrichmentStatus,
+      count: sql<number>`count(*)::int`,
+    })
       .from(rruffMinerals)
-      .limit(1);
-    
-    const count = result.length > 0 
-      ? await db.select({ count: rruffMinerals.id })
-          .from(rruffMinerals)
-      : [];
+      .groupBy(rruffMinerals.enrichmentStatus);
+
+    // enrichment_status is set by the RRUFF → Mindat linking job
+    const byStatus = Object.fromEntries(rows.map(row => [row.status ?? 'not_enriched', row.count]));
+    const totalMinerals = rows.reduce((sum, row) => sum + row.count, 0);
 
     return {
-      totalMinerals: count.length,
-      enrichedCount: 0,
-      notEnrichedCount: 0,
+      totalMinerals,
+      enrichedCount: byStatus.linked ?? 0,
+      notEnrichedCount: totalMinerals - (byStatus.linked ?? 0),
+      byStatus,
     };
   }
 }
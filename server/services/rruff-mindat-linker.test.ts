@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { indexMindatRows, matchRruffRow, type MindatLinkRow } from './rruff-mindat-linker';
+
+function mindat(row: Partial<MindatLinkRow> & Pick<MindatLinkRow, 'mindatId' | 'name'>): MindatLinkRow {
+  return {
+    imaSymbol: null, shortcodeIma: null, imaFormula: null, mindatFormula: null,
+    imaStatus: 'APPROVED', varietyOf: null, synId: null, ...row,
+  };
+}
+
+const index = indexMindatRows([
+  mindat({ mindatId: 3337, name: 'Quartz', imaSymbol: 'Qz', imaFormula: 'SiO<sub>2</sub>' }),
+  mindat({ mindatId: 3338, name: 'Amethyst', mindatFormula: 'SiO2', varietyOf: 3337 }),
+  mindat({ mindatId: 1641, name: 'Galena', shortcodeIma: 'Gn', imaFormula: 'PbS' }),
+  mindat({ mindatId: 10, name: 'Åkermanite', imaFormula: 'Ca2MgSi2O7' }),
+  mindat({ mindatId: 20, name: 'Pyrite', imaSymbol: 'Py', imaFormula: 'FeS2' }),
+  mindat({ mindatId: 21, name: 'Marcasite', imaSymbol: 'Mrc', imaFormula: 'FeS2' }),
+  mindat({ mindatId: 30, name: 'Abenakiite-(Ce)', imaStatus: 'APPROVED' }),
+  mindat({ mindatId: 31, name: 'Abenakiite (Ce)', imaStatus: 'DISCREDITED' }),
+  mindat({ mindatId: 40, name: 'Foo-(Y)', imaStatus: 'APPROVED' }),
+  mindat({ mindatId: 41, name: 'Foo (Y)', imaStatus: 'APPROVED' }),
+]);
+
+function rruff(mineralName: string, imaSymbol = '', imaChemistry: string | null = null) {
+  return { id: 1, mineralName, imaSymbol, imaChemistry };
+}
+
+describe('matchRruffRow', () => {
+  it('links by IMA symbol first, from either symbol column', () => {
+    expect(matchRruffRow(rruff('Quartz', 'Qz'), index)).toEqual({
+      status: 'linked', mindatId: 3337, method: 'ima_symbol', confidence: 1, candidates: null,
+    });
+    expect(matchRruffRow(rruff('Galena', ' Gn '), index)).toMatchObject({ mindatId: 1641, method: 'ima_symbol' });
+  });
+
+  it('docks confidence when a symbol matches under another name', () => {
+    expect(matchRruffRow(rruff('Silica', 'Qz'), index)).toMatchObject({ mindatId: 3337, method: 'ima_symbol', confidence: 0.9 });
+  });
+
+  it('falls back to the normalised name', () => {
+    expect(matchRruffRow(rruff('Akermanite', 'Xx'), index)).toMatchObject({
+      status: 'linked', mindatId: 10, method: 'name', confidence: 0.9,
+    });
+  });
+
+  it('narrows a formula match to the species and docks confidence for it', () => {
+    // Quartz and its variety Amethyst share the formula
+    expect(matchRruffRow(rruff('Silica', '', 'SiO₂'), index)).toMatchObject({
+      status: 'linked', mindatId: 3337, method: 'formula', confidence: 0.4,
+    });
+  });
+
+  it('prefers the IMA-approved record of a name', () => {
+    expect(matchRruffRow(rruff('Abenakiite-(Ce)'), index)).toMatchObject({
+      status: 'linked', mindatId: 30, method: 'name', confidence: 0.8,
+    });
+  });
+
+  it('leaves records it cannot tell apart as ambiguous', () => {
+    expect(matchRruffRow(rruff('Iron sulfide', '', 'FeS2'), index)).toEqual({
+      status: 'ambiguous',
+      mindatId: null,
+      method: 'formula',
+      confidence: null,
+      candidates: [
+        { mindatId: 20, name: 'Pyrite', imaStatus: 'APPROVED' },
+        { mindatId: 21, name: 'Marcasite', imaStatus: 'APPROVED' },
+      ],
+    });
+    expect(matchRruffRow(rruff('Foo-(Y)'), index).status).toBe('ambiguous');
+  });
+
+  it('reports a row nothing matches as unmatched', () => {
+    expect(matchRruffRow(rruff('Unobtainium', 'Un', 'Xx2'), index)).toEqual({
+      status: 'unmatched', mindatId: null, method: null, confidence: null, candidates: null,
+    });
+  });
+});
@@ -0,0 +1,347 @@
+import { db } from '../db';
+import { mindatMinerals, rruffMinerals, type MindatMineral, type RruffMineral } from '@shared/schema';
+import { and, asc, desc, eq, gt, ilike, isNull, lte, ne, or, sql, type SQL } from 'drizzle-orm';
+import { normalizeFormula } from './conflict-rules';
+
+export type RruffLinkStatus = 'linked' | 'ambiguous' | 'unmatched';
+
+// 'manual' is a reviewer's decision; re-running the job leaves those rows alone
+export type RruffMatchMethod = 'ima_symbol' | 'name' | 'formula' | 'manual';
+
+export interface RruffLinkCandidate {
+  mindatId: number;
+  name: string;
+  imaStatus: string | null;
+}
+
+export interface RruffLinkProgress {
+  checked: number;
+  linked: number;
+  ambiguous: number;
+  unmatched: number;
+  errors: string[];
+}
+
+export class RruffLinkError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RruffLinkError';
+  }
+}
+
+interface MindatEntry extends RruffLinkCandidate {
+  species: boolean; // Not a variety or synonym
+}
+
+export interface MindatLinkIndex {
+  bySymbol: Map<string, MindatEntry[]>;
+  byName: Map<string, MindatEntry[]>;
+  byFormula: Map<string, MindatEntry[]>;
+}
+
+// The mindat_minerals columns matching needs
+export type MindatLinkRow = Pick<MindatMineral,
+  'mindatId' | 'name' | 'imaSymbol' | 'shortcodeIma' | 'imaFormula' | 'mindatFormula' | 'imaStatus' | 'varietyOf' | 'synId'>;
+
+export interface RruffLinkResult {
+  status: RruffLinkStatus;
+  mindatId: number | null;
+  method: RruffMatchMethod | null;
+  confidence: number | null;
+  candidates: RruffLinkCandidate[] | null;
+}
+
+export type RruffLinkRow = Pick<RruffMineral, 'id' | 'mineralName' | 'imaSymbol' | 'imaChemistry'>;
+
+// Confidence of a single match by each method, before any narrowing
+const METHOD_CONFIDENCE: Record<Exclude<RruffMatchMethod, 'manual'>, number> = {
+  ima_symbol: 1,
+  name: 0.9,
+  formula: 0.6,
+};
+
+const MINDAT_PAGE_SIZE = 10000;
+
+// Abenakiite-(Ce), "Abenakiite (Ce)" and Åkermanite/akermanite compare equal
+function normalizeName(name: string): string {
+  return name
+    .replace(/<[^>]+>/g, '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]/g, '');
+}
+
+function addTo(map: Map<string, MindatEntry[]>, key: string | null | undefined, entry: MindatEntry): void {
+  if (!key) return;
+  const entries = map.get(key);
+  if (!entries) map.set(key, [entry]);
+  else if (!entries.includes(entry)) entries.push(entry);
+}
+
+function isApproved(entry: MindatEntry): boolean {
+  return /approved/i.test(entry.imaStatus ?? '');
+}
+
+// Adds rows to `index`, so a large table can be indexed a page at a time
+export function indexMindatRows(
+  rows: MindatLinkRow[],
+  index: MindatLinkIndex = { bySymbol: new Map(), byName: new Map(), byFormula: new Map() },
+): MindatLinkIndex {
+  for (const row of rows) {
+    const entry: MindatEntry = {
+      mindatId: row.mindatId,
+      name: row.name,
+      imaStatus: row.imaStatus,
+      species: !row.varietyOf && !row.synId,
+    };
+    addTo(index.bySymbol, row.imaSymbol?.trim(), entry);
+    addTo(index.bySymbol, row.shortcodeIma?.trim(), entry);
+    addTo(index.byName, normalizeName(row.name), entry);
+    if (row.imaFormula) addTo(index.byFormula, normalizeFormula(row.imaFormula), entry);
+    if (row.mindatFormula) addTo(index.byFormula, normalizeFormula(row.mindatFormula), entry);
+  }
+  return index;
+}
+
+/**
+ * Match one RRUFF row: by IMA symbol, then normalised name, then formula.
+ * The first method that finds anything decides; several records are
+ * narrowed to the same name, then species, then IMA-approved ones, and
+ * whatever is still tied is ambiguous. A link loses 0.1 confidence for
+ * having had to narrow, and 0.1 for a symbol or formula match whose name
+ * differs.
+ */
+export function matchRruffRow(row: RruffLinkRow, index: MindatLinkIndex): RruffLinkResult {
+  const name = normalizeName(row.mineralName);
+  const tiers: [Exclude<RruffMatchMethod, 'manual'>, MindatEntry[]][] = [
+    ['ima_symbol', index.bySymbol.get(row.imaSymbol.trim()) ?? []],
+    ['name', index.byName.get(name) ?? []],
+    ['formula', row.imaChemistry ? index.byFormula.get(normalizeFormula(row.imaChemistry)) ?? [] : []],
+  ];
+
+  for (const [method, found] of tiers) {
+    if (found.length === 0) continue;
+
+    let candidates = found;
+    for (const prefer of [
+      (entry: MindatEntry) => normalizeName(entry.name) === name,
+      (entry: MindatEntry) => entry.species,
+      isApproved,
+    ]) {
+      const preferred = candidates.filter(prefer);
+      if (preferred.length > 0) candidates = preferred;
+    }
+
+    if (candidates.length > 1) {
+      return {
+        status: 'ambiguous',
+        mindatId: null,
+        method,
+        confidence: null,
+        candidates: candidates.map(({ mindatId, name, imaStatus }) => ({ mindatId, name, imaStatus })),
+      };
+    }
+
+    const [chosen] = candidates;
+    let confidence = METHOD_CONFIDENCE[method];
+    // Had to pick between records, or the symbol/formula matched under another name
+    if (found.length > 1) confidence -= 0.1;
+    if (method !== 'name' && normalizeName(chosen.name) !== name) confidence -= 0.1;
+
+    return {
+      status: 'linked',
+      mindatId: chosen.mindatId,
+      method,
+      confidence: Math.round(confidence * 100) / 100,
+      candidates: null,
+    };
+  }
+
+  return { status: 'unmatched', mindatId: null, method: null, confidence: null, candidates: null };
+}
+
+/**
+ * Links rruff_minerals rows to mindat_minerals with matchRruffRow. Symbols
+ * are Mindat's imaSymbol or shortcodeIma; rows still tied are stored as
+ * ambiguous for review.
+ */
+export class RruffMindatLinker {
+  private static instance: RruffMindatLinker;
+
+  private constructor() {}
+
+  static getInstance(): RruffMindatLinker {
+    if (!RruffMindatLinker.instance) {
+      RruffMindatLinker.instance = new RruffMindatLinker();
+    }
+    return RruffMindatLinker.instance;
+  }
+
+  /**
+   * Link RRUFF rows after `afterId`, `batchSize` at a time. By default only
+   * rows not yet linked are looked at; `relinkAll` redoes automatic links too.
+   * Manual links are never changed.
+   */
+  async link(options: {
+    relinkAll?: boolean;
+    afterId?: number;
+    batchSize?: number;
+    onProgress?: (lastId: number, progress: RruffLinkProgress, total: number) => Promise<void>;
+  } = {}): Promise<RruffLinkProgress> {
+    const { relinkAll = false, afterId = 0, batchSize = 500, onProgress } = options;
+    const progress: RruffLinkProgress = { checked: 0, linked: 0, ambiguous: 0, unmatched: 0, errors: [] };
+
+    const index = await this.loadMindat();
+    const scope = and(
+      or(isNull(rruffMinerals.matchMethod), ne(rruffMinerals.matchMethod, 'manual')),
+      relinkAll ? undefined : or(isNull(rruffMinerals.enrichmentStatus), ne(rruffMinerals.enrichmentStatus, 'linked')),
+    );
+
+    const [{ count: total }] = await db.select({ count: sql<number>`count(*)::int` })
+      .from(rruffMinerals)
+      .where(and(scope, gt(rruffMinerals.id, afterId)));
+    console.log(`🔗 Linking ${total} RRUFF minerals to Mindat`);
+
+    let lastId = afterId;
+    while (true) {
+      const rows: RruffLinkRow[] = await db.select({
+        id: rruffMinerals.id,
+        mineralName: rruffMinerals.mineralName,
+        imaSymbol: rruffMinerals.imaSymbol,
+        imaChemistry: rruffMinerals.imaChemistry,
+      })
+        .from(rruffMinerals)
+        .where(and(scope, gt(rruffMinerals.id, lastId)))
+        .orderBy(asc(rruffMinerals.id))
+        .limit(batchSize);
+      if (rows.length === 0) break;
+
+      for (const row of rows) {
+        progress.checked++;
+        try {
+          const result = matchRruffRow(row, index);
+          await db.update(rruffMinerals)
+            .set({
+              mindatId: result.mindatId,
+              enrichmentStatus: result.status,
+              matchMethod: result.method,
+              matchConfidence: result.confidence,
+              matchCandidates: result.candidates,
+              enrichedAt: new Date(),
+            })
+            .where(eq(rruffMinerals.id, row.id));
+          progress[result.status]++;
+        } catch (error: any) {
+          progress.errors.push(`${row.mineralName} (${row.imaSymbol}): ${error.message}`);
+        }
+      }
+
+      lastId = rows[rows.length - 1].id;
+      if (onProgress) await onProgress(lastId, progress, total);
+    }
+
+    console.log(`✅ RRUFF linking: ${progress.linked} linked, ${progress.ambiguous} ambiguous, ${progress.unmatched} unmatched`);
+    return progress;
+  }
+
+  /**
+   * RRUFF rows for review, lowest confidence first. Ambiguous rows have no
+   * confidence; `maxConfidence` finds weak links instead.
+   */
+  async listLinks(filters: {
+    status?: string;
+    method?: string;
+    maxConfidence?: number;
+    mineral?: string;
+    limit?: number;
+    offset?: number;
+  } = {}): Promise<RruffMineral[]> {
+    const conditions: SQL[] = [];
+    if (filters.status) conditions.push(eq(rruffMinerals.enrichmentStatus, filters.status));
+    if (filters.method) conditions.push(eq(rruffMinerals.matchMethod, filters.method));
+    if (filters.maxConfidence !== undefined) conditions.push(lte(rruffMinerals.matchConfidence, filters.maxConfidence));
+    if (filters.mineral) conditions.push(ilike(rruffMinerals.mineralName, `%${filters.mineral}%`));
+
+    return db.select()
+      .from(rruffMinerals)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(sql`${rruffMinerals.matchConfidence} ASC NULLS FIRST`, asc(rruffMinerals.mineralName))
+      .limit(filters.limit ?? 100)
+      .offset(filters.offset ?? 0);
+  }
+
+  /**
+   * A reviewer's decision: link the row to `mindatId`, or with null record
+   * that Mindat has no such mineral. Returns null if the RRUFF row is gone.
+   */
+  async setLink(rruffId: number, mindatId: number | null): Promise<RruffMineral | null> {
+    if (mindatId !== null) {
+      if (!Number.isInteger(mindatId)) {
+        throw new RruffLinkError('mindatId must be a Mindat ID or null');
+      }
+      const [mineral] = await db.select({ mindatId: mindatMinerals.mindatId })
+        .from(mindatMinerals)
+        .where(eq(mindatMinerals.mindatId, mindatId))
+        .limit(1);
+      if (!mineral) {
+        throw new RruffLinkError(`Mindat ID ${mindatId} is not in mindat_minerals`);
+      }
+    }
+
+    const [row] = await db.update(rruffMinerals)
+      .set({
+        mindatId,
+        enrichmentStatus: mindatId === null ? 'unmatched' : 'linked',
+        matchMethod: 'manual',
+        matchConfidence: mindatId === null ? null : 1,
+        matchCandidates: null,
+        enrichedAt: new Date(),
+      })
+      .where(eq(rruffMinerals.id, rruffId))
+      .returning();
+    return row ?? null;
+  }
+
+  // Counts by status and method
+  async getSummary(): Promise<{ status: string | null; method: string | null; count: number }[]> {
+    return db.select({
+      status: rruffMinerals.enrichmentStatus,
+      method: rruffMinerals.matchMethod,
+      count: sql<number>`count(*)::int`,
+    })
+      .from(rruffMinerals)
+      .groupBy(rruffMinerals.enrichmentStatus, rruffMinerals.matchMethod)
+      .orderBy(rruffMinerals.enrichmentStatus, desc(sql`count(*)`));
+  }
+
+  // Only the columns matching needs, paged so a full Mindat table fits comfortably
+  private async loadMindat(): Promise<MindatLinkIndex> {
+    const index = indexMindatRows([]);
+    let lastId = 0;
+
+    while (true) {
+      const rows = await db.select({
+        mindatId: mindatMinerals.mindatId,
+        name: mindatMinerals.name,
+        imaSymbol: mindatMinerals.imaSymbol,
+        shortcodeIma: mindatMinerals.shortcodeIma,
+        imaFormula: mindatMinerals.imaFormula,
+        mindatFormula: mindatMinerals.mindatFormula,
+        imaStatus: mindatMinerals.imaStatus,
+        varietyOf: mindatMinerals.varietyOf,
+        synId: mindatMinerals.synId,
+      })
+        .from(mindatMinerals)
+        .where(gt(mindatMinerals.mindatId, lastId))
+        .orderBy(asc(mindatMinerals.mindatId))
+        .limit(MINDAT_PAGE_SIZE);
+      if (rows.length === 0) break;
+
+      indexMindatRows(rows, index);
+      lastId = rows[rows.length - 1].mindatId;
+    }
+
+    return index;
+  }
+}
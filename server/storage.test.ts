@@ -0,0 +1,233 @@
+import { afterAll, beforeEach, describe, expect, it } from "vitest";
+import { parseChemistryQuery } from "@shared/chemistry-query";
+import { DatabaseStorage, MemStorage, type IStorage } from "./storage";
+
+/**
+ * The contract every IStorage driver keeps. MemStorage always runs it;
+ * DatabaseStorage runs it when TEST_DATABASE_URL names a disposable
+ * database with the schema pushed. Rows are tagged with a per-run token so
+ * the database suite ignores whatever else the tables hold.
+ */
+function storageContract(makeStorage: () => IStorage) {
+  let storage: IStorage;
+  let token: string;
+  // Mindat and RRUFF IDs are unique columns; keep them clear of real ones
+  let nextId = 900_000_000 + Math.floor(Math.random() * 50_000_000);
+
+  beforeEach(() => {
+    storage = makeStorage();
+    token = `zz${Date.now().toString(36)}${Math.random().toString(36).slice(2, 7)}`;
+  });
+
+  describe("users", () => {
+    it("creates and finds users by id and username", async () => {
+      const user = await storage.createUser({ username: `${token}-user` });
+
+      expect(user.role).toBe("user");
+      expect(user.email).toBeNull();
+      expect(await storage.getUser(user.id)).toMatchObject({ username: `${token}-user` });
+      expect(await storage.getUserByUsername(`${token}-user`)).toMatchObject({ id: user.id });
+      expect(await storage.getUserByUsername(`${token}-missing`)).toBeUndefined();
+    });
+  });
+
+  describe("minerals", () => {
+    it("creates, finds and updates minerals", async () => {
+      const mindatId = nextId++;
+      const mineral = await storage.createMineral({ name: `${token} Quartz`, mindatId, elements: ["Si", "O"] });
+
+      expect(mineral.formula).toBeNull();
+      expect(await storage.getMineralByMindatId(mindatId)).toMatchObject({ id: mineral.id });
+
+      const updated = await storage.updateMineral(mineral.id, { crystalSystem: "Trigonal" });
+      expect(updated).toMatchObject({ name: `${token} Quartz`, crystalSystem: "Trigonal" });
+      expect(await storage.getMineralById(mineral.id)).toMatchObject({ crystalSystem: "Trigonal" });
+      expect(await storage.updateMineral(-1, { name: "nothing" })).toBeUndefined();
+    });
+
+    it("searches minerals by name and any of the given elements", async () => {
+      await storage.createMineral({ name: `${token} Quartz`, elements: ["Si", "O"] });
+      await storage.createMineral({ name: `${token} Galena`, elements: ["Pb", "S"] });
+
+      const byName = await storage.searchMinerals({ name: `${token} gal` });
+      expect(byName.map((m) => m.name)).toEqual([`${token} Galena`]);
+
+      const byElements = await storage.searchMinerals({ name: token, elements: ["S", "Zr"] });
+      expect(byElements.map((m) => m.name)).toEqual([`${token} Galena`]);
+    });
+  });
+
+  describe("localities", () => {
+    it("searches by name and country regardless of case", async () => {
+      const locality = await storage.createLocality({ name: `${token} Mine`, country: "Namibia" });
+
+      const found = await storage.searchLocalities({ name: token, country: "namibia" });
+      expect(found.map((l) => l.id)).toEqual([locality.id]);
+      expect(await storage.searchLocalities({ name: token, country: "Peru" })).toEqual([]);
+      expect(await storage.getLocalityById(locality.id)).toMatchObject({ region: null });
+    });
+  });
+
+  describe("Strunz classifications", () => {
+    it("finds a classification by code", async () => {
+      const created = await storage.createStrunzClassification({ classCode: token, className: "Test class" });
+
+      expect(created.level).toBe(1);
+      expect(await storage.getStrunzClassificationByCode(token)).toMatchObject({ id: created.id });
+      expect(await storage.getStrunzClassificationByCode(`${token}-missing`)).toBeUndefined();
+    });
+  });
+
+  describe("sync jobs", () => {
+    it("creates pending jobs and applies updates", async () => {
+      const job = await storage.createSyncJob({ jobType: token, params: { pages: 1 } });
+
+      expect(job).toMatchObject({ status: "pending", cancelRequested: false, checkpoint: null });
+      const updated = await storage.updateSyncJob(job.id, { status: "running", recordsProcessed: 5 });
+      expect(updated).toMatchObject({ status: "running", recordsProcessed: 5, params: { pages: 1 } });
+      expect(await storage.getSyncJob(job.id)).toMatchObject({ status: "running" });
+      expect(await storage.getSyncJob(-1)).toBeUndefined();
+    });
+
+    it("lists recent jobs newest first, filtered", async () => {
+      const first = await storage.createSyncJob({ jobType: token, status: "completed" });
+      const second = await storage.createSyncJob({ jobType: token, status: "failed" });
+
+      const recent = await storage.getRecentSyncJobs(10, { jobType: token });
+      expect(recent.map((j) => j.id)).toEqual([second.id, first.id]);
+      expect((await storage.getRecentSyncJobs(10, { jobType: token, status: "completed" })).map((j) => j.id)).toEqual([first.id]);
+      expect(await storage.getRecentSyncJobs(1, { jobType: token })).toHaveLength(1);
+    });
+  });
+
+  describe("RRUFF minerals", () => {
+    it("fills defaults and searches name, symbol and group", async () => {
+      const mineral = await storage.createRruffMineral({
+        mineralName: `${token}ite`,
+        imaSymbol: `${token}-sym`,
+        structuralGroupname: `${token} group`,
+      });
+      await storage.createRruffMineral({ mineralName: `${token}ine`, imaSymbol: `${token}-sym2` });
+
+      expect(mineral.enrichmentStatus).toBe("not_enriched");
+      expect(mineral.createdAt).toBeInstanceOf(Date);
+
+      const byName = await storage.searchRruffMinerals(token, { pageSize: 1 });
+      expect(byName.count).toBe(2);
+      expect(byName.results.map((m) => m.mineralName)).toEqual([`${token}ine`]);
+
+      const bySymbol = await storage.searchRruffMinerals(`${token}-sym2`);
+      expect(bySymbol.results.map((m) => m.mineralName)).toEqual([`${token}ine`]);
+
+      const groups = await storage.searchRruffGroups(`${token} group`);
+      expect(groups.results.map((m) => m.id)).toEqual([mineral.id]);
+    });
+  });
+
+  describe("Mindat minerals", () => {
+    async function seed() {
+      const quartz = await storage.createMindatMineral({
+        mindatId: nextId++,
+        name: `${token}quartz`,
+        crystalSystem: "Trigonal",
+        elements: ["Si", "O"],
+        hardnessMin: 7,
+      });
+      const chalcocite = await storage.createMindatMineral({
+        mindatId: nextId++,
+        name: `${token}chalcocite`,
+        crystalSystem: "Monoclinic",
+        elements: ["Cu", "S"],
+        hardnessMin: 2.5,
+        hardnessMax: 3,
+      });
+      const unknown = await storage.createMindatMineral({
+        mindatId: nextId++,
+        name: `${token}unknownite`,
+        elements: ["Cu", "Fe", "S"],
+      });
+      return { quartz, chalcocite, unknown };
+    }
+
+    it("puts an exact name first and counts every match", async () => {
+      const { quartz } = await seed();
+      await storage.createMindatMineral({ mindatId: nextId++, name: `${token}quartz-beta` });
+
+      const { results, count } = await storage.searchMindatMinerals({ name: `${token}QUARTZ`, pageSize: 1 });
+      expect(count).toBe(2);
+      expect(results.map((m) => m.id)).toEqual([quartz.id]);
+    });
+
+    it("filters by crystal system, elements and chemistry", async () => {
+      const { chalcocite, unknown } = await seed();
+
+      const trigonal = await storage.searchMindatMinerals({ name: token, crystalSystem: "trigonal" });
+      expect(trigonal.results.map((m) => m.name)).toEqual([`${token}quartz`]);
+      expect((await storage.searchMindatMinerals({ name: token, crystalSystem: "%" })).count).toBe(0);
+
+      const copper = await storage.searchMindatMinerals({ name: token, elements: ["Cu", "S"] });
+      expect(copper.results.map((m) => m.id).sort()).toEqual([chalcocite.id, unknown.id].sort());
+
+      const noIron = await storage.searchMindatMinerals({ name: token, chemistry: parseChemistryQuery("+Cu -Fe") });
+      expect(noIron.results.map((m) => m.id)).toEqual([chalcocite.id]);
+
+      const only = await storage.searchMindatMinerals({ name: token, chemistry: parseChemistryQuery("only(Cu,S)") });
+      expect(only.results.map((m) => m.id)).toEqual([chalcocite.id]);
+    });
+
+    it("matches _ and % in text filters literally", async () => {
+      await seed();
+      await storage.createMindatMineral({ mindatId: nextId++, name: `${token}a_b`, imaStatus: "APPROVED" });
+
+      expect((await storage.searchMindatMinerals({ name: `${token}q_artz` })).count).toBe(0);
+      expect((await storage.searchMindatMinerals({ name: `${token}a_b` })).count).toBe(1);
+      expect((await storage.searchMindatMinerals({ name: token, formula: "%" })).count).toBe(0);
+      expect((await storage.searchMindatMinerals({ name: token, imaStatus: "APPR_VED" })).count).toBe(0);
+      expect((await storage.searchMindatMinerals({ name: token, opticalType: "%" })).count).toBe(0);
+    });
+
+    it("filters property ranges, optionally keeping unknown values", async () => {
+      const { chalcocite, unknown } = await seed();
+      const ranges = [{ property: "hardness", max: 3 }];
+
+      const known = await storage.searchMindatMinerals({ name: token, ranges });
+      expect(known.results.map((m) => m.id)).toEqual([chalcocite.id]);
+
+      const withUnknown = await storage.searchMindatMinerals({ name: token, ranges, includeUnknown: true });
+      expect(withUnknown.results.map((m) => m.id).sort()).toEqual([chalcocite.id, unknown.id].sort());
+    });
+
+    it("sorts by a property with unknown values last", async () => {
+      const { quartz, chalcocite, unknown } = await seed();
+
+      const desc = await storage.searchMindatMinerals({ name: token, sort: { property: "hardness", direction: "desc" } });
+      expect(desc.results.map((m) => m.id)).toEqual([quartz.id, chalcocite.id, unknown.id]);
+
+      const asc = await storage.searchMindatMinerals({ name: token, sort: { property: "hardness", direction: "asc" } });
+      expect(asc.results.map((m) => m.id)).toEqual([chalcocite.id, quartz.id, unknown.id]);
+    });
+  });
+}
+
+describe("MemStorage", () => {
+  storageContract(() => new MemStorage());
+});
+
+describe.skipIf(!process.env.TEST_DATABASE_URL)("DatabaseStorage", () => {
+  const storage = new DatabaseStorage();
+
+  afterAll(async () => {
+    const { db } = await import("./db");
+    const { sql } = await import("drizzle-orm");
+    // Everything the suite created carries a zz<token> prefix
+    await db.execute(sql`DELETE FROM users WHERE username LIKE 'zz%'`);
+    await db.execute(sql`DELETE FROM minerals WHERE name LIKE 'zz%'`);
+    await db.execute(sql`DELETE FROM localities WHERE name LIKE 'zz%'`);
+    await db.execute(sql`DELETE FROM strunz_classifications WHERE class_code LIKE 'zz%'`);
+    await db.execute(sql`DELETE FROM sync_jobs WHERE job_type LIKE 'zz%'`);
+    await db.execute(sql`DELETE FROM rruff_minerals WHERE mineral_name LIKE 'zz%'`);
+    await db.execute(sql`DELETE FROM mindat_minerals WHERE name LIKE 'zz%'`);
+  });
+
+  storageContract(() => storage);
+});
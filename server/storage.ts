@@ -6,6 +6,7 @@ import {
   syncJobs,
   favorites,
   rruffMinerals,
+  mindatMinerals,
   type User,
   type InsertUser,
   type Mineral,
@@ -17,9 +18,149 @@ import {
   type SyncJob,
   type InsertSyncJob,
   type RruffMineral,
+  type InsertRruffMineral,
+  type MindatMineral,
+  type InsertMindatMineral,
 } from "@shared/schema";
 import { db } from "./db";
-import { ilike, or, sql } from "drizzle-orm";
+import { matchesChemistryQuery, type ChemistryQuery } from "@shared/chemistry-query";
+import {
+  getNumericProperty,
+  propertySpan,
+  type NumericPropertySpec,
+  type PropertyRange,
+  type PropertySort,
+} from "@shared/mineral-properties";
+import { and, arrayContains, arrayOverlaps, desc, eq, getTableColumns, ilike, is, or, sql, SQL, type Table } from "drizzle-orm";
+
+export interface SyncJobFilters {
+  status?: string;
+  jobType?: string;
+  scheduleId?: number;
+}
+
+export interface MindatMineralSearchParams {
+  name?: string;
+  formula?: string;
+  elements?: string[];
+  crystalSystem?: string;
+  imaStatus?: string;
+  entryType?: number;
+  chemistry?: ChemistryQuery;
+  opticalType?: string;
+  ranges?: PropertyRange[];
+  // Treat minerals with no recorded value as matching a range rather than excluding them
+  includeUnknown?: boolean;
+  sort?: PropertySort;
+  page?: number;
+  pageSize?: number;
+}
+
+/**
+ * A row as the database would return it for `values`: columns left unset
+ * get their default (now() for timestamps) or null.
+ */
+function rowWithDefaults<T>(table: Table, id: number, values: object): T {
+  const given = values as Record<string, unknown>;
+  const row: Record<string, unknown> = { id };
+  for (const [key, column] of Object.entries(getTableColumns(table))) {
+    if (key === 'id') continue;
+    if (given[key] !== undefined) row[key] = given[key];
+    else if (column.defaultFn) row[key] = column.defaultFn();
+    else if (is(column.default, SQL)) row[key] = new Date();
+    else row[key] = column.default ?? null;
+  }
+  return row as T;
+}
+
+// ILIKE treats % and _ as wildcards; match user input literally
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, (char) => `\\${char}`);
+}
+
+function mindatElementSet(mineral: MindatMineral): string[] {
+  const excluded = new Set(mineral.elementsExc || []);
+  const present = new Set([
+    ...(mineral.elements || []),
+    ...(mineral.keyElements || []),
+    ...(mineral.elementsInc || []),
+  ]);
+  return Array.from(present).filter((el) => !excluded.has(el));
+}
+
+/**
+ * SQL twin of mindatElementSet(): every element recorded for the mineral in
+ * elements, key_elements or elements_inc, less anything in elements_exc.
+ */
+const mindatElementSetSql = sql`ARRAY(
+  SELECT unnest(coalesce(${mindatMinerals.elements}, '{}') || coalesce(${mindatMinerals.keyElements}, '{}') || coalesce(${mindatMinerals.elementsInc}, '{}'))
+  EXCEPT SELECT unnest(coalesce(${mindatMinerals.elementsExc}, '{}'))
+)`;
+
+function textArray(values: string[]): SQL {
+  return sql`ARRAY[${sql.join(values.map((value) => sql`${value}`), sql`, `)}]::text[]`;
+}
+
+function chemistryConditions(query: ChemistryQuery): SQL[] {
+  const conditions: SQL[] = [];
+
+  if (query.include.length > 0) {
+    conditions.push(sql`${mindatElementSetSql} @> ${textArray(query.include)}`);
+  }
+
+  if (query.exclude.length > 0) {
+    conditions.push(sql`NOT (${mindatElementSetSql} && ${textArray(query.exclude)})`);
+  }
+
+  if (query.only) {
+    conditions.push(query.only.length > 0
+      ? sql`(cardinality(${mindatElementSetSql}) > 0 AND ${mindatElementSetSql} <@ ${textArray(query.only)})`
+      : sql`false`);
+  }
+
+  return conditions;
+}
+
+function requireNumericProperty(key: string): NumericPropertySpec {
+  const spec = getNumericProperty(key);
+  if (!spec) {
+    throw new Error(`Unknown mineral property: ${key}`);
+  }
+  return spec;
+}
+
+function matchesPropertyRange(mineral: MindatMineral, range: PropertyRange, includeUnknown: boolean): boolean {
+  const span = propertySpan(mineral, requireNumericProperty(range.property));
+  if (!span) return includeUnknown;
+
+  const [low, high] = span;
+  return (range.min === undefined || high >= range.min) && (range.max === undefined || low <= range.max);
+}
+
+/**
+ * SQL twin of propertySpan(): the low and high ends of a property, each
+ * falling back to the other when only one is recorded.
+ */
+function propertySpanSql(spec: NumericPropertySpec): { low: SQL; high: SQL } {
+  const minColumn = mindatMinerals[spec.min];
+  const maxColumn = spec.max ? mindatMinerals[spec.max] : minColumn;
+
+  return {
+    low: sql`coalesce(${minColumn}, ${maxColumn})`,
+    high: sql`coalesce(${maxColumn}, ${minColumn})`,
+  };
+}
+
+function propertyRangeCondition(range: PropertyRange, includeUnknown: boolean): SQL {
+  const { low, high } = propertySpanSql(requireNumericProperty(range.property));
+  const bounds: SQL[] = [];
+
+  if (range.min !== undefined) bounds.push(sql`${high} >= ${range.min}`);
+  if (range.max !== undefined) bounds.push(sql`${low} <= ${range.max}`);
+
+  const inRange = bounds.length > 0 ? and(...bounds)! : sql`${low} IS NOT NULL`;
+  return includeUnknown ? or(inRange, sql`${low} IS NULL`)! : inRange;
+}
 
 export interface IStorage {
   getUser(id: number): Promise<User | undefined>;
@@ -54,24 +195,36 @@ export interface IStorage {
 
   createSyncJob(job: InsertSyncJob): Promise<SyncJob>;
   updateSyncJob(id: number, job: Partial<InsertSyncJob>): Promise<SyncJob | undefined>;
-  getRecentSyncJobs(limit: number): Promise<SyncJob[]>;
+  getSyncJob(id: number): Promise<SyncJob | undefined>;
+  getRecentSyncJobs(limit: number, filters?: SyncJobFilters): Promise<SyncJob[]>;
 
+  createRruffMineral(mineral: InsertRruffMineral): Promise<RruffMineral>;
   searchRruffMinerals(searchTerm: string, options?: { page?: number; pageSize?: number }): Promise<{ results: RruffMineral[]; count: number }>;
   searchRruffGroups(searchTerm: string, options?: { page?: number; pageSize?: number }): Promise<{ results: RruffMineral[]; count: number }>;
+
+  createMindatMineral(mineral: InsertMindatMineral): Promise<MindatMineral>;
+  searchMindatMinerals(params: MindatMineralSearchParams): Promise<{ results: MindatMineral[]; count: number }>;
 }
 
+/**
+ * In-process storage used as a test double; nothing survives a restart.
+ */
 export class MemStorage implements IStorage {
   private users: Map<number, User>;
   private minerals: Map<number, Mineral>;
   private localities: Map<number, Locality>;
   private strunzClassifications: Map<number, StrunzClassification>;
   private syncJobs: Map<number, SyncJob>;
+  private rruffMinerals: Map<number, RruffMineral>;
+  private mindatMinerals: Map<number, MindatMineral>;
 
   private userIdCounter: number;
   private mineralIdCounter: number;
   private localityIdCounter: number;
   private strunzIdCounter: number;
   private syncJobIdCounter: number;
+  private rruffIdCounter: number;
+  private mindatIdCounter: number;
 
   constructor() {
     this.users = new Map();
@@ -79,12 +232,16 @@ export class MemStorage implements IStorage {
     this.localities = new Map();
     this.strunzClassifications = new Map();
     this.syncJobs = new Map();
+    this.rruffMinerals = new Map();
+    this.mindatMinerals = new Map();
 
     this.userIdCounter = 1;
     this.mineralIdCounter = 1;
     this.localityIdCounter = 1;
     this.strunzIdCounter = 1;
     this.syncJobIdCounter = 1;
+    this.rruffIdCounter = 1;
+    this.mindatIdCounter = 1;
   }
 
   async getUser(id: number): Promise<User | undefined> {
@@ -306,10 +463,19 @@ export class MemStorage implements IStorage {
       id,
       jobType: insertJob.jobType,
       status: insertJob.status ?? 'pending',
+      scheduleId: insertJob.scheduleId ?? null,
+      params: insertJob.params ?? null,
+      checkpoint: insertJob.checkpoint ?? null,
+      result: insertJob.result ?? null,
       recordsProcessed: insertJob.recordsProcessed ?? null,
       recordsFailed: insertJob.recordsFailed ?? null,
+      recordsTotal: insertJob.recordsTotal ?? null,
+      cancelRequested: insertJob.cancelRequested ?? false,
       errorMessage: insertJob.errorMessage ?? null,
       startedAt: insertJob.startedAt ?? null,
+      runStartedAt: insertJob.runStartedAt ?? null,
+      runStartRecords: insertJob.runStartRecords ?? null,
+      heartbeatAt: insertJob.heartbeatAt ?? null,
       completedAt: insertJob.completedAt ?? null,
       createdAt: new Date(),
     };
@@ -332,13 +498,352 @@ export class MemStorage implements IStorage {
     return updated;
   }
 
-  async getRecentSyncJobs(limit: number): Promise<SyncJob[]> {
-    const jobs = Array.from(this.syncJobs.values());
+  async getSyncJob(id: number): Promise<SyncJob | undefined> {
+    return this.syncJobs.get(id);
+  }
+
+  async getRecentSyncJobs(limit: number, filters: SyncJobFilters = {}): Promise<SyncJob[]> {
+    const jobs = Array.from(this.syncJobs.values()).filter((job) =>
+      (!filters.status || job.status === filters.status) &&
+      (!filters.jobType || job.jobType === filters.jobType) &&
+      (filters.scheduleId === undefined || job.scheduleId === filters.scheduleId)
+    );
     return jobs
-      .sort((a, b) => (b.createdAt?.getTime() || 0) - (a.createdAt?.getTime() || 0))
+      .sort((a, b) => (b.createdAt?.getTime() || 0) - (a.createdAt?.getTime() || 0) || b.id - a.id)
       .slice(0, limit);
   }
 
+  async createRruffMineral(insertMineral: InsertRruffMineral): Promise<RruffMineral> {
+    if (Array.from(this.rruffMinerals.values()).some((m) => m.imaSymbol === insertMineral.imaSymbol)) {
+      throw new Error(`RRUFF mineral ${insertMineral.imaSymbol} already exists`);
+    }
+    const mineral = rowWithDefaults<RruffMineral>(rruffMinerals, this.rruffIdCounter++, insertMineral);
+    this.rruffMinerals.set(mineral.id, mineral);
+    return mineral;
+  }
+
+  async searchRruffMinerals(
+    searchTerm: string,
+    options?: { page?: number; pageSize?: number }
+  ): Promise<{ results: RruffMineral[]; count: number }> {
+    const term = searchTerm.toLowerCase();
+    const matches = Array.from(this.rruffMinerals.values())
+      .filter((m) =>
+        m.mineralName.toLowerCase().includes(term) ||
+        m.imaChemistry?.toLowerCase().includes(term) ||
+        m.imaSymbol.toLowerCase().includes(term)
+      )
+      .sort((a, b) => a.mineralName.localeCompare(b.mineralName));
+
+    return this.paginate(matches, options);
+  }
+
+  async searchRruffGroups(
+    searchTerm: string,
+    options?: { page?: number; pageSize?: number }
+  ): Promise<{ results: RruffMineral[]; count: number }> {
+    const term = searchTerm.toLowerCase();
+    const matches = Array.from(this.rruffMinerals.values())
+      .filter((m) => m.structuralGroupname?.toLowerCase().includes(term))
+      .sort((a, b) =>
+        (a.structuralGroupname || '').localeCompare(b.structuralGroupname || '') ||
+        a.mineralName.localeCompare(b.mineralName)
+      );
+
+    return this.paginate(matches, options);
+  }
+
+  async createMindatMineral(insertMineral: InsertMindatMineral): Promise<MindatMineral> {
+    if (Array.from(this.mindatMinerals.values()).some((m) => m.mindatId === insertMineral.mindatId)) {
+      throw new Error(`Mindat mineral ${insertMineral.mindatId} already exists`);
+    }
+    const mineral = rowWithDefaults<MindatMineral>(mindatMinerals, this.mindatIdCounter++, insertMineral);
+    this.mindatMinerals.set(mineral.id, mineral);
+    return mineral;
+  }
+
+  async searchMindatMinerals(
+    params: MindatMineralSearchParams
+  ): Promise<{ results: MindatMineral[]; count: number }> {
+    let results = Array.from(this.mindatMinerals.values());
+
+    if (params.name) {
+      const searchTerm = params.name.toLowerCase();
+      results = results.filter((m) => m.name.toLowerCase().includes(searchTerm));
+    }
+
+    if (params.formula) {
+      const searchTerm = params.formula.toLowerCase();
+      results = results.filter(
+        (m) =>
+          m.mindatFormula?.toLowerCase().includes(searchTerm) ||
+          m.imaFormula?.toLowerCase().includes(searchTerm)
+      );
+    }
+
+    if (params.elements && params.elements.length > 0) {
+      results = results.filter((m) =>
+        params.elements!.every((el) => m.elements?.includes(el))
+      );
+    }
+
+    if (params.crystalSystem) {
+      const crystalSystem = params.crystalSystem.toLowerCase();
+      results = results.filter((m) => m.crystalSystem?.toLowerCase() === crystalSystem);
+    }
+
+    if (params.imaStatus) {
+      const status = params.imaStatus.toLowerCase();
+      results = results.filter((m) => m.imaStatus?.toLowerCase().includes(status));
+    }
+
+    if (params.entryType !== undefined) {
+      results = results.filter((m) => m.entryType === params.entryType);
+    }
+
+    if (params.chemistry) {
+      results = results.filter((m) => matchesChemistryQuery(mindatElementSet(m), params.chemistry!));
+    }
+
+    if (params.opticalType) {
+      const opticalType = params.opticalType.toLowerCase();
+      results = results.filter((m) => m.opticalType?.toLowerCase().includes(opticalType));
+    }
+
+    for (const range of params.ranges || []) {
+      results = results.filter((m) => matchesPropertyRange(m, range, !!params.includeUnknown));
+    }
+
+    const exactName = params.name?.toLowerCase();
+    const sortSpec = params.sort ? requireNumericProperty(params.sort.property) : null;
+    const sortDirection = params.sort?.direction === 'desc' ? -1 : 1;
+
+    results.sort((a, b) => {
+      const aExact = a.name.toLowerCase() === exactName ? 0 : 1;
+      const bExact = b.name.toLowerCase() === exactName ? 0 : 1;
+      if (aExact !== bExact) return aExact - bExact;
+
+      if (sortSpec) {
+        const aValue = propertySpan(a, sortSpec)?.[0] ?? null;
+        const bValue = propertySpan(b, sortSpec)?.[0] ?? null;
+        // Unknown values always sort last
+        if (aValue === null || bValue === null) {
+          if (aValue !== bValue) return aValue === null ? 1 : -1;
+        } else if (aValue !== bValue) {
+          return (aValue - bValue) * sortDirection;
+        }
+      }
+
+      return a.name.localeCompare(b.name);
+    });
+
+    return this.paginate(results, params);
+  }
+
+  private paginate<T>(
+    items: T[],
+    options?: { page?: number; pageSize?: number }
+  ): { results: T[]; count: number } {
+    const page = options?.page || 1;
+    const pageSize = options?.pageSize || 20;
+    const offset = (page - 1) * pageSize;
+
+    return {
+      results: items.slice(offset, offset + pageSize),
+      count: items.length,
+    };
+  }
+}
+
+/**
+ * Postgres-backed storage over the Drizzle tables in shared/schema.ts.
+ */
+export class DatabaseStorage implements IStorage {
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.id, id)).limit(1);
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await db.select()
+      .from(users)
+      .where(eq(users.username, username))
+      .limit(1);
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  async searchMinerals(params: {
+    name?: string;
+    formula?: string;
+    elements?: string[];
+    crystalSystem?: string;
+    limit?: number;
+    offset?: number;
+  }): Promise<Mineral[]> {
+    const conditions: SQL[] = [];
+
+    if (params.name) {
+      conditions.push(ilike(minerals.name, `%${params.name}%`));
+    }
+
+    if (params.formula) {
+      const formulaPattern = `%${params.formula}%`;
+      conditions.push(
+        or(
+          ilike(minerals.formula, formulaPattern),
+          ilike(minerals.imaFormula, formulaPattern)
+        )!
+      );
+    }
+
+    if (params.elements && params.elements.length > 0) {
+      conditions.push(arrayOverlaps(minerals.elements, params.elements));
+    }
+
+    if (params.crystalSystem) {
+      conditions.push(eq(minerals.crystalSystem, params.crystalSystem));
+    }
+
+    return db.select()
+      .from(minerals)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(minerals.id)
+      .limit(params.limit || 20)
+      .offset(params.offset || 0);
+  }
+
+  async getMineralById(id: number): Promise<Mineral | undefined> {
+    const [mineral] = await db.select().from(minerals).where(eq(minerals.id, id)).limit(1);
+    return mineral;
+  }
+
+  async getMineralByMindatId(mindatId: number): Promise<Mineral | undefined> {
+    const [mineral] = await db.select()
+      .from(minerals)
+      .where(eq(minerals.mindatId, mindatId))
+      .limit(1);
+    return mineral;
+  }
+
+  async createMineral(insertMineral: InsertMineral): Promise<Mineral> {
+    const [mineral] = await db.insert(minerals).values(insertMineral).returning();
+    return mineral;
+  }
+
+  async updateMineral(
+    id: number,
+    updates: Partial<InsertMineral>
+  ): Promise<Mineral | undefined> {
+    const [mineral] = await db.update(minerals)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(minerals.id, id))
+      .returning();
+    return mineral;
+  }
+
+  async searchLocalities(params: {
+    name?: string;
+    country?: string;
+    limit?: number;
+    offset?: number;
+  }): Promise<Locality[]> {
+    const conditions: SQL[] = [];
+
+    if (params.name) {
+      conditions.push(ilike(localities.name, `%${params.name}%`));
+    }
+
+    if (params.country) {
+      conditions.push(sql`lower(${localities.country}) = ${params.country.toLowerCase()}`);
+    }
+
+    return db.select()
+      .from(localities)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(localities.id)
+      .limit(params.limit || 20)
+      .offset(params.offset || 0);
+  }
+
+  async getLocalityById(id: number): Promise<Locality | undefined> {
+    const [locality] = await db.select().from(localities).where(eq(localities.id, id)).limit(1);
+    return locality;
+  }
+
+  async createLocality(insertLocality: InsertLocality): Promise<Locality> {
+    const [locality] = await db.insert(localities).values(insertLocality).returning();
+    return locality;
+  }
+
+  async getStrunzClassifications(): Promise<StrunzClassification[]> {
+    return db.select()
+      .from(strunzClassifications)
+      .orderBy(strunzClassifications.id);
+  }
+
+  async getStrunzClassificationByCode(
+    code: string
+  ): Promise<StrunzClassification | undefined> {
+    const [classification] = await db.select()
+      .from(strunzClassifications)
+      .where(eq(strunzClassifications.classCode, code))
+      .limit(1);
+    return classification;
+  }
+
+  async createStrunzClassification(
+    insertClassification: InsertStrunzClassification
+  ): Promise<StrunzClassification> {
+    const [classification] = await db.insert(strunzClassifications)
+      .values(insertClassification)
+      .returning();
+    return classification;
+  }
+
+  async createSyncJob(insertJob: InsertSyncJob): Promise<SyncJob> {
+    const [job] = await db.insert(syncJobs).values(insertJob).returning();
+    return job;
+  }
+
+  async updateSyncJob(
+    id: number,
+    updates: Partial<InsertSyncJob>
+  ): Promise<SyncJob | undefined> {
+    const [job] = await db.update(syncJobs)
+      .set(updates)
+      .where(eq(syncJobs.id, id))
+      .returning();
+    return job;
+  }
+
+  async getSyncJob(id: number): Promise<SyncJob | undefined> {
+    const [job] = await db.select().from(syncJobs).where(eq(syncJobs.id, id)).limit(1);
+    return job;
+  }
+
+  async getRecentSyncJobs(limit: number, filters: SyncJobFilters = {}): Promise<SyncJob[]> {
+    const conditions: SQL[] = [];
+    if (filters.status) conditions.push(eq(syncJobs.status, filters.status));
+    if (filters.jobType) conditions.push(eq(syncJobs.jobType, filters.jobType));
+    if (filters.scheduleId !== undefined) conditions.push(eq(syncJobs.scheduleId, filters.scheduleId));
+
+    return db.select()
+      .from(syncJobs)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(syncJobs.createdAt), desc(syncJobs.id))
+      .limit(limit);
+  }
+
+  async createRruffMineral(insertMineral: InsertRruffMineral): Promise<RruffMineral> {
+    const [mineral] = await db.insert(rruffMinerals).values(insertMineral).returning();
+    return mineral;
+  }
+
   async searchRruffMinerals(
     searchTerm: string, 
     options?: { page?: number; pageSize?: number }
@@ -412,6 +917,106 @@ export class MemStorage implements IStorage {
       count: Number(countResult[0]?.count || 0),
     };
   }
+
+  async createMindatMineral(insertMineral: InsertMindatMineral): Promise<MindatMineral> {
+    const [mineral] = await db.insert(mindatMinerals).values(insertMineral).returning();
+    return mineral;
+  }
+
+  async searchMindatMinerals(
+    params: MindatMineralSearchParams
+  ): Promise<{ results: MindatMineral[]; count: number }> {
+    const page = params.page || 1;
+    const pageSize = params.pageSize || 20;
+    const offset = (page - 1) * pageSize;
+
+    const conditions: SQL[] = [];
+
+    if (params.name) {
+      conditions.push(ilike(mindatMinerals.name, `%${escapeLike(params.name)}%`));
+    }
+
+    if (params.formula) {
+      const formulaPattern = `%${escapeLike(params.formula)}%`;
+      conditions.push(
+        or(
+          ilike(mindatMinerals.mindatFormula, formulaPattern),
+          ilike(mindatMinerals.imaFormula, formulaPattern)
+        )!
+      );
+    }
+
+    if (params.elements && params.elements.length > 0) {
+      conditions.push(arrayContains(mindatMinerals.elements, params.elements));
+    }
+
+    if (params.crystalSystem) {
+      conditions.push(ilike(mindatMinerals.crystalSystem, escapeLike(params.crystalSystem)));
+    }
+
+    if (params.imaStatus) {
+      conditions.push(ilike(mindatMinerals.imaStatus, `%${escapeLike(params.imaStatus)}%`));
+    }
+
+    if (params.entryType !== undefined) {
+      conditions.push(eq(mindatMinerals.entryType, params.entryType));
+    }
+
+    if (params.chemistry) {
+      conditions.push(...chemistryConditions(params.chemistry));
+    }
+
+    if (params.opticalType) {
+      conditions.push(ilike(mindatMinerals.opticalType, `%${escapeLike(params.opticalType)}%`));
+    }
+
+    for (const range of params.ranges || []) {
+      conditions.push(propertyRangeCondition(range, !!params.includeUnknown));
+    }
+
+    const where = conditions.length > 0 ? and(...conditions) : undefined;
+    const exactNameFirst = params.name
+      ? sql`(lower(${mindatMinerals.name}) = ${params.name.toLowerCase()}) desc`
+      : sql`true`;
+    const propertyOrder = params.sort
+      ? sql`${propertySpanSql(requireNumericProperty(params.sort.property)).low} ${params.sort.direction === 'desc' ? sql`desc` : sql`asc`} nulls last`
+      : sql`true`;
+
+    const [results, countResult] = await Promise.all([
+      db.select()
+        .from(mindatMinerals)
+        .where(where)
+        .orderBy(exactNameFirst, propertyOrder, mindatMinerals.name)
+        .limit(pageSize)
+        .offset(offset),
+
+      db.select({ count: sql<number>`count(*)` })
+        .from(mindatMinerals)
+        .where(where),
+    ]);
+
+    return {
+      results,
+      count: Number(countResult[0]?.count || 0),
+    };
+  }
+}
+
+/**
+ * Storage backend is chosen by STORAGE_DRIVER: "database" (default) persists
+ * through Drizzle, "memory" keeps everything in process for tests and demos.
+ */
+function createStorage(): IStorage {
+  const driver = (process.env.STORAGE_DRIVER || 'database').toLowerCase();
+
+  switch (driver) {
+    case 'database':
+      return new DatabaseStorage();
+    case 'memory':
+      return new MemStorage();
+    default:
+      throw new Error(`Unknown STORAGE_DRIVER "${driver}" (expected "database" or "memory")`);
+  }
 }
 
-export const storage = new MemStorage();
+export const storage = createStorage();
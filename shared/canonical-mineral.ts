@@ -0,0 +1,60 @@
+/**
+ * The merged ("golden") record for one mineral, as returned by
+ * GET /api/minerals/:id/canonical. Each field comes from the highest
+ * priority source that has it, unless a reviewer settled a conflict on it.
+ */
+
+export const CANONICAL_FIELDS = [
+  'name',
+  'formula',
+  'imaSymbol',
+  'imaStatus',
+  'year',
+  'crystalSystem',
+  'spaceGroup',
+  'strunz',
+  'elements',
+  'hardnessMin',
+  'hardnessMax',
+  'specificGravityMin',
+  'specificGravityMax',
+  'colour',
+  'lustre',
+  'streak',
+  'diaphaneity',
+  'cleavage',
+  'fracture',
+  'tenacity',
+  'description',
+] as const;
+
+export type CanonicalField = typeof CANONICAL_FIELDS[number];
+
+export type CanonicalValue = string | number | string[];
+
+export type CanonicalValues = Partial<Record<CanonicalField, CanonicalValue>>;
+
+export interface FieldProvenance {
+  source: string; // data_sources name, or 'review'
+  priority: number | null;
+  conflictId?: number; // The reviewed data_conflicts row the value came from
+  inheritedFrom?: number; // Parent species' Mindat ID, for a variety without its own value
+  // What lower-ranked sources say, where it differs
+  alternatives: { source: string; value: CanonicalValue }[];
+}
+
+export interface CanonicalSource {
+  name: string;
+  priority: number;
+  recordId: string; // Mindat ID, IMA symbol or e-Rocks Nid
+}
+
+export interface CanonicalMineral {
+  mindatId: number;
+  varietyOf: number | null;
+  synonymOf: number | null;
+  sources: CanonicalSource[]; // Highest priority first
+  values: CanonicalValues;
+  provenance: Partial<Record<CanonicalField, FieldProvenance>>;
+  pendingConflicts: number;
+}
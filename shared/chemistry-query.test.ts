@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { ChemistryQueryError, matchesChemistryQuery, parseChemistryQuery } from './chemistry-query';
+
+describe('parseChemistryQuery', () => {
+  it('reads required, excluded and only() elements', () => {
+    expect(parseChemistryQuery('+Cu +S -Fe only(Cu,S,O,H)')).toEqual({
+      include: ['Cu', 'S'],
+      exclude: ['Fe'],
+      only: ['Cu', 'S', 'O', 'H'],
+    });
+  });
+
+  it('treats bare symbols and dash chains as required', () => {
+    expect(parseChemistryQuery('Cu-As-O pb').include).toEqual(['Cu', 'As', 'O', 'Pb']);
+    expect(parseChemistryQuery('+ree').include).toEqual(['REE']);
+  });
+
+  it('intersects repeated only() groups and drops excluded elements from them', () => {
+    expect(parseChemistryQuery('only(Cu, S, O) only(S O H)').only).toEqual(['S', 'O']);
+    expect(parseChemistryQuery('only(Cu,S,O) -O').only).toEqual(['Cu', 'S']);
+  });
+
+  it.each([
+    ['', 'Chemistry query is empty'],
+    ['+Xx', 'Unknown element "Xx"'],
+    ['only()', 'only() needs at least one element'],
+    ['only(Cu,S', 'Unbalanced parentheses in chemistry query'],
+    ['+Cu -Cu', 'Elements both required and excluded: Cu'],
+    ['+Fe only(Cu,S)', 'Required elements missing from only(): Fe'],
+  ])('rejects %j', (input, message) => {
+    expect(() => parseChemistryQuery(input)).toThrow(new ChemistryQueryError(message));
+  });
+});
+
+describe('matchesChemistryQuery', () => {
+  it('requires every included element and none of the excluded', () => {
+    const query = parseChemistryQuery('+Cu -Fe');
+
+    expect(matchesChemistryQuery(['Cu', 'S'], query)).toBe(true);
+    expect(matchesChemistryQuery(['Cu', 'Fe', 'S'], query)).toBe(false);
+    expect(matchesChemistryQuery(['Pb', 'S'], query)).toBe(false);
+  });
+
+  it('limits the mineral to the only() set and never matches an unknown composition', () => {
+    const query = parseChemistryQuery('only(Cu,S,O,H)');
+
+    expect(matchesChemistryQuery(['Cu', 'S'], query)).toBe(true);
+    expect(matchesChemistryQuery(['Cu', 'S', 'Fe'], query)).toBe(false);
+    expect(matchesChemistryQuery([], query)).toBe(false);
+  });
+});
@@ -0,0 +1,118 @@
+/**
+ * Element-based chemistry query language for mineral search.
+ *
+ *   +Cu        must contain copper (a bare "Cu" means the same)
+ *   -Fe        must not contain iron
+ *   Cu-As-O    shorthand for +Cu +As +O
+ *   only(Cu,S,O,H)  every element of the mineral is in this set
+ *
+ * Example: "+Cu +S -Fe only(Cu,S,O,H)"
+ */
+
+export interface ChemistryQuery {
+  include: string[];
+  exclude: string[];
+  only: string[] | null;
+}
+
+export class ChemistryQueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ChemistryQueryError';
+  }
+}
+
+export const ELEMENT_SYMBOLS = [
+  'H', 'He', 'Li', 'Be', 'B', 'C', 'N', 'O', 'F', 'Ne', 'Na', 'Mg', 'Al', 'Si', 'P', 'S', 'Cl', 'Ar',
+  'K', 'Ca', 'Sc', 'Ti', 'V', 'Cr', 'Mn', 'Fe', 'Co', 'Ni', 'Cu', 'Zn', 'Ga', 'Ge', 'As', 'Se', 'Br', 'Kr',
+  'Rb', 'Sr', 'Y', 'Zr', 'Nb', 'Mo', 'Tc', 'Ru', 'Rh', 'Pd', 'Ag', 'Cd', 'In', 'Sn', 'Sb', 'Te', 'I', 'Xe',
+  'Cs', 'Ba', 'La', 'Ce', 'Pr', 'Nd', 'Pm', 'Sm', 'Eu', 'Gd', 'Tb', 'Dy', 'Ho', 'Er', 'Tm', 'Yb', 'Lu',
+  'Hf', 'Ta', 'W', 'Re', 'Os', 'Ir', 'Pt', 'Au', 'Hg', 'Tl', 'Pb', 'Bi', 'Po', 'At', 'Rn',
+  'Fr', 'Ra', 'Ac', 'Th', 'Pa', 'U', 'Np', 'Pu', 'Am', 'Cm', 'Bk', 'Cf', 'Es', 'Fm', 'Md', 'No', 'Lr',
+  'Rf', 'Db', 'Sg', 'Bh', 'Hs', 'Mt', 'Ds', 'Rg', 'Cn', 'Nh', 'Fl', 'Mc', 'Lv', 'Ts', 'Og',
+  // Mindat uses REE for the rare-earth group
+  'REE',
+];
+
+const SYMBOL_LOOKUP = new Map(ELEMENT_SYMBOLS.map(symbol => [symbol.toLowerCase(), symbol]));
+
+function toSymbol(token: string): string {
+  const symbol = SYMBOL_LOOKUP.get(token.trim().toLowerCase());
+  if (!symbol) {
+    throw new ChemistryQueryError(`Unknown element "${token.trim()}"`);
+  }
+  return symbol;
+}
+
+export function parseChemistryQuery(input: string): ChemistryQuery {
+  const include = new Set<string>();
+  const exclude = new Set<string>();
+  let only: Set<string> | null = null;
+
+  // Pull out only(...) groups first; their contents may contain commas
+  const remainder = input.replace(/only\s*\(([^)]*)\)/gi, (_, list: string) => {
+    const symbols = list.split(/[\s,]+/).filter(Boolean).map(toSymbol);
+    if (symbols.length === 0) {
+      throw new ChemistryQueryError('only() needs at least one element');
+    }
+    only = only
+      ? new Set(symbols.filter(symbol => only!.has(symbol)))
+      : new Set(symbols);
+    return ' ';
+  });
+
+  if (/only\s*\(|[()]/i.test(remainder)) {
+    throw new ChemistryQueryError('Unbalanced parentheses in chemistry query');
+  }
+
+  for (const token of remainder.split(/[\s,]+/).filter(Boolean)) {
+    if (token.startsWith('-')) {
+      exclude.add(toSymbol(token.slice(1)));
+    } else {
+      const body = token.startsWith('+') ? token.slice(1) : token;
+      for (const part of body.split('-').filter(Boolean)) {
+        include.add(toSymbol(part));
+      }
+    }
+  }
+
+  const conflicting = Array.from(include).filter(symbol => exclude.has(symbol));
+  if (conflicting.length > 0) {
+    throw new ChemistryQueryError(`Elements both required and excluded: ${conflicting.join(', ')}`);
+  }
+
+  const onlySet = only as Set<string> | null;
+  if (onlySet) {
+    const outside = Array.from(include).filter(symbol => !onlySet.has(symbol));
+    if (outside.length > 0) {
+      throw new ChemistryQueryError(`Required elements missing from only(): ${outside.join(', ')}`);
+    }
+  }
+
+  if (include.size === 0 && exclude.size === 0 && !onlySet) {
+    throw new ChemistryQueryError('Chemistry query is empty');
+  }
+
+  return {
+    include: Array.from(include),
+    exclude: Array.from(exclude),
+    only: onlySet ? Array.from(onlySet).filter(symbol => !exclude.has(symbol)) : null,
+  };
+}
+
+/**
+ * Apply a parsed query to a mineral's element set, i.e. the union of
+ * elements, key_elements and elements_inc minus anything in elements_exc.
+ */
+export function matchesChemistryQuery(elements: string[], query: ChemistryQuery): boolean {
+  const present = new Set(elements);
+
+  if (!query.include.every(symbol => present.has(symbol))) return false;
+  if (query.exclude.some(symbol => present.has(symbol))) return false;
+  if (query.only) {
+    const allowed = new Set(query.only);
+    if (present.size === 0 || !elements.every(symbol => allowed.has(symbol))) return false;
+  }
+
+  return true;
+}
@@ -0,0 +1,25 @@
+/**
+ * Change history for Mindat records, as returned by
+ * GET /api/mindat/minerals/:id/history and GET /api/mindat/changes.
+ */
+
+// Values are stored as JSON; dates arrive as ISO strings
+export interface FieldChange {
+  field: string;
+  oldValue: unknown;
+  newValue: unknown;
+}
+
+// Everything one sync changed on one mineral
+export interface MineralHistoryEntry {
+  mindatId: number;
+  name: string | null;
+  changeType: string; // modified, deleted, merged
+  detectedAt: string;
+  updtTime: string | null;
+  jobId: number | null;
+  jobType: string | null;
+  mergedIntoId: number | null;
+  notes: string | null;
+  fields: FieldChange[];
+}
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { getNumericProperty, NUMERIC_PROPERTIES, NUMERIC_PROPERTY_KEYS, parseRangeValue, propertySpan } from './mineral-properties';
+
+describe('NUMERIC_PROPERTIES', () => {
+  it('has unique keys that getNumericProperty finds', () => {
+    expect(NUMERIC_PROPERTY_KEYS.size).toBe(NUMERIC_PROPERTIES.length);
+    expect(getNumericProperty('hardness')).toMatchObject({ min: 'hardnessMin', max: 'hardnessMax' });
+    expect(getNumericProperty('lustre')).toBeUndefined();
+  });
+});
+
+describe('parseRangeValue', () => {
+  it.each([
+    ['6..7', { min: 6, max: 7 }],
+    ['6..', { min: 6, max: undefined }],
+    ['..7.5', { min: undefined, max: 7.5 }],
+    ['2.65', { min: 2.65, max: 2.65 }],
+    [' 3 .. ', { min: 3, max: undefined }],
+  ])('parses %j', (value, range) => {
+    expect(parseRangeValue(value)).toEqual(range);
+  });
+
+  it.each(['', '..', 'hard', 'a..b', '6..abc', '12abc', '6.5-7', ' 3 .. x'])('returns null for %j', (value) => {
+    expect(parseRangeValue(value)).toBeNull();
+  });
+});
+
+describe('propertySpan', () => {
+  const hardness = getNumericProperty('hardness')!;
+  const densityCalc = getNumericProperty('density_calc')!;
+
+  it('reads both ends of a ranged property', () => {
+    expect(propertySpan({ hardnessMin: 6, hardnessMax: 7 }, hardness)).toEqual([6, 7]);
+  });
+
+  it('falls back to whichever end is recorded', () => {
+    expect(propertySpan({ hardnessMin: 6, hardnessMax: null }, hardness)).toEqual([6, 6]);
+    expect(propertySpan({ hardnessMax: 3 }, hardness)).toEqual([3, 3]);
+  });
+
+  it('uses the single column for unranged properties', () => {
+    expect(propertySpan({ densityCalc: 4.1 }, densityCalc)).toEqual([4.1, 4.1]);
+  });
+
+  it('returns null when nothing is recorded', () => {
+    expect(propertySpan({}, hardness)).toBeNull();
+    expect(propertySpan({ densityCalc: null }, densityCalc)).toBeNull();
+  });
+});
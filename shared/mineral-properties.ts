@@ -0,0 +1,92 @@
+import type { MindatMineral } from "./schema";
+
+type NumericMineralField = {
+  [K in keyof MindatMineral]: MindatMineral[K] extends number | null ? K : never;
+}[keyof MindatMineral];
+
+/**
+ * A filterable numeric property of mindat_minerals. Properties recorded as a
+ * range (hardness 6-7) name both ends; a missing end falls back to the other.
+ */
+export interface NumericPropertySpec {
+  key: string;
+  label: string;
+  min: NumericMineralField;
+  max?: NumericMineralField;
+}
+
+export const NUMERIC_PROPERTIES: NumericPropertySpec[] = [
+  { key: 'hardness', label: 'Hardness (Mohs)', min: 'hardnessMin', max: 'hardnessMax' },
+  { key: 'density_meas', label: 'Density, measured (g/cm³)', min: 'densityMeas', max: 'densityMeas2' },
+  { key: 'specific_gravity', label: 'Specific gravity', min: 'specificGravityMin', max: 'specificGravityMax' },
+  { key: 'density_calc', label: 'Density, calculated (g/cm³)', min: 'densityCalc' },
+  { key: 'ri', label: 'Refractive index', min: 'riMin', max: 'riMax' },
+  { key: 'optical_alpha', label: 'nα', min: 'opticalAlpha', max: 'opticalAlpha2' },
+  { key: 'optical_beta', label: 'nβ', min: 'opticalBeta', max: 'opticalBeta2' },
+  { key: 'optical_gamma', label: 'nγ', min: 'opticalGamma', max: 'opticalGamma2' },
+  { key: 'optical_omega', label: 'nω', min: 'opticalOmega', max: 'opticalOmega2' },
+  { key: 'optical_epsilon', label: 'nε', min: 'opticalEpsilon', max: 'opticalEpsilon2' },
+  { key: 'optical_n', label: 'n (isotropic)', min: 'opticalN', max: 'opticalN2' },
+  { key: 'optical_2v', label: '2V measured (°)', min: 'optical2vMeasured', max: 'optical2vMeasured2' },
+  { key: 'unit_cell_a', label: 'Unit cell a (Å)', min: 'unitCellA' },
+  { key: 'unit_cell_b', label: 'Unit cell b (Å)', min: 'unitCellB' },
+  { key: 'unit_cell_c', label: 'Unit cell c (Å)', min: 'unitCellC' },
+  { key: 'unit_cell_alpha', label: 'Unit cell α (°)', min: 'unitCellAlpha' },
+  { key: 'unit_cell_beta', label: 'Unit cell β (°)', min: 'unitCellBeta' },
+  { key: 'unit_cell_gamma', label: 'Unit cell γ (°)', min: 'unitCellGamma' },
+  { key: 'unit_cell_volume', label: 'Unit cell volume (Å³)', min: 'unitCellVolume' },
+  { key: 'z', label: 'Z', min: 'zValue' },
+];
+
+export const NUMERIC_PROPERTY_KEYS = new Set(NUMERIC_PROPERTIES.map(spec => spec.key));
+
+export function getNumericProperty(key: string): NumericPropertySpec | undefined {
+  return NUMERIC_PROPERTIES.find(spec => spec.key === key);
+}
+
+export interface PropertyRange {
+  property: string;
+  min?: number;
+  max?: number;
+}
+
+export interface PropertySort {
+  property: string;
+  direction: 'asc' | 'desc';
+}
+
+// undefined for an open end, null for one that isn't a number
+function rangeBound(raw: string): number | undefined | null {
+  if (raw.trim() === '') return undefined;
+  const bound = Number(raw);
+  return Number.isFinite(bound) ? bound : null;
+}
+
+/**
+ * Parse a range query value: "6..7", "6..", "..7" or a single value "6".
+ * Returns null when either end is given but isn't a number, or both are open.
+ */
+export function parseRangeValue(value: string): { min?: number; max?: number } | null {
+  const [rawMin, rawMax] = value.includes('..') ? value.split('..', 2) : [value, value];
+  const min = rangeBound(rawMin);
+  const max = rangeBound(rawMax);
+
+  if (min === null || max === null || (min === undefined && max === undefined)) return null;
+  return { min, max };
+}
+
+/**
+ * The [low, high] span a mineral records for a property, or null if unknown.
+ * Accepts partial rows so callers can select only the columns they need.
+ */
+export function propertySpan(
+  mineral: Partial<Pick<MindatMineral, NumericMineralField>>,
+  spec: NumericPropertySpec
+): [number, number] | null {
+  const min = mineral[spec.min] ?? null;
+  const max = spec.max ? mineral[spec.max] ?? null : min;
+  const low = min ?? max;
+  const high = max ?? min;
+
+  return low === null || high === null ? null : [low, high];
+}
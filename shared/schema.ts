@@ -1,4 +1,5 @@
-import { pgTable, text, serial, integer, jsonb, timestamp, varchar, boolean, real, index } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, jsonb, timestamp, varchar, boolean, real, index, uniqueIndex, primaryKey, type PgColumn } from "drizzle-orm/pg-core";
+import { sql, type SQL } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -24,8 +25,24 @@ export const mineralNameIndex = pgTable("mineral_name_index", {
   updatedAt: timestamp("updated_at").defaultNow(),
 }, (table) => ({
   canonicalNameIdx: index("mineral_name_canonical_idx").on(table.canonicalName),
+  // mineral_aliases_text() is created by scripts/setup-search-indexes.ts
+  aliasesTrgmIdx: index("mineral_name_aliases_trgm_idx").using("gin", sql`mineral_aliases_text(${table.aliases}) gin_trgm_ops`),
 }));
 
+/**
+ * Weighted full-text document for a mindat_minerals row (name > etymology >
+ * short description > occurrence). The GIN index and ranked search must build
+ * the vector from this same expression for Postgres to use the index.
+ */
+export function mindatSearchDocument(columns: {
+  name: PgColumn;
+  aboutName: PgColumn;
+  descriptionShort: PgColumn;
+  occurrence: PgColumn;
+}): SQL {
+  return sql`(setweight(to_tsvector('english'::regconfig, coalesce(${columns.name}, '')), 'A') || setweight(to_tsvector('english'::regconfig, coalesce(${columns.aboutName}, '')), 'B') || setweight(to_tsvector('english'::regconfig, coalesce(${columns.descriptionShort}, '')), 'C') || setweight(to_tsvector('english'::regconfig, coalesce(${columns.occurrence}, '')), 'D'))`;
+}
+
 export const dataSources = pgTable("data_sources", {
   id: serial("id").primaryKey(),
   name: text("name").notNull().unique(),
@@ -260,6 +277,8 @@ export const mindatMinerals = pgTable("mindat_minerals", {
   imaStatusIdx: index("mindat_mineral_ima_status_idx").on(table.imaStatus),
   crystalSystemIdx: index("mindat_mineral_crystal_system_idx").on(table.crystalSystem),
   updtTimeIdx: index("mindat_mineral_updt_time_idx").on(table.updtTime),
+  nameTrgmIdx: index("mindat_mineral_name_trgm_idx").using("gin", table.name.op("gin_trgm_ops")),
+  searchDocumentIdx: index("mindat_mineral_search_document_idx").using("gin", mindatSearchDocument(table)),
 }));
 
 export const rruffMinerals = pgTable("rruff_minerals", {
@@ -274,8 +293,15 @@ export const rruffMinerals = pgTable("rruff_minerals", {
   crystalSystems: text("crystal_systems"),
   valenceElements: text("valence_elements"),
   imaSymbol: text("ima_symbol").notNull().unique(),
+  // Set by server/services/rruff-mindat-linker.ts. enrichmentStatus is
+  // not_enriched until the linking job has seen the row, then linked,
+  // ambiguous (matchCandidates lists the Mindat records it could be) or
+  // unmatched. match_method 'manual' marks a reviewer's choice.
   mindatId: integer("mindat_id"),
   enrichmentStatus: varchar("enrichment_status", { length: 20 }).default('not_enriched'),
+  matchMethod: varchar("match_method", { length: 20 }),
+  matchConfidence: real("match_confidence"),
+  matchCandidates: jsonb("match_candidates"),
   enrichedAt: timestamp("enriched_at"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
@@ -315,8 +341,15 @@ export const ionicChemistry = pgTable("ionic_chemistry", {
   dataSourceIdx: index("ionic_chem_data_source_idx").on(table.dataSourceId),
 }));
 
+// Written by server/services/reconciliation-service.ts: one row per mineral,
+// field and pair of sources that disagree, source A being the one with the
+// higher priority. status is pending until resolved; low and medium severity
+// conflicts between sources of different priority are auto_resolved to
+// source A's value, and reviewers mark the rest accepted, overridden or
+// ignored. resolution holds the value that was chosen.
 export const dataConflicts = pgTable("data_conflicts", {
   id: serial("id").primaryKey(),
+  mindatId: integer("mindat_id"),
   mineralName: text("mineral_name").notNull(),
   fieldName: text("field_name").notNull(),
   sourceAId: integer("source_a_id").references(() => dataSources.id),
@@ -333,20 +366,107 @@ export const dataConflicts = pgTable("data_conflicts", {
   statusIdx: index("data_conflict_status_idx").on(table.status),
   severityIdx: index("data_conflict_severity_idx").on(table.severity),
   unresolvedIdx: index("data_conflict_unresolved_idx").on(table.status, table.severity),
+  pairIdx: uniqueIndex("data_conflict_pair_idx").on(table.mindatId, table.fieldName, table.sourceAId, table.sourceBId),
 }));
 
+// A sync that updates a mineral writes one 'modified' row per changed field
+// (field_name, old_value, new_value), all sharing the same detected_at. A
+// vanished ID gets one 'deleted' row, which becomes 'merged' once the
+// surviving record is found (see server/services/mindat-merge-resolver.ts).
 export const mineralChanges = pgTable("mineral_changes", {
   id: serial("id").primaryKey(),
   mindatId: integer("mindat_id").notNull(),
   changeType: varchar("change_type", { length: 20 }).notNull(), // deleted, merged, modified
   mergedIntoId: integer("merged_into_id"),
+  resolvedBy: varchar("resolved_by", { length: 20 }), // redirect, synonym, ima_history, name_match
+  fieldName: varchar("field_name", { length: 100 }), // mindat_minerals property, e.g. imaFormula
+  oldValue: jsonb("old_value"),
+  newValue: jsonb("new_value"),
+  updtTime: timestamp("updt_time"), // Mindat's edit time for the new values
+  jobId: integer("job_id").references(() => syncJobs.id, { onDelete: 'set null' }),
   notes: text("notes"),
   detectedAt: timestamp("detected_at").notNull().defaultNow(),
 }, (table) => ({
   mindatIdIdx: index("mineral_changes_mindat_id_idx").on(table.mindatId),
   changeTypeIdx: index("mineral_changes_type_idx").on(table.changeType),
+  detectedAtIdx: index("mineral_changes_detected_at_idx").on(table.detectedAt),
+}));
+
+// One run of the e-Rocks enrichment (npm run enrich-erocks). input_hash is
+// the SHA-256 of the export, so runs over the same file can be told apart
+// from runs over a newer one.
+export const erocksEnrichmentRuns = pgTable("erocks_enrichment_runs", {
+  id: serial("id").primaryKey(),
+  inputFile: text("input_file").notNull(),
+  inputHash: varchar("input_hash", { length: 64 }).notNull(),
+  outputDir: text("output_dir"),
+  status: varchar("status", { length: 20 }).notNull().default('running'), // running, completed, failed
+  totalRecords: integer("total_records").notNull().default(0),
+  mineralRecords: integer("mineral_records").notNull().default(0),
+  skippedRecords: integer("skipped_records").notNull().default(0),
+  matchedRecords: integer("matched_records").notNull().default(0),
+  needsReviewCount: integer("needs_review_count").notNull().default(0),
+  stats: jsonb("stats"), // generateMatchReport's counts
+  error: text("error"),
+  startedAt: timestamp("started_at").notNull().defaultNow(),
+  completedAt: timestamp("completed_at"),
+}, (table) => ({
+  inputHashIdx: index("erocks_runs_input_hash_idx").on(table.inputHash),
+  startedAtIdx: index("erocks_runs_started_at_idx").on(table.startedAt),
 }));
 
+// One row per e-Rocks record in a run. Records the run skipped as
+// non-minerals are kept with match_type 'skipped' so every output file can
+// be rebuilt from the table. review_status is pending for matches flagged
+// needs_review and null otherwise; a reviewer sets approved or rejected, or
+// corrected with the right ID in reviewed_mindat_id.
+export const erocksMatchResults = pgTable("erocks_match_results", {
+  id: serial("id").primaryKey(),
+  runId: integer("run_id").notNull().references(() => erocksEnrichmentRuns.id, { onDelete: 'cascade' }),
+  nid: text("nid"),
+  title: text("title"),
+  erocksRecord: jsonb("erocks_record").notNull(), // The input row as read
+  mindatId: integer("mindat_id"),
+  matchType: varchar("match_type", { length: 20 }).notNull(), // exact_id, exact_name, fuzzy_name, formula, no_match, skipped
+  confidence: integer("confidence").notNull().default(0), // 0-100
+  notes: text("notes").array(),
+  conflicts: text("conflicts").array(),
+  needsReview: boolean("needs_review").notNull().default(false),
+  isVariety: boolean("is_variety").notNull().default(false),
+  isSynonym: boolean("is_synonym").notNull().default(false),
+  parentMineral: text("parent_mineral"),
+  alternatives: jsonb("alternatives"), // Other Mindat records the matching strategy found: [{ mindatId, name, formula }]
+  reviewStatus: varchar("review_status", { length: 20 }),
+  reviewedMindatId: integer("reviewed_mindat_id"),
+  reviewNote: text("review_note"),
+  reviewedAt: timestamp("reviewed_at"),
+  overrideId: integer("override_id"), // The erocks_overrides row that decided the match, if any
+}, (table) => ({
+  runIdx: index("erocks_match_run_idx").on(table.runId),
+  runNidIdx: index("erocks_match_run_nid_idx").on(table.runId, table.nid),
+  reviewIdx: index("erocks_match_review_idx").on(table.runId, table.reviewStatus),
+  mindatIdIdx: index("erocks_match_mindat_id_idx").on(table.mindatId),
+}));
+
+// Manual decisions keyed by e-Rocks Nid, applied before any matching
+// strategy: skip leaves the record out, match pins it to mindat_id and
+// no_match sends it to the exceptions file. source is file for entries
+// imported from config/erocks-exceptions.json, api, or review when promoted
+// from a workbench decision. Expired overrides are ignored.
+export const erocksOverrides = pgTable("erocks_overrides", {
+  id: serial("id").primaryKey(),
+  nid: text("nid").notNull().unique(),
+  action: varchar("action", { length: 20 }).notNull(), // skip, match, no_match
+  mindatId: integer("mindat_id"),
+  reason: text("reason").notNull(),
+  author: varchar("author", { length: 100 }).notNull(),
+  source: varchar("source", { length: 20 }).notNull().default('api'),
+  matchResultId: integer("match_result_id").references(() => erocksMatchResults.id, { onDelete: 'set null' }),
+  expiresAt: timestamp("expires_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
 export const minerals = pgTable("minerals", {
   id: serial("id").primaryKey(),
   mindatId: integer("mindat_id").unique(),
@@ -412,18 +532,94 @@ export const localities = pgTable("localities", {
   mindatIdIdx: index("locality_mindat_id_idx").on(table.mindatId),
 }));
 
+// Cron schedules that enqueue jobs (see server/cron/sync-scheduler.ts)
+export const syncSchedules = pgTable("sync_schedules", {
+  id: serial("id").primaryKey(),
+  name: varchar("name", { length: 100 }).notNull().unique(),
+  description: text("description"),
+  jobType: varchar("job_type", { length: 50 }).notNull(),
+  cronExpression: varchar("cron_expression", { length: 100 }).notNull(),
+  params: jsonb("params").notNull().default({}),
+  enabled: boolean("enabled").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Durable job queue (see server/services/job-runner.ts). status moves
+// pending -> running -> completed | failed | cancelled; running jobs found at
+// startup are put back to pending and resume from `checkpoint`. Scheduled
+// runs that fire while the previous run is unfinished are recorded as skipped.
 export const syncJobs = pgTable("sync_jobs", {
   id: serial("id").primaryKey(),
   jobType: varchar("job_type", { length: 50 }).notNull(),
   status: varchar("status", { length: 20 }).notNull().default('pending'),
+  scheduleId: integer("schedule_id").references(() => syncSchedules.id, { onDelete: 'set null' }),
+  params: jsonb("params"),
+  checkpoint: jsonb("checkpoint"),
+  result: jsonb("result"),
   recordsProcessed: integer("records_processed").default(0),
   recordsFailed: integer("records_failed").default(0),
+  recordsTotal: integer("records_total"),
+  cancelRequested: boolean("cancel_requested").notNull().default(false),
   errorMessage: text("error_message"),
   startedAt: timestamp("started_at"),
+  // Start of the current attempt, and records done before it, for the ETA
+  runStartedAt: timestamp("run_started_at"),
+  runStartRecords: integer("run_start_records").default(0),
+  heartbeatAt: timestamp("heartbeat_at"),
   completedAt: timestamp("completed_at"),
   createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  statusTypeIdx: index("sync_jobs_status_type_idx").on(table.status, table.jobType),
+  scheduleIdx: index("sync_jobs_schedule_idx").on(table.scheduleId, table.id),
+}));
+
+export const syncJobLogs = pgTable("sync_job_logs", {
+  id: serial("id").primaryKey(),
+  jobId: integer("job_id").references(() => syncJobs.id, { onDelete: 'cascade' }).notNull(),
+  level: varchar("level", { length: 10 }).notNull().default('info'),
+  message: text("message").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  jobIdx: index("sync_job_logs_job_idx").on(table.jobId, table.id),
+}));
+
+// Conditional-request cache for Mindat API responses, keyed by request URL
+export const mindatApiCache = pgTable("mindat_api_cache", {
+  url: text("url").primaryKey(),
+  etag: text("etag"),
+  lastModified: text("last_modified"),
+  body: jsonb("body").notNull(),
+  fetchedAt: timestamp("fetched_at").defaultNow().notNull(),
+  validatedAt: timestamp("validated_at").defaultNow().notNull(),
+});
+
+// High-water marks for change-feed syncs: the (updttime, id) of the last
+// record applied, so the next run resumes exactly where this one stopped
+export const syncCursors = pgTable("sync_cursors", {
+  name: varchar("name", { length: 50 }).primaryKey(),
+  updtTime: timestamp("updt_time").notNull(),
+  mindatId: integer("mindat_id").notNull(),
+  // The record just after the mark that has failed to apply, and how many runs in a row
+  failingMindatId: integer("failing_mindat_id"),
+  failedAttempts: integer("failed_attempts").notNull().default(0),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
+// Source fields seen in Mindat API responses or CSV dumps that no entry in
+// server/services/mindat-field-mapping.ts reads, tallied per source
+export const mindatUnmappedFields = pgTable("mindat_unmapped_fields", {
+  source: varchar("source", { length: 10 }).notNull(), // api, csv
+  field: varchar("field", { length: 100 }).notNull(),
+  occurrences: integer("occurrences").notNull().default(0),
+  exampleValue: text("example_value"),
+  exampleMindatId: integer("example_mindat_id"),
+  firstSeenAt: timestamp("first_seen_at").defaultNow().notNull(),
+  lastSeenAt: timestamp("last_seen_at").defaultNow().notNull(),
+}, (table) => ({
+  pk: primaryKey({ columns: [table.source, table.field] }),
+}));
+
 export const favorites = pgTable("favorites", {
   id: serial("id").primaryKey(),
   userId: integer("user_id").references(() => users.id).notNull(),
@@ -520,6 +716,12 @@ export const insertSyncJobSchema = createInsertSchema(syncJobs).omit({
   createdAt: true,
 });
 
+export const insertSyncScheduleSchema = createInsertSchema(syncSchedules).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
 export const insertFavoriteSchema = createInsertSchema(favorites).omit({
   id: true,
   createdAt: true,
@@ -567,6 +769,23 @@ export const insertMineralChangeSchema = createInsertSchema(mineralChanges).omit
 export type InsertMineralChange = z.infer<typeof insertMineralChangeSchema>;
 export type MineralChange = typeof mineralChanges.$inferSelect;
 
+export const insertERocksMatchResultSchema = createInsertSchema(erocksMatchResults).omit({
+  id: true,
+});
+
+export type ERocksEnrichmentRun = typeof erocksEnrichmentRuns.$inferSelect;
+export type InsertERocksMatchResult = z.infer<typeof insertERocksMatchResultSchema>;
+export type ERocksMatchResult = typeof erocksMatchResults.$inferSelect;
+
+export const insertERocksOverrideSchema = createInsertSchema(erocksOverrides).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type InsertERocksOverride = z.infer<typeof insertERocksOverrideSchema>;
+export type ERocksOverride = typeof erocksOverrides.$inferSelect;
+
 export type InsertMineral = z.infer<typeof insertMineralSchema>;
 export type Mineral = typeof minerals.$inferSelect;
 
@@ -578,6 +797,14 @@ export type Locality = typeof localities.$inferSelect;
 
 export type InsertSyncJob = z.infer<typeof insertSyncJobSchema>;
 export type SyncJob = typeof syncJobs.$inferSelect;
+export type SyncJobLog = typeof syncJobLogs.$inferSelect;
+
+export type InsertSyncSchedule = z.infer<typeof insertSyncScheduleSchema>;
+export type SyncSchedule = typeof syncSchedules.$inferSelect;
+
+export type MindatApiCacheEntry = typeof mindatApiCache.$inferSelect;
+export type SyncCursor = typeof syncCursors.$inferSelect;
+export type MindatUnmappedField = typeof mindatUnmappedFields.$inferSelect;
 
 export type InsertFavorite = z.infer<typeof insertFavoriteSchema>;
 export type Favorite = typeof favorites.$inferSelect;
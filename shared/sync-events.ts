@@ -0,0 +1,50 @@
+/**
+ * Events streamed from GET /api/sync/events while sync and import jobs run.
+ *
+ * Each message is one JSON object on an SSE `data:` line. A connection opens
+ * with a `snapshot` of the jobs it covers, then receives events as they
+ * happen: queued → started → progress/record/log/error … → finished.
+ */
+
+import type { SyncJob } from './schema';
+
+export type JobLogLevel = 'info' | 'warn' | 'error';
+
+export type SyncRecordAction = 'created' | 'updated' | 'deleted' | 'merged';
+
+// A single mineral written by a sync
+export interface SyncRecordChange {
+  action: SyncRecordAction;
+  mindatId: number;
+  name?: string | null;
+  mergedIntoId?: number;
+}
+
+export interface JobSummary extends SyncJob {
+  percentComplete: number | null;
+  etaSeconds: number | null;
+}
+
+export type SyncJobEventPayload =
+  | { type: 'queued' }
+  | { type: 'started'; resumed: boolean }
+  | {
+      type: 'progress';
+      processed: number;
+      failed: number;
+      total: number | null;
+      percentComplete: number | null;
+      etaSeconds: number | null;
+    }
+  | ({ type: 'record' } & SyncRecordChange)
+  | { type: 'log'; level: JobLogLevel; message: string }
+  | { type: 'error'; message: string }
+  | { type: 'finished'; status: 'completed' | 'failed' | 'cancelled'; errorMessage: string | null };
+
+export type SyncJobEvent = SyncJobEventPayload & {
+  jobId: number;
+  jobType: string;
+  at: string;
+};
+
+export type SyncStreamMessage = SyncJobEvent | { type: 'snapshot'; jobs: JobSummary[] };
@@ -12,6 +12,18 @@ if (endId) {
   console.log(`Ending at mineral ID: ${endId}`);
 }
 
+// Poll the queued job until it finishes
+async function waitForJob(statusUrl) {
+  for (;;) {
+    const job = await fetch(`http://localhost:5000${statusUrl}`).then(res => res.json());
+    if (['completed', 'failed', 'cancelled'].includes(job.status)) return job;
+
+    const eta = job.etaSeconds != null ? `, ~${Math.ceil(job.etaSeconds / 60)} min left` : '';
+    console.log(`⏳ ${job.status}: ${job.recordsProcessed} checked${job.percentComplete != null ? ` (${job.percentComplete}%${eta})` : ''}`);
+    await new Promise(resolve => setTimeout(resolve, 10000));
+  }
+}
+
 fetch('http://localhost:5000/api/mindat/sync/incremental', {
   method: 'POST',
   headers: {
@@ -25,6 +37,17 @@ fetch('http://localhost:5000/api/mindat/sync/incremental', {
 })
 .then(res => res.json())
 .then(data => {
+  console.log(`\n📋 Queued as job ${data.jobId}\n`);
+  return waitForJob(data.statusUrl);
+})
+.then(job => {
+  if (job.status !== 'completed') {
+    console.log(`\n❌ Sync ${job.status}: ${job.errorMessage || ''}`);
+    console.log(`Resume with: curl -X POST http://localhost:5000/api/sync/jobs/${job.id}/resume`);
+    process.exit(1);
+  }
+
+  const data = job.result;
   console.log('\n✅ Sync completed!');
   console.log('================');
   console.log(`Total checked: ${data.totalChecked}`);
@@ -45,5 +68,3 @@ fetch('http://localhost:5000/api/mindat/sync/incremental', {
   console.error('❌ Error:', err.message);
   process.exit(1);
 });
-
-console.log('\n⏳ Sync running in background. Check server logs for progress...\n');